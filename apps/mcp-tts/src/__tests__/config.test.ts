@@ -4,10 +4,19 @@ import { afterEach, beforeEach, describe, expect, it } from 'vitest'
 import {
   getConfig,
   getConfigTemplate,
+  getEmotionStyles,
   getHelpText,
+  getInterruptionPolicy,
+  getSubtitleOptions,
+  getTextNormalizeOptions,
+  getTextPreprocessOptions,
+  getTextSegmentOptions,
+  getVisemeOptions,
+  getVoicevoxApiOptions,
   parseCliArgs,
   parseConfigFile,
   parseEnvVars,
+  parseVoicevoxUrls,
   resetConfigCache,
 } from '../config'
 
@@ -23,6 +32,16 @@ describe('config module', () => {
       expect(result.voicevoxUrl).toBe('http://example.com:50021')
     })
 
+    it('--engine-selection を正しくパースする', () => {
+      const result = parseCliArgs(['--engine-selection', 'least-latency'])
+      expect(result.engineSelection).toBe('least-latency')
+    })
+
+    it('--preload-speakers をカンマ区切りでパースする', () => {
+      const result = parseCliArgs(['--preload-speakers', '1,3, 8'])
+      expect(result.preloadSpeakers).toEqual(['1', '3', '8'])
+    })
+
     it('--speaker を正しくパースする', () => {
       const result = parseCliArgs(['--speaker', '3'])
       expect(result.defaultSpeaker).toBe(3)
@@ -322,6 +341,42 @@ describe('config module', () => {
       expect(getConfig(['--timeout-ms', '90000'], {}).timeoutMs).toBe(90000)
     })
 
+    it('VOICEVOX_SYNTHESIS_CACHE_SIZE でメモリに保持する合成結果の件数を変更できる', () => {
+      expect(getConfig([], {}).synthesisCacheSize).toBe(100)
+      expect(getConfig([], { VOICEVOX_SYNTHESIS_CACHE_SIZE: '0' }).synthesisCacheSize).toBe(0)
+    })
+
+    it('合成結果のディスクキャッシュは --synthesis-disk-cache を指定したときだけ有効になる', () => {
+      expect(getConfig([], {}).synthesisDiskCache).toBe(false)
+      expect(getConfig(['--synthesis-disk-cache'], {}).synthesisDiskCache).toBe(true)
+      expect(getConfig([], { VOICEVOX_SYNTHESIS_DISK_CACHE: 'true' }).synthesisDiskCache).toBe(true)
+    })
+
+    it('エンジンへの追加ヘッダーと遅いリクエストのしきい値を設定できる', () => {
+      expect(getConfig([], {}).slowRequestMs).toBe(0)
+      const result = getConfig(['--slow-request-ms', '2000'], { VOICEVOX_ENGINE_HEADERS: 'X-Api-Key: abc' })
+      expect(result.slowRequestMs).toBe(2000)
+      expect(result.engineHeaders).toEqual(['X-Api-Key: abc'])
+    })
+
+    it('--engine でエンジンプロファイルの既定の URL と話者を使う', () => {
+      expect(getConfig([], {}).engine).toBe('voicevox')
+
+      const result = getConfig(['--engine', 'AivisSpeech', '--engine-selection', 'least-latency'], {})
+      expect(result.engine).toBe('aivisspeech')
+      expect(result.engineSelection).toBe('least-latency')
+      expect(result.voicevoxUrl).toBe('http://localhost:10101')
+      expect(result.defaultSpeaker).toBe(888753760)
+
+      const explicit = getConfig(['--url', 'http://gpu:10101', '--speaker', '5'], { VOICEVOX_ENGINE: 'aivisspeech' })
+      expect(explicit.voicevoxUrl).toBe('http://gpu:10101')
+      expect(explicit.defaultSpeaker).toBe(5)
+    })
+
+    it('不明なエンジンプロファイルはエラーになる', () => {
+      expect(() => getConfig(['--engine', 'unknown'], {})).toThrow('不明なエンジンプロファイルです: unknown')
+    })
+
     it('VOICEVOX_ALLOWED_OUTPUT_DIRS で書き込み先を制限できる', () => {
       const result = getConfig([], { VOICEVOX_ALLOWED_OUTPUT_DIRS: '/data/out,/srv/out' })
       expect(result.allowedOutputDirs).toEqual(['/data/out', '/srv/out'])
@@ -505,6 +560,167 @@ describe('config module', () => {
       // 設定ファイルが次
       expect(result.voicevoxUrl).toBe('http://file:50021')
     })
+
+    it('Markdown の前処理のルールを設定ファイルで個別に切り替えられる', () => {
+      const configPath = join(tmpDir, 'markdown-config.json')
+      writeFileSync(
+        configPath,
+        JSON.stringify({ markdown: true, markdownLinks: false, 'markdown-code-blocks': 'strip' })
+      )
+
+      expect(getTextPreprocessOptions(getConfig(['--config', configPath], {}))).toEqual({
+        codeBlocks: 'strip',
+        inlineCode: true,
+        links: false,
+        lists: true,
+        emphasis: true,
+        headings: true,
+        tables: true,
+      })
+      expect(getTextPreprocessOptions(getConfig([], {}))).toBeUndefined()
+      expect(() => getConfig([], { VOICEVOX_MARKDOWN_CODE_BLOCKS: 'read' })).toThrow(
+        '不明なコードブロックの扱いです: read'
+      )
+    })
+
+    it('セグメント分割の文字数を環境変数で指定できる', () => {
+      expect(getTextSegmentOptions(getConfig([], {}))).toBeUndefined()
+      expect(
+        getTextSegmentOptions(getConfig(['--first-segment-max-length', '20'], { VOICEVOX_SEGMENT_MAX_LENGTH: '80' }))
+      ).toEqual({ minLength: undefined, maxLength: 80, firstMaxLength: 20 })
+    })
+
+    it('字幕の形式・行の長さ・区切り方を指定でき、不明な値は起動時にエラーにする', () => {
+      const config = getConfig(['--subtitles', 'srt,vtt', '--subtitle-line-length', '16'], {
+        VOICEVOX_SUBTITLE_SPLIT: 'accent-phrase',
+      })
+
+      expect(config.subtitleFormats).toEqual(['srt', 'vtt'])
+      expect(getSubtitleOptions(config)).toEqual({ maxLineLength: 16, maxLines: 2, split: 'accent-phrase' })
+      expect(getConfig([], {}).subtitleFormats).toEqual([])
+      expect(() => getConfig(['--subtitles', 'ass'], {})).toThrow('不明な字幕の形式です: ass')
+      expect(() => getConfig(['--subtitle-split', 'word'], {})).toThrow('不明な字幕の区切り方です: word')
+    })
+
+    it('優先度の既定値と割り込みの方針を指定でき、不明な優先度は起動時にエラーにする', () => {
+      expect(getConfig([], {}).defaultPriority).toBeUndefined()
+      expect(getInterruptionPolicy(getConfig([], {}))).toEqual({
+        interruptAt: 'urgent',
+        resumeInterrupted: true,
+        staleAfterMs: { low: 30000 },
+      })
+
+      const config = getConfig(['--priority', 'high', '--interrupt-at', 'none', '--no-resume-interrupted'], {
+        VOICEVOX_STALE_LOW_PRIORITY_MS: '0',
+      })
+      expect(config.defaultPriority).toBe('high')
+      expect(getInterruptionPolicy(config)).toEqual({ interruptAt: false, resumeInterrupted: false, staleAfterMs: {} })
+      expect(() => getConfig(['--priority', 'asap'], {})).toThrow('不明な優先度です: asap')
+      expect(() => getConfig([], { VOICEVOX_INTERRUPT_AT: 'never' })).toThrow('不明な優先度です: never')
+    })
+
+    it('正規化の追加ルールを設定ファイルで指定でき、不正なルールは起動時にエラーにする', () => {
+      const configPath = join(tmpDir, 'normalize-config.json')
+      writeFileSync(
+        configPath,
+        JSON.stringify({
+          normalize: true,
+          'normalize-rules': [{ pattern: '\\bk8s\\b', replacement: 'クバネティス', flags: 'i' }],
+        })
+      )
+
+      expect(getTextNormalizeOptions(getConfig(['--config', configPath], {}))).toEqual({
+        builtin: true,
+        rules: [{ pattern: '\\bk8s\\b', replacement: 'クバネティス', flags: 'i' }],
+      })
+      expect(getTextNormalizeOptions(getConfig([], {}))).toBeUndefined()
+
+      writeFileSync(
+        configPath,
+        JSON.stringify({ normalize: true, normalizeRules: [{ pattern: '(', replacement: '' }] })
+      )
+      expect(() => getConfig(['--config', configPath], {})).toThrow(/テキスト正規化のルール 1 が不正です/)
+      writeFileSync(configPath, JSON.stringify({ normalizeRules: [{ pattern: 'a' }] }))
+      expect(() => getConfig(['--config', configPath], {})).toThrow(/normalize-rules は/)
+    })
+
+    it('話者名のエイリアスを設定ファイルで指定できる', () => {
+      const configPath = join(tmpDir, 'alias-config.json')
+      writeFileSync(configPath, JSON.stringify({ 'speaker-aliases': { ナレーター: '四国めたん/ノーマル', zunda: 3 } }))
+
+      expect(getConfig(['--config', configPath], {}).speakerAliases).toEqual({
+        ナレーター: '四国めたん/ノーマル',
+        zunda: 3,
+      })
+
+      writeFileSync(configPath, JSON.stringify({ speakerAliases: { zunda: -1 } }))
+      expect(() => getConfig(['--config', configPath], {})).toThrow(/speaker-aliases は/)
+      writeFileSync(configPath, JSON.stringify({ speakerAliases: ['ずんだもん'] }))
+      expect(() => getConfig(['--config', configPath], {})).toThrow(/speaker-aliases は/)
+    })
+
+    it('感情タグは既定で無効で、--emotion-tags で有効にした対応表は設定ファイルで追加・上書きできる', () => {
+      const configPath = join(tmpDir, 'emotion-config.json')
+      writeFileSync(
+        configPath,
+        JSON.stringify({ 'emotion-tags': true, 'emotion-styles': { shy: ['あまあま'], happy: ['わーい'] } })
+      )
+
+      expect(getEmotionStyles(getConfig([], {}))).toBe(false)
+      expect(getEmotionStyles(getConfig(['--emotion-tags'], {}))).toMatchObject({ happy: expect.any(Array) })
+      const styles = getEmotionStyles(getConfig(['--config', configPath], {}))
+      expect(styles).toMatchObject({
+        shy: ['あまあま'],
+        happy: ['わーい'],
+        whisper: ['ささやき', '囁き', 'ヒソヒソ', '内緒話'],
+      })
+      expect(getEmotionStyles(getConfig(['--config', configPath, '--no-emotion-tags'], {}))).toBe(false)
+
+      writeFileSync(configPath, JSON.stringify({ emotionStyles: { shy: 'あまあま' } }))
+      expect(() => getConfig(['--config', configPath], {})).toThrow(/emotion-styles は/)
+      writeFileSync(configPath, JSON.stringify({ emotionStyles: { 'so shy': ['あまあま'] } }))
+      expect(() => getConfig(['--config', configPath], {})).toThrow(/emotion-styles は/)
+    })
+
+    it('口の形の名前と音素の対応を設定ファイルで指定できる', () => {
+      const configPath = join(tmpDir, 'viseme-config.json')
+      writeFileSync(
+        configPath,
+        JSON.stringify({ 'viseme-names': { A: 'aa', closed: 'sil' }, 'viseme-phonemes': { w: null, f: 'U' } })
+      )
+
+      const config = getConfig(['--config', configPath, '--visemes'], {})
+      expect(config.visemes).toBe(true)
+      expect(getVisemeOptions(config)).toEqual({ names: { A: 'aa', closed: 'sil' }, phonemes: { w: null, f: 'U' } })
+
+      writeFileSync(configPath, JSON.stringify({ visemeNames: { X: 'x' } }))
+      expect(() => getConfig(['--config', configPath], {})).toThrow(/viseme-names は/)
+      writeFileSync(configPath, JSON.stringify({ visemePhonemes: { m: 'M' } }))
+      expect(() => getConfig(['--config', configPath], {})).toThrow(/viseme-phonemes は/)
+    })
+  })
+
+  describe('parseVoicevoxUrls', () => {
+    it('カンマ区切りの URL を配列に変換する', () => {
+      expect(parseVoicevoxUrls('http://a:50021, http://b:50021,')).toEqual(['http://a:50021', 'http://b:50021'])
+    })
+
+    it('単一の URL はそのまま配列にする', () => {
+      expect(parseVoicevoxUrls('http://localhost:50021')).toEqual(['http://localhost:50021'])
+    })
+  })
+
+  describe('getVoicevoxApiOptions', () => {
+    it('タイムアウト・エンジンの種類・リクエストフックを含める', () => {
+      const options = getVoicevoxApiOptions(
+        getConfig(['--engine', 'aivisspeech', '--timeout-ms', '5000', '--engine-header', 'X-Api-Key: abc'], {})
+      )
+
+      expect(options.engineProfile).toBe('aivisspeech')
+      expect(options.timeoutMs).toBe(5000)
+      expect(options.onRequest).toBeDefined()
+      expect(options.onRetry).toBeDefined()
+    })
   })
 
   describe('getHelpText', () => {
@@ -550,6 +766,10 @@ describe('config module', () => {
       expect(template).toHaveProperty('speaker', 1)
       expect(template).toHaveProperty('speed', 1.0)
       expect(template).toHaveProperty('immediate', true)
+      expect(template).toHaveProperty('normalize-rules', [])
+      expect(template).toHaveProperty('speaker-aliases', {})
+      expect(template).toHaveProperty('emotion-styles', {})
+      expect(template).toHaveProperty('viseme-names', {})
     })
   })
 })
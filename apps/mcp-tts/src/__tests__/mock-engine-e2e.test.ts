@@ -0,0 +1,234 @@
+/**
+ * モックエンジンに接続した MCP サーバーを、MCP クライアントからツール呼び出しで操作する。
+ * 実際のエンジンが無くても、ツールの登録からエンジンへのリクエストまでを通しで確認できる。
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { SynthesisCache, VoicevoxClient } from '@kajidog/voicevox-client'
+import { MockEngine, type MockEngineServer } from '@kajidog/voicevox-mock-engine'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createServer, loadEngineCapabilities } from '../server.js'
+
+describe('MCP server against the mock engine', () => {
+  const engine = new MockEngine()
+  let engineServer: MockEngineServer
+  let mcpClient: Client
+  let outputDir: string
+
+  beforeAll(async () => {
+    engineServer = await engine.listen(0)
+    outputDir = mkdtempSync(join(tmpdir(), 'mcp-tts-e2e-'))
+
+    const voicevoxClient = new VoicevoxClient({
+      url: engineServer.url,
+      defaultSpeaker: 1,
+      retryDelayMs: 1,
+      synthesisCache: new SynthesisCache(),
+      defaultPlaybackOptions: { immediate: false },
+    })
+    await loadEngineCapabilities(voicevoxClient)
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    await createServer(voicevoxClient).connect(serverTransport)
+    mcpClient = new Client({ name: 'e2e-test', version: '0.0.0' })
+    await mcpClient.connect(clientTransport)
+  })
+
+  afterAll(async () => {
+    await mcpClient.close()
+    await engineServer.close()
+    rmSync(outputDir, { recursive: true, force: true })
+  })
+
+  beforeEach(() => {
+    engine.clearFaults()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  const callTool = (name: string, args: Record<string, unknown> = {}) =>
+    mcpClient.callTool({ name, arguments: args }) as Promise<{ content: { text: string }[]; isError?: boolean }>
+
+  it('エンジンが対応していない機能のツールは登録されない', async () => {
+    const { tools } = await mcpClient.listTools()
+    const names = tools.map((tool) => tool.name)
+
+    expect(names).toContain('voicevox_synthesize_file')
+    expect(names).not.toContain('voicevox_sing')
+    expect(names).not.toContain('voicevox_synthesize_morph')
+  })
+
+  it('voicevox_ping はモックエンジンのバージョンを返す', async () => {
+    const result = await callTool('voicevox_ping')
+
+    expect(result.content[0].text).toBe(`VOICEVOX is running at ${engineServer.url} (v0.0.0-mock)`)
+  })
+
+  it('voicevox_get_speakers は話者一覧を返す', async () => {
+    const result = await callTool('voicevox_get_speakers')
+
+    expect(JSON.parse(result.content[0].text)).toContainEqual({
+      speaker: 3,
+      name: 'ずんだもん:ノーマル',
+      initialized: false,
+    })
+  })
+
+  it('voicevox_synthesize_file は一時的な 5xx をリトライして WAV を書き出す', async () => {
+    engine.setFaults([{ type: 'error', status: 503, path: '/synthesis', times: 1 }])
+    const output = join(outputDir, 'hello.wav')
+
+    const result = await callTool('voicevox_synthesize_file', { text: 'こんにちは', output, speaker: 3 })
+
+    expect(result.isError).toBeFalsy()
+    expect(readFileSync(output).subarray(0, 4).toString()).toBe('RIFF')
+  })
+
+  it('voicevox_synthesize_file は保存先と一緒に音声の長さとアクセント句ごとの時刻を返す', async () => {
+    const output = join(outputDir, 'timing.wav')
+
+    const result = await callTool('voicevox_synthesize_file', { text: 'こんにちは、世界', output, speaker: 3 })
+
+    const [filePath, duration, timing] = result.content[0].text.split('\n')
+    expect(filePath).toBe(output)
+    expect(duration).toMatch(/^Duration: \d+(\.\d+)?s$/)
+    const phrases = JSON.parse(timing.replace(/^Timing: /, ''))
+    expect(phrases.length).toBeGreaterThan(0)
+    expect(phrases[0].start).toBeLessThan(phrases[0].end)
+    expect(phrases.at(-1).end).toBeLessThanOrEqual(Number(duration.match(/[\d.]+/)![0]))
+  })
+
+  it('同じ文の音声ファイル生成は合成結果キャッシュを使う', async () => {
+    const synthesisRequests = () => engine.requests.filter((request) => request.path === '/synthesis').length
+    const before = synthesisRequests()
+
+    await callTool('voicevox_synthesize_file', {
+      text: 'ビルドが完了しました',
+      output: join(outputDir, 'a.wav'),
+      speaker: 3,
+    })
+    await callTool('voicevox_synthesize_file', {
+      text: 'ビルドが完了しました',
+      output: join(outputDir, 'b.wav'),
+      speaker: 3,
+    })
+
+    expect(synthesisRequests() - before).toBe(1)
+    expect(readFileSync(join(outputDir, 'b.wav'))).toEqual(readFileSync(join(outputDir, 'a.wav')))
+  })
+
+  it('voicevox_synthesize_file は kana 指定で AquesTalk 風記法から合成する', async () => {
+    const before = engine.requests.length
+    const output = join(outputDir, 'kana.wav')
+
+    const result = await callTool('voicevox_synthesize_file', {
+      text: 'unused',
+      kana: "コンニチワ'/セ'カイ",
+      output,
+      speaker: 3,
+    })
+
+    expect(result.isError).toBeFalsy()
+    expect(readFileSync(output).subarray(0, 4).toString()).toBe('RIFF')
+    const paths = engine.requests.slice(before).map((request) => request.path)
+    expect(paths).toContain('/accent_phrases')
+    expect(paths).not.toContain('/audio_query')
+  })
+
+  it('読み仮名の記法エラーはエンジンの説明付きで返る', async () => {
+    const result = await callTool('voicevox_synthesize_file', {
+      text: 'unused',
+      kana: 'コンニチワ',
+      output: join(outputDir, 'invalid-kana.wav'),
+      speaker: 3,
+    })
+
+    expect(result.isError).toBe(true)
+    const text = result.content[0].text
+    expect(text).toContain('HTTP status: 400')
+    expect(text).toContain('Engine detail: アクセントが指定されていません: コンニチワ')
+  })
+
+  it('voicevox_synthesize_file は ssml の <voice> ごとに合成して 1 つの WAV にまとめる', async () => {
+    const before = engine.requests.length
+    const output = join(outputDir, 'ssml.wav')
+
+    const result = await callTool('voicevox_synthesize_file', {
+      text: 'unused',
+      ssml: '<speak><voice name="四国めたん">こんにちは</voice><break time="300ms"/><voice name="ずんだもん/あまあま">なのだ</voice></speak>',
+      output,
+    })
+
+    expect(result.isError).toBeFalsy()
+    const wav = readFileSync(output)
+    expect(wav.subarray(0, 4).toString()).toBe('RIFF')
+    expect(wav.readUInt32LE(40)).toBe(wav.length - 44)
+    const synthesis = engine.requests.slice(before).filter((request) => request.path === '/synthesis')
+    expect(synthesis.map((request) => new URLSearchParams(request.search).get('speaker'))).toEqual(['2', '1'])
+  })
+
+  it('voicevox_synthesize_file は話者ごとのラベル付きの字幕を WAV の横に書き出す', async () => {
+    const output = join(outputDir, 'subtitles.wav')
+
+    const result = await callTool('voicevox_synthesize_file', {
+      text: '四国めたん:こんにちは、世界。\nずんだもん:なのだ。',
+      output,
+      subtitles: ['srt', 'vtt'],
+    })
+
+    expect(result.isError).toBeFalsy()
+    const srtPath = join(outputDir, 'subtitles.srt')
+    const vttPath = join(outputDir, 'subtitles.vtt')
+    expect(result.content[0].text.split('\n').at(-1)).toBe(`Subtitles: ${srtPath}, ${vttPath}`)
+    const srt = readFileSync(srtPath, 'utf-8')
+    expect(srt).toMatch(/^1\n\d{2}:\d{2}:\d{2},\d{3} --> \d{2}:\d{2}:\d{2},\d{3}\n四国めたん: こんにちは\n/)
+    expect(srt).toContain('ずんだもん: なのだ')
+    const vtt = readFileSync(vttPath, 'utf-8')
+    expect(vtt.startsWith('WEBVTT\n')).toBe(true)
+    expect(vtt).toContain('<v ずんだもん>なのだ')
+  })
+
+  it('voicevox_synthesize_file は音声と同じ時刻の口の形のタイムラインを書き出し、voicevox_get_visemes も同じ値を返す', async () => {
+    const output = join(outputDir, 'lipsync.wav')
+
+    const result = await callTool('voicevox_synthesize_file', { text: 'こんにちは', output, speaker: 3, visemes: true })
+
+    const visemePath = join(outputDir, 'lipsync.visemes.json')
+    const lines = result.content[0].text.split('\n')
+    expect(lines.at(-1)).toBe(`Visemes: ${visemePath}`)
+    const timeline = JSON.parse(readFileSync(visemePath, 'utf-8'))
+    expect(timeline.duration).toBe(Number(lines[1].match(/[\d.]+/)![0]))
+    expect(timeline.visemes[0]).toMatchObject({ viseme: 'closed', start: 0 })
+    expect(timeline.visemes.at(-1).end).toBe(timeline.duration)
+    expect(timeline.visemes.some((cue: { viseme: string }) => cue.viseme !== 'closed')).toBe(true)
+
+    const tool = await callTool('voicevox_get_visemes', { text: 'こんにちは', speaker: 3 })
+    expect(JSON.parse(tool.content[0].text)).toEqual(timeline)
+  })
+
+  it('エンジンのエラーはツールのエラーとして返る', async () => {
+    engine.setFaults([{ type: 'error', path: '/speakers' }])
+
+    const result = await callTool('voicevox_get_speakers')
+
+    expect(result.isError).toBe(true)
+  })
+  it('エンジンのバリデーションエラーはエラーコードと詳細付きで返る', async () => {
+    const result = await callTool('voicevox_synthesize_file', {
+      text: 'こんにちは',
+      output: join(outputDir, 'invalid.wav'),
+      speaker: 999,
+    })
+
+    expect(result.isError).toBe(true)
+    const text = result.content[0].text
+    expect(text).toContain('Code: validation_error')
+    expect(text).toContain('HTTP status: 422')
+    expect(text).toContain('Endpoint: /audio_query')
+    expect(text).toContain('Engine detail: 該当するスタイルが見つかりません')
+    expect(text).toContain('Hint: The engine rejected the request.')
+  })
+})
@@ -72,6 +72,12 @@ describe('playback restrictions', () => {
       expect(config.restrictWaitForEnd).toBe(true)
     })
 
+    it('--restrict-priority で priority を制限できる', () => {
+      const config = getConfig(['--restrict-priority'], {})
+
+      expect(config.restrictPriority).toBe(true)
+    })
+
     it('全ての制限を同時に設定できる', () => {
       const config = getConfig(['--restrict-immediate', '--restrict-wait-for-start', '--restrict-wait-for-end'], {})
 
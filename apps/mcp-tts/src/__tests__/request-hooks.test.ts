@@ -0,0 +1,78 @@
+import { VoicevoxError, type VoicevoxRequestContext } from '@kajidog/voicevox-client'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createRequestHooks, parseEngineHeaders } from '../request-hooks'
+
+const createContext = (): VoicevoxRequestContext => ({
+  method: 'POST',
+  engine: 'http://localhost:50021',
+  endpoint: '/audio_query?text=%E3%81%82&speaker=1',
+  url: 'http://localhost:50021/audio_query?text=%E3%81%82&speaker=1',
+  headers: { 'Content-Type': 'application/json' },
+  attempt: 0,
+  startedAt: Date.now(),
+})
+
+describe('request hooks', () => {
+  let errorSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('parseEngineHeaders は "Name: value" を解釈し、不正な値は無視する', () => {
+    expect(parseEngineHeaders(['X-Api-Key: abc', 'Authorization: Bearer a:b', 'invalid'])).toEqual({
+      'X-Api-Key': 'abc',
+      Authorization: 'Bearer a:b',
+    })
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('"invalid"'))
+  })
+
+  it('engineHeaders をリクエストヘッダーに追加する', async () => {
+    const { onRequest } = createRequestHooks({ engineHeaders: ['X-Api-Key: abc'], slowRequestMs: 0 })
+    const context = createContext()
+
+    await onRequest?.(context)
+
+    expect(context.headers).toEqual({ 'Content-Type': 'application/json', 'X-Api-Key': 'abc' })
+  })
+
+  it('しきい値以上かかったリクエストだけをクエリ文字列なしでログに出す', async () => {
+    const { onResponse } = createRequestHooks({ slowRequestMs: 1000 })
+
+    await onResponse?.({ ...createContext(), status: 200, ok: true, durationMs: 999 })
+    expect(errorSpy).not.toHaveBeenCalled()
+
+    await onResponse?.({ ...createContext(), status: 200, ok: true, durationMs: 1500 })
+    expect(errorSpy).toHaveBeenCalledWith(
+      '[mcp-tts] Slow VOICEVOX request: POST /audio_query took 1500ms (http://localhost:50021, 200)'
+    )
+  })
+
+  it('設定が無ければヘッダー追加・遅延ログのフックは作らない', () => {
+    const hooks = createRequestHooks({ slowRequestMs: 0 })
+
+    expect(hooks.onRequest).toBeUndefined()
+    expect(hooks.onResponse).toBeUndefined()
+    expect(hooks.onRetry).toBeDefined()
+  })
+
+  it('再試行をログに出す', async () => {
+    const { onRetry } = createRequestHooks({ slowRequestMs: 0 })
+
+    await onRetry?.({
+      ...createContext(),
+      error: new VoicevoxError('APIリクエストに失敗しました: 503'),
+      durationMs: 10,
+      delayMs: 250,
+      nextEngine: 'http://localhost:50021',
+    })
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      '[mcp-tts] Retrying POST /audio_query in 250ms (http://localhost:50021: APIリクエストに失敗しました: 503)'
+    )
+  })
+})
@@ -0,0 +1,100 @@
+import { mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { SynthesisCache } from '@kajidog/voicevox-client'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { createPlayerSynthesisCache, createSynthesisCache, removeLegacyPlayerAudioCache } from '../synthesis-cache'
+
+let dir: string
+const baseConfig = () => ({
+  synthesisCacheSize: 100,
+  synthesisDiskCache: false,
+  playerCacheDir: dir,
+  playerAudioCacheEnabled: true,
+  playerAudioCacheTtlDays: 30,
+  playerAudioCacheMaxMb: 512,
+})
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'mcp-tts-synthesis-cache-'))
+})
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+describe('createSynthesisCache', () => {
+  it('既定ではメモリだけに保持し、ディスクには書き込まない', async () => {
+    const cache = createSynthesisCache(baseConfig())
+    await cache?.set('a'.repeat(64), new ArrayBuffer(4))
+
+    expect(cache).toBeDefined()
+    expect(await cache?.get('a'.repeat(64))).toEqual(new ArrayBuffer(4))
+    expect(readdirSync(dir)).toEqual([])
+  })
+
+  it('--synthesis-disk-cache を指定するとプレーヤーのキャッシュディレクトリに WAV を保存する', async () => {
+    const key = 'b'.repeat(64)
+
+    await createSynthesisCache({ ...baseConfig(), synthesisDiskCache: true })?.set(key, new ArrayBuffer(4))
+
+    expect(readdirSync(dir)).toContain(`${key}.wav`)
+  })
+
+  it('期限・上限の設定でディスクキャッシュを無効にするとメモリだけに保持する', async () => {
+    const cache = createSynthesisCache({ ...baseConfig(), synthesisDiskCache: true, playerAudioCacheTtlDays: 0 })
+    await cache?.set('c'.repeat(64), new ArrayBuffer(4))
+
+    expect(cache).toBeDefined()
+    expect(readdirSync(dir)).toEqual([])
+  })
+
+  it('メモリ・ディスクとも無効ならキャッシュを作らない', () => {
+    expect(createSynthesisCache({ ...baseConfig(), synthesisCacheSize: 0 })).toBeUndefined()
+  })
+})
+
+describe('createPlayerSynthesisCache', () => {
+  it('共有キャッシュがディスクに保存しない場合は、プレーヤー用にディスクに保存するキャッシュを作る', async () => {
+    const shared = createSynthesisCache(baseConfig())
+    const key = 'd'.repeat(64)
+
+    const cache = createPlayerSynthesisCache(baseConfig(), shared)
+    await cache?.set(key, new ArrayBuffer(4))
+
+    expect(cache).not.toBe(shared)
+    expect(readdirSync(dir)).toContain(`${key}.wav`)
+  })
+
+  it('共有キャッシュがディスクに保存する場合はそれを使う', () => {
+    const config = { ...baseConfig(), synthesisDiskCache: true }
+    const shared = createSynthesisCache(config)
+
+    expect(createPlayerSynthesisCache(config, shared)).toBe(shared)
+  })
+
+  it('--no-player-audio-cache なら共有キャッシュを使う', () => {
+    const config = { ...baseConfig(), playerAudioCacheEnabled: false }
+    const shared = new SynthesisCache()
+
+    expect(createPlayerSynthesisCache(config, shared)).toBe(shared)
+  })
+})
+
+describe('removeLegacyPlayerAudioCache', () => {
+  it('以前のプレーヤー専用キャッシュ（*.txt）だけを削除する', async () => {
+    const legacy = `${'e'.repeat(64)}.txt`
+    const current = `${'f'.repeat(64)}.wav`
+    for (const name of [legacy, current, 'player-state.json', 'notes.txt']) {
+      writeFileSync(join(dir, name), 'x')
+    }
+
+    await expect(removeLegacyPlayerAudioCache(dir)).resolves.toBe(1)
+
+    expect(readdirSync(dir).sort()).toEqual([current, 'notes.txt', 'player-state.json'].sort())
+  })
+
+  it('ディレクトリが無ければ何もしない', async () => {
+    await expect(removeLegacyPlayerAudioCache(join(dir, 'missing'))).resolves.toBe(0)
+  })
+})
@@ -1,6 +1,6 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { getConfig, resetConfigCache } from '../config'
-import { expandGroups, TOOL_GROUPS } from '../tool-groups'
+import { expandGroups, getUnsupportedTools, TOOL_GROUPS } from '../tool-groups'
 import { registerGetPlayerStateTool } from '../tools/player/get-player-state-tool'
 import { registerResynthesizePlayerTool } from '../tools/player/resynthesize-player-tool'
 import type { PlayerRuntime } from '../tools/player/runtime'
@@ -148,6 +148,30 @@ describe('tool groups (--disable-groups)', () => {
     })
   })
 
+  describe('getUnsupportedTools', () => {
+    const capabilities = (
+      features: Partial<Record<'pauseLength' | 'morphing' | 'singing' | 'userDictionary', boolean>>
+    ) => ({
+      features: { pauseLength: true, morphing: true, singing: true, userDictionary: true, ...features },
+    })
+
+    it('エンジン情報が未取得なら何も隠さない', () => {
+      expect(getUnsupportedTools(undefined)).toEqual([])
+    })
+
+    it('非対応の機能に対応するツールを返す', () => {
+      const tools = getUnsupportedTools(capabilities({ singing: false, morphing: false }))
+      expect(tools).toEqual(['sing', 'get_singers', 'synthesize_morph'])
+    })
+
+    it('ユーザー辞書非対応でも get_accent_phrases は残す', () => {
+      const tools = getUnsupportedTools(capabilities({ userDictionary: false }))
+      expect(tools).toContain('add_user_dictionary_word')
+      expect(tools).toContain('open_dictionary_ui')
+      expect(tools).not.toContain('get_accent_phrases')
+    })
+  })
+
   describe('getConfig with disabled groups', () => {
     it('VOICEVOX_DISABLED_GROUPS で player グループを無効化できる', () => {
       process.env.VOICEVOX_DISABLED_GROUPS = 'player'
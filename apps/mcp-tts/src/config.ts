@@ -18,27 +18,88 @@ import {
   parseConfigFileFromDefs,
   parseEnvFromDefs,
 } from '@kajidog/mcp-core'
+import {
+  type CodeBlockMode,
+  createTextNormalizer,
+  DEFAULT_EMOTION_STYLES,
+  type EmotionStyleMap,
+  type EngineProfileName,
+  type EngineSelectionStrategy,
+  type InterruptionPolicy,
+  QUEUE_PRIORITIES,
+  type QueuePriority,
+  resolveEngineProfile,
+  type SpeakerAliases,
+  type SubtitleOptions,
+  type SubtitleSplit,
+  type TextNormalizeOptions,
+  type TextNormalizeRule,
+  type TextPreprocessOptions,
+  type TextSegmentOptions,
+  type Viseme,
+  type VisemeOptions,
+  type VisemePhonemeMap,
+  type VoicevoxApiOptions,
+} from '@kajidog/voicevox-client'
+import { createRequestHooks } from './request-hooks.js'
 
 // VOICEVOX固有の設定定義
 const voicevoxConfigDefs: ConfigDefs = {
+  engine: {
+    cli: '--engine',
+    env: 'VOICEVOX_ENGINE',
+    description:
+      'Engine compatibility profile (voicevox, aivisspeech, sharevox). Sets the default URL and speaker, and drops query fields the engine does not accept',
+    group: 'Voicevox Configuration',
+    type: 'string',
+    default: 'voicevox',
+    valueName: '<name>',
+  },
   voicevoxUrl: {
     cli: '--url',
     env: 'VOICEVOX_URL',
-    description: 'VOICEVOX Engine URL',
+    description:
+      'VOICEVOX Engine URL (comma-separated for multiple engines with load balancing and failover, default: from --engine)',
     group: 'Voicevox Configuration',
     type: 'string',
     default: 'http://localhost:50021',
     valueName: '<url>',
   },
+  engineSelection: {
+    cli: '--engine-selection',
+    env: 'VOICEVOX_ENGINE_SELECTION',
+    description: 'How to pick an engine when multiple URLs are given (round-robin, least-latency)',
+    group: 'Voicevox Configuration',
+    type: 'string',
+    default: 'round-robin',
+    valueName: '<strategy>',
+  },
   defaultSpeaker: {
     cli: '--speaker',
     env: 'VOICEVOX_DEFAULT_SPEAKER',
-    description: 'Default speaker ID',
+    description: 'Default speaker ID (default: from --engine)',
     group: 'Voicevox Configuration',
     type: 'number',
     default: 1,
     valueName: '<id>',
   },
+  defaultSinger: {
+    cli: '--singer',
+    env: 'VOICEVOX_DEFAULT_SINGER',
+    description: 'Default singing style ID for voicevox_sing (default: first singer reported by the engine)',
+    group: 'Voicevox Configuration',
+    type: 'number',
+    valueName: '<id>',
+  },
+  preloadSpeakers: {
+    cli: '--preload-speakers',
+    env: 'VOICEVOX_PRELOAD_SPEAKERS',
+    description:
+      'Comma-separated style IDs to load into the engine at startup (shortens the first speak for those styles)',
+    group: 'Voicevox Configuration',
+    type: 'string[]',
+    valueName: '<ids>',
+  },
   defaultSpeedScale: {
     cli: '--speed',
     env: 'VOICEVOX_DEFAULT_SPEED_SCALE',
@@ -75,6 +136,43 @@ const voicevoxConfigDefs: ConfigDefs = {
     default: 30000,
     valueName: '<ms>',
   },
+  engineHeaders: {
+    cli: '--engine-header',
+    env: 'VOICEVOX_ENGINE_HEADERS',
+    description:
+      'Extra HTTP headers sent to the engine, as "Name: value" (comma-separated), e.g. for a reverse proxy in front of the engine',
+    group: 'Voicevox Configuration',
+    type: 'string[]',
+    valueName: '<headers>',
+  },
+  synthesisCacheSize: {
+    cli: '--synthesis-cache-size',
+    env: 'VOICEVOX_SYNTHESIS_CACHE_SIZE',
+    description:
+      'Number of synthesized clips kept in memory and reused for the same speaker and audio query (0 disables the memory cache)',
+    group: 'Voicevox Configuration',
+    type: 'number',
+    default: 100,
+    valueName: '<count>',
+  },
+  synthesisDiskCache: {
+    cli: '--synthesis-disk-cache',
+    env: 'VOICEVOX_SYNTHESIS_DISK_CACHE',
+    description:
+      'Also keep synthesized audio from speak and synthesize_file on disk in --player-cache-dir (retention follows --player-audio-cache-ttl-days / --player-audio-cache-max-mb)',
+    group: 'Voicevox Configuration',
+    type: 'boolean',
+    default: false,
+  },
+  slowRequestMs: {
+    cli: '--slow-request-ms',
+    env: 'VOICEVOX_SLOW_REQUEST_MS',
+    description: 'Log VOICEVOX API requests that take at least this many milliseconds (0 disables)',
+    group: 'Voicevox Configuration',
+    type: 'number',
+    default: 0,
+    valueName: '<ms>',
+  },
   useStreaming: {
     cli: '--use-streaming',
     env: 'VOICEVOX_USE_STREAMING',
@@ -91,6 +189,170 @@ const voicevoxConfigDefs: ConfigDefs = {
     type: 'number',
     valueName: '<sec>',
   },
+  markdown: {
+    cli: '--markdown',
+    env: 'VOICEVOX_MARKDOWN',
+    description: 'Preprocess Markdown in text before reading it (each rule can be turned off below)',
+    group: 'Text Preprocessing',
+    type: 'boolean',
+    default: false,
+  },
+  markdownCodeBlocks: {
+    cli: '--markdown-code-blocks',
+    env: 'VOICEVOX_MARKDOWN_CODE_BLOCKS',
+    description: 'How to read fenced code blocks: announce (say that code is skipped), strip, keep',
+    group: 'Text Preprocessing',
+    type: 'string',
+    default: 'announce',
+    valueName: '<mode>',
+  },
+  markdownInlineCode: {
+    cli: '--markdown-inline-code',
+    env: 'VOICEVOX_MARKDOWN_INLINE_CODE',
+    description: 'Drop the backticks around inline code',
+    group: 'Text Preprocessing',
+    type: 'boolean',
+    default: true,
+  },
+  markdownLinks: {
+    cli: '--markdown-links',
+    env: 'VOICEVOX_MARKDOWN_LINKS',
+    description: 'Read link text instead of URLs (bare URLs are read as their host name)',
+    group: 'Text Preprocessing',
+    type: 'boolean',
+    default: true,
+  },
+  markdownLists: {
+    cli: '--markdown-lists',
+    env: 'VOICEVOX_MARKDOWN_LISTS',
+    description: 'Drop list markers and read each list item as a separate segment',
+    group: 'Text Preprocessing',
+    type: 'boolean',
+    default: true,
+  },
+  markdownEmphasis: {
+    cli: '--markdown-emphasis',
+    env: 'VOICEVOX_MARKDOWN_EMPHASIS',
+    description: 'Drop emphasis and strikethrough markers (** * __ _ ~~)',
+    group: 'Text Preprocessing',
+    type: 'boolean',
+    default: true,
+  },
+  markdownHeadings: {
+    cli: '--markdown-headings',
+    env: 'VOICEVOX_MARKDOWN_HEADINGS',
+    description: 'Drop heading (#), quote (>) and horizontal rule markers',
+    group: 'Text Preprocessing',
+    type: 'boolean',
+    default: true,
+  },
+  markdownTables: {
+    cli: '--markdown-tables',
+    env: 'VOICEVOX_MARKDOWN_TABLES',
+    description: 'Drop table pipes and separator rows, reading each row as a separate segment',
+    group: 'Text Preprocessing',
+    type: 'boolean',
+    default: true,
+  },
+  normalize: {
+    cli: '--normalize',
+    env: 'VOICEVOX_NORMALIZE',
+    description:
+      'Rewrite dates, times, versions, units, symbols and acronyms into readable Japanese before query generation (add regex rules with "normalize-rules" in the config file)',
+    group: 'Text Preprocessing',
+    type: 'boolean',
+    default: false,
+  },
+  normalizeBuiltin: {
+    cli: '--normalize-builtin',
+    env: 'VOICEVOX_NORMALIZE_BUILTIN',
+    description: 'Use the built-in normalization rules (turn off to apply only the rules from the config file)',
+    group: 'Text Preprocessing',
+    type: 'boolean',
+    default: true,
+  },
+  emotionTags: {
+    cli: '--emotion-tags',
+    env: 'VOICEVOX_EMOTION_TAGS',
+    description:
+      'Read inline emotion tags such as [happy] or [whisper] with the matching style of the current character (add or override tags with "emotion-styles" in the config file)',
+    group: 'Text Preprocessing',
+    type: 'boolean',
+    default: false,
+  },
+  minSegmentLength: {
+    cli: '--segment-min-length',
+    env: 'VOICEVOX_SEGMENT_MIN_LENGTH',
+    description:
+      'Join short sentences until a speech segment reaches this many characters (default: the max length). Setting any segment length splits each line of text into sentences',
+    group: 'Text Preprocessing',
+    type: 'number',
+    valueName: '<chars>',
+  },
+  maxSegmentLength: {
+    cli: '--segment-max-length',
+    env: 'VOICEVOX_SEGMENT_MAX_LENGTH',
+    description: 'Split sentences longer than this many characters at commas or spaces (default: 150)',
+    group: 'Text Preprocessing',
+    type: 'number',
+    valueName: '<chars>',
+  },
+  firstSegmentMaxLength: {
+    cli: '--first-segment-max-length',
+    env: 'VOICEVOX_FIRST_SEGMENT_MAX_LENGTH',
+    description:
+      'Keep the first speech segment at most this many characters so playback starts quickly (default: the max length)',
+    group: 'Text Preprocessing',
+    type: 'number',
+    valueName: '<chars>',
+  },
+  subtitleFormats: {
+    cli: '--subtitles',
+    env: 'VOICEVOX_SUBTITLES',
+    description:
+      'Comma-separated subtitle formats (srt, vtt) written next to the WAV by synthesize_file and player track export unless the request specifies its own',
+    group: 'Subtitle Options',
+    type: 'string[]',
+    default: [],
+    valueName: '<formats>',
+  },
+  subtitleMaxLineLength: {
+    cli: '--subtitle-line-length',
+    env: 'VOICEVOX_SUBTITLE_LINE_LENGTH',
+    description: 'Maximum characters per subtitle line',
+    group: 'Subtitle Options',
+    type: 'number',
+    default: 20,
+    valueName: '<chars>',
+  },
+  subtitleMaxLines: {
+    cli: '--subtitle-max-lines',
+    env: 'VOICEVOX_SUBTITLE_MAX_LINES',
+    description: 'Maximum lines per subtitle cue',
+    group: 'Subtitle Options',
+    type: 'number',
+    default: 2,
+    valueName: '<lines>',
+  },
+  subtitleSplit: {
+    cli: '--subtitle-split',
+    env: 'VOICEVOX_SUBTITLE_SPLIT',
+    description:
+      'Where subtitle cues break: punctuation (one cue per clause) or accent-phrase (fill cues up to the line limits, breaking at sentence ends)',
+    group: 'Subtitle Options',
+    type: 'string',
+    default: 'punctuation',
+    valueName: '<mode>',
+  },
+  visemes: {
+    cli: '--visemes',
+    env: 'VOICEVOX_VISEMES',
+    description:
+      'Write a lip-sync viseme timeline (<name>.visemes.json) next to the WAV from synthesize_file and player track export unless the request says otherwise',
+    group: 'Lip Sync Options',
+    type: 'boolean',
+    default: false,
+  },
   defaultImmediate: {
     cli: '--immediate',
     env: 'VOICEVOX_DEFAULT_IMMEDIATE',
@@ -115,6 +377,43 @@ const voicevoxConfigDefs: ConfigDefs = {
     type: 'boolean',
     default: false,
   },
+  defaultPriority: {
+    cli: '--priority',
+    env: 'VOICEVOX_DEFAULT_PRIORITY',
+    description:
+      'Default queue priority for speak: low, normal, high, urgent. When a priority is set, immediate no longer clears the queue (default: unset)',
+    group: 'Playback Options',
+    type: 'string',
+    valueName: '<level>',
+  },
+  interruptAt: {
+    cli: '--interrupt-at',
+    env: 'VOICEVOX_INTERRUPT_AT',
+    description:
+      'Lowest priority that interrupts a lower-priority item that is playing: low, normal, high, urgent, or none',
+    group: 'Playback Options',
+    type: 'string',
+    default: 'urgent',
+    valueName: '<level>',
+  },
+  resumeInterrupted: {
+    cli: '--resume-interrupted',
+    env: 'VOICEVOX_RESUME_INTERRUPTED',
+    description: 'Replay an interrupted item from the start after the interrupting item (off discards it)',
+    group: 'Playback Options',
+    type: 'boolean',
+    default: true,
+  },
+  staleLowPriorityMs: {
+    cli: '--stale-low-priority-ms',
+    env: 'VOICEVOX_STALE_LOW_PRIORITY_MS',
+    description:
+      'Drop low-priority items that have not started playing this many milliseconds after speak (0 keeps them)',
+    group: 'Playback Options',
+    type: 'number',
+    default: 30000,
+    valueName: '<ms>',
+  },
   restrictImmediate: {
     cli: '--restrict-immediate',
     env: 'VOICEVOX_RESTRICT_IMMEDIATE',
@@ -139,6 +438,14 @@ const voicevoxConfigDefs: ConfigDefs = {
     type: 'boolean',
     default: false,
   },
+  restrictPriority: {
+    cli: '--restrict-priority',
+    env: 'VOICEVOX_RESTRICT_PRIORITY',
+    description: 'Restrict AI from using priority option',
+    group: 'Restriction Options',
+    type: 'boolean',
+    default: false,
+  },
   allowedOutputDirs: {
     cli: '--allowed-output-dirs',
     env: 'VOICEVOX_ALLOWED_OUTPUT_DIRS',
@@ -194,7 +501,7 @@ const voicevoxConfigDefs: ConfigDefs = {
   playerCacheDir: {
     cli: '--player-cache-dir',
     env: 'VOICEVOX_PLAYER_CACHE_DIR',
-    description: 'Player cache directory',
+    description: 'Cache directory for synthesized audio (*.wav) and the player state',
     group: 'UI Player Options',
     type: 'string',
     valueName: '<dir>',
@@ -261,24 +568,77 @@ export const allConfigDefs: ConfigDefs = {
 // 設定型定義（BaseServerConfigを拡張）
 export interface ServerConfig extends BaseServerConfig {
   // VOICEVOX設定
+  engine: EngineProfileName
   voicevoxUrl: string
+  engineSelection: EngineSelectionStrategy
   defaultSpeaker: number
+  defaultSinger?: number
+  preloadSpeakers?: string[]
   defaultSpeedScale: number
   retryCount: number
   retryDelayMs: number
   timeoutMs: number
+  engineHeaders?: string[]
+  synthesisCacheSize: number
+  synthesisDiskCache: boolean
+  slowRequestMs: number
   useStreaming?: boolean
   defaultPostPhonemeLength?: number
 
+  // Markdown の前処理
+  markdown: boolean
+  markdownCodeBlocks: CodeBlockMode
+  markdownInlineCode: boolean
+  markdownLinks: boolean
+  markdownLists: boolean
+  markdownEmphasis: boolean
+  markdownHeadings: boolean
+  markdownTables: boolean
+
+  // テキストの正規化（normalizeRules は設定ファイルでのみ指定できる）
+  normalize: boolean
+  normalizeBuiltin: boolean
+  normalizeRules?: TextNormalizeRule[]
+
+  // 話者名のエイリアス（設定ファイルでのみ指定できる）
+  speakerAliases?: SpeakerAliases
+
+  // 感情タグ（emotionStyles は設定ファイルでのみ指定できる）
+  emotionTags: boolean
+  emotionStyles?: EmotionStyleMap
+
+  // 字幕
+  subtitleFormats: string[]
+  subtitleMaxLineLength: number
+  subtitleMaxLines: number
+  subtitleSplit: SubtitleSplit
+
+  // 口の形のタイムライン（visemeNames・visemePhonemes は設定ファイルでのみ指定できる）
+  visemes: boolean
+  visemeNames?: Partial<Record<Viseme, string>>
+  visemePhonemes?: VisemePhonemeMap
+
+  // セグメント分割の文字数（どれも未指定なら行を文に分けない）
+  minSegmentLength?: number
+  maxSegmentLength?: number
+  firstSegmentMaxLength?: number
+
   // 再生オプションのデフォルト
   defaultImmediate: boolean
   defaultWaitForStart: boolean
   defaultWaitForEnd: boolean
+  defaultPriority?: QueuePriority
+
+  // 優先度の割り込みと古くなったアイテムの破棄（interruptAt の none は割り込まない）
+  interruptAt: QueuePriority | 'none'
+  resumeInterrupted: boolean
+  staleLowPriorityMs: number
 
   // 制限設定（AIがオプションを指定できなくする）
   restrictImmediate: boolean
   restrictWaitForStart: boolean
   restrictWaitForEnd: boolean
+  restrictPriority: boolean
 
   // 書き込み先ディレクトリ制限（未設定 = 無制限）
   allowedOutputDirs?: string[]
@@ -345,12 +705,132 @@ export function parseConfigFile(configPath?: string): Partial<ServerConfig> {
     return {}
   }
 
+  let content: Record<string, unknown>
   try {
-    const content = JSON.parse(readFileSync(filePath, 'utf-8'))
-    return parseConfigFileFromDefs(allConfigDefs, content) as Partial<ServerConfig>
+    content = JSON.parse(readFileSync(filePath, 'utf-8'))
   } catch {
     return {}
   }
+
+  const config = parseConfigFileFromDefs(allConfigDefs, content) as Partial<ServerConfig>
+  const normalizeRules = parseNormalizeRules(content['normalize-rules'] ?? content.normalizeRules)
+  if (normalizeRules) {
+    config.normalizeRules = normalizeRules
+  }
+  const speakerAliases = parseSpeakerAliases(content['speaker-aliases'] ?? content.speakerAliases)
+  if (speakerAliases) {
+    config.speakerAliases = speakerAliases
+  }
+  const emotionStyles = parseEmotionStyles(content['emotion-styles'] ?? content.emotionStyles)
+  if (emotionStyles) {
+    config.emotionStyles = emotionStyles
+  }
+  const visemeNames = parseVisemeNames(content['viseme-names'] ?? content.visemeNames)
+  if (visemeNames) {
+    config.visemeNames = visemeNames
+  }
+  const visemePhonemes = parseVisemePhonemes(content['viseme-phonemes'] ?? content.visemePhonemes)
+  if (visemePhonemes) {
+    config.visemePhonemes = visemePhonemes
+  }
+  return config
+}
+
+/**
+ * 設定ファイルの normalize-rules（{ pattern, replacement, flags? } の配列）を検証する
+ */
+function parseNormalizeRules(value: unknown): TextNormalizeRule[] | undefined {
+  if (value === undefined) return undefined
+  const isRule = (rule: unknown): rule is TextNormalizeRule => {
+    if (typeof rule !== 'object' || rule === null) return false
+    const { pattern, replacement, flags } = rule as Record<string, unknown>
+    return (
+      typeof pattern === 'string' &&
+      typeof replacement === 'string' &&
+      (flags === undefined || typeof flags === 'string')
+    )
+  }
+  if (!Array.isArray(value) || !value.every(isRule)) {
+    throw new Error(
+      'normalize-rules は { "pattern": 文字列, "replacement": 文字列, "flags"?: 文字列 } の配列で指定してください'
+    )
+  }
+  return value.map(({ pattern, replacement, flags }) => ({ pattern, replacement, flags }))
+}
+
+/**
+ * 設定ファイルの speaker-aliases（エイリアス → スタイルID か話者名）を検証する
+ */
+function parseSpeakerAliases(value: unknown): SpeakerAliases | undefined {
+  if (value === undefined) return undefined
+  const isTarget = (target: unknown) =>
+    (typeof target === 'number' && Number.isInteger(target) && target >= 0) ||
+    (typeof target === 'string' && target.trim() !== '')
+  if (typeof value !== 'object' || value === null || Array.isArray(value) || !Object.values(value).every(isTarget)) {
+    throw new Error(
+      'speaker-aliases は { "エイリアス": スタイルID または "キャラクター名/スタイル名" } で指定してください'
+    )
+  }
+  return { ...(value as SpeakerAliases) }
+}
+
+/**
+ * 設定ファイルの emotion-styles（感情タグ → スタイル名の候補の配列）を検証する
+ */
+function parseEmotionStyles(value: unknown): EmotionStyleMap | undefined {
+  if (value === undefined) return undefined
+  const isStyleNames = (names: unknown) =>
+    Array.isArray(names) && names.every((name) => typeof name === 'string' && name.trim() !== '')
+  if (
+    typeof value !== 'object' ||
+    value === null ||
+    Array.isArray(value) ||
+    !Object.keys(value).every((tag) => /^[^[\]\s]{1,20}$/.test(tag)) ||
+    !Object.values(value).every(isStyleNames)
+  ) {
+    throw new Error(
+      'emotion-styles は { "感情タグ": ["スタイル名", ...] } で指定してください（タグは空白・括弧なしの 20 文字以内）'
+    )
+  }
+  return { ...(value as EmotionStyleMap) }
+}
+
+const VISEMES: Viseme[] = ['A', 'I', 'U', 'E', 'O', 'N', 'closed']
+
+/**
+ * 設定ファイルの viseme-names を検証する（{ "A": "aa", "closed": "sil" } の形）
+ */
+function parseVisemeNames(value: unknown): Partial<Record<Viseme, string>> | undefined {
+  if (value === undefined) return undefined
+  if (
+    typeof value !== 'object' ||
+    value === null ||
+    Array.isArray(value) ||
+    !Object.entries(value).every(
+      ([viseme, name]) => VISEMES.includes(viseme as Viseme) && typeof name === 'string' && name.trim() !== ''
+    )
+  ) {
+    throw new Error(`viseme-names は { "口の形": "名前" } で指定してください（口の形: ${VISEMES.join(', ')}）`)
+  }
+  return { ...(value as Partial<Record<Viseme, string>>) }
+}
+
+/**
+ * 設定ファイルの viseme-phonemes を検証する（{ "w": "O", "f": null } の形。null は後ろの母音の形を使う）
+ */
+function parseVisemePhonemes(value: unknown): VisemePhonemeMap | undefined {
+  if (value === undefined) return undefined
+  if (
+    typeof value !== 'object' ||
+    value === null ||
+    Array.isArray(value) ||
+    !Object.values(value).every((viseme) => viseme === null || VISEMES.includes(viseme))
+  ) {
+    throw new Error(
+      `viseme-phonemes は { "音素": "口の形" | null } で指定してください（口の形: ${VISEMES.join(', ')}）`
+    )
+  }
+  return { ...(value as VisemePhonemeMap) }
 }
 
 /**
@@ -374,20 +854,173 @@ export function getConfig(argv?: string[], env?: NodeJS.ProcessEnv): ServerConfi
     ...filterUndefined(cliConfig),
   }
 
+  const isExplicit = (key: keyof ServerConfig) =>
+    envConfig[key] !== undefined || cliConfig[key] !== undefined || fileConfig[key] !== undefined
+
   // playerStateFile が明示指定されていない場合は、確定した cacheDir に追従させる
-  const isPlayerStateFileExplicit =
-    envConfig.playerStateFile !== undefined ||
-    cliConfig.playerStateFile !== undefined ||
-    fileConfig.playerStateFile !== undefined
-  if (!isPlayerStateFileExplicit) {
+  if (!isExplicit('playerStateFile')) {
     merged.playerStateFile = join(merged.playerCacheDir, 'player-state.json')
   }
+  // URL・話者が明示指定されていない場合は、エンジンプロファイルの既定値を使う
+  const engineProfile = resolveEngineProfile(merged.engine)
+  merged.engine = engineProfile.name as EngineProfileName
+  if (!isExplicit('voicevoxUrl')) {
+    merged.voicevoxUrl = engineProfile.defaultUrl
+  }
+  if (!isExplicit('defaultSpeaker')) {
+    merged.defaultSpeaker = engineProfile.defaultSpeaker
+  }
+  if (!['announce', 'strip', 'keep'].includes(merged.markdownCodeBlocks)) {
+    throw new Error(`不明なコードブロックの扱いです: ${merged.markdownCodeBlocks}（announce, strip, keep）`)
+  }
+  if (!['punctuation', 'accent-phrase'].includes(merged.subtitleSplit)) {
+    throw new Error(`不明な字幕の区切り方です: ${merged.subtitleSplit}（punctuation, accent-phrase）`)
+  }
+  if (merged.defaultPriority !== undefined && !QUEUE_PRIORITIES.includes(merged.defaultPriority)) {
+    throw new Error(`不明な優先度です: ${merged.defaultPriority}（${QUEUE_PRIORITIES.join(', ')}）`)
+  }
+  if (merged.interruptAt !== 'none' && !QUEUE_PRIORITIES.includes(merged.interruptAt)) {
+    throw new Error(`不明な優先度です: ${merged.interruptAt}（${QUEUE_PRIORITIES.join(', ')}, none）`)
+  }
+  const unknownFormat = merged.subtitleFormats.find((format) => !['srt', 'vtt'].includes(format))
+  if (unknownFormat) {
+    throw new Error(`不明な字幕の形式です: ${unknownFormat}（srt, vtt）`)
+  }
+  // 不正な正規表現は起動時に知らせる
+  const normalizeOptions = getTextNormalizeOptions(merged)
+  if (normalizeOptions) {
+    createTextNormalizer(normalizeOptions)
+  }
   // configFile は内部用なので削除
   ;(merged as unknown as Record<string, unknown>).configFile = undefined
 
   return merged
 }
 
+/**
+ * --url / VOICEVOX_URL の値をエンジンURLの配列に変換する（カンマ区切りで複数指定可）
+ */
+export function parseVoicevoxUrls(value: string): string[] {
+  return value
+    .split(',')
+    .map((url) => url.trim())
+    .filter((url) => url.length > 0)
+}
+
+/**
+ * エンジンへの接続の設定（エンジンの種類・振り分け・リトライ・タイムアウト・リクエストフック）を VoicevoxApi のオプションに変換する
+ * 共有クライアント以外で VoicevoxApi を作るときも、この設定で作る
+ */
+export function getVoicevoxApiOptions(
+  config: ServerConfig
+): Pick<
+  VoicevoxApiOptions,
+  | 'engineProfile'
+  | 'engineSelection'
+  | 'retryCount'
+  | 'retryDelayMs'
+  | 'timeoutMs'
+  | 'onRequest'
+  | 'onResponse'
+  | 'onRetry'
+> {
+  return {
+    engineProfile: config.engine,
+    engineSelection: config.engineSelection,
+    retryCount: config.retryCount,
+    retryDelayMs: config.retryDelayMs,
+    timeoutMs: config.timeoutMs,
+    ...createRequestHooks(config),
+  }
+}
+
+/**
+ * Markdown の前処理の設定を voicevox-client のオプションに変換する（無効なら undefined）
+ */
+export function getTextPreprocessOptions(config: ServerConfig): TextPreprocessOptions | undefined {
+  if (!config.markdown) return undefined
+  return {
+    codeBlocks: config.markdownCodeBlocks,
+    inlineCode: config.markdownInlineCode,
+    links: config.markdownLinks,
+    lists: config.markdownLists,
+    emphasis: config.markdownEmphasis,
+    headings: config.markdownHeadings,
+    tables: config.markdownTables,
+  }
+}
+
+/**
+ * テキストの正規化の設定を voicevox-client のオプションに変換する（無効なら undefined）
+ */
+export function getTextNormalizeOptions(config: ServerConfig): TextNormalizeOptions | undefined {
+  if (!config.normalize) return undefined
+  return {
+    builtin: config.normalizeBuiltin,
+    rules: config.normalizeRules,
+  }
+}
+
+/**
+ * 感情タグの設定を voicevox-client の対応表に変換する（無効なら false）
+ * 設定ファイルの emotion-styles は組み込みの対応表に追加・上書きする
+ */
+export function getEmotionStyles(config: ServerConfig): EmotionStyleMap | false {
+  if (!config.emotionTags) return false
+  return { ...DEFAULT_EMOTION_STYLES, ...config.emotionStyles }
+}
+
+/**
+ * セグメント分割の文字数の設定を voicevox-client のオプションに変換する
+ * どれも指定されていなければ undefined（行を文の単位に分けない）
+ */
+export function getTextSegmentOptions(config: ServerConfig): TextSegmentOptions | undefined {
+  if (
+    config.minSegmentLength === undefined &&
+    config.maxSegmentLength === undefined &&
+    config.firstSegmentMaxLength === undefined
+  ) {
+    return undefined
+  }
+  return {
+    minLength: config.minSegmentLength,
+    maxLength: config.maxSegmentLength,
+    firstMaxLength: config.firstSegmentMaxLength,
+  }
+}
+
+/**
+ * 口の形の名前と音素の対応の設定を voicevox-client のオプションに変換する
+ */
+export function getVisemeOptions(config: ServerConfig): VisemeOptions {
+  return {
+    names: config.visemeNames,
+    phonemes: config.visemePhonemes,
+  }
+}
+
+/**
+ * 割り込みと古くなったアイテムの破棄の設定を voicevox-client のオプションに変換する
+ */
+export function getInterruptionPolicy(config: ServerConfig): InterruptionPolicy {
+  return {
+    interruptAt: config.interruptAt === 'none' ? false : config.interruptAt,
+    resumeInterrupted: config.resumeInterrupted,
+    staleAfterMs: config.staleLowPriorityMs > 0 ? { low: config.staleLowPriorityMs } : {},
+  }
+}
+
+/**
+ * 字幕の行の長さ・区切り方の設定を voicevox-client のオプションに変換する
+ */
+export function getSubtitleOptions(config: ServerConfig): SubtitleOptions {
+  return {
+    maxLineLength: config.subtitleMaxLineLength,
+    maxLines: config.subtitleMaxLines,
+    split: config.subtitleSplit,
+  }
+}
+
 /**
  * help文を生成する
  */
@@ -396,6 +1029,7 @@ export function getHelpText(): string {
     usage: 'npx @kajidog/mcp-tts-voicevox [options]',
     examples: [
       'npx @kajidog/mcp-tts-voicevox --url http://192.168.1.50:50021 --speaker 3',
+      'npx @kajidog/mcp-tts-voicevox --url http://gpu1:50021,http://gpu2:50021 --engine-selection least-latency',
       'npx @kajidog/mcp-tts-voicevox --http --port 8080',
       'npx @kajidog/mcp-tts-voicevox --disable-tools synthesize_file',
       'npx @kajidog/mcp-tts-voicevox --disable-groups player,dictionary',
@@ -409,7 +1043,14 @@ export function getHelpText(): string {
  * 設定ファイルのテンプレートJSONを生成する
  */
 export function getConfigTemplate(): Record<string, unknown> {
-  return generateConfigTemplate(allConfigDefs, { exclude: ['configFile'] })
+  return {
+    ...generateConfigTemplate(allConfigDefs, { exclude: ['configFile'] }),
+    'normalize-rules': [],
+    'speaker-aliases': {},
+    'emotion-styles': {},
+    'viseme-names': {},
+    'viseme-phonemes': {},
+  }
 }
 
 // シングルトンとしてエクスポート（キャッシュ）
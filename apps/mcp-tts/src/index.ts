@@ -6,7 +6,7 @@ import { dirname, join } from 'node:path'
 import { fileURLToPath } from 'node:url'
 import { isNodejs, launchServer } from '@kajidog/mcp-core'
 import { getConfig, getConfigTemplate, getHelpText } from './config.js'
-import { createServer, server } from './server.js'
+import { createServer, loadEngineCapabilities, preloadSpeakers } from './server.js'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 
@@ -135,9 +135,14 @@ async function startMCPServer(): Promise<void> {
     return // ライブラリとして使用されている
   }
 
+  // エンジンが対応していない機能のツールを登録しないよう、先に機能情報を取得する
+  await loadEngineCapabilities()
+  // モデルの読み込みは時間がかかるため、起動を待たせずバックグラウンドで行う
+  void preloadSpeakers()
+
   // mcp-core のランチャーを使用してサーバーを起動
   await launchServer({
-    server,
+    server: createServer(),
     config,
     serverName: 'VOICEVOX MCP TTS',
     serverFactory: createServer,
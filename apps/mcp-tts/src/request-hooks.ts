@@ -0,0 +1,62 @@
+import type { VoicevoxApiOptions } from '@kajidog/voicevox-client'
+import type { ServerConfig } from './config.js'
+
+type RequestHooks = Pick<VoicevoxApiOptions, 'onRequest' | 'onResponse' | 'onRetry'>
+
+/**
+ * --engine-header の "Name: value" 形式をヘッダーのオブジェクトに変換する
+ */
+export function parseEngineHeaders(values: string[] = []): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const value of values) {
+    const separator = value.indexOf(':')
+    const name = separator > 0 ? value.slice(0, separator).trim() : ''
+    if (!name) {
+      console.error(`[mcp-tts] Ignoring invalid engine header "${value}" (expected "Name: value")`)
+      continue
+    }
+    headers[name] = value.slice(separator + 1).trim()
+  }
+  return headers
+}
+
+/**
+ * ログ用にエンドポイントからクエリ文字列（読み上げテキストなど）を除く
+ */
+function toPath(endpoint: string): string {
+  return endpoint.split('?')[0]
+}
+
+/**
+ * サーバー設定から VoicevoxClient に渡すリクエストフックを作る
+ * - engineHeaders: すべてのリクエストにヘッダーを付ける
+ * - slowRequestMs: 時間のかかったリクエストをログに出す
+ * - 再試行は常にログに出す
+ */
+export function createRequestHooks(config: Pick<ServerConfig, 'engineHeaders' | 'slowRequestMs'>): RequestHooks {
+  const headers = parseEngineHeaders(config.engineHeaders)
+  const hooks: RequestHooks = {
+    onRetry: ({ method, endpoint, engine, error, delayMs, nextEngine }) => {
+      const target = nextEngine === engine ? `in ${delayMs}ms` : `on ${nextEngine}`
+      console.error(`[mcp-tts] Retrying ${method} ${toPath(endpoint)} ${target} (${engine}: ${error.message})`)
+    },
+  }
+
+  if (Object.keys(headers).length > 0) {
+    hooks.onRequest = (context) => {
+      Object.assign(context.headers, headers)
+    }
+  }
+
+  if (config.slowRequestMs > 0) {
+    hooks.onResponse = ({ method, endpoint, engine, status, durationMs }) => {
+      if (durationMs >= config.slowRequestMs) {
+        console.error(
+          `[mcp-tts] Slow VOICEVOX request: ${method} ${toPath(endpoint)} took ${durationMs}ms (${engine}, ${status})`
+        )
+      }
+    }
+  }
+
+  return hooks
+}
@@ -1,17 +1,32 @@
 import { VoicevoxClient } from '@kajidog/voicevox-client'
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
-import { getConfig } from './config.js'
-import { expandGroups } from './tool-groups.js'
+import {
+  getConfig,
+  getInterruptionPolicy,
+  getTextNormalizeOptions,
+  getTextPreprocessOptions,
+  getVoicevoxApiOptions,
+  parseVoicevoxUrls,
+} from './config.js'
+import { createSynthesisCache } from './synthesis-cache.js'
+import { expandGroups, getUnsupportedTools } from './tool-groups.js'
 import { registerDictionaryTools } from './tools/dictionary.js'
 import { registerPlayerTools } from './tools/player.js'
+import { registerPresetTools } from './tools/presets.js'
+import { registerSingTools } from './tools/sing.js'
 import { registerSpeakTool } from './tools/speak.js'
+import { registerSpeakStreamTool } from './tools/speak-stream.js'
 import { registerSpeakerTools } from './tools/speakers.js'
 import { registerSynthesizeTool } from './tools/synthesize.js'
 import type { ToolDeps } from './tools/types.js'
+import { registerVisemeTool } from './tools/visemes.js'
 
 // 設定を取得
 const config = getConfig()
 
+// 起動時のエンジン機能取得の待ち時間（エンジン未起動で起動が遅れないよう短くする）
+const ENGINE_PROBE_TIMEOUT_MS = 3000
+
 /**
  * VoicevoxClient はプロセス内で 1 つだけ持つ。
  *
@@ -26,14 +41,21 @@ let sharedClient: VoicevoxClient | null = null
 export function getVoicevoxClient(): VoicevoxClient {
   if (!sharedClient) {
     sharedClient = new VoicevoxClient({
-      url: config.voicevoxUrl,
+      url: parseVoicevoxUrls(config.voicevoxUrl),
+      ...getVoicevoxApiOptions(config),
       defaultSpeaker: config.defaultSpeaker,
+      defaultSinger: config.defaultSinger,
       defaultSpeedScale: config.defaultSpeedScale,
-      retryCount: config.retryCount,
-      retryDelayMs: config.retryDelayMs,
-      timeoutMs: config.timeoutMs,
+      synthesisCache: createSynthesisCache(config),
       useStreaming: config.useStreaming,
       defaultPostPhonemeLength: config.defaultPostPhonemeLength,
+      textPreprocess: getTextPreprocessOptions(config),
+      textNormalize: getTextNormalizeOptions(config),
+      speakerAliases: config.speakerAliases,
+      minSegmentLength: config.minSegmentLength,
+      maxSegmentLength: config.maxSegmentLength,
+      firstSegmentMaxLength: config.firstSegmentMaxLength,
+      interruption: getInterruptionPolicy(config),
     })
   }
   return sharedClient
@@ -46,6 +68,44 @@ export function resetVoicevoxClient(): void {
   sharedClient = null
 }
 
+/**
+ * 接続先エンジンの機能情報を取得してキャッシュする。
+ * 取得後に作成した McpServer には、エンジンが対応していない機能のツールを登録しない。
+ * エンジンに接続できない場合はすべてのツールを登録する（実行時に各サービスが判定する）。
+ */
+export async function loadEngineCapabilities(voicevoxClient: VoicevoxClient = getVoicevoxClient()): Promise<void> {
+  try {
+    const capabilities = await voicevoxClient.getEngineCapabilities(AbortSignal.timeout(ENGINE_PROBE_TIMEOUT_MS))
+    const hiddenTools = getUnsupportedTools(capabilities)
+    if (hiddenTools.length > 0) {
+      const engine = [capabilities.name, capabilities.version].filter(Boolean).join(' ')
+      console.error(`[mcp-tts] ${engine} does not support some features. Hidden tools: ${hiddenTools.join(', ')}`)
+    }
+  } catch {
+    console.error('[mcp-tts] Could not read engine capabilities. All tools are registered.')
+  }
+}
+
+/**
+ * --preload-speakers で指定されたスタイルのモデルをエンジンに読み込む。
+ * 起動を遅らせないよう、呼び出し側は完了を待たずに実行する。
+ */
+export async function preloadSpeakers(voicevoxClient: VoicevoxClient = getVoicevoxClient()): Promise<void> {
+  const speakers = (config.preloadSpeakers ?? []).map(Number)
+  const invalid = (config.preloadSpeakers ?? []).filter((_, i) => !Number.isInteger(speakers[i]))
+  if (invalid.length > 0) {
+    console.error(`[mcp-tts] Ignoring invalid preload speaker IDs: ${invalid.join(', ')}`)
+  }
+
+  const targets = speakers.filter((speaker) => Number.isInteger(speaker))
+  if (targets.length === 0) return
+
+  const failed = await voicevoxClient.preloadSpeakers(targets)
+  if (failed.length > 0) {
+    console.error(`[mcp-tts] Could not preload speakers: ${failed.join(', ')}`)
+  }
+}
+
 /**
  * McpServer を作成しツールを登録するファクトリ関数
  * HTTPモードではリクエストごとに新しい McpServer が必要だが、
@@ -65,26 +125,32 @@ export function createServer(voicevoxClient: VoicevoxClient = getVoicevoxClient(
     server,
     voicevoxClient,
     config,
-    disabledTools: new Set([...config.disabledTools, ...expandGroups(config.disabledGroups ?? [])]),
+    disabledTools: new Set([
+      ...config.disabledTools,
+      ...expandGroups(config.disabledGroups ?? []),
+      ...getUnsupportedTools(voicevoxClient.getCachedEngineCapabilities()),
+    ]),
     restrictions: {
       immediate: config.restrictImmediate,
       waitForStart: config.restrictWaitForStart,
       waitForEnd: config.restrictWaitForEnd,
+      priority: config.restrictPriority,
     },
   }
 
   // ツール登録
   registerSpeakerTools(deps)
   registerSpeakTool(deps)
+  registerSpeakStreamTool(deps)
   registerSynthesizeTool(deps)
+  registerVisemeTool(deps)
+  registerSingTools(deps)
   registerDictionaryTools(deps)
+  registerPresetTools(deps)
   registerPlayerTools(deps)
 
   return server
 }
 
-// 後方互換性のためのデフォルトインスタンス（stdio用）
-export const server = createServer()
-
 // 設定エクスポート（テスト用）
 export { config }
@@ -1,8 +1,13 @@
 #!/usr/bin/env node
 
 import { connectStdio } from '@kajidog/mcp-core'
-import { server } from './server.js'
+import { createServer, loadEngineCapabilities, preloadSpeakers } from './server.js'
 
-connectStdio(server).catch(() => {
-  process.exit(1)
-})
+loadEngineCapabilities()
+  .then(() => {
+    void preloadSpeakers()
+    return connectStdio(createServer())
+  })
+  .catch(() => {
+    process.exit(1)
+  })
@@ -0,0 +1,102 @@
+import { readdir, unlink } from 'node:fs/promises'
+import { join } from 'node:path'
+import { resolveAudioCachePolicy, SynthesisCache } from '@kajidog/voicevox-client'
+import type { ServerConfig } from './config.js'
+
+const DEFAULT_AUDIO_CACHE_TTL_DAYS = 30
+const DEFAULT_AUDIO_CACHE_MAX_MB = 512
+/** 以前のプレーヤー専用キャッシュ（base64 のテキスト）のファイル名 */
+const LEGACY_PLAYER_CACHE_FILE_PATTERN = /^[a-f0-9]{64}\.txt$/
+
+type SynthesisCacheConfig = Pick<
+  ServerConfig,
+  | 'synthesisCacheSize'
+  | 'synthesisDiskCache'
+  | 'playerCacheDir'
+  | 'playerAudioCacheEnabled'
+  | 'playerAudioCacheTtlDays'
+  | 'playerAudioCacheMaxMb'
+>
+
+function getCacheDir(config: SynthesisCacheConfig): string {
+  return config.playerCacheDir || join(process.cwd(), '.voicevox-player-cache')
+}
+
+function resolvePolicy(config: SynthesisCacheConfig, useDisk: boolean) {
+  const ttlDays = Number.isFinite(config.playerAudioCacheTtlDays)
+    ? config.playerAudioCacheTtlDays
+    : DEFAULT_AUDIO_CACHE_TTL_DAYS
+  const maxMb = Number.isFinite(config.playerAudioCacheMaxMb)
+    ? config.playerAudioCacheMaxMb
+    : DEFAULT_AUDIO_CACHE_MAX_MB
+  return resolveAudioCachePolicy({ enabledFlag: useDisk, ttlDays, maxMb })
+}
+
+function buildSynthesisCache(config: SynthesisCacheConfig, useDisk: boolean): SynthesisCache | undefined {
+  const policy = resolvePolicy(config, useDisk)
+  const maxMemoryEntries = Math.max(0, config.synthesisCacheSize ?? 0)
+
+  if (maxMemoryEntries === 0 && !policy.isDiskCacheEnabled) return undefined
+
+  return new SynthesisCache({
+    maxMemoryEntries,
+    diskDir: policy.isDiskCacheEnabled ? getCacheDir(config) : undefined,
+    diskTtlMs: policy.ttlMs,
+    diskMaxBytes: policy.maxBytes,
+  })
+}
+
+/**
+ * speak・synthesize_file・プレーヤーで共有する合成結果キャッシュを作る
+ * - メモリ: --synthesis-cache-size 件まで
+ * - ディスク: --synthesis-disk-cache を指定したときだけ、--player-cache-dir に WAV で保存し、
+ *   --player-audio-cache-* の期限・上限で削除する
+ * どちらも無効なら undefined（キャッシュしない）
+ */
+export function createSynthesisCache(config: SynthesisCacheConfig): SynthesisCache | undefined {
+  return buildSynthesisCache(config, config.synthesisDiskCache === true)
+}
+
+/**
+ * プレーヤーの合成に使うキャッシュを返す
+ *
+ * 共有キャッシュがディスクに保存しない設定でも、プレーヤーは従来どおり --player-audio-cache で
+ * ディスクに保存する（プレーヤー専用のキャッシュを作る）。それ以外は共有キャッシュをそのまま使う
+ */
+export function createPlayerSynthesisCache(
+  config: SynthesisCacheConfig,
+  sharedCache: SynthesisCache | undefined
+): SynthesisCache | undefined {
+  if (config.synthesisDiskCache === true || config.playerAudioCacheEnabled === false) return sharedCache
+  // 期限・上限の設定でディスクキャッシュが無効なら、共有キャッシュで足りる
+  if (!resolvePolicy(config, true).isDiskCacheEnabled) return sharedCache
+  return buildSynthesisCache(config, true)
+}
+
+/**
+ * 以前のプレーヤー専用キャッシュ（`<key>.txt`）を削除する
+ * 今のキャッシュ（`<key>.wav`）とは形式が違い読まれないため、残っていても容量を使うだけになる
+ *
+ * @returns 削除したファイル数
+ */
+export async function removeLegacyPlayerAudioCache(dir: string): Promise<number> {
+  let names: string[]
+  try {
+    names = await readdir(dir)
+  } catch {
+    // ディレクトリが無ければ何もしない
+    return 0
+  }
+
+  let removed = 0
+  for (const name of names) {
+    if (!LEGACY_PLAYER_CACHE_FILE_PATTERN.test(name)) continue
+    try {
+      await unlink(join(dir, name))
+      removed++
+    } catch {
+      // ignore cleanup races
+    }
+  }
+  return removed
+}
@@ -1,3 +1,5 @@
+import type { EngineCapabilities, EngineFeature } from '@kajidog/voicevox-client'
+
 /**
  * Built-in tool group definitions for batch enable/disable via --disable-groups.
  *
@@ -17,12 +19,45 @@ export const TOOL_GROUPS: Record<string, string[]> = {
     'add_user_dictionary_words',
     'update_user_dictionary_words',
   ],
-  /** Audio file synthesis tool */
-  file: ['synthesize_file'],
+  /** Engine preset tools (read + write) */
+  preset: ['get_presets', 'add_preset', 'update_preset', 'delete_preset'],
+  /** Audio file synthesis tools */
+  file: ['synthesize_file', 'synthesize_morph'],
+  /** Singing synthesis tools */
+  singing: ['sing', 'get_singers'],
   /** MCP App tools (tools registered as UI apps, i.e. with registerAppTool) */
   apps: ['speak_player', 'resynthesize_player', 'open_dictionary_ui'],
 }
 
+/**
+ * Tools that depend on an optional engine feature.
+ * They are not registered when the connected engine reports the feature as unsupported.
+ */
+export const ENGINE_FEATURE_TOOLS: Partial<Record<EngineFeature, string[]>> = {
+  singing: ['sing', 'get_singers'],
+  morphing: ['synthesize_morph'],
+  userDictionary: [
+    'get_user_dictionary',
+    'add_user_dictionary_word',
+    'update_user_dictionary_word',
+    'delete_user_dictionary_word',
+    'add_user_dictionary_words',
+    'update_user_dictionary_words',
+    'open_dictionary_ui',
+  ],
+}
+
+/**
+ * List the tools whose engine feature is unsupported.
+ * Returns an empty list when the capabilities are not known yet.
+ */
+export function getUnsupportedTools(capabilities?: EngineCapabilities): string[] {
+  if (!capabilities) return []
+  return Object.entries(ENGINE_FEATURE_TOOLS).flatMap(([feature, tools]) =>
+    capabilities.features[feature as EngineFeature] ? [] : (tools ?? [])
+  )
+}
+
 /**
  * Expand a list of group names into individual tool names.
  * Unknown group names are logged and skipped.
@@ -0,0 +1,134 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { registerSingTools } from '../sing.js'
+import type { ToolDeps } from '../types.js'
+
+const mockRegisterTool = vi.fn()
+
+const mockVoicevoxClient = {
+  sing: vi.fn(),
+  generateSingingAudioFile: vi.fn(),
+  getSingers: vi.fn(),
+}
+
+function createMockDeps(overrides: Partial<ToolDeps['config']> = {}): ToolDeps {
+  return {
+    server: { registerTool: mockRegisterTool } as any,
+    voicevoxClient: mockVoicevoxClient as any,
+    config: {
+      voicevoxUrl: 'http://localhost:50021',
+      defaultSpeaker: 1,
+      defaultSpeedScale: 1.0,
+      defaultImmediate: true,
+      defaultWaitForStart: false,
+      defaultWaitForEnd: false,
+      restrictImmediate: false,
+      restrictWaitForStart: false,
+      restrictWaitForEnd: false,
+      disabledTools: [],
+      httpMode: false,
+      httpPort: 3000,
+      httpHost: '0.0.0.0',
+      ...overrides,
+    } as any,
+    disabledTools: new Set<string>(),
+    restrictions: {
+      immediate: false,
+      waitForStart: false,
+      waitForEnd: false,
+    },
+  }
+}
+
+function getHandler(toolName: string) {
+  const call = mockRegisterTool.mock.calls.find((c: any[]) => c[0] === toolName)
+  expect(call).toBeDefined()
+  return call![2]
+}
+
+describe('registerSingTools', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockVoicevoxClient.sing.mockResolvedValue({
+      status: 'queued',
+      mode: 'file',
+      textPreview: 'どれ',
+      segmentCount: 1,
+    })
+  })
+
+  it('ノート列を Score に変換して再生キューに追加する', async () => {
+    registerSingTools(createMockDeps())
+    const handler = getHandler('voicevox_sing')
+
+    const result = await handler({
+      notes: [
+        { lyric: 'ど', key: 'C4', beats: 1 },
+        { lyric: 'れ', key: 'D4', beats: 1 },
+      ],
+      bpm: 120,
+      singer: 3000,
+    })
+
+    expect(result.isError).toBeUndefined()
+    const [score, options] = mockVoicevoxClient.sing.mock.calls[0]
+    expect(score.notes.map((n: any) => n.key)).toEqual([undefined, 60, 62])
+    expect(options).toMatchObject({ singer: 3000, immediate: true, waitForStart: false, waitForEnd: false })
+  })
+
+  it('output 指定時はファイルを書き出してパスを返す', async () => {
+    mockVoicevoxClient.generateSingingAudioFile.mockResolvedValue('/tmp/jingle.wav')
+    registerSingTools(createMockDeps())
+    const handler = getHandler('voicevox_sing')
+
+    const result = await handler({ notes: [{ lyric: 'ら', key: 69, beats: 2 }], output: '/tmp/jingle.wav' })
+
+    expect(mockVoicevoxClient.sing).not.toHaveBeenCalled()
+    expect(mockVoicevoxClient.generateSingingAudioFile).toHaveBeenCalledWith(
+      expect.objectContaining({ notes: expect.any(Array) }),
+      '/tmp/jingle.wav',
+      { singer: undefined, volumeScale: undefined }
+    )
+    expect(result.content[0].text).toBe('/tmp/jingle.wav')
+  })
+
+  it('許可ディレクトリ外への output はエラーを返す', async () => {
+    registerSingTools(createMockDeps({ allowedOutputDirs: ['/srv/audio'] }))
+    const handler = getHandler('voicevox_sing')
+
+    const result = await handler({ notes: [{ lyric: 'ら', key: 69, beats: 1 }], output: '/etc/jingle.wav' })
+
+    expect(result.isError).toBe(true)
+    expect(mockVoicevoxClient.generateSingingAudioFile).not.toHaveBeenCalled()
+  })
+
+  it('音高のないノートはエラーを返す', async () => {
+    registerSingTools(createMockDeps())
+    const handler = getHandler('voicevox_sing')
+
+    const result = await handler({ notes: [{ lyric: 'ら', beats: 1 }] })
+
+    expect(result.isError).toBe(true)
+    expect(result.content[0].text).toContain('needs a key')
+  })
+
+  it('singer は整数のスタイルIDだけを受け付ける', () => {
+    registerSingTools(createMockDeps())
+    const call = mockRegisterTool.mock.calls.find((c: any[]) => c[0] === 'voicevox_sing')
+    const singer = call![1].inputSchema.singer
+
+    expect(singer.safeParse(3).success).toBe(true)
+    expect(singer.safeParse(3.5).success).toBe(false)
+  })
+
+  it('get_singers は歌唱スタイルIDと名前を返す', async () => {
+    mockVoicevoxClient.getSingers.mockResolvedValue([
+      { name: '波音リツ', speaker_uuid: 'x', styles: [{ name: 'ノーマル', id: 3000, type: 'frame_decode' }] },
+    ])
+    registerSingTools(createMockDeps())
+    const handler = getHandler('voicevox_get_singers')
+
+    const result = await handler({})
+
+    expect(JSON.parse(result.content[0].text)).toEqual([{ singer: 3000, name: '波音リツ:ノーマル' }])
+  })
+})
@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { registerSpeakStreamTool } from '../speak-stream.js'
+import type { ToolDeps } from '../types.js'
+
+const mockRegisterTool = vi.fn()
+
+const mockStream = {
+  write: vi.fn(),
+  end: vi.fn(),
+  cancel: vi.fn(),
+}
+
+const mockVoicevoxClient = {
+  createSpeechStream: vi.fn(() => mockStream),
+  resolveSpeaker: vi.fn(),
+}
+
+function createMockDeps(): ToolDeps {
+  return {
+    server: { registerTool: mockRegisterTool } as any,
+    voicevoxClient: mockVoicevoxClient as any,
+    config: {
+      voicevoxUrl: 'http://localhost:50021',
+      defaultSpeaker: 1,
+      defaultSpeedScale: 1.0,
+      defaultImmediate: true,
+      defaultWaitForStart: false,
+      defaultWaitForEnd: false,
+      restrictImmediate: false,
+      restrictWaitForStart: false,
+      restrictWaitForEnd: false,
+      disabledTools: [],
+      httpMode: false,
+      httpPort: 3000,
+      httpHost: '0.0.0.0',
+    } as any,
+    disabledTools: new Set<string>(),
+    restrictions: {
+      immediate: false,
+      waitForStart: false,
+      waitForEnd: false,
+    },
+  }
+}
+
+function getHandler(toolName: string) {
+  const call = mockRegisterTool.mock.calls.find((c: any[]) => c[0] === toolName)
+  expect(call).toBeDefined()
+  return call![2]
+}
+
+const streamResult = (segmentCount: number, pendingText: string, textPreview = '') => ({
+  status: 'queued',
+  mode: 'file',
+  textPreview,
+  segmentCount,
+  pendingText,
+})
+
+const responseText = (response: any): string => response.content[0].text
+
+const streamIdOf = (response: any): string => responseText(response).match(/^Stream: (\S+)/)![1]
+
+describe('registerSpeakStreamTool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    registerSpeakStreamTool(createMockDeps())
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('streamId を省略すると新しいストリームを開き、同じ ID で書き足して end で終了する', async () => {
+    const handler = getHandler('voicevox_speak_stream')
+    mockStream.write
+      .mockResolvedValueOnce(streamResult(0, 'こんにち'))
+      .mockResolvedValueOnce(streamResult(1, '今日', 'こんにちは。'))
+    mockStream.end.mockResolvedValueOnce(streamResult(2, '', 'こんにちは。 今日はいい天気'))
+
+    const opened = await handler({ text: 'こんにち', speaker: 3, speedScale: 1.2 }, {})
+    const streamId = streamIdOf(opened)
+    expect(responseText(opened)).toContain('Nothing queued yet')
+    expect(responseText(opened)).toContain('Pending: "こんにち"')
+    expect(mockVoicevoxClient.createSpeechStream).toHaveBeenCalledWith({
+      speaker: 3,
+      speedScale: 1.2,
+      immediate: true,
+      waitForStart: false,
+      waitForEnd: false,
+    })
+
+    const written = await handler({ streamId, text: 'は。今日' }, {})
+    expect(responseText(written)).toContain('Queued (file): "こんにちは。"')
+    expect(mockStream.write).toHaveBeenLastCalledWith('は。今日')
+
+    const ended = await handler({ streamId, text: 'はいい天気', end: true }, {})
+    expect(responseText(ended)).toContain(`Stream: ${streamId} (ended)`)
+    expect(mockStream.end).toHaveBeenCalledWith('はいい天気')
+    expect(mockVoicevoxClient.createSpeechStream).toHaveBeenCalledTimes(1)
+
+    const afterEnd = await handler({ streamId, text: 'もう一文。' }, {})
+    expect(afterEnd.isError).toBe(true)
+    expect(responseText(afterEnd)).toContain('not found or already ended')
+  })
+
+  it('cancel でストリームを中断して閉じる', async () => {
+    const handler = getHandler('voicevox_speak_stream')
+    mockStream.write.mockResolvedValueOnce(streamResult(1, ''))
+
+    const streamId = streamIdOf(await handler({ text: '一文目。' }, {}))
+    const cancelled = await handler({ streamId, cancel: true }, {})
+
+    expect(responseText(cancelled)).toBe(`Stream: ${streamId} (cancelled)`)
+    expect(mockStream.cancel).toHaveBeenCalledTimes(1)
+    expect((await handler({ streamId, end: true }, {})).isError).toBe(true)
+  })
+
+  it('書き込みが途絶えたストリームは残りを読み上げて終了する', async () => {
+    vi.useFakeTimers()
+    const handler = getHandler('voicevox_speak_stream')
+    mockStream.write.mockResolvedValue(streamResult(0, '途中'))
+    mockStream.end.mockResolvedValue(streamResult(1, ''))
+
+    const streamId = streamIdOf(await handler({ text: '途中' }, {}))
+    await vi.advanceTimersByTimeAsync(30_000)
+    await handler({ streamId, text: 'まで' }, {})
+    await vi.advanceTimersByTimeAsync(30_000)
+    expect(mockStream.end).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(30_000)
+    expect(mockStream.end).toHaveBeenCalledTimes(1)
+    expect((await handler({ streamId, text: '続き' }, {})).isError).toBe(true)
+  })
+})
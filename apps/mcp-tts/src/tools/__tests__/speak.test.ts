@@ -1,5 +1,5 @@
-import type { AccentPhrase } from '@kajidog/voicevox-client'
-import { VoicevoxApi } from '@kajidog/voicevox-client'
+import type { AccentPhrase, Speaker } from '@kajidog/voicevox-client'
+import { createSpeakerResolver, VoicevoxApi } from '@kajidog/voicevox-client'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 import { registerSpeakTool } from '../speak.js'
 import type { ToolDeps } from '../types.js'
@@ -9,6 +9,9 @@ const mockRegisterTool = vi.fn()
 const mockVoicevoxClient = {
   generateQuery: vi.fn(),
   enqueueAudioGeneration: vi.fn(),
+  speak: vi.fn(),
+  resolveSpeaker: vi.fn(),
+  getSpeakerResolver: vi.fn(),
 }
 
 function createMockDeps(): ToolDeps {
@@ -35,6 +38,7 @@ function createMockDeps(): ToolDeps {
       immediate: false,
       waitForStart: false,
       waitForEnd: false,
+      priority: false,
     },
   }
 }
@@ -90,8 +94,305 @@ describe('registerSpeakTool phrases mode', () => {
 
     await handler({ text: 'unused', phrases: 'A,B' }, {})
 
-    expect(mockVoicevoxClient.generateQuery).toHaveBeenCalledWith('A、B', 1, undefined)
+    expect(mockVoicevoxClient.generateQuery).toHaveBeenCalledWith('A、B', 1, undefined, undefined)
     const passedQuery = mockVoicevoxClient.enqueueAudioGeneration.mock.calls[0][0]
     expect(passedQuery.accent_phrases).toHaveLength(2)
   })
+
+  it('モーラの再計算は設定したエンジンのプロファイルで行う', async () => {
+    const engineProfiles: string[] = []
+    vi.mocked(VoicevoxApi.prototype.updateMoraData).mockImplementation(async function (
+      this: any,
+      accentPhrases: AccentPhrase[]
+    ) {
+      engineProfiles.push(this.engineProfile.name)
+      return accentPhrases
+    })
+    const deps = createMockDeps()
+    deps.config.engine = 'aivisspeech'
+    registerSpeakTool(deps)
+    const handler = getHandler('voicevox_speak')
+
+    await handler({ text: 'unused', phrases: 'A,B' }, {})
+
+    expect(engineProfiles).toEqual(['aivisspeech'])
+  })
+})
+
+describe('registerSpeakTool kana mode', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockVoicevoxClient.speak.mockResolvedValue({
+      status: 'queued',
+      mode: 'file',
+      textPreview: "コンニチワ'",
+      segmentCount: 1,
+    })
+  })
+
+  it('kana を行ごとに読み仮名として speak に渡す', async () => {
+    const deps = createMockDeps()
+    registerSpeakTool(deps)
+    const handler = getHandler('voicevox_speak')
+
+    await handler({ text: 'unused', kana: "コンニチワ'\n3:セ'カイ" }, {})
+
+    const [segments, options] = mockVoicevoxClient.speak.mock.calls[0]
+    expect(segments).toEqual([
+      { text: "コンニチワ'", speaker: undefined },
+      { text: "セ'カイ", speaker: 3 },
+    ])
+    expect(options).toMatchObject({ kana: true })
+  })
+})
+
+describe('registerSpeakTool markdown', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockVoicevoxClient.speak.mockResolvedValue({
+      status: 'queued',
+      mode: 'file',
+      textPreview: '手順',
+      segmentCount: 3,
+    })
+  })
+
+  it('markdown が有効なら記号を外し、リスト項目を別のセグメントにする', async () => {
+    const deps = createMockDeps()
+    deps.config = { ...deps.config, markdown: true, markdownCodeBlocks: 'announce' }
+    registerSpeakTool(deps)
+    const handler = getHandler('voicevox_speak')
+
+    await handler({ text: '## 手順\n- **ビルド**する\n- 3:[ドキュメント](https://example.com)を読む' }, {})
+
+    expect(mockVoicevoxClient.speak.mock.calls[0][0]).toEqual([
+      { text: '手順', speaker: undefined },
+      { text: 'ビルドする', speaker: undefined },
+      { text: 'ドキュメントを読む', speaker: 3 },
+    ])
+  })
+})
+
+describe('registerSpeakTool segmentation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockVoicevoxClient.speak.mockResolvedValue({
+      status: 'queued',
+      mode: 'file',
+      textPreview: 'はい。',
+      segmentCount: 3,
+    })
+  })
+
+  it('各行を文の単位で分け、最初のセグメントだけ短くする', async () => {
+    const deps = createMockDeps()
+    deps.config = { ...deps.config, minSegmentLength: 10, maxSegmentLength: 100, firstSegmentMaxLength: 5 }
+    registerSpeakTool(deps)
+    const handler = getHandler('voicevox_speak')
+
+    await handler({ text: 'はい。わかりました。それでは始めましょう。\n3:Dr. Smith です。' }, {})
+
+    expect(mockVoicevoxClient.speak.mock.calls[0][0]).toEqual([
+      { text: 'はい。', speaker: undefined },
+      { text: 'わかりました。それでは始めましょう。', speaker: undefined },
+      { text: 'Dr. Smith です。', speaker: 3 },
+    ])
+  })
+
+  it('行ごとの読み上げ設定は分割後のセグメントにも引き継ぐ', async () => {
+    const deps = createMockDeps()
+    deps.config = { ...deps.config, minSegmentLength: 1, maxSegmentLength: 100, firstSegmentMaxLength: 100 }
+    registerSpeakTool(deps)
+    const handler = getHandler('voicevox_speak')
+
+    await handler({ text: '{speed=0.9}:昔々。あるところに。\n3{speed=1.3,pitch=0.05}:やったー！' }, {})
+
+    expect(mockVoicevoxClient.speak.mock.calls[0][0]).toEqual([
+      { text: '昔々。', speedScale: 0.9 },
+      { text: 'あるところに。', speedScale: 0.9 },
+      { text: 'やったー！', speaker: 3, speedScale: 1.3, pitchScale: 0.05 },
+    ])
+  })
+})
+
+describe('registerSpeakTool speaker names', () => {
+  const speakers = [
+    {
+      name: 'ずんだもん',
+      speaker_uuid: 'zundamon',
+      styles: [
+        { name: 'ノーマル', id: 3, type: 'talk' },
+        { name: 'あまあま', id: 1, type: 'talk' },
+      ],
+      version: '0.0.0',
+    },
+  ] as Speaker[]
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockVoicevoxClient.speak.mockResolvedValue({ status: 'queued', mode: 'file', textPreview: 'a', segmentCount: 1 })
+    mockVoicevoxClient.getSpeakerResolver.mockResolvedValue(createSpeakerResolver(speakers))
+  })
+
+  it('speaker に話者名を渡すとスタイルIDに解決する', async () => {
+    mockVoicevoxClient.resolveSpeaker.mockResolvedValue(1)
+    registerSpeakTool(createMockDeps())
+    const handler = getHandler('voicevox_speak')
+
+    await handler({ text: 'こんにちは', speaker: 'ずんだもん/あまあま' }, {})
+
+    expect(mockVoicevoxClient.resolveSpeaker).toHaveBeenCalledWith('ずんだもん/あまあま', undefined)
+    expect(mockVoicevoxClient.speak.mock.calls[0][1]).toMatchObject({ speaker: 1 })
+  })
+
+  it('行頭の話者名があるときだけ話者一覧を取得して解決する', async () => {
+    registerSpeakTool(createMockDeps())
+    const handler = getHandler('voicevox_speak')
+
+    await handler({ text: '1:こんにちは\n10:30に集合' }, {})
+    expect(mockVoicevoxClient.getSpeakerResolver).not.toHaveBeenCalled()
+
+    await handler({ text: 'ずんだもん/あまあま:こんにちは\n注意:大事' }, {})
+    expect(mockVoicevoxClient.speak.mock.calls[1][0]).toEqual([
+      { text: 'こんにちは', speaker: 1 },
+      { text: '注意:大事' },
+    ])
+  })
+
+  it('感情タグは話者のキャラクターの対応するスタイルで読み、無ければ元の話者のまま読む', async () => {
+    const deps = createMockDeps()
+    deps.config.emotionTags = true
+    deps.config.emotionStyles = { shy: ['あまあま'] }
+    registerSpeakTool(deps)
+    const handler = getHandler('voicevox_speak')
+
+    await handler({ text: '[normal]こんにちは[SHY]えへへ\n[whisper]ひみつ[unknown]' }, {})
+
+    expect(mockVoicevoxClient.getSpeakerResolver).toHaveBeenCalled()
+    expect(mockVoicevoxClient.speak.mock.calls[0][0]).toEqual([
+      { text: 'こんにちは', speaker: 3 },
+      { text: 'えへへ', speaker: 1 },
+      { text: 'ひみつ[unknown]' },
+    ])
+  })
+
+  it('話者名が解決できない場合はエラーを返す', async () => {
+    mockVoicevoxClient.resolveSpeaker.mockRejectedValue(
+      new Error('話者「めたん」が見つかりません。候補: ずんだもん/ノーマル (3)')
+    )
+    registerSpeakTool(createMockDeps())
+    const handler = getHandler('voicevox_speak')
+
+    const response = await handler({ text: 'こんにちは', speaker: 'めたん' }, {})
+
+    expect(response.isError).toBe(true)
+    expect(response.content[0].text).toContain('候補: ずんだもん/ノーマル (3)')
+    expect(mockVoicevoxClient.speak).not.toHaveBeenCalled()
+  })
+})
+
+describe('registerSpeakTool normalization', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('正規化したテキストを応答に含める', async () => {
+    mockVoicevoxClient.speak.mockResolvedValue({
+      status: 'queued',
+      mode: 'file',
+      textPreview: '3.5GB の API',
+      segmentCount: 1,
+      normalizedText: '3.5ギガバイト の エーピーアイ',
+    })
+    const deps = createMockDeps()
+    registerSpeakTool(deps)
+    const handler = getHandler('voicevox_speak')
+
+    const response = await handler({ text: '3.5GB の API' }, {})
+
+    expect(response.content[0].text).toBe('Queued (file): "3.5GB の API"\nRead as: "3.5ギガバイト の エーピーアイ"')
+  })
+})
+
+describe('registerSpeakTool ssml mode', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockVoicevoxClient.speak.mockResolvedValue({
+      status: 'queued',
+      mode: 'file',
+      textPreview: 'こんにちは',
+      segmentCount: 1,
+    })
+  })
+
+  it('ssml は行で分割せずそのまま SSML として speak に渡す', async () => {
+    const deps = createMockDeps()
+    registerSpeakTool(deps)
+    const handler = getHandler('voicevox_speak')
+    const ssml = '<speak>こんにちは\n<break time="500ms"/>世界</speak>'
+
+    await handler({ text: 'unused', ssml, speaker: 3, preset: 2 }, {})
+
+    const [input, options] = mockVoicevoxClient.speak.mock.calls[0]
+    expect(input).toBe(ssml)
+    expect(options).toMatchObject({ ssml: true, speaker: 3, preset: 2 })
+  })
+})
+
+describe('registerSpeakTool cancellation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockVoicevoxClient.speak.mockResolvedValue({
+      status: 'queued',
+      mode: 'file',
+      textPreview: 'こんにちは',
+      segmentCount: 1,
+    })
+  })
+
+  it('MCPリクエストのキャンセルシグナルを speak に渡す', async () => {
+    const deps = createMockDeps()
+    registerSpeakTool(deps)
+    const handler = getHandler('voicevox_speak')
+    const controller = new AbortController()
+
+    await handler({ text: 'こんにちは' }, { signal: controller.signal })
+
+    expect(mockVoicevoxClient.speak.mock.calls[0][1]).toMatchObject({ signal: controller.signal })
+  })
+})
+
+describe('registerSpeakTool priority', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockVoicevoxClient.speak.mockResolvedValue({
+      status: 'queued',
+      mode: 'file',
+      textPreview: 'こんにちは',
+      segmentCount: 1,
+    })
+  })
+
+  it('priority を speak に渡し、未指定なら設定の既定値を使う', async () => {
+    const deps = createMockDeps()
+    deps.config.defaultPriority = 'low'
+    registerSpeakTool(deps)
+    const handler = getHandler('voicevox_speak')
+
+    await handler({ text: 'こんにちは', priority: 'urgent' }, {})
+    await handler({ text: 'こんにちは' }, {})
+
+    expect(mockVoicevoxClient.speak.mock.calls[0][1]).toMatchObject({ priority: 'urgent', immediate: true })
+    expect(mockVoicevoxClient.speak.mock.calls[1][1]).toMatchObject({ priority: 'low' })
+  })
+
+  it('priority が制限されている場合はスキーマに含めない', () => {
+    const deps = createMockDeps()
+    deps.restrictions.priority = true
+    registerSpeakTool(deps)
+
+    const call = mockRegisterTool.mock.calls.find((c: any[]) => c[0] === 'voicevox_speak')
+    expect(call![1].inputSchema.priority).toBeUndefined()
+    expect(call![1].inputSchema.immediate).toBeDefined()
+  })
 })
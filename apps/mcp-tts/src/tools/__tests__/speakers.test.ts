@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { registerSpeakerTools } from '../speakers.js'
+import type { ToolDeps } from '../types.js'
+
+const mockRegisterTool = vi.fn()
+
+const mockVoicevoxClient = {
+  getSpeakers: vi.fn(),
+  isSpeakerInitialized: vi.fn(),
+  checkEngines: vi.fn(),
+  clearQueue: vi.fn(),
+}
+
+function createMockDeps(): ToolDeps {
+  return {
+    server: { registerTool: mockRegisterTool } as any,
+    voicevoxClient: mockVoicevoxClient as any,
+    config: {
+      voicevoxUrl: 'http://localhost:50021',
+      defaultSpeaker: 1,
+      disabledTools: [],
+    } as any,
+    disabledTools: new Set<string>(),
+    restrictions: {
+      immediate: false,
+      waitForStart: false,
+      waitForEnd: false,
+    },
+  }
+}
+
+function getHandler(toolName: string) {
+  const call = mockRegisterTool.mock.calls.find((c: any[]) => c[0] === toolName)
+  expect(call).toBeDefined()
+  return call![2]
+}
+
+describe('registerSpeakerTools', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('get_speakers は各スタイルの読み込み状態を返す', async () => {
+    mockVoicevoxClient.getSpeakers.mockResolvedValue([
+      {
+        name: 'ずんだもん',
+        speaker_uuid: 'uuid-zundamon',
+        styles: [
+          { name: 'ノーマル', id: 3 },
+          { name: 'あまあま', id: 1 },
+        ],
+      },
+    ])
+    mockVoicevoxClient.isSpeakerInitialized.mockImplementation(async (id: number) => {
+      if (id === 1) throw new Error('engine error')
+      return true
+    })
+    registerSpeakerTools(createMockDeps())
+
+    const result = await getHandler('voicevox_get_speakers')({})
+
+    expect(JSON.parse(result.content[0].text)).toEqual([
+      { speaker: 3, name: 'ずんだもん:ノーマル', initialized: true },
+      { speaker: 1, name: 'ずんだもん:あまあま', initialized: false },
+    ])
+  })
+
+  it('ping は単一エンジンの状態を返す', async () => {
+    mockVoicevoxClient.checkEngines.mockResolvedValue([
+      { url: 'http://localhost:50021', connected: true, version: '0.22.0', healthy: true, consecutiveFailures: 0 },
+    ])
+    registerSpeakerTools(createMockDeps())
+
+    const result = await getHandler('voicevox_ping')({})
+
+    expect(result.isError).toBeFalsy()
+    expect(result.content[0].text).toBe('VOICEVOX is running at http://localhost:50021 (v0.22.0)')
+  })
+
+  it('ping は複数エンジンのうち1つでも応答すれば成功する', async () => {
+    mockVoicevoxClient.checkEngines.mockResolvedValue([
+      {
+        url: 'http://a:50021',
+        connected: true,
+        version: '0.22.0',
+        healthy: true,
+        consecutiveFailures: 0,
+        latencyMs: 12,
+      },
+      { url: 'http://b:50021', connected: false, healthy: false, consecutiveFailures: 3 },
+    ])
+    registerSpeakerTools(createMockDeps())
+
+    const result = await getHandler('voicevox_ping')({})
+
+    expect(result.isError).toBeFalsy()
+    expect(result.content[0].text).toContain('1/2 VOICEVOX engines are running')
+    expect(result.content[0].text).toContain('http://b:50021: not reachable (temporarily excluded)')
+  })
+})
@@ -0,0 +1,102 @@
+import type { Speaker } from '@kajidog/voicevox-client'
+import { createSpeakerResolver } from '@kajidog/voicevox-client'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { registerSynthesizeTool } from '../synthesize.js'
+import type { ToolDeps } from '../types.js'
+
+const mockRegisterTool = vi.fn()
+
+const mockVoicevoxClient = {
+  generateAudioFileWithTiming: vi.fn(),
+  resolveSpeaker: vi.fn(),
+  getSpeakerResolver: vi.fn(),
+}
+
+const speakers = [
+  {
+    name: 'ずんだもん',
+    speaker_uuid: 'zundamon',
+    styles: [
+      { name: 'ノーマル', id: 3, type: 'talk' },
+      { name: 'あまあま', id: 1, type: 'talk' },
+    ],
+    version: '0.0.0',
+  },
+] as Speaker[]
+
+function createMockDeps(): ToolDeps {
+  return {
+    server: { registerTool: mockRegisterTool } as any,
+    voicevoxClient: mockVoicevoxClient as any,
+    config: {
+      voicevoxUrl: 'http://localhost:50021',
+      defaultSpeaker: 1,
+      defaultSpeedScale: 1.0,
+      subtitleFormats: [],
+      visemes: false,
+      disabledTools: [],
+      httpMode: false,
+      httpPort: 3000,
+      httpHost: '0.0.0.0',
+    } as any,
+    disabledTools: new Set<string>(),
+    restrictions: {
+      immediate: false,
+      waitForStart: false,
+      waitForEnd: false,
+      priority: false,
+    },
+  }
+}
+
+function getHandler(toolName: string) {
+  const call = mockRegisterTool.mock.calls.find((c: any[]) => c[0] === toolName)
+  expect(call).toBeDefined()
+  return call![2]
+}
+
+describe('registerSynthesizeTool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    mockVoicevoxClient.getSpeakerResolver.mockResolvedValue(createSpeakerResolver(speakers))
+    mockVoicevoxClient.generateAudioFileWithTiming.mockResolvedValue({
+      filePath: '/tmp/out.wav',
+      timing: { duration: 1, accentPhrases: [] },
+      segments: [],
+    })
+  })
+
+  it('行頭に話者の指定がある入力も Markdown の前処理と文の分割をしてから合成する', async () => {
+    const deps = createMockDeps()
+    deps.config.markdown = true
+    deps.config.markdownEmphasis = true
+    deps.config.minSegmentLength = 0
+    deps.config.maxSegmentLength = 150
+    registerSynthesizeTool(deps)
+    const handler = getHandler('voicevox_synthesize_file')
+
+    await handler({ text: 'ずんだもん/あまあま:**重要**です。次へ\n3:おしまい', output: '/tmp/out.wav' }, {})
+
+    expect(mockVoicevoxClient.generateAudioFileWithTiming.mock.calls[0][0]).toEqual([
+      { text: '重要です。', speaker: 1 },
+      { text: '次へ', speaker: 1 },
+      { text: 'おしまい', speaker: 3 },
+    ])
+  })
+
+  it('話者の指定が無い入力はテキストのまま渡す', async () => {
+    registerSynthesizeTool(createMockDeps())
+    const handler = getHandler('voicevox_synthesize_file')
+
+    await handler({ text: 'こんにちは', output: '/tmp/out.wav', speaker: 3, preset: 2 }, {})
+
+    expect(mockVoicevoxClient.generateAudioFileWithTiming).toHaveBeenCalledWith('こんにちは', '/tmp/out.wav', {
+      speaker: 3,
+      speedScale: undefined,
+      preset: 2,
+      signal: undefined,
+      kana: false,
+    })
+    expect(mockVoicevoxClient.getSpeakerResolver).not.toHaveBeenCalled()
+  })
+})
@@ -1,6 +1,5 @@
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
 import * as z from 'zod'
-import { bumpPlayerDictionaryRevision } from './player/dictionary-revision.js'
 import { registerToolIfEnabled } from './registration.js'
 import type { ToolDeps } from './types.js'
 import { createErrorResponse } from './utils.js'
@@ -138,7 +137,6 @@ export function registerDictionaryTools(deps: ToolDeps) {
     }): Promise<CallToolResult> => {
       try {
         const words = await voicevoxClient.addDictionaryWord({ surface, pronunciation, priority })
-        bumpPlayerDictionaryRevision()
 
         // Find the added word
         const normalizedSurface = surface.trim()
@@ -191,7 +189,6 @@ export function registerDictionaryTools(deps: ToolDeps) {
     }): Promise<CallToolResult> => {
       try {
         const words = await voicevoxClient.updateDictionaryWord({ wordUuid, surface, pronunciation, priority })
-        bumpPlayerDictionaryRevision()
         const word = words.find((w) => w.wordUuid === wordUuid.trim())
 
         return {
@@ -227,7 +224,6 @@ export function registerDictionaryTools(deps: ToolDeps) {
         if (!normalizedWordUuid) throw new Error('wordUuid is required')
 
         await voicevoxClient.deleteDictionaryWord(normalizedWordUuid)
-        bumpPlayerDictionaryRevision()
         return {
           content: [{ type: 'text', text: JSON.stringify({ success: true, deletedWordUuid: normalizedWordUuid }) }],
         }
@@ -273,7 +269,6 @@ export function registerDictionaryTools(deps: ToolDeps) {
     }): Promise<CallToolResult> => {
       try {
         const result = await voicevoxClient.addDictionaryWords(words)
-        bumpPlayerDictionaryRevision()
 
         return {
           content: [
@@ -329,7 +324,6 @@ export function registerDictionaryTools(deps: ToolDeps) {
     }): Promise<CallToolResult> => {
       try {
         const result = await voicevoxClient.updateDictionaryWords(words)
-        bumpPlayerDictionaryRevision()
 
         return {
           content: [
@@ -1,7 +1,10 @@
 export { registerDictionaryTools } from './dictionary.js'
 export { registerPlayerTools } from './player.js'
+export { registerPresetTools } from './presets.js'
 export { registerAppToolIfEnabled, registerToolIfEnabled } from './registration.js'
+export { registerSingTools } from './sing.js'
 export { buildSpeakInputSchema, registerSpeakTool } from './speak.js'
+export { registerSpeakStreamTool } from './speak-stream.js'
 export { registerSpeakerTools } from './speakers.js'
 export { registerSynthesizeTool } from './synthesize.js'
 export type { PlayerToolDeps, ToolDeps, ToolHandlerExtra } from './types.js'
@@ -14,3 +17,4 @@ export {
   parseStringInput,
   processTextInput,
 } from './utils.js'
+export { registerVisemeTool } from './visemes.js'
@@ -1,7 +1,6 @@
 import { accentPhrasesToNotation } from '@kajidog/voicevox-client'
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
 import * as z from 'zod'
-import { bumpPlayerDictionaryRevision } from '../player/dictionary-revision.js'
 import { registerAppToolIfEnabled } from '../registration.js'
 import { createErrorResponse } from '../utils.js'
 import type { PlayerUIToolContext } from './context.js'
@@ -80,7 +79,6 @@ export function registerPlayerDictionaryTools(context: PlayerUIToolContext): voi
           accentType,
           priority,
         })
-        bumpPlayerDictionaryRevision()
         return {
           content: [{ type: 'text', text: JSON.stringify({ words }) }],
         }
@@ -137,7 +135,6 @@ export function registerPlayerDictionaryTools(context: PlayerUIToolContext): voi
           accentType,
           priority,
         })
-        bumpPlayerDictionaryRevision()
         return {
           content: [{ type: 'text', text: JSON.stringify({ words }) }],
         }
@@ -167,7 +164,6 @@ export function registerPlayerDictionaryTools(context: PlayerUIToolContext): voi
     async ({ wordUuid }: { wordUuid: string }): Promise<CallToolResult> => {
       try {
         const words = await voicevoxClient.deleteDictionaryWord(wordUuid)
-        bumpPlayerDictionaryRevision()
         return {
           content: [{ type: 'text', text: JSON.stringify({ words }) }],
         }
@@ -1,11 +1,20 @@
 import { spawn } from 'node:child_process'
 import { mkdir, writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
+import {
+  type AudioQuery,
+  computeAudioTiming,
+  createVisemeTimeline,
+  type SubtitleFormat,
+} from '@kajidog/voicevox-client'
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
 import * as z from 'zod'
+import { getSubtitleOptions, getVisemeOptions } from '../../config.js'
 import { resolveAllowedOutputPath } from '../output-path.js'
 import { registerAppToolIfEnabled } from '../registration.js'
+import { writeSubtitleFiles } from '../subtitle-files.js'
 import { createErrorResponse } from '../utils.js'
+import { writeVisemeFile } from '../viseme-files.js'
 import type { PlayerUIToolContext } from './context.js'
 import {
   canChooseDirectoryDialog,
@@ -14,6 +23,7 @@ import {
   sanitizeFilePart,
   showDirectoryPicker,
 } from './os-utils.js'
+import { audioQuerySchema } from './schemas.js'
 import { decodeWavBase64 } from './wav.js'
 
 export function registerPlayerExportTools(context: PlayerUIToolContext): void {
@@ -95,7 +105,8 @@ export function registerPlayerExportTools(context: PlayerUIToolContext): void {
     '_export_tracks_for_player',
     {
       title: 'Export Tracks (Player)',
-      description: 'Save player tracks as wav files and open the target folder in file explorer.',
+      description:
+        'Save player tracks as wav files (with optional .srt/.vtt subtitles and viseme timelines) and open the target folder in file explorer.',
       inputSchema: {
         outputDir: z
           .string()
@@ -112,9 +123,18 @@ export function registerPlayerExportTools(context: PlayerUIToolContext): void {
               text: z.string().describe('Segment text'),
               speaker: z.number().describe('Speaker ID'),
               speakerName: z.string().describe('Speaker display name'),
+              audioQuery: audioQuerySchema.optional().describe('AudioQuery the track was synthesized from'),
             })
           )
           .describe('Tracks to export'),
+        subtitles: z
+          .array(z.enum(['srt', 'vtt']))
+          .optional()
+          .describe('Subtitle formats to write next to each track that has an AudioQuery (optional)'),
+        visemes: z
+          .boolean()
+          .optional()
+          .describe('Write a lip-sync viseme timeline next to each track that has an AudioQuery (optional)'),
       },
       _meta: {
         ui: {
@@ -126,9 +146,19 @@ export function registerPlayerExportTools(context: PlayerUIToolContext): void {
     async ({
       outputDir,
       segments,
+      subtitles,
+      visemes,
     }: {
       outputDir?: string
-      segments: Array<{ audioBase64: string; text: string; speaker: number; speakerName: string }>
+      segments: Array<{
+        audioBase64: string
+        text: string
+        speaker: number
+        speakerName: string
+        audioQuery?: AudioQuery
+      }>
+      subtitles?: SubtitleFormat[]
+      visemes?: boolean
     }): Promise<CallToolResult> => {
       try {
         if (!config.playerExportEnabled) {
@@ -152,7 +182,13 @@ export function registerPlayerExportTools(context: PlayerUIToolContext): void {
         const sessionDir = join(targetDir, `voicevox-${timestamp}`)
         await mkdir(sessionDir, { recursive: true })
 
+        const subtitleFormats = subtitles ?? (config.subtitleFormats as SubtitleFormat[])
+        const writeVisemes = visemes ?? config.visemes
+        // 話者が複数いるトラック一式では、1 人分のファイルでも話者名を付ける
+        const speakerLabels = new Set(segments.map((seg) => seg.speakerName || seg.speaker)).size > 1
         const files: string[] = []
+        const subtitleFiles: string[] = []
+        const visemeFiles: string[] = []
         for (let i = 0; i < segments.length; i++) {
           const seg = segments[i]
           const indexPart = String(i + 1).padStart(2, '0')
@@ -162,6 +198,20 @@ export function registerPlayerExportTools(context: PlayerUIToolContext): void {
           const filePath = join(sessionDir, fileName)
           await writeFile(filePath, decoded[i])
           files.push(filePath)
+
+          const timing = seg.audioQuery ? computeAudioTiming(seg.audioQuery) : undefined
+          if (subtitleFormats.length > 0 && timing) {
+            const source = { text: seg.text, timing, speakerName: seg.speakerName || `speaker-${seg.speaker}` }
+            subtitleFiles.push(
+              ...(await writeSubtitleFiles(filePath, [source], subtitleFormats, {
+                ...getSubtitleOptions(config),
+                speakerLabels,
+              }))
+            )
+          }
+          if (writeVisemes && timing) {
+            visemeFiles.push(await writeVisemeFile(filePath, createVisemeTimeline(timing, getVisemeOptions(config))))
+          }
         }
 
         let warning: string | undefined
@@ -195,6 +245,8 @@ export function registerPlayerExportTools(context: PlayerUIToolContext): void {
                 outputDir: sessionDir,
                 count: files.length,
                 files,
+                ...(subtitleFiles.length > 0 ? { subtitleFiles } : {}),
+                ...(visemeFiles.length > 0 ? { visemeFiles } : {}),
                 openedDirectory,
                 warning,
               }),
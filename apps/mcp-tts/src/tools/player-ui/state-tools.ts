@@ -1,4 +1,4 @@
-import type { AccentPhrase, AudioQuery } from '@kajidog/voicevox-client'
+import { type AccentPhrase, type AudioQuery, computeAudioTiming } from '@kajidog/voicevox-client'
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
 import * as z from 'zod'
 import { registerAppToolIfEnabled } from '../registration.js'
@@ -139,6 +139,7 @@ export function registerPlayerStateTools(context: PlayerUIToolContext): void {
               pauseLengthScale: seg.pauseLengthScale,
               audioQuery: seg.audioQuery,
               accentPhrases: seg.audioQuery?.accent_phrases ?? seg.accentPhrases,
+              timing: seg.audioQuery ? computeAudioTiming(seg.audioQuery) : undefined,
             }
           }),
           updatedAt: Date.now(),
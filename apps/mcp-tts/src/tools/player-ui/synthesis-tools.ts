@@ -1,4 +1,4 @@
-import type { AccentPhrase, AudioQuery } from '@kajidog/voicevox-client'
+import { type AccentPhrase, type AudioQuery, computeAudioTiming } from '@kajidog/voicevox-client'
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
 import * as z from 'zod'
 import { registerAppToolIfEnabled } from '../registration.js'
@@ -133,6 +133,7 @@ export function registerPlayerSynthesisTools(context: PlayerUIToolContext): void
                 pauseLengthScale: seg.pauseLengthScale,
                 audioQuery: seg.audioQuery,
                 accentPhrases: seg.audioQuery?.accent_phrases ?? seg.accentPhrases,
+                timing: seg.audioQuery ? computeAudioTiming(seg.audioQuery) : undefined,
               }
             }),
             updatedAt: Date.now(),
@@ -171,6 +172,7 @@ export function registerPlayerSynthesisTools(context: PlayerUIToolContext): void
               prePhonemeLength: result.prePhonemeLength,
               postPhonemeLength: result.postPhonemeLength,
               pauseLengthScale: result.pauseLengthScale,
+              timing: result.timing,
             }
             saveStateForViewAndSession(stateKey, extra?.sessionId, {
               segments: nextSegments,
@@ -197,6 +199,7 @@ export function registerPlayerSynthesisTools(context: PlayerUIToolContext): void
                 prePhonemeLength: result.prePhonemeLength,
                 postPhonemeLength: result.postPhonemeLength,
                 pauseLengthScale: result.pauseLengthScale,
+                timing: result.timing,
                 autoPlay: effectiveAutoPlay,
                 viewUUID,
               }),
@@ -1,4 +1,4 @@
-import type { AccentPhrase, AudioQuery, VoicevoxApi } from '@kajidog/voicevox-client'
+import type { AccentPhrase, AudioQuery, AudioTiming, VoicevoxApi } from '@kajidog/voicevox-client'
 
 export type SynthesizeResult = {
   audioBase64: string
@@ -14,6 +14,7 @@ export type SynthesizeResult = {
   prePhonemeLength?: number
   postPhonemeLength?: number
   pauseLengthScale?: number
+  timing: AudioTiming
 }
 
 export type SpeakerEntry = { id: number; name: string; characterName: string; uuid: string }
@@ -31,6 +32,7 @@ export type PlayerSegmentState = {
   prePhonemeLength?: number
   postPhonemeLength?: number
   pauseLengthScale?: number
+  timing?: AudioTiming
 }
 
 export type PlayerSessionState = {
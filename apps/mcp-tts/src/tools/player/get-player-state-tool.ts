@@ -94,6 +94,7 @@ export function registerGetPlayerStateTool(deps: ToolDeps, runtime: PlayerRuntim
               prePhonemeLength: seg.prePhonemeLength,
               postPhonemeLength: seg.postPhonemeLength,
               pauseLengthScale: seg.pauseLengthScale,
+              duration: seg.timing?.duration,
             }
           })
           return {
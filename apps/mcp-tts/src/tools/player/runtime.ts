@@ -1,8 +1,9 @@
-import type { AccentPhrase, AudioQuery } from '@kajidog/voicevox-client'
-import { VoicevoxApi } from '@kajidog/voicevox-client'
+import { join } from 'node:path'
+import type { AccentPhrase, AudioQuery, AudioTiming, SynthesisCache } from '@kajidog/voicevox-client'
+import { computeAudioTiming, VoicevoxApi } from '@kajidog/voicevox-client'
+import { getVoicevoxApiOptions, parseVoicevoxUrls } from '../../config.js'
+import { createPlayerSynthesisCache, removeLegacyPlayerAudioCache } from '../../synthesis-cache.js'
 import type { ToolDeps } from '../types.js'
-import { AudioCacheStore, createAudioCacheKey } from './audio-cache.js'
-import { getPlayerDictionaryRevision } from './dictionary-revision.js'
 import type { PlayerSessionState } from './session-state.js'
 import { SessionStateStore } from './session-state.js'
 
@@ -37,6 +38,7 @@ type SynthesizeResult = {
   prePhonemeLength?: number
   postPhonemeLength?: number
   pauseLengthScale?: number
+  timing: AudioTiming
 }
 
 export interface PlayerRuntime {
@@ -57,26 +59,29 @@ export interface PlayerRuntime {
 // Module-scope singletons (one-time init guard for HTTP mode)
 // ---------------------------------------------------------------------------
 
-let audioCacheStore: AudioCacheStore | null = null
 let sessionStateStore: SessionStateStore | null = null
+let playerSynthesisCache: { cache: SynthesisCache | undefined } | null = null
 let speakerCache: SpeakerEntry[] | null = null
 
 export function createPlayerRuntime(deps: ToolDeps): PlayerRuntime {
-  const { config } = deps
+  const { config, voicevoxClient } = deps
 
   // セッションごとの再登録で初期化が多重実行されないようにする。
-  if (!audioCacheStore) {
-    audioCacheStore = new AudioCacheStore(config)
-  }
   if (!sessionStateStore) {
-    sessionStateStore = new SessionStateStore(config, audioCacheStore.getDir())
+    const cacheDir = config.playerCacheDir || join(process.cwd(), '.voicevox-player-cache')
+    sessionStateStore = new SessionStateStore(config, cacheDir)
+    // 以前のプレーヤー専用キャッシュ（*.txt）はもう読まないため削除する
+    void removeLegacyPlayerAudioCache(cacheDir)
+  }
+  if (!playerSynthesisCache) {
+    playerSynthesisCache = { cache: createPlayerSynthesisCache(config, voicevoxClient.getSynthesisCache()) }
   }
 
-  const cache = audioCacheStore
   const sessionState = sessionStateStore
-  const playerVoicevoxApi = new VoicevoxApi(config.voicevoxUrl, {
-    retryCount: config.retryCount,
-    retryDelayMs: config.retryDelayMs,
+  // 合成結果のキャッシュは --player-audio-cache でディスクに保存する。ディスクに保存しない場合は speak・synthesize_file と共有する
+  const playerVoicevoxApi = new VoicevoxApi(parseVoicevoxUrls(config.voicevoxUrl), {
+    ...getVoicevoxApiOptions(config),
+    synthesisCache: playerSynthesisCache.cache,
   })
 
   const getSpeakerList = async () => {
@@ -121,6 +126,15 @@ export function createPlayerRuntime(deps: ToolDeps): PlayerRuntime {
     }))
   }
 
+  // エンジン情報を取得できない場合は対応しているものとして扱う。
+  const supportsPauseLength = async () => {
+    try {
+      return (await voicevoxClient.getEngineCapabilities()).features.pauseLength
+    } catch {
+      return true
+    }
+  }
+
   const synthesizeWithCache = async ({
     text,
     speaker,
@@ -130,14 +144,19 @@ export function createPlayerRuntime(deps: ToolDeps): PlayerRuntime {
     volumeScale,
     prePhonemeLength,
     postPhonemeLength,
-    pauseLengthScale,
+    pauseLengthScale: requestedPauseLengthScale,
     accentPhrases,
   }: SynthesizeInput): Promise<SynthesizeResult> => {
     const speakerName = await getSpeakerName(speaker)
 
-    // アクセント編集時は /mora_data でピッチ再計算してからキャッシュキーを作る。
-    // これにより、同じアクセント編集結果で正しくキャッシュヒットする。
-    let effectiveAudioQuery = audioQuery
+    // 間の長さに対応していないエンジン（0.14 未満）には pauseLengthScale を送らない。
+    const pauseLengthSupported = await supportsPauseLength()
+    const pauseLengthScale = pauseLengthSupported ? requestedPauseLengthScale : undefined
+
+    // アクセント編集時は /mora_data でピッチ再計算してから合成する。
+    // 合成結果はクエリの内容をキーにキャッシュされるため、同じアクセント編集結果ならキャッシュヒットする。
+    let effectiveAudioQuery =
+      audioQuery && !pauseLengthSupported ? { ...audioQuery, pauseLengthScale: undefined } : audioQuery
     if (audioQuery && accentPhrases && accentPhrases.length > 0 && audioQuery.accent_phrases?.length > 0) {
       try {
         const updated = await playerVoicevoxApi.updateMoraData(audioQuery.accent_phrases, speaker)
@@ -147,52 +166,6 @@ export function createPlayerRuntime(deps: ToolDeps): PlayerRuntime {
       }
     }
 
-    const cacheKey = createAudioCacheKey({
-      text,
-      speaker,
-      audioQuery: effectiveAudioQuery,
-      speedScale,
-      dictionaryRevision: getPlayerDictionaryRevision(),
-      intonationScale,
-      volumeScale,
-      prePhonemeLength,
-      postPhonemeLength,
-      pauseLengthScale,
-      accentPhrases,
-    })
-    const cachedBase64 = cache.readCachedBase64(cacheKey)
-
-    if (cachedBase64) {
-      // キャッシュヒット時でも、UI復元に必要な query メタデータは返す。
-      let cachedQuery = effectiveAudioQuery
-      if (!cachedQuery) {
-        const generated = await playerVoicevoxApi.generateQuery(text, speaker)
-        if (accentPhrases) generated.accent_phrases = accentPhrases
-        generated.speedScale = speedScale
-        if (intonationScale !== undefined) generated.intonationScale = intonationScale
-        if (volumeScale !== undefined) generated.volumeScale = volumeScale
-        if (prePhonemeLength !== undefined) generated.prePhonemeLength = prePhonemeLength
-        if (postPhonemeLength !== undefined) generated.postPhonemeLength = postPhonemeLength
-        if (pauseLengthScale !== undefined) generated.pauseLengthScale = pauseLengthScale
-        cachedQuery = generated
-      }
-      return {
-        audioBase64: cachedBase64,
-        text,
-        speaker,
-        speakerName,
-        kana: cachedQuery?.kana,
-        audioQuery: cachedQuery,
-        speedScale: cachedQuery?.speedScale ?? speedScale,
-        intonationScale: cachedQuery?.intonationScale ?? intonationScale,
-        volumeScale: cachedQuery?.volumeScale ?? volumeScale,
-        prePhonemeLength: cachedQuery?.prePhonemeLength ?? prePhonemeLength,
-        postPhonemeLength: cachedQuery?.postPhonemeLength ?? postPhonemeLength,
-        pauseLengthScale: cachedQuery?.pauseLengthScale ?? pauseLengthScale,
-        accentPhrases: (cachedQuery?.accent_phrases as AccentPhrase[] | undefined) ?? accentPhrases,
-      }
-    }
-
     const resolvedQuery = effectiveAudioQuery
       ? { ...effectiveAudioQuery }
       : await playerVoicevoxApi.generateQuery(text, speaker)
@@ -209,7 +182,6 @@ export function createPlayerRuntime(deps: ToolDeps): PlayerRuntime {
 
     const audioData = await playerVoicevoxApi.synthesize(resolvedQuery, speaker)
     const base64Audio = Buffer.from(audioData).toString('base64')
-    await cache.writeCachedBase64(cacheKey, base64Audio)
 
     return {
       audioBase64: base64Audio,
@@ -225,6 +197,7 @@ export function createPlayerRuntime(deps: ToolDeps): PlayerRuntime {
       prePhonemeLength: resolvedQuery.prePhonemeLength,
       postPhonemeLength: resolvedQuery.postPhonemeLength,
       pauseLengthScale: resolvedQuery.pauseLengthScale,
+      timing: computeAudioTiming(resolvedQuery),
     }
   }
 
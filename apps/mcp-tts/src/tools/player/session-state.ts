@@ -1,7 +1,7 @@
 import { mkdirSync, readFileSync } from 'node:fs'
 import { rename, writeFile } from 'node:fs/promises'
 import { dirname, join } from 'node:path'
-import type { AccentPhrase, AudioQuery } from '@kajidog/voicevox-client'
+import type { AccentPhrase, AudioQuery, AudioTiming } from '@kajidog/voicevox-client'
 import type { ToolDeps } from '../types.js'
 
 // ---------------------------------------------------------------------------
@@ -21,6 +21,8 @@ export interface PlayerSegmentState {
   prePhonemeLength?: number
   postPhonemeLength?: number
   pauseLengthScale?: number
+  /** 合成したクエリから計算した音声の長さと発話タイミング（未合成のトラックには無い） */
+  timing?: AudioTiming
 }
 
 export interface PlayerSessionState {
@@ -1,11 +1,20 @@
 import { randomUUID } from 'node:crypto'
+import { applySsmlSegment } from '@kajidog/voicevox-client'
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
 import * as z from 'zod'
+import { getEmotionStyles, getTextPreprocessOptions, getTextSegmentOptions } from '../../config.js'
 import { isToolEnabled, registerAppToolIfEnabled } from '../registration.js'
 import type { ToolDeps, ToolHandlerExtra } from '../types.js'
-import { createErrorResponse, getEffectiveSpeaker, parseStringInput } from '../utils.js'
+import {
+  createErrorResponse,
+  getEffectiveSpeaker,
+  getLineSpeakerResolver,
+  parseTextInput,
+  resolveSpeakerParam,
+} from '../utils.js'
 import type { PlayerRuntime } from './runtime.js'
 import { playerResourceUri } from './runtime.js'
+import type { PlayerSegmentState } from './session-state.js'
 
 export function registerSpeakPlayerTool(deps: ToolDeps, runtime: PlayerRuntime): void {
   const { server, config, disabledTools } = deps
@@ -17,13 +26,27 @@ export function registerSpeakPlayerTool(deps: ToolDeps, runtime: PlayerRuntime):
     {
       title: 'Speak Player',
       description:
-        'Use when you need a player UI (display, edit, or replay audio). Creates a VOICEVOX player session, returns viewUUID. Multi-speaker format: "1:Hello\\n2:World".' +
+        'Use when you need a player UI (display, edit, or replay audio). Creates a VOICEVOX player session, returns viewUUID. Multi-speaker format: "1:Hello\\nずんだもん:World" (style ID or name); per-line prosody: "3{speed=1.2,pitch=0.05}:Yay!".' +
         (isToolEnabled(disabledTools, 'speak') ? ' For simple playback without UI, use voicevox_speak instead.' : ''),
       inputSchema: {
         text: z
           .string()
-          .describe('Text to synthesize. Multi-speaker format: "1:Hello\\n2:World" (speaker ID prefix per line).'),
-        speaker: z.number().optional().describe('Default speaker ID (optional)'),
+          .describe(
+            'Text to synthesize. Multi-speaker format: "1:Hello\\nずんだもん/あまあま:World" (style ID or name prefix per line; unknown names are read as text). Per-line prosody: "3{speed=1.2,pitch=0.05}:Yay!" or "{speed=0.9}:..." (keys: speed, pitch, intonation, volume, pre, post, pause).' +
+              (config.emotionTags
+                ? ' Inline emotion tags such as "[happy]" or "[whisper]" switch to the matching style of the character.'
+                : '')
+          ),
+        ssml: z
+          .string()
+          .optional()
+          .describe(
+            'SSML wrapped in <speak> (<voice>, <prosody>, <break>, <sub>, <say-as>). Each <voice>/<prosody> run becomes one track. Takes priority over text.'
+          ),
+        speaker: z
+          .union([z.number(), z.string()])
+          .optional()
+          .describe('Default speaker: style ID, or name such as "ずんだもん" or "ずんだもん/あまあま" (optional)'),
         speedScale: z.number().optional().describe('Playback speed (optional, default from environment)'),
       },
       annotations: {
@@ -37,43 +60,39 @@ export function registerSpeakPlayerTool(deps: ToolDeps, runtime: PlayerRuntime):
     async (
       {
         text,
+        ssml,
         speaker,
         speedScale,
       }: {
         text: string
-        speaker?: number
+        ssml?: string
+        speaker?: number | string
         speedScale?: number
       },
       extra: ToolHandlerExtra
     ): Promise<CallToolResult> => {
       try {
-        if (!text?.trim()) {
+        if (!text?.trim() && !ssml?.trim()) {
           throw new Error('text is required')
         }
 
-        const parsedSegments = parseStringInput(text)
-        if (parsedSegments.length === 0) {
+        const effectiveSpeaker =
+          getEffectiveSpeaker(await resolveSpeakerParam(deps.voicevoxClient, speaker, extra.signal), extra) ??
+          config.defaultSpeaker
+        const effectiveSpeed = speedScale ?? config.defaultSpeedScale
+
+        const baseSegments = ssml
+          ? await createSsmlSegments(deps, runtime, ssml, effectiveSpeaker, effectiveSpeed, extra.signal)
+          : await createTextSegments(deps, runtime, text, effectiveSpeaker, effectiveSpeed, extra.signal)
+        if (baseSegments.length === 0) {
           throw new Error('Text is empty')
         }
 
-        const effectiveSpeaker = getEffectiveSpeaker(speaker, extra) ?? config.defaultSpeaker
-        const effectiveSpeed = speedScale ?? config.defaultSpeedScale
-
-        const baseSegments = parsedSegments.map((s) => ({
-          text: s.text,
-          speaker: s.speaker ?? effectiveSpeaker,
-          speedScale: effectiveSpeed,
-        }))
         const speakerNameMap = await runtime.resolveSpeakerNames(baseSegments.map((s) => s.speaker))
         const viewUUID = randomUUID()
 
         const nextState = {
-          segments: baseSegments.map((s) => ({
-            text: s.text,
-            speaker: s.speaker,
-            speakerName: speakerNameMap.get(s.speaker),
-            speedScale: s.speedScale,
-          })),
+          segments: baseSegments.map((s) => ({ ...s, speakerName: speakerNameMap.get(s.speaker) })),
           updatedAt: Date.now(),
           autoPlay: config.autoPlay,
         }
@@ -82,7 +101,7 @@ export function registerSpeakPlayerTool(deps: ToolDeps, runtime: PlayerRuntime):
           runtime.setSessionState(extra.sessionId, nextState)
         }
 
-        const fullText = parsedSegments.map((s) => s.text).join(' ')
+        const fullText = baseSegments.map((s) => s.text).join(' ')
         const textPreview = fullText.slice(0, 60) + (fullText.length > 60 ? '...' : '')
         const nextSteps = [
           ...(isToolEnabled(disabledTools, 'resynthesize_player')
@@ -109,3 +128,73 @@ export function registerSpeakPlayerTool(deps: ToolDeps, runtime: PlayerRuntime):
     }
   )
 }
+
+/**
+ * 行ごとの指定（"3{speed=1.2,pitch=0.05}:…"）付きテキストをプレーヤーのトラックに変換
+ * プレーヤーの状態には音高の項目が無いため、pitch を指定した行は調整済みのクエリを持たせる
+ */
+async function createTextSegments(
+  deps: ToolDeps,
+  runtime: PlayerRuntime,
+  text: string,
+  defaultSpeaker: number,
+  speedScale: number,
+  signal?: AbortSignal
+): Promise<PlayerSegmentState[]> {
+  const { config } = deps
+  const preprocess = getTextPreprocessOptions(config)
+  const emotionStyles = getEmotionStyles(config)
+  const resolver = await getLineSpeakerResolver(deps.voicevoxClient, text, preprocess, signal, emotionStyles)
+  const segments = parseTextInput(text, preprocess, getTextSegmentOptions(config), {
+    resolver,
+    defaultSpeaker,
+    emotionStyles,
+  })
+  return Promise.all(
+    segments.map(async ({ text, speaker: segmentSpeaker, pitchScale, ...prosody }) => {
+      const speaker = segmentSpeaker ?? defaultSpeaker
+      const state: PlayerSegmentState = { ...prosody, text, speaker, speedScale: prosody.speedScale ?? speedScale }
+      if (pitchScale !== undefined) {
+        const audioQuery = await runtime.playerVoicevoxApi.generateQuery(text, speaker, signal)
+        Object.assign(audioQuery, { ...prosody, speedScale: state.speedScale, pitchScale })
+        state.audioQuery = audioQuery
+      }
+      return state
+    })
+  )
+}
+
+/**
+ * SSML をプレーヤーのトラックに変換
+ * プレーヤーの状態には音高の項目が無いため、<prosody pitch> があるトラックは調整済みのクエリを持たせる
+ */
+async function createSsmlSegments(
+  deps: ToolDeps,
+  runtime: PlayerRuntime,
+  ssml: string,
+  defaultSpeaker: number,
+  speedScale: number,
+  signal?: AbortSignal
+): Promise<PlayerSegmentState[]> {
+  const segments = await deps.voicevoxClient.compileSsml(ssml, signal)
+  return Promise.all(
+    segments.map(async (segment) => {
+      const speaker = segment.speaker ?? defaultSpeaker
+      const state: PlayerSegmentState = {
+        text: segment.text,
+        speaker,
+        speedScale: speedScale * segment.prosody.rate,
+        ...(segment.prosody.volume !== 1 ? { volumeScale: segment.prosody.volume } : {}),
+        ...(segment.pauseBefore !== undefined ? { prePhonemeLength: segment.pauseBefore } : {}),
+        ...(segment.pauseAfter !== undefined ? { postPhonemeLength: segment.pauseAfter } : {}),
+      }
+      if (segment.prosody.pitch !== 0) {
+        const audioQuery = await runtime.playerVoicevoxApi.generateQuery(segment.text, speaker, signal)
+        audioQuery.speedScale = speedScale
+        applySsmlSegment(audioQuery, segment)
+        state.audioQuery = audioQuery
+      }
+      return state
+    })
+  )
+}
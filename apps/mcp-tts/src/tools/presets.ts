@@ -0,0 +1,145 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import * as z from 'zod'
+import { registerToolIfEnabled } from './registration.js'
+import type { ToolDeps } from './types.js'
+import { createErrorResponse, createSuccessResponse } from './utils.js'
+
+// プリセットのパラメータ（追加・更新で共通）
+const presetParameterSchema = {
+  speedScale: z.number().optional().describe('Speed scale (default: 1.0)'),
+  pitchScale: z.number().optional().describe('Pitch scale (default: 0.0)'),
+  intonationScale: z.number().optional().describe('Intonation scale (default: 1.0)'),
+  volumeScale: z.number().optional().describe('Volume scale (default: 1.0)'),
+  prePhonemeLength: z.number().optional().describe('Silence before speech in seconds (default: 0.1)'),
+  postPhonemeLength: z.number().optional().describe('Silence after speech in seconds (default: 0.1)'),
+  pauseLengthScale: z.number().optional().describe('Scale of pauses at punctuation (default: 1.0)'),
+}
+
+type PresetParameters = {
+  speedScale?: number
+  pitchScale?: number
+  intonationScale?: number
+  volumeScale?: number
+  prePhonemeLength?: number
+  postPhonemeLength?: number
+  pauseLengthScale?: number
+}
+
+export function registerPresetTools(deps: ToolDeps) {
+  const { server, voicevoxClient, disabledTools } = deps
+
+  // get_presets
+  registerToolIfEnabled(
+    server,
+    disabledTools,
+    'get_presets',
+    {
+      title: 'Get Presets',
+      description:
+        'Get voice presets stored in the VOICEVOX engine. Pass the "id" as the preset parameter of speak / synthesize_file',
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (): Promise<CallToolResult> => {
+      try {
+        const presets = await voicevoxClient.getPresets()
+        return createSuccessResponse(JSON.stringify({ presets }))
+      } catch (error) {
+        return createErrorResponse(error)
+      }
+    }
+  )
+
+  // add_preset
+  registerToolIfEnabled(
+    server,
+    disabledTools,
+    'add_preset',
+    {
+      title: 'Add Preset',
+      description: 'Add a voice preset (speaker + synthesis parameters) to the VOICEVOX engine',
+      inputSchema: {
+        name: z.string().describe('Preset name (e.g. "narration")'),
+        speaker: z.number().int().describe('Speaker style ID'),
+        ...presetParameterSchema,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (input: { name: string; speaker: number } & PresetParameters): Promise<CallToolResult> => {
+      try {
+        const preset = await voicevoxClient.addPreset(input)
+        return createSuccessResponse(JSON.stringify({ preset }))
+      } catch (error) {
+        return createErrorResponse(error)
+      }
+    }
+  )
+
+  // update_preset
+  registerToolIfEnabled(
+    server,
+    disabledTools,
+    'update_preset',
+    {
+      title: 'Update Preset',
+      description: 'Update a voice preset in the VOICEVOX engine. Omitted fields keep their existing values',
+      inputSchema: {
+        id: z.number().int().describe('Preset ID'),
+        name: z.string().optional().describe('Preset name (omit to keep existing)'),
+        speaker: z.number().int().optional().describe('Speaker style ID (omit to keep existing)'),
+        ...presetParameterSchema,
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (input: { id: number; name?: string; speaker?: number } & PresetParameters): Promise<CallToolResult> => {
+      try {
+        const preset = await voicevoxClient.updatePreset(input)
+        return createSuccessResponse(JSON.stringify({ preset }))
+      } catch (error) {
+        return createErrorResponse(error)
+      }
+    }
+  )
+
+  // delete_preset
+  registerToolIfEnabled(
+    server,
+    disabledTools,
+    'delete_preset',
+    {
+      title: 'Delete Preset',
+      description: 'Delete a voice preset from the VOICEVOX engine by ID',
+      inputSchema: {
+        id: z.number().int().describe('Preset ID'),
+      },
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async ({ id }: { id: number }): Promise<CallToolResult> => {
+      try {
+        const presets = await voicevoxClient.deletePreset(id)
+        return createSuccessResponse(JSON.stringify({ deleted: id, remaining: presets.length }))
+      } catch (error) {
+        return createErrorResponse(error)
+      }
+    }
+  )
+}
@@ -0,0 +1,156 @@
+import { buildScore, type SimpleNote } from '@kajidog/voicevox-client'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import * as z from 'zod'
+import { resolveAllowedOutputPath } from './output-path.js'
+import { isToolEnabled, registerToolIfEnabled } from './registration.js'
+import type { ToolDeps } from './types.js'
+import { createErrorResponse, createSuccessResponse, formatSpeakResponse } from './utils.js'
+
+const noteSchema = z.object({
+  lyric: z.string().optional().describe('One mora of hiragana/katakana (e.g. "ど"). Omit or leave empty for a rest'),
+  key: z
+    .union([z.number().int(), z.string()])
+    .optional()
+    .describe('Pitch as MIDI note number (60 = C4) or note name ("C4", "F#4", "Bb3"). Required unless rest'),
+  beats: z.number().positive().optional().describe('Length in beats (uses bpm)'),
+  frameLength: z.number().int().positive().optional().describe('Length in frames (93.75 fps). Overrides beats'),
+})
+
+export function registerSingTools(deps: ToolDeps) {
+  const { server, voicevoxClient, config, disabledTools, restrictions } = deps
+
+  const inputSchema: Record<string, z.ZodType> = {
+    notes: z
+      .array(noteSchema)
+      .min(1)
+      .describe(
+        'Score as a list of notes. Example: [{"lyric":"ど","key":"C4","beats":1},{"lyric":"れ","key":"D4","beats":1},{"beats":1}]. A leading rest is added automatically'
+      ),
+    bpm: z.number().positive().optional().describe('Tempo in beats per minute (optional, default: 120)'),
+    singer: z
+      .number()
+      .int()
+      .optional()
+      .describe(
+        isToolEnabled(disabledTools, 'get_singers')
+          ? 'Singing style ID from voicevox_get_singers (optional)'
+          : 'Singing style ID (optional)'
+      ),
+    volumeScale: z.number().optional().describe('Overall volume (optional)'),
+    output: z
+      .string()
+      .optional()
+      .describe(
+        config.allowedOutputDirs?.length
+          ? `Write a WAV file to this path instead of playing (must be under: ${config.allowedOutputDirs.join(', ')})`
+          : 'Write a WAV file to this path instead of playing (optional)'
+      ),
+  }
+
+  if (!restrictions.immediate) {
+    inputSchema.immediate = z
+      .boolean()
+      .optional()
+      .describe('If true, stops current playback and sings immediately. Default depends on environment variable.')
+  }
+  if (!restrictions.waitForStart) {
+    inputSchema.waitForStart = z.boolean().optional().describe('Wait for playback to start (optional, default: false)')
+  }
+  if (!restrictions.waitForEnd) {
+    inputSchema.waitForEnd = z.boolean().optional().describe('Wait for playback to end (optional, default: false)')
+  }
+
+  // sing ツール
+  registerToolIfEnabled(
+    server,
+    disabledTools,
+    'sing',
+    {
+      title: 'Sing',
+      description:
+        'Sing a score of notes and lyrics with a VOICEVOX singing voice. Plays it, or writes a WAV file when output is given',
+      inputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async ({
+      notes,
+      bpm,
+      singer,
+      volumeScale,
+      output,
+      immediate,
+      waitForStart,
+      waitForEnd,
+    }: {
+      notes: SimpleNote[]
+      bpm?: number
+      singer?: number
+      volumeScale?: number
+      output?: string
+      immediate?: boolean
+      waitForStart?: boolean
+      waitForEnd?: boolean
+    }): Promise<CallToolResult> => {
+      try {
+        const score = buildScore(notes, { bpm })
+
+        if (output) {
+          const safeOutput = resolveAllowedOutputPath(output, {
+            allowedDirs: config.allowedOutputDirs,
+            label: 'output',
+          })
+          const filePath = await voicevoxClient.generateSingingAudioFile(score, safeOutput, { singer, volumeScale })
+          return createSuccessResponse(filePath)
+        }
+
+        const result = await voicevoxClient.sing(score, {
+          singer,
+          volumeScale,
+          immediate: immediate ?? config.defaultImmediate,
+          waitForStart: waitForStart ?? config.defaultWaitForStart,
+          waitForEnd: waitForEnd ?? config.defaultWaitForEnd,
+        })
+        return createSuccessResponse(formatSpeakResponse(result))
+      } catch (error) {
+        return createErrorResponse(error)
+      }
+    }
+  )
+
+  // get_singers ツール
+  registerToolIfEnabled(
+    server,
+    disabledTools,
+    'get_singers',
+    {
+      title: 'Get Singers',
+      description:
+        'Get a list of available singing styles. The returned "singer" field is the ID to pass to sing.singer',
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (): Promise<CallToolResult> => {
+      try {
+        const singers = await voicevoxClient.getSingers()
+        const result = singers.flatMap((singer) =>
+          singer.styles.map((style) => ({
+            singer: style.id,
+            name: `${singer.name}:${style.name}`,
+          }))
+        )
+        return createSuccessResponse(JSON.stringify(result))
+      } catch (error) {
+        return createErrorResponse(error)
+      }
+    }
+  )
+}
@@ -0,0 +1,186 @@
+import { randomUUID } from 'node:crypto'
+import type { SpeechStream, SpeechStreamResult } from '@kajidog/voicevox-client'
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import * as z from 'zod'
+import { registerToolIfEnabled } from './registration.js'
+import type { ToolDeps, ToolHandlerExtra } from './types.js'
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  formatSpeakResponse,
+  getEffectiveSpeaker,
+  resolveSpeakerParam,
+} from './utils.js'
+
+/** 書き込みが途絶えたストリームを終了するまでの時間（残りのテキストは読み上げる） */
+const STREAM_IDLE_TIMEOUT_MS = 60_000
+
+/**
+ * 開いている読み上げストリーム
+ * HTTP モードではリクエストごとに McpServer を作るため、ツールの登録ではなくモジュールで保持する
+ */
+const openStreams = new Map<string, { stream: SpeechStream; timer: ReturnType<typeof setTimeout> }>()
+
+/**
+ * ストリームを開いたままにし、書き込みが途絶えたら終了するタイマーを掛け直す
+ */
+function keepStreamOpen(id: string, stream: SpeechStream): void {
+  const current = openStreams.get(id)
+  if (current) clearTimeout(current.timer)
+  const timer = setTimeout(() => {
+    openStreams.delete(id)
+    stream.end().catch(() => {})
+  }, STREAM_IDLE_TIMEOUT_MS)
+  timer.unref?.()
+  openStreams.set(id, { stream, timer })
+}
+
+function closeStream(id: string): void {
+  const current = openStreams.get(id)
+  if (current) clearTimeout(current.timer)
+  openStreams.delete(id)
+}
+
+/**
+ * write()・end() の結果をツールの応答に整形する（ID と、まだ読み上げていないテキストを添える）
+ */
+function formatStreamResponse(id: string, result: SpeechStreamResult, ended: boolean): string {
+  const lines = [`Stream: ${id}${ended ? ' (ended)' : ''}`]
+  lines.push(
+    result.segmentCount > 0 || result.status === 'error'
+      ? formatSpeakResponse(result)
+      : 'Nothing queued yet (waiting for the end of a sentence)'
+  )
+  const pending = result.pendingText.trim()
+  if (pending) lines.push(`Pending: "${pending}"`)
+  return lines.join('\n')
+}
+
+export function registerSpeakStreamTool(deps: ToolDeps) {
+  const { server, voicevoxClient, config, disabledTools, restrictions } = deps
+
+  const inputSchema: Record<string, z.ZodType> = {
+    text: z
+      .string()
+      .optional()
+      .describe(
+        'Next chunk of text. Each sentence is queued as soon as its end (。！？ . ! ? or a line break) arrives, so playback starts before the whole response is written. The unfinished tail waits for the next call'
+      ),
+    streamId: z
+      .string()
+      .optional()
+      .describe(
+        `Stream ID returned by a previous call. Omit to open a new stream. Streams without writes for ${STREAM_IDLE_TIMEOUT_MS / 1000}s are ended automatically`
+      ),
+    end: z.boolean().optional().describe('Read the remaining text and close the stream'),
+    cancel: z.boolean().optional().describe('Close the stream and drop its sentences that have not been played yet'),
+    speaker: z
+      .union([z.number(), z.string()])
+      .optional()
+      .describe('Speaker: style ID, or name such as "ずんだもん/あまあま" (only when opening a stream)'),
+    speedScale: z.number().optional().describe('Playback speed (only when opening a stream)'),
+  }
+
+  if (!restrictions.immediate) {
+    inputSchema.immediate = z
+      .boolean()
+      .optional()
+      .describe(
+        'If true, the first sentence stops current playback; if false, it waits for current playback. Only when opening a stream'
+      )
+  }
+  if (!restrictions.waitForStart) {
+    inputSchema.waitForStart = z
+      .boolean()
+      .optional()
+      .describe('Wait for the first sentence to start playing (only when opening a stream)')
+  }
+  if (!restrictions.waitForEnd) {
+    inputSchema.waitForEnd = z
+      .boolean()
+      .optional()
+      .describe('Make the call with end: true wait for playback to end (only when opening a stream)')
+  }
+
+  registerToolIfEnabled(
+    server,
+    disabledTools,
+    'speak_stream',
+    {
+      title: 'Speak Stream',
+      description:
+        'Speak text that is still being written. Call repeatedly with the returned streamId to append text; each finished sentence is played right away. Finish with end: true. Line speaker prefixes and emotion tags are not supported; use voicevox_speak for complete text.',
+      inputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (
+      {
+        text = '',
+        streamId,
+        end,
+        cancel,
+        speaker,
+        speedScale,
+        immediate,
+        waitForStart,
+        waitForEnd,
+      }: {
+        text?: string
+        streamId?: string
+        end?: boolean
+        cancel?: boolean
+        speaker?: number | string
+        speedScale?: number
+        immediate?: boolean
+        waitForStart?: boolean
+        waitForEnd?: boolean
+      },
+      extra: ToolHandlerExtra
+    ): Promise<CallToolResult> => {
+      try {
+        let id = streamId
+        let stream: SpeechStream
+        if (id === undefined) {
+          // ストリームはツール呼び出しをまたいで続くため、リクエストの signal は渡さない
+          const effectiveSpeaker = getEffectiveSpeaker(
+            await resolveSpeakerParam(voicevoxClient, speaker, extra.signal),
+            extra
+          )
+          id = randomUUID()
+          stream = voicevoxClient.createSpeechStream({
+            speaker: effectiveSpeaker,
+            speedScale,
+            immediate: immediate ?? config.defaultImmediate,
+            waitForStart: waitForStart ?? config.defaultWaitForStart,
+            waitForEnd: waitForEnd ?? config.defaultWaitForEnd,
+          })
+        } else {
+          const open = openStreams.get(id)
+          if (!open) {
+            throw new Error(`Speech stream not found or already ended: ${id}`)
+          }
+          stream = open.stream
+        }
+
+        if (cancel) {
+          closeStream(id)
+          await stream.cancel()
+          return createSuccessResponse(`Stream: ${id} (cancelled)`)
+        }
+        if (end) {
+          closeStream(id)
+          return createSuccessResponse(formatStreamResponse(id, await stream.end(text), true))
+        }
+        keepStreamOpen(id, stream)
+        return createSuccessResponse(formatStreamResponse(id, await stream.write(text), false))
+      } catch (error) {
+        return createErrorResponse(error)
+      }
+    }
+  )
+}
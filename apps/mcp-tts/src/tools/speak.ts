@@ -1,7 +1,21 @@
-import type { VoicevoxClient } from '@kajidog/voicevox-client'
-import { applyNotationAccents, parseNotation, type SpeakResult, VoicevoxApi } from '@kajidog/voicevox-client'
+import type { PlaybackOptions, VoicevoxClient } from '@kajidog/voicevox-client'
+import {
+  applyNotationAccents,
+  parseNotation,
+  QUEUE_PRIORITIES,
+  type QueuePriority,
+  type SpeakResult,
+  VoicevoxApi,
+} from '@kajidog/voicevox-client'
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
 import * as z from 'zod'
+import {
+  getEmotionStyles,
+  getTextPreprocessOptions,
+  getTextSegmentOptions,
+  getVoicevoxApiOptions,
+  parseVoicevoxUrls,
+} from '../config.js'
 import { isToolEnabled, registerToolIfEnabled } from './registration.js'
 import type { ToolDeps, ToolHandlerExtra } from './types.js'
 import {
@@ -10,20 +24,31 @@ import {
   formatSpeakResponse,
   getEffectiveSpeaker,
   processTextInput,
+  resolveSpeakerParam,
 } from './utils.js'
 /**
  * speak ツールの動的スキーマを構築
+ * 行を文に分ける設定（splitSentences）・感情タグ（emotionTags）が有効なときだけ text の説明に載せる
  */
-export function buildSpeakInputSchema(restrictions: {
-  immediate: boolean
-  waitForStart: boolean
-  waitForEnd: boolean
-}) {
+export function buildSpeakInputSchema(
+  restrictions: {
+    immediate: boolean
+    waitForStart: boolean
+    waitForEnd: boolean
+    priority?: boolean
+  },
+  options: { splitSentences?: boolean; emotionTags?: boolean } = {}
+) {
   const schema: Record<string, z.ZodType> = {
     text: z
       .string()
       .describe(
-        'Text split by line breaks (\\n). IMPORTANT: Each line = one speech unit (processed and played separately). Keep the FIRST LINE SHORT for quick playback start - audio begins as soon as the first line is synthesized. Example: "Hi!\\nThis is a longer explanation that follows." Optional speaker prefix per line: "1:Hello\\n2:World". Time-like lines such as "10:30..." are read as-is, not treated as a speaker prefix.'
+        'Text split by line breaks (\\n)' +
+          (options.splitSentences ? '; long lines are further split into sentences' : '') +
+          '. Lines are never merged, and playback starts as soon as the first segment is synthesized, so keep the FIRST LINE SHORT. Example: "Hi!\\nThis is a longer explanation that follows." Optional speaker prefix per line, by style ID or name: "1:Hello\\nずんだもん/あまあま:World" (unknown names are read as text). Optional prosody per line (overrides speedScale for that line): "3{speed=1.2,pitch=0.05}:Yay!" or "{speed=0.9,pause=1.5}:Calm narration" (keys: speed, pitch, intonation, volume, pre, post, pause). Time-like lines such as "10:30..." are read as-is, not treated as a speaker prefix.' +
+          (options.emotionTags
+            ? ' Inline emotion tags switch to the matching style of the current character until the end of the line: "[happy]Yay![whisper]Keep it secret" (normal, happy, angry, sad, whisper, scared, tired, calm, surprised).'
+            : '')
       ),
     phrases: z
       .string()
@@ -31,8 +56,30 @@ export function buildSpeakInputSchema(restrictions: {
       .describe(
         'Inline accent notation (e.g. "コン[ニ]チワ,セ[カ]イ"). Brackets mark accent position. Takes priority over query and text.'
       ),
-    speaker: z.number().optional().describe('Default speaker ID (optional)'),
+    kana: z
+      .string()
+      .optional()
+      .describe(
+        'AquesTalk-style kana (e.g. "コンニチワ\'/セ\'カイ"): katakana only, \' after the accented mora, / or 、 between accent phrases, _ before unvoiced moras, ？ for questions. One speech unit per line, "1:" speaker prefix allowed. Takes priority over text; phrases takes priority over kana.'
+      ),
+    ssml: z
+      .string()
+      .optional()
+      .describe(
+        'SSML wrapped in <speak>. Supports <voice name="Character/Style"|id="3">, <prosody rate pitch volume>, <break time="500ms">, <sub alias>, <say-as interpret-as="characters|digits|telephone">. Takes priority over text; phrases and kana take priority over ssml.'
+      ),
+    speaker: z
+      .union([z.number(), z.string()])
+      .optional()
+      .describe('Default speaker: style ID, or name such as "ずんだもん" or "ずんだもん/あまあま" (optional)'),
     speedScale: z.number().optional().describe('Playback speed (optional, default from environment)'),
+    preset: z
+      .number()
+      .int()
+      .optional()
+      .describe(
+        'Engine preset ID (see voicevox_get_presets). Uses the preset speaker and parameters for text, kana and ssml (outside <voice>); an explicit speaker or speedScale overrides'
+      ),
   }
 
   // 制限されていない場合のみスキーマに追加
@@ -41,7 +88,16 @@ export function buildSpeakInputSchema(restrictions: {
       .boolean()
       .optional()
       .describe(
-        'If true, stops current playback and plays new audio immediately. If false, waits for current playback to finish. Default depends on environment variable.'
+        'If true, stops current playback and plays new audio immediately. If false, waits for current playback to finish. Ignored when a priority is set. Default depends on environment variable.'
+      )
+  }
+
+  if (!restrictions.priority) {
+    schema.priority = z
+      .enum(QUEUE_PRIORITIES as [QueuePriority, ...QueuePriority[]])
+      .optional()
+      .describe(
+        'Queue priority instead of clearing the queue: higher priorities play first; urgent interrupts the current speech, which replays afterwards; stale low-priority speech is dropped (optional)'
       )
   }
 
@@ -70,7 +126,10 @@ export function registerSpeakTool(deps: ToolDeps) {
         (isToolEnabled(disabledTools, 'speak_player')
           ? ' If you need a player UI or want to edit/replay segments, use voicevox_speak_player instead.'
           : ''),
-      inputSchema: buildSpeakInputSchema(restrictions),
+      inputSchema: buildSpeakInputSchema(restrictions, {
+        splitSentences: getTextSegmentOptions(config) !== undefined,
+        emotionTags: config.emotionTags,
+      }),
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -83,30 +142,42 @@ export function registerSpeakTool(deps: ToolDeps) {
         text,
         speaker,
         phrases,
+        kana,
+        ssml,
         speedScale,
+        preset,
         immediate,
         waitForStart,
         waitForEnd,
+        priority,
       }: {
         text: string
-        speaker?: number
+        speaker?: number | string
         phrases?: string
+        kana?: string
+        ssml?: string
         speedScale?: number
+        preset?: number
         immediate?: boolean
         waitForStart?: boolean
         waitForEnd?: boolean
+        priority?: QueuePriority
       },
       extra: ToolHandlerExtra
     ): Promise<CallToolResult> => {
       try {
         // 有効な話者IDを取得（優先順位: 明示的パラメータ > リクエストヘッダー > グローバル設定）
-        const effectiveSpeaker = getEffectiveSpeaker(speaker, extra)
+        const effectiveSpeaker = getEffectiveSpeaker(
+          await resolveSpeakerParam(voicevoxClient, speaker, extra.signal),
+          extra
+        )
 
         // 設定からデフォルトの再生オプションを取得
-        const playbackOptions = {
+        const playbackOptions: PlaybackOptions = {
           immediate: immediate ?? config.defaultImmediate,
           waitForStart: waitForStart ?? config.defaultWaitForStart,
           waitForEnd: waitForEnd ?? config.defaultWaitForEnd,
+          priority: priority ?? config.defaultPriority,
         }
 
         let result: SpeakResult
@@ -119,10 +190,36 @@ export function registerSpeakTool(deps: ToolDeps) {
             phrases,
             effectiveSpeaker ?? config.defaultSpeaker,
             speedScale,
-            playbackOptions
+            playbackOptions,
+            extra.signal
           )
+        } else if (kana) {
+          // kana モード: AquesTalk 風記法からアクセント句を作って再生
+          result = await processTextInput(voicevoxClient, kana, effectiveSpeaker, speedScale, playbackOptions, {
+            preset,
+            signal: extra.signal,
+            kana: true,
+            emotionStyles: getEmotionStyles(config),
+          })
+        } else if (ssml) {
+          // ssml モード: <voice>・<prosody>・<break> をセグメントごとに反映して再生
+          result = await voicevoxClient.speak(ssml, {
+            speaker: effectiveSpeaker,
+            speedScale,
+            preset,
+            ...playbackOptions,
+            signal: extra.signal,
+            ssml: true,
+          })
         } else {
-          result = await processTextInput(voicevoxClient, text, effectiveSpeaker, speedScale, playbackOptions)
+          result = await processTextInput(voicevoxClient, text, effectiveSpeaker, speedScale, playbackOptions, {
+            preset,
+            signal: extra.signal,
+            preprocess: getTextPreprocessOptions(config),
+            segment: getTextSegmentOptions(config),
+            emotionStyles: getEmotionStyles(config),
+            defaultSpeaker: config.defaultSpeaker,
+          })
         }
 
         return createSuccessResponse(formatSpeakResponse(result))
@@ -142,16 +239,10 @@ async function processPhrasesInput(
   phrases: string,
   speaker: number,
   speedScale?: number,
-  playbackOptions?: {
-    immediate?: boolean
-    waitForStart?: boolean
-    waitForEnd?: boolean
-  }
+  playbackOptions?: PlaybackOptions,
+  signal?: AbortSignal
 ): Promise<SpeakResult> {
-  const api = new VoicevoxApi(config.voicevoxUrl, {
-    retryCount: config.retryCount,
-    retryDelayMs: config.retryDelayMs,
-  })
+  const api = new VoicevoxApi(parseVoicevoxUrls(config.voicevoxUrl), getVoicevoxApiOptions(config))
   const parsedPhrases = parseNotation(phrases)
   if (parsedPhrases.length === 0) {
     throw new Error('phrases is empty')
@@ -159,7 +250,7 @@ async function processPhrasesInput(
 
   // フレーズ境界が消えると accent phrase 数が崩れるため、読点で区切って結合する。
   const cleanText = parsedPhrases.map((p) => p.cleanText).join('、')
-  const audioQuery = await voicevoxClient.generateQuery(cleanText, speaker, speedScale)
+  const audioQuery = await voicevoxClient.generateQuery(cleanText, speaker, speedScale, signal)
 
   // デフォルトのアクセント句を取得（brackets省略時のフォールバック用）
   const defaultAccentPhrases = audioQuery.accent_phrases
@@ -168,11 +259,12 @@ async function processPhrasesInput(
   audioQuery.accent_phrases = applyNotationAccents(parsedPhrases, audioQuery.accent_phrases, defaultAccentPhrases)
 
   // モーラデータを再計算（ピッチ値をアクセント変更に合わせて更新）
-  audioQuery.accent_phrases = await api.updateMoraData(audioQuery.accent_phrases, speaker)
+  audioQuery.accent_phrases = await api.updateMoraData(audioQuery.accent_phrases, speaker, signal)
 
   return await voicevoxClient.enqueueAudioGeneration(audioQuery, {
     speaker,
     speedScale,
     ...playbackOptions,
+    signal,
   })
 }
@@ -13,7 +13,8 @@ export function registerSpeakerTools(deps: ToolDeps) {
     'ping',
     {
       title: 'Ping VOICEVOX',
-      description: 'Check if VOICEVOX Engine is running and reachable',
+      description:
+        'Check if VOICEVOX Engine is running and reachable (reports each engine when multiple URLs are configured)',
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -23,13 +24,29 @@ export function registerSpeakerTools(deps: ToolDeps) {
     },
     async (): Promise<CallToolResult> => {
       try {
-        const health = await voicevoxClient.checkHealth()
-        if (health.connected) {
-          return createSuccessResponse(`VOICEVOX is running at ${health.url} (v${health.version})`)
+        const engines = await voicevoxClient.checkEngines()
+        if (engines.length === 1) {
+          const [health] = engines
+          if (health.connected) {
+            return createSuccessResponse(`VOICEVOX is running at ${health.url} (v${health.version})`)
+          }
+          return createErrorResponse(
+            new Error(`VOICEVOX is not reachable at ${health.url}. Please ensure VOICEVOX Engine is running.`)
+          )
         }
-        return createErrorResponse(
-          new Error(`VOICEVOX is not reachable at ${health.url}. Please ensure VOICEVOX Engine is running.`)
+
+        // 複数エンジン構成では、1つでも応答すれば利用可能とみなす
+        const lines = engines.map((engine) =>
+          engine.connected
+            ? `- ${engine.url}: running (v${engine.version}, ${Math.round(engine.latencyMs ?? 0)}ms)`
+            : `- ${engine.url}: not reachable${engine.healthy ? '' : ' (temporarily excluded)'}`
         )
+        const available = engines.filter((engine) => engine.connected).length
+        const summary = `${available}/${engines.length} VOICEVOX engines are running:\n${lines.join('\n')}`
+        if (available > 0) {
+          return createSuccessResponse(summary)
+        }
+        return createErrorResponse(new Error(`${summary}\nPlease ensure VOICEVOX Engine is running.`))
       } catch (error) {
         return createErrorResponse(error)
       }
@@ -69,8 +86,8 @@ export function registerSpeakerTools(deps: ToolDeps) {
     {
       title: 'Get Speakers',
       description: isToolEnabled(disabledTools, 'speak')
-        ? 'Get a list of available speakers. The returned "speaker" field is the exact ID to pass to speak.speaker'
-        : 'Get a list of available speakers. The returned "speaker" field is the exact ID to pass as the speaker parameter',
+        ? 'Get a list of available speakers. The returned "speaker" field is the exact ID to pass to speak.speaker. "initialized" tells whether the voice model is already loaded (the first speak with an unloaded style is slower)'
+        : 'Get a list of available speakers. The returned "speaker" field is the exact ID to pass as the speaker parameter. "initialized" tells whether the voice model is already loaded',
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -81,12 +98,18 @@ export function registerSpeakerTools(deps: ToolDeps) {
     async (): Promise<CallToolResult> => {
       try {
         const speakers = await voicevoxClient.getSpeakers()
-        const result = speakers.flatMap((speaker) =>
-          speaker.styles.map((style) => ({
-            speaker: style.id,
-            name: `${speaker.name}:${style.name}`,
-          }))
+        const styles = speakers.flatMap((speaker) =>
+          speaker.styles.map((style) => ({ id: style.id, name: `${speaker.name}:${style.name}` }))
+        )
+        // 確認できなかったスタイルは未読み込みとして扱う
+        const initialized = await Promise.all(
+          styles.map((style) => voicevoxClient.isSpeakerInitialized(style.id).catch(() => false))
         )
+        const result = styles.map((style, i) => ({
+          speaker: style.id,
+          name: style.name,
+          initialized: initialized[i],
+        }))
         return createSuccessResponse(JSON.stringify(result))
       } catch (error) {
         return createErrorResponse(error)
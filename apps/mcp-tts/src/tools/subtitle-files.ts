@@ -0,0 +1,64 @@
+/**
+ * 音声ファイルの横に字幕（.srt / .vtt）を書き出す
+ *
+ * 字幕のファイル名は音声ファイルの拡張子だけを置き換えたもの（hello.wav → hello.srt）。
+ */
+
+import { writeFile } from 'node:fs/promises'
+import { extname } from 'node:path'
+import {
+  type AudioFileSegment,
+  createSubtitleCues,
+  formatSubtitles,
+  type SubtitleFormat,
+  type SubtitleOptions,
+  type SubtitleSource,
+  type VoicevoxClient,
+} from '@kajidog/voicevox-client'
+
+/**
+ * 音声ファイルのパスから字幕ファイルのパスを作る
+ */
+export function getSubtitlePath(audioPath: string, format: SubtitleFormat): string {
+  const extension = extname(audioPath)
+  return `${extension ? audioPath.slice(0, -extension.length) : audioPath}.${format}`
+}
+
+/**
+ * 字幕を指定の形式ごとに書き出し、書き出したパスを返す
+ */
+export async function writeSubtitleFiles(
+  audioPath: string,
+  sources: SubtitleSource[],
+  formats: SubtitleFormat[],
+  options: SubtitleOptions = {}
+): Promise<string[]> {
+  const cues = createSubtitleCues(sources, options)
+  const paths: string[] = []
+  for (const format of new Set(formats)) {
+    const path = getSubtitlePath(audioPath, format)
+    await writeFile(path, formatSubtitles(cues, format), 'utf-8')
+    paths.push(path)
+  }
+  return paths
+}
+
+/**
+ * 合成したセグメントを字幕の区間にする
+ * 話者が複数の場合のみ、スタイルIDからキャラクター名を引いてラベルにする
+ */
+export async function toSubtitleSources(
+  voicevoxClient: VoicevoxClient,
+  segments: AudioFileSegment[]
+): Promise<SubtitleSource[]> {
+  if (new Set(segments.map((segment) => segment.speaker)).size <= 1) {
+    return segments.map(({ text, timing }) => ({ text, timing }))
+  }
+  const speakers = await voicevoxClient.getSpeakers()
+  const names = new Map(speakers.flatMap((speaker) => speaker.styles.map((style) => [style.id, speaker.name] as const)))
+  return segments.map(({ text, timing, speaker }) => ({
+    text,
+    timing,
+    speakerName: names.get(speaker) ?? `speaker-${speaker}`,
+  }))
+}
@@ -1,20 +1,59 @@
+import {
+  type AudioFileResult,
+  createVisemeTimeline,
+  formatAudioFileResponse,
+  hasEmotionTags,
+  type SubtitleFormat,
+} from '@kajidog/voicevox-client'
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
 import * as z from 'zod'
+import {
+  getEmotionStyles,
+  getSubtitleOptions,
+  getTextPreprocessOptions,
+  getTextSegmentOptions,
+  getVisemeOptions,
+} from '../config.js'
 import { resolveAllowedOutputPath } from './output-path.js'
 import { registerToolIfEnabled } from './registration.js'
+import { toSubtitleSources, writeSubtitleFiles } from './subtitle-files.js'
 import type { ToolDeps, ToolHandlerExtra } from './types.js'
-import { createErrorResponse, createSuccessResponse, getEffectiveSpeaker } from './utils.js'
+import {
+  createErrorResponse,
+  createSuccessResponse,
+  getEffectiveSpeaker,
+  getLineSpeakerResolver,
+  parseTextInput,
+  resolveSpeakerParam,
+} from './utils.js'
+import { writeVisemeFile } from './viseme-files.js'
 
 export function registerSynthesizeTool(deps: ToolDeps) {
   const { server, voicevoxClient, disabledTools, config } = deps
 
+  // 字幕・口の形のタイムラインを書き出す場合は、そのパスをレスポンスの最後に足す
+  const respond = async (result: AudioFileResult, formats: SubtitleFormat[], visemes: boolean) => {
+    const lines = [formatAudioFileResponse(result)]
+    if (formats.length > 0) {
+      const sources = await toSubtitleSources(voicevoxClient, result.segments)
+      const paths = await writeSubtitleFiles(result.filePath, sources, formats, getSubtitleOptions(config))
+      lines.push(`Subtitles: ${paths.join(', ')}`)
+    }
+    if (visemes) {
+      const timeline = createVisemeTimeline(result.timing, getVisemeOptions(config))
+      lines.push(`Visemes: ${await writeVisemeFile(result.filePath, timeline)}`)
+    }
+    return createSuccessResponse(lines.join('\n'))
+  }
+
   registerToolIfEnabled(
     server,
     disabledTools,
     'synthesize_file',
     {
       title: 'Synthesize File',
-      description: 'Generate an audio file and return its absolute path',
+      description:
+        'Generate an audio file and return its absolute path, duration and the start/end seconds of each accent phrase. Lines with a speaker prefix ("1:Hello\\nずんだもん{speed=1.2}:World") are synthesized per line into one file. Optionally writes .srt/.vtt subtitles and a lip-sync viseme timeline next to it',
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -22,7 +61,12 @@ export function registerSynthesizeTool(deps: ToolDeps) {
         openWorldHint: true,
       },
       inputSchema: {
-        text: z.string().describe('Text for voice synthesis'),
+        text: z
+          .string()
+          .describe(
+            'Text for voice synthesis. Optional per-line speaker (style ID or name) and prosody prefix: "ずんだもん/あまあま{speed=1.2}:Hello"' +
+              (config.emotionTags ? ', and inline emotion tags: "[happy]Yay!"' : '')
+          ),
         output: z
           .string()
           .describe(
@@ -30,8 +74,42 @@ export function registerSynthesizeTool(deps: ToolDeps) {
               ? `Output path for the audio file (must be under: ${config.allowedOutputDirs.join(', ')})`
               : 'Output path for the audio file'
           ),
-        speaker: z.number().optional().describe('Default speaker ID (optional)'),
+        speaker: z
+          .union([z.number(), z.string()])
+          .optional()
+          .describe('Default speaker: style ID, or name such as "ずんだもん" or "ずんだもん/あまあま" (optional)'),
         speedScale: z.number().optional().describe('Playback speed (optional, default from environment)'),
+        preset: z
+          .number()
+          .int()
+          .optional()
+          .describe(
+            'Engine preset ID (optional). Uses the preset speaker and parameters, also for per-line and ssml input (outside <voice>); an explicit speaker or speedScale overrides'
+          ),
+        kana: z
+          .string()
+          .optional()
+          .describe(
+            'AquesTalk-style kana (e.g. "コンニチワ\'/セ\'カイ") to synthesize instead of text. Takes priority over text'
+          ),
+        ssml: z
+          .string()
+          .optional()
+          .describe(
+            'SSML wrapped in <speak> (<voice>, <prosody>, <break>, <sub>, <say-as>) to synthesize instead of text into one file. Takes priority over text; kana takes priority over ssml'
+          ),
+        subtitles: z
+          .array(z.enum(['srt', 'vtt']))
+          .optional()
+          .describe(
+            `Subtitle formats to write next to the audio file with the same name (optional, default: ${config.subtitleFormats.length ? config.subtitleFormats.join(', ') : 'none'}). Cues of multi-speaker input are labeled with the speaker name`
+          ),
+        visemes: z
+          .boolean()
+          .optional()
+          .describe(
+            `Write a lip-sync timeline of mouth shapes (A/I/U/E/O/N/closed with start/end seconds) as <name>.visemes.json next to the audio file (optional, default: ${config.visemes})`
+          ),
       },
     },
     async (
@@ -40,25 +118,144 @@ export function registerSynthesizeTool(deps: ToolDeps) {
         speaker,
         output,
         speedScale,
+        preset,
+        kana,
+        ssml,
+        subtitles,
+        visemes,
       }: {
         text: string
-        speaker?: number
+        speaker?: number | string
         output: string
         speedScale?: number
+        preset?: number
+        kana?: string
+        ssml?: string
+        subtitles?: SubtitleFormat[]
+        visemes?: boolean
       },
       extra: ToolHandlerExtra
     ): Promise<CallToolResult> => {
       try {
         // 有効な話者IDを取得（優先順位: 明示的パラメータ > リクエストヘッダー > グローバル設定）
-        const effectiveSpeaker = getEffectiveSpeaker(speaker, extra)
+        const effectiveSpeaker = getEffectiveSpeaker(
+          await resolveSpeakerParam(voicevoxClient, speaker, extra.signal),
+          extra
+        )
 
         // 許可ディレクトリが設定されている場合のみ書き込み先を検証する（未設定なら素通し）
         const safeOutput = resolveAllowedOutputPath(output, {
           allowedDirs: config.allowedOutputDirs,
           label: 'output',
         })
+        const subtitleFormats = subtitles ?? (config.subtitleFormats as SubtitleFormat[])
+        const writeVisemes = visemes ?? config.visemes
+
+        if (ssml && !kana) {
+          const result = await voicevoxClient.generateSsmlAudioFileWithTiming(ssml, safeOutput, {
+            speaker: effectiveSpeaker,
+            speedScale,
+            preset,
+            signal: extra.signal,
+          })
+          return await respond(result, subtitleFormats, writeVisemes)
+        }
+
+        // 行頭に話者・読み上げ設定の指定か感情タグがあれば行ごとに合成して 1 つのファイルにまとめる
+        const emotionStyles = getEmotionStyles(config)
+        const preprocess = getTextPreprocessOptions(config)
+        const resolver = kana
+          ? undefined
+          : await getLineSpeakerResolver(voicevoxClient, text, preprocess, extra.signal, emotionStyles)
+        const segments = kana
+          ? []
+          : parseTextInput(text, preprocess, getTextSegmentOptions(config), {
+              resolver,
+              defaultSpeaker: effectiveSpeaker ?? config.defaultSpeaker,
+              emotionStyles,
+            })
+        const hasLinePrefix =
+          segments.some((segment) => Object.keys(segment).length > 1) ||
+          (emotionStyles && hasEmotionTags(text, emotionStyles))
+
+        const result = await voicevoxClient.generateAudioFileWithTiming(
+          kana || (hasLinePrefix ? segments : text),
+          safeOutput,
+          { speaker: effectiveSpeaker, speedScale, preset, signal: extra.signal, kana: Boolean(kana) }
+        )
+        return await respond(result, subtitleFormats, writeVisemes)
+      } catch (error) {
+        return createErrorResponse(error)
+      }
+    }
+  )
 
-        const filePath = await voicevoxClient.generateAudioFile(text, safeOutput, effectiveSpeaker, speedScale)
+  registerToolIfEnabled(
+    server,
+    disabledTools,
+    'synthesize_morph',
+    {
+      title: 'Synthesize Morph',
+      description:
+        'Generate an audio file that blends two speaker styles (voice morphing) and return its absolute path. Fails if the speakers do not permit morphing',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+      inputSchema: {
+        text: z.string().describe('Text for voice synthesis'),
+        output: z
+          .string()
+          .describe(
+            config.allowedOutputDirs?.length
+              ? `Output path for the audio file (must be under: ${config.allowedOutputDirs.join(', ')})`
+              : 'Output path for the audio file'
+          ),
+        speaker: z.number().optional().describe('Base speaker ID (optional)'),
+        targetSpeaker: z.number().describe('Speaker ID to morph towards'),
+        morphRate: z
+          .number()
+          .min(0)
+          .max(1)
+          .optional()
+          .describe('Blend ratio: 0.0 = base speaker, 1.0 = target speaker (optional, default: 0.5)'),
+        speedScale: z.number().optional().describe('Playback speed (optional, default from environment)'),
+      },
+    },
+    async (
+      {
+        text,
+        output,
+        speaker,
+        targetSpeaker,
+        morphRate,
+        speedScale,
+      }: {
+        text: string
+        output: string
+        speaker?: number
+        targetSpeaker: number
+        morphRate?: number
+        speedScale?: number
+      },
+      extra: ToolHandlerExtra
+    ): Promise<CallToolResult> => {
+      try {
+        const effectiveSpeaker = getEffectiveSpeaker(speaker, extra)
+        const safeOutput = resolveAllowedOutputPath(output, {
+          allowedDirs: config.allowedOutputDirs,
+          label: 'output',
+        })
+
+        const filePath = await voicevoxClient.generateMorphingAudioFile(text, safeOutput, {
+          speaker: effectiveSpeaker,
+          targetSpeaker,
+          morphRate,
+          speedScale,
+          signal: extra.signal,
+        })
         return createSuccessResponse(filePath)
       } catch (error) {
         return createErrorResponse(error)
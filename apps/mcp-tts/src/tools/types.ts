@@ -10,6 +10,8 @@ export interface ToolHandlerExtra {
   requestInfo?: {
     headers?: Record<string, string | string[] | undefined>
   }
+  /** クライアントがリクエストをキャンセルすると中断されるシグナル */
+  signal?: AbortSignal
 }
 
 // 各 register*Tools に渡す共通依存オブジェクト
@@ -22,6 +24,7 @@ export interface ToolDeps {
     immediate: boolean
     waitForStart: boolean
     waitForEnd: boolean
+    priority: boolean
   }
 }
 
@@ -1,15 +1,68 @@
-import { formatSpeakResponse, parseAudioQuery, parseStringInput, type VoicevoxClient } from '@kajidog/voicevox-client'
+import {
+  type EmotionStyleMap,
+  formatSpeakResponse,
+  hasEmotionTags,
+  hasSpeakerNamePrefix,
+  type ParseStringInputOptions,
+  type PlaybackOptions,
+  parseAudioQuery,
+  parseStringInput,
+  preprocessText,
+  type SpeakerResolver,
+  segmentTexts,
+  type TextPreprocessOptions,
+  type TextSegmentOptions,
+  type VoicevoxClient,
+  VoicevoxError,
+  VoicevoxErrorCode,
+} from '@kajidog/voicevox-client'
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
 import type { ToolHandlerExtra } from './types.js'
 
 // Re-export functions moved to voicevox-client (keeps existing './utils.js' imports working)
 export { formatSpeakResponse, parseAudioQuery, parseStringInput }
 
+/**
+ * エラーコードごとの対処方法（AI エージェントが次の行動を選べるように返す）
+ */
+const ERROR_HINTS: Partial<Record<VoicevoxErrorCode, string>> = {
+  [VoicevoxErrorCode.VALIDATION_ERROR]:
+    'The engine rejected the request. Check the speaker ID, text and audio query values against the engine detail.',
+  [VoicevoxErrorCode.NOT_FOUND]:
+    'The engine does not have this endpoint or resource. Check the speaker/preset ID, or use an engine that supports this feature.',
+  [VoicevoxErrorCode.TIMEOUT]:
+    'The engine did not respond in time. Try shorter text, or raise VOICEVOX_TIMEOUT_MS (--timeout-ms).',
+  [VoicevoxErrorCode.ENGINE_OVERLOADED]:
+    'The engine is busy. Wait a moment and try again, or add more engines to VOICEVOX_URL.',
+  [VoicevoxErrorCode.API_CONNECTION_ERROR]:
+    'Could not reach the VOICEVOX engine. Make sure it is running and VOICEVOX_URL is correct.',
+  [VoicevoxErrorCode.FEATURE_NOT_SUPPORTED]: 'The connected engine does not support this feature.',
+  [VoicevoxErrorCode.MORPHING_NOT_PERMITTED]: 'This speaker pair cannot be morphed. Choose a different target speaker.',
+}
+
+/**
+ * エラーをツールの応答テキストに整形する
+ * VoicevoxError はエラーコード・HTTP ステータス・エンジンのエラー内容・対処方法を行ごとに付ける
+ */
+export const formatErrorText = (error: unknown): string => {
+  const lines = [`Error: ${error instanceof Error ? error.message : String(error)}`]
+  if (!(error instanceof VoicevoxError)) return lines.join('\n')
+
+  lines.push(`Code: ${error.code}`)
+  if (error.status !== undefined) lines.push(`HTTP status: ${error.status}`)
+  if (error.endpoint) lines.push(`Endpoint: ${error.endpoint}`)
+  if (error.detail) lines.push(`Engine detail: ${error.detail}`)
+  if (error.retryCount) lines.push(`Retries: ${error.retryCount}`)
+  const hint = ERROR_HINTS[error.code]
+  if (hint) lines.push(`Hint: ${hint}`)
+  return lines.join('\n')
+}
+
 export const createErrorResponse = (error: unknown): CallToolResult => ({
   content: [
     {
       type: 'text',
-      text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+      text: formatErrorText(error),
     },
   ],
   isError: true,
@@ -37,21 +90,80 @@ export const getEffectiveSpeaker = (explicitSpeaker?: number, extra?: ToolHandle
   return undefined
 }
 
+/**
+ * 話者パラメータ（スタイルIDか "ずんだもん/あまあま" のような話者名）をスタイルIDにする
+ */
+export const resolveSpeakerParam = async (
+  voicevoxClient: VoicevoxClient,
+  speaker?: number | string,
+  signal?: AbortSignal
+): Promise<number | undefined> =>
+  typeof speaker === 'string' ? await voicevoxClient.resolveSpeaker(speaker, signal) : speaker
+
+/**
+ * テキストの行頭に話者名（"ずんだもん:"）か感情タグ（"[happy]"）があるときだけ話者一覧を取得し、話者名の解決器を作る
+ */
+export const getLineSpeakerResolver = async (
+  voicevoxClient: VoicevoxClient,
+  text: string,
+  preprocess?: TextPreprocessOptions,
+  signal?: AbortSignal,
+  emotionStyles: EmotionStyleMap | false = false
+): Promise<SpeakerResolver | undefined> => {
+  const source = preprocess ? preprocessText(text, preprocess).join('\n') : text
+  const needsSpeakers = hasSpeakerNamePrefix(source) || (emotionStyles && hasEmotionTags(source, emotionStyles))
+  return needsSpeakers ? await voicevoxClient.getSpeakerResolver(signal) : undefined
+}
+
 export const processTextInput = async (
   voicevoxClient: VoicevoxClient,
   text: string,
   speaker?: number,
   speedScale?: number,
-  playbackOptions?: {
-    immediate?: boolean
-    waitForStart?: boolean
-    waitForEnd?: boolean
-  }
+  playbackOptions?: PlaybackOptions,
+  options: {
+    preset?: number
+    signal?: AbortSignal
+    kana?: boolean
+    preprocess?: TextPreprocessOptions
+    segment?: TextSegmentOptions
+    emotionStyles?: EmotionStyleMap | false
+    /** speaker が無いときに感情タグのスタイルを探す話者 */
+    defaultSpeaker?: number
+  } = {}
 ) => {
-  const segments = parseStringInput(text)
+  const { preprocess, segment, emotionStyles, defaultSpeaker, ...speakOptions } = options
+  const resolver = await getLineSpeakerResolver(voicevoxClient, text, preprocess, speakOptions.signal, emotionStyles)
+  const segments = parseTextInput(text, preprocess, segment, {
+    resolver,
+    defaultSpeaker: speaker ?? defaultSpeaker,
+    emotionStyles,
+  })
   return await voicevoxClient.speak(segments, {
     speaker,
     speedScale,
     ...playbackOptions,
+    ...speakOptions,
   })
 }
+
+/**
+ * 行ごとの話者指定付きテキストをセグメントに分ける
+ * 前処理の指定があれば、Markdown の記号を外してリスト項目などを別の行にしてから分ける。
+ * 分割の指定があれば、各行をさらに文・節の単位に分ける（話者と読み上げ設定は行の指定を引き継ぐ）。
+ * 解決器があれば行頭の話者名・感情タグのスタイルも使える（getLineSpeakerResolver で作る）
+ */
+export const parseTextInput = (
+  text: string,
+  preprocess?: TextPreprocessOptions,
+  segment?: TextSegmentOptions,
+  parseOptions: ParseStringInputOptions = {}
+) => {
+  const lines = parseStringInput(preprocess ? preprocessText(text, preprocess).join('\n') : text, parseOptions)
+  if (!segment) return lines
+  const split = segmentTexts(
+    lines.map((line) => line.text),
+    segment
+  )
+  return lines.flatMap((line, i) => split[i].map((text) => ({ ...line, text })))
+}
@@ -0,0 +1,26 @@
+/**
+ * 音声ファイルの横に口の形のタイムライン（.visemes.json）を書き出す
+ *
+ * ファイル名は音声ファイルの拡張子を置き換えたもの（hello.wav → hello.visemes.json）。
+ */
+
+import { writeFile } from 'node:fs/promises'
+import { extname } from 'node:path'
+import type { VisemeTimeline } from '@kajidog/voicevox-client'
+
+/**
+ * 音声ファイルのパスから口の形のタイムラインのパスを作る
+ */
+export function getVisemePath(audioPath: string): string {
+  const extension = extname(audioPath)
+  return `${extension ? audioPath.slice(0, -extension.length) : audioPath}.visemes.json`
+}
+
+/**
+ * 口の形のタイムラインを JSON で書き出し、書き出したパスを返す
+ */
+export async function writeVisemeFile(audioPath: string, timeline: VisemeTimeline): Promise<string> {
+  const path = getVisemePath(audioPath)
+  await writeFile(path, `${JSON.stringify(timeline, null, 2)}\n`, 'utf-8')
+  return path
+}
@@ -0,0 +1,74 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js'
+import * as z from 'zod'
+import { getVisemeOptions } from '../config.js'
+import { registerToolIfEnabled } from './registration.js'
+import type { ToolDeps, ToolHandlerExtra } from './types.js'
+import { createErrorResponse, createSuccessResponse, getEffectiveSpeaker, resolveSpeakerParam } from './utils.js'
+
+export function registerVisemeTool(deps: ToolDeps) {
+  const { server, voicevoxClient, disabledTools, config } = deps
+
+  registerToolIfEnabled(
+    server,
+    disabledTools,
+    'get_visemes',
+    {
+      title: 'Get Visemes',
+      description:
+        'Return a lip-sync timeline of mouth shapes (A/I/U/E/O/N/closed) with start/end seconds as JSON, without synthesizing audio. Timing matches synthesize_file for the same text, speaker and speed',
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+      inputSchema: {
+        text: z.string().describe('Text to analyze (line speaker prefixes and emotion tags are not read)'),
+        speaker: z
+          .union([z.number(), z.string()])
+          .optional()
+          .describe('Speaker: style ID, or name such as "ずんだもん" or "ずんだもん/あまあま" (optional)'),
+        speedScale: z.number().optional().describe('Playback speed (optional, default from environment)'),
+        preset: z.number().int().optional().describe('Engine preset ID (optional)'),
+        kana: z
+          .string()
+          .optional()
+          .describe('AquesTalk-style kana (e.g. "コンニチワ\'/セ\'カイ") to analyze instead of text'),
+      },
+    },
+    async (
+      {
+        text,
+        speaker,
+        speedScale,
+        preset,
+        kana,
+      }: {
+        text: string
+        speaker?: number | string
+        speedScale?: number
+        preset?: number
+        kana?: string
+      },
+      extra: ToolHandlerExtra
+    ): Promise<CallToolResult> => {
+      try {
+        const effectiveSpeaker = getEffectiveSpeaker(
+          await resolveSpeakerParam(voicevoxClient, speaker, extra.signal),
+          extra
+        )
+        const timeline = await voicevoxClient.generateVisemeTimeline(kana || text, {
+          ...getVisemeOptions(config),
+          speaker: effectiveSpeaker,
+          speedScale,
+          preset,
+          kana: Boolean(kana),
+          signal: extra.signal,
+        })
+        return createSuccessResponse(JSON.stringify(timeline))
+      } catch (error) {
+        return createErrorResponse(error)
+      }
+    }
+  )
+}
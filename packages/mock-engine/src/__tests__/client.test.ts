@@ -0,0 +1,59 @@
+/**
+ * 実際に HTTP サーバーとして起動し、@kajidog/voicevox-client から接続できることを確認する。
+ */
+
+import { VoicevoxApi } from '@kajidog/voicevox-client'
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { MockEngine, type MockEngineServer } from '../engine.js'
+
+describe('MockEngine - with VoicevoxApi', () => {
+  const engine = new MockEngine()
+  let server: MockEngineServer
+
+  beforeAll(async () => {
+    server = await engine.listen(0)
+  })
+
+  afterAll(async () => {
+    await server.close()
+  })
+
+  beforeEach(() => {
+    engine.reset()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('AudioQuery を生成して合成できる', async () => {
+    const api = new VoicevoxApi(server.url)
+
+    const query = await api.generateQuery('テストです', 3)
+    const wav = await api.synthesize(query, 3)
+
+    expect(query.accent_phrases[0].moras[0].text).toBe('テ')
+    expect(new TextDecoder().decode(new Uint8Array(wav).slice(0, 4))).toBe('RIFF')
+  })
+
+  it('エンジンの機能情報を読み取れる', async () => {
+    const capabilities = await new VoicevoxApi(server.url).getEngineCapabilities()
+
+    expect(capabilities.name).toBe('VOICEVOX Mock Engine')
+    expect(capabilities.features).toEqual({ pauseLength: true, morphing: false, singing: false, userDictionary: true })
+  })
+
+  it('一時的な 5xx はクライアントのリトライで回復する', async () => {
+    engine.setFaults([{ type: 'error', status: 503, path: '/speakers', times: 2 }])
+
+    const speakers = await new VoicevoxApi(server.url, { retryDelayMs: 1 }).getSpeakers()
+
+    expect(speakers.length).toBeGreaterThan(0)
+    expect(engine.requests.filter((request) => request.path === '/speakers')).toHaveLength(3)
+  })
+
+  it('壊れた本文はエラーになる', async () => {
+    engine.setFaults([{ type: 'malformed', path: '/speakers' }])
+
+    await expect(new VoicevoxApi(server.url, { retryCount: 0 }).getSpeakers()).rejects.toThrow(
+      'スピーカー一覧取得中にエラーが発生しました'
+    )
+  })
+})
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest'
+import { MockEngine } from '../engine.js'
+import { parseFaultSpec } from '../faults.js'
+import type { AudioQuery } from '../types.js'
+
+const TEXT = encodeURIComponent('こんにちは、元気？')
+
+async function postAudioQuery(engine: MockEngine): Promise<AudioQuery> {
+  const res = await engine.app.request(`/audio_query?text=${TEXT}&speaker=1`, { method: 'POST' })
+  expect(res.status).toBe(200)
+  return res.json()
+}
+
+describe('MockEngine - engine API', () => {
+  it('同じテキストからは同じ AudioQuery を返す', async () => {
+    const engine = new MockEngine()
+
+    const first = await postAudioQuery(engine)
+    const second = await postAudioQuery(engine)
+
+    expect(first).toEqual(second)
+    expect(first.accent_phrases).toHaveLength(2)
+    expect(first.accent_phrases[0].moras.map((mora) => mora.text).join('')).toBe('コンニチハ')
+    expect(first.accent_phrases[0].pause_mora).toBeDefined()
+    expect(first.accent_phrases[1].is_interrogative).toBe(true)
+    expect(first.kana).toBe("コ'ンニチハ、元'気？")
+  })
+
+  it('存在しないスタイルは 422 を返す', async () => {
+    const res = await new MockEngine().app.request(`/audio_query?text=${TEXT}&speaker=999`, { method: 'POST' })
+
+    expect(res.status).toBe(422)
+  })
+
+  it('/mora_data はアクセント位置から音高を決め直す', async () => {
+    const engine = new MockEngine()
+    const query = await postAudioQuery(engine)
+    const phrases = query.accent_phrases.map((phrase) => ({ ...phrase, accent: 3 }))
+
+    const res = await engine.app.request('/mora_data?speaker=1', { method: 'POST', body: JSON.stringify(phrases) })
+    const updated = await res.json()
+
+    expect(updated[0].moras.slice(0, 3).map((mora: { pitch: number }) => mora.pitch)).toEqual([5.8, 5.8, 5.8])
+    expect(updated[0].moras[3].pitch).toBeLessThan(5.8)
+  })
+
+  it('is_kana=true では AquesTalk 風記法からアクセント句を作る', async () => {
+    const engine = new MockEngine()
+    const kana = encodeURIComponent("キョ'ーワ/イ'_イ、テ'ンキ？")
+
+    const res = await engine.app.request(`/accent_phrases?text=${kana}&speaker=1&is_kana=true`, { method: 'POST' })
+    const phrases = await res.json()
+
+    expect(phrases).toHaveLength(3)
+    expect(phrases[0].moras.map((mora: { text: string }) => mora.text)).toEqual(['キョ', 'ー', 'ワ'])
+    expect(phrases[0].accent).toBe(1)
+    expect(phrases[0].pause_mora).toBeUndefined()
+    expect(phrases[1].moras[1].vowel).toBe(phrases[1].moras[1].vowel.toUpperCase())
+    expect(phrases[1].pause_mora).toBeDefined()
+    expect(phrases[2].is_interrogative).toBe(true)
+  })
+
+  it('アクセントのない記法は 400 を返す', async () => {
+    const res = await new MockEngine().app.request(
+      `/accent_phrases?text=${encodeURIComponent('コンニチハ')}&speaker=1&is_kana=true`,
+      { method: 'POST' }
+    )
+
+    expect(res.status).toBe(400)
+    expect((await res.json()).detail.error_name).toBe('ACCENT_NOTFOUND')
+  })
+
+  it('/synthesis はクエリの長さどおりの WAV を返す', async () => {
+    const engine = new MockEngine()
+    const query = await postAudioQuery(engine)
+
+    const res = await engine.app.request('/synthesis?speaker=1', {
+      method: 'POST',
+      body: JSON.stringify({ ...query, speedScale: 2 }),
+    })
+    const wav = new Uint8Array(await res.arrayBuffer())
+    const view = new DataView(wav.buffer)
+
+    expect(res.headers.get('Content-Type')).toBe('audio/wav')
+    expect(new TextDecoder().decode(wav.slice(0, 4))).toBe('RIFF')
+    expect(view.getUint32(24, true)).toBe(24000)
+    // 前後の無音 0.2 秒 + 7 モーラ（各 0.1-0.15 秒）+ ポーズ 0.3 秒を話速 2 で割った長さ
+    const seconds = view.getUint32(40, true) / 2 / 24000
+    expect(seconds).toBeGreaterThan(0.6)
+    expect(seconds).toBeLessThan(1.0)
+  })
+
+  it('ユーザー辞書の追加・更新・削除ができる', async () => {
+    const { app } = new MockEngine()
+
+    const added = await app.request('/user_dict_word?surface=test&pronunciation=テスト&accent_type=1', {
+      method: 'POST',
+    })
+    const uuid = await added.json()
+    await app.request(`/user_dict_word/${uuid}?surface=test&pronunciation=テスト&accent_type=0&priority=9`, {
+      method: 'PUT',
+    })
+
+    const dict = await (await app.request('/user_dict')).json()
+    expect(dict[uuid]).toMatchObject({ surface: 'test', accent_type: 0, priority: 9 })
+
+    expect((await app.request(`/user_dict_word/${uuid}`, { method: 'DELETE' })).status).toBe(204)
+    expect((await app.request(`/user_dict_word/${uuid}`, { method: 'DELETE' })).status).toBe(422)
+  })
+
+  it('合成した話者は初期化済みになる', async () => {
+    const engine = new MockEngine()
+    const isInitialized = async () => (await engine.app.request('/is_initialized_speaker?speaker=3')).json()
+
+    expect(await isInitialized()).toBe(false)
+    await engine.app.request('/initialize_speaker?speaker=3', { method: 'POST' })
+    expect(await isInitialized()).toBe(true)
+  })
+})
+
+describe('MockEngine - fault injection', () => {
+  it('times 回だけ 5xx を返し、その後は正常に応答する', async () => {
+    const engine = new MockEngine({ faults: [{ type: 'error', status: 503, path: '/version', times: 2 }] })
+
+    const statuses = []
+    for (let i = 0; i < 3; i++) statuses.push((await engine.app.request('/version')).status)
+
+    expect(statuses).toEqual([503, 503, 200])
+    expect((await engine.app.request('/speakers')).status).toBe(200)
+  })
+
+  it('429 は Retry-After を付けて返す', async () => {
+    const engine = new MockEngine({ faults: [{ type: 'rate-limit' }] })
+
+    const res = await engine.app.request('/version')
+
+    expect(res.status).toBe(429)
+    expect(res.headers.get('Retry-After')).toBe('1')
+  })
+
+  it('malformed は解釈できない本文を 200 で返す', async () => {
+    const engine = new MockEngine({ faults: [{ type: 'malformed', path: '/audio_query' }] })
+
+    const res = await engine.app.request(`/audio_query?text=${TEXT}&speaker=1`, { method: 'POST' })
+
+    expect(res.status).toBe(200)
+    await expect(res.json()).rejects.toThrow()
+  })
+
+  it('probability はシードが同じなら同じ順序で適用される', async () => {
+    const run = async () => {
+      const engine = new MockEngine({ faults: [{ type: 'error', probability: 0.5 }], seed: 42 })
+      const statuses = []
+      for (let i = 0; i < 8; i++) statuses.push((await engine.app.request('/version')).status)
+      return statuses
+    }
+
+    const statuses = await run()
+    expect(statuses).toEqual(await run())
+    expect(statuses).toContain(500)
+    expect(statuses).toContain(200)
+  })
+
+  it('操作用エンドポイントで障害を切り替えられる', async () => {
+    const engine = new MockEngine()
+
+    await engine.app.request('/__mock/faults', {
+      method: 'PUT',
+      body: JSON.stringify([{ type: 'error', path: '/speakers' }]),
+    })
+    expect((await engine.app.request('/speakers')).status).toBe(500)
+
+    await engine.app.request('/__mock/reset', { method: 'POST' })
+    expect((await engine.app.request('/speakers')).status).toBe(200)
+    expect(engine.requests).toEqual([{ method: 'GET', path: '/speakers', search: '' }])
+  })
+
+  it('parseFaultSpec は CLI の障害指定を解釈する', () => {
+    expect(parseFaultSpec('503@/synthesis')).toEqual({ type: 'error', status: 503, path: '/synthesis' })
+    expect(parseFaultSpec('429', 0.2)).toEqual({ type: 'rate-limit', probability: 0.2 })
+    expect(parseFaultSpec('latency:1500@/audio_query')).toEqual({
+      type: 'latency',
+      latencyMs: 1500,
+      path: '/audio_query',
+    })
+    expect(() => parseFaultSpec('404')).toThrow('Invalid fault')
+  })
+})
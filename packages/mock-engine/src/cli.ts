@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+
+import { parseArgs } from 'node:util'
+import { MockEngine } from './engine.js'
+import { parseFaultSpec } from './faults.js'
+
+const HELP = `Usage: voicevox-mock-engine [options]
+
+Offline mock of the VOICEVOX engine HTTP API.
+
+Options:
+  --port <port>          Port to listen on (env: VOICEVOX_MOCK_PORT, default: 50021)
+  --host <host>          Host to bind (env: VOICEVOX_MOCK_HOST, default: 127.0.0.1)
+  --latency <ms>         Delay every response (env: VOICEVOX_MOCK_LATENCY_MS)
+  --fault <spec>         Inject a fault, repeatable (env: VOICEVOX_MOCK_FAULTS, comma-separated)
+                         <spec> = 5xx | 429 | malformed | latency:<ms>, optionally followed by @<path>
+  --fault-rate <0-1>     Probability of applying each fault (env: VOICEVOX_MOCK_FAULT_RATE, default: 1)
+  --seed <number>        Random seed for --fault-rate (env: VOICEVOX_MOCK_SEED, default: 1)
+  -h, --help             Show help
+
+Examples:
+  voicevox-mock-engine --port 50121
+  voicevox-mock-engine --fault 503@/synthesis --fault-rate 0.3
+  voicevox-mock-engine --fault latency:5000@/audio_query
+`
+
+function toNumber(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value === '') return undefined
+  const number = Number(value)
+  if (!Number.isFinite(number)) throw new Error(`${name} must be a number: ${value}`)
+  return number
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string' },
+      host: { type: 'string' },
+      latency: { type: 'string' },
+      fault: { type: 'string', multiple: true },
+      'fault-rate': { type: 'string' },
+      seed: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  if (values.help) {
+    console.log(HELP)
+    return
+  }
+
+  const env = process.env
+  const faultRate = toNumber(values['fault-rate'] ?? env.VOICEVOX_MOCK_FAULT_RATE, '--fault-rate')
+  const faultSpecs = values.fault ?? env.VOICEVOX_MOCK_FAULTS?.split(',').filter(Boolean) ?? []
+
+  const engine = new MockEngine({
+    latencyMs: toNumber(values.latency ?? env.VOICEVOX_MOCK_LATENCY_MS, '--latency'),
+    faults: faultSpecs.map((spec) => parseFaultSpec(spec, faultRate)),
+    seed: toNumber(values.seed ?? env.VOICEVOX_MOCK_SEED, '--seed'),
+  })
+  const server = await engine.listen(
+    toNumber(values.port ?? env.VOICEVOX_MOCK_PORT, '--port') ?? 50021,
+    values.host ?? env.VOICEVOX_MOCK_HOST ?? '127.0.0.1'
+  )
+
+  console.error(`VOICEVOX mock engine running at ${server.url}`)
+  if (faultSpecs.length > 0) {
+    console.error(`Injected faults: ${faultSpecs.join(', ')}${faultRate !== undefined ? ` (rate: ${faultRate})` : ''}`)
+  }
+
+  const shutdown = () => {
+    server.close().then(() => process.exit(0))
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,355 @@
+import type { AddressInfo } from 'node:net'
+import { serve } from '@hono/node-server'
+import { type Context, Hono } from 'hono'
+import {
+  applyMoraData,
+  createAccentPhrases,
+  createAudioQuery,
+  DEFAULT_SAMPLING_RATE,
+  KanaParseError,
+  parseKana,
+} from './query.js'
+import { createSpeakerInfo, findSpeakerByStyle, MOCK_SPEAKERS } from './speakers.js'
+import type {
+  AccentPhrase,
+  AudioQuery,
+  MockEngineOptions,
+  MockFault,
+  MockRequest,
+  UserDictionaryWord,
+} from './types.js'
+import { synthesizeWav } from './wav.js'
+
+export const MOCK_ENGINE_VERSION = '0.0.0-mock'
+
+/** 障害注入やリクエスト記録の対象外にする操作用エンドポイント */
+const CONTROL_PREFIX = '/__mock'
+
+/**
+ * 起動中のモックエンジン
+ */
+export interface MockEngineServer {
+  /** 例: http://127.0.0.1:50021 */
+  url: string
+  port: number
+  close(): Promise<void>
+}
+
+interface ActiveFault extends MockFault {
+  hits: number
+}
+
+/**
+ * 決定的な乱数（mulberry32）
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+function validationError(c: Context, message: string) {
+  return c.json({ detail: message }, 422)
+}
+
+/**
+ * VOICEVOX ENGINE の HTTP API をオフラインで再現するモック
+ *
+ * テキストから決定的な AudioQuery を作り、音高どおりの正弦波 WAV を返す。
+ * 遅延・5xx・429・壊れた本文を注入でき、リトライやフェイルオーバーの確認に使える。
+ */
+export class MockEngine {
+  readonly app: Hono
+  private latencyMs: number
+  private faults: ActiveFault[] = []
+  private random: () => number
+  private readonly dictionary = new Map<string, UserDictionaryWord>()
+  private readonly initializedSpeakers = new Set<number>()
+  private readonly requestLog: MockRequest[] = []
+  private nextWordId = 1
+
+  constructor(private readonly options: MockEngineOptions = {}) {
+    this.latencyMs = options.latencyMs ?? 0
+    this.random = createRandom(options.seed ?? 1)
+    this.setFaults(options.faults ?? [])
+    this.app = this.createApp()
+  }
+
+  /** 受け付けたリクエスト（操作用エンドポイントを除く） */
+  get requests(): readonly MockRequest[] {
+    return this.requestLog
+  }
+
+  public setFaults(faults: MockFault[]): void {
+    this.faults = faults.map((fault) => ({ ...fault, hits: 0 }))
+  }
+
+  public addFault(fault: MockFault): void {
+    this.faults.push({ ...fault, hits: 0 })
+  }
+
+  public clearFaults(): void {
+    this.faults = []
+  }
+
+  public setLatency(latencyMs: number): void {
+    this.latencyMs = latencyMs
+  }
+
+  /**
+   * 障害・遅延・辞書・リクエスト記録を起動時の状態に戻す
+   */
+  public reset(): void {
+    this.setFaults(this.options.faults ?? [])
+    this.latencyMs = this.options.latencyMs ?? 0
+    this.random = createRandom(this.options.seed ?? 1)
+    this.dictionary.clear()
+    this.initializedSpeakers.clear()
+    this.requestLog.length = 0
+    this.nextWordId = 1
+  }
+
+  /**
+   * HTTP サーバーとして起動する
+   * @param port 0 を指定すると空いているポートを使う
+   */
+  public listen(port = 50021, hostname = '127.0.0.1'): Promise<MockEngineServer> {
+    return new Promise((resolve, reject) => {
+      const server = serve({ fetch: this.app.fetch, port, hostname }, (info: AddressInfo) => {
+        resolve({
+          url: `http://${hostname}:${info.port}`,
+          port: info.port,
+          close: () =>
+            new Promise<void>((done) => {
+              // keep-alive の接続が残っていると close が完了しないため明示的に切る
+              if ('closeAllConnections' in server) server.closeAllConnections()
+              server.close(() => done())
+            }),
+        })
+      })
+      server.once('error', reject)
+    })
+  }
+
+  private takeFault(path: string): ActiveFault | undefined {
+    for (const fault of this.faults) {
+      if (fault.path && !path.startsWith(fault.path)) continue
+      if (fault.times !== undefined && fault.hits >= fault.times) continue
+      if (fault.probability !== undefined && this.random() >= fault.probability) continue
+      fault.hits++
+      return fault
+    }
+    return undefined
+  }
+
+  private createApp(): Hono {
+    const app = new Hono()
+
+    // 障害注入
+    app.use('*', async (c, next) => {
+      if (c.req.path.startsWith(CONTROL_PREFIX)) return next()
+
+      this.requestLog.push({ method: c.req.method, path: c.req.path, search: new URL(c.req.url).search })
+      if (this.latencyMs > 0) await delay(this.latencyMs)
+
+      const fault = this.takeFault(c.req.path)
+      switch (fault?.type) {
+        case 'error':
+          return c.json({ detail: 'Mock engine error' }, (fault.status ?? 500) as 500)
+        case 'rate-limit':
+          c.header('Retry-After', '1')
+          return c.json({ detail: 'Too many requests' }, 429)
+        case 'latency':
+          await delay(fault.latencyMs ?? 0)
+          return next()
+        case 'malformed': {
+          await next()
+          // 本文を途中で切り、JSON としても WAV としても解釈できないようにする
+          const body = new Uint8Array(await c.res.arrayBuffer())
+          const truncated = body.byteLength > 1 ? body.slice(0, Math.floor(body.byteLength / 2)) : '{'
+          c.res = new Response(truncated, {
+            status: 200,
+            headers: { 'Content-Type': c.res.headers.get('Content-Type') ?? 'application/json' },
+          })
+          return
+        }
+        default:
+          return next()
+      }
+    })
+
+    this.registerEngineRoutes(app)
+    this.registerDictionaryRoutes(app)
+    this.registerControlRoutes(app)
+    return app
+  }
+
+  private registerEngineRoutes(app: Hono): void {
+    const requireSpeaker = (c: Context): number | undefined => {
+      const speaker = Number(c.req.query('speaker'))
+      return Number.isInteger(speaker) && findSpeakerByStyle(speaker) ? speaker : undefined
+    }
+
+    app.get('/version', (c) => c.json(MOCK_ENGINE_VERSION))
+
+    app.get('/engine_manifest', (c) =>
+      c.json({
+        manifest_version: '0.13.1',
+        name: 'VOICEVOX Mock Engine',
+        brand_name: 'VOICEVOX Mock',
+        uuid: '00000000-0000-4000-8000-000000000000',
+        default_sampling_rate: DEFAULT_SAMPLING_RATE,
+        supported_features: {
+          adjust_mora_pitch: true,
+          adjust_phoneme_length: true,
+          adjust_speed_scale: true,
+          adjust_pitch_scale: true,
+          adjust_intonation_scale: true,
+          adjust_volume_scale: true,
+          adjust_pause_length: true,
+          interrogative_upspeak: true,
+          synthesis_morphing: false,
+          sing: false,
+          manage_library: false,
+        },
+      })
+    )
+
+    app.get('/speakers', (c) => c.json(MOCK_SPEAKERS))
+
+    app.get('/speaker_info', (c) => {
+      const info = createSpeakerInfo(c.req.query('speaker_uuid') ?? '')
+      return info ? c.json(info) : validationError(c, '該当する話者が見つかりません')
+    })
+
+    app.post('/initialize_speaker', (c) => {
+      const speaker = requireSpeaker(c)
+      if (speaker === undefined) return validationError(c, '該当するスタイルが見つかりません')
+      this.initializedSpeakers.add(speaker)
+      return c.body(null, 204)
+    })
+
+    app.get('/is_initialized_speaker', (c) => {
+      const speaker = requireSpeaker(c)
+      if (speaker === undefined) return validationError(c, '該当するスタイルが見つかりません')
+      return c.json(this.initializedSpeakers.has(speaker))
+    })
+
+    app.post('/audio_query', (c) => {
+      const text = c.req.query('text')
+      if (requireSpeaker(c) === undefined) return validationError(c, '該当するスタイルが見つかりません')
+      if (text === undefined) return validationError(c, 'text is required')
+      return c.json(createAudioQuery(text))
+    })
+
+    app.post('/accent_phrases', (c) => {
+      const text = c.req.query('text')
+      if (requireSpeaker(c) === undefined) return validationError(c, '該当するスタイルが見つかりません')
+      if (text === undefined) return validationError(c, 'text is required')
+      if (c.req.query('is_kana') !== 'true') return c.json(createAccentPhrases(text))
+      try {
+        return c.json(parseKana(text))
+      } catch (error) {
+        if (!(error instanceof KanaParseError)) throw error
+        // エンジンと同じく 400 で解釈エラーの内容を返す
+        return c.json(
+          { detail: { text: error.message, error_name: error.errorName, error_args: { text: error.text } } },
+          400
+        )
+      }
+    })
+
+    app.post('/mora_data', async (c) => {
+      if (requireSpeaker(c) === undefined) return validationError(c, '該当するスタイルが見つかりません')
+      const accentPhrases = await c.req.json<AccentPhrase[]>().catch(() => undefined)
+      if (!Array.isArray(accentPhrases)) return validationError(c, 'accent phrases are required')
+      return c.json(applyMoraData(accentPhrases))
+    })
+
+    app.post('/synthesis', async (c) => {
+      const speaker = requireSpeaker(c)
+      if (speaker === undefined) return validationError(c, '該当するスタイルが見つかりません')
+      const query = await c.req.json<AudioQuery>().catch(() => undefined)
+      if (!query || !Array.isArray(query.accent_phrases)) return validationError(c, 'audio query is required')
+      // 実際のエンジンと同じく、合成時に未初期化の話者を読み込む
+      this.initializedSpeakers.add(speaker)
+      return c.body(synthesizeWav(query), 200, { 'Content-Type': 'audio/wav' })
+    })
+  }
+
+  private registerDictionaryRoutes(app: Hono): void {
+    const parseWord = (c: Context): UserDictionaryWord | undefined => {
+      const surface = c.req.query('surface')
+      const pronunciation = c.req.query('pronunciation')
+      const accentType = Number(c.req.query('accent_type'))
+      if (!surface || !pronunciation || !Number.isInteger(accentType)) return undefined
+      return {
+        surface,
+        pronunciation,
+        accent_type: accentType,
+        word_type: c.req.query('word_type') ?? 'PROPER_NOUN',
+        priority: Number(c.req.query('priority') ?? 5),
+      }
+    }
+
+    app.get('/user_dict', (c) => c.json(Object.fromEntries(this.dictionary)))
+
+    app.post('/user_dict_word', (c) => {
+      const word = parseWord(c)
+      if (!word) return validationError(c, 'surface, pronunciation and accent_type are required')
+      const uuid = `00000000-0000-4000-8000-${(this.nextWordId++).toString().padStart(12, '0')}`
+      this.dictionary.set(uuid, word)
+      return c.json(uuid)
+    })
+
+    app.put('/user_dict_word/:uuid', (c) => {
+      const uuid = c.req.param('uuid')
+      if (!this.dictionary.has(uuid)) return validationError(c, 'UUIDに該当するワードが見つかりませんでした')
+      const word = parseWord(c)
+      if (!word) return validationError(c, 'surface, pronunciation and accent_type are required')
+      this.dictionary.set(uuid, word)
+      return c.body(null, 204)
+    })
+
+    app.delete('/user_dict_word/:uuid', (c) => {
+      const uuid = c.req.param('uuid')
+      if (!this.dictionary.delete(uuid)) return validationError(c, 'UUIDに該当するワードが見つかりませんでした')
+      return c.body(null, 204)
+    })
+  }
+
+  /**
+   * 別プロセスから障害を切り替えるための操作用エンドポイント
+   */
+  private registerControlRoutes(app: Hono): void {
+    app.get(`${CONTROL_PREFIX}/requests`, (c) => c.json(this.requestLog))
+
+    app.get(`${CONTROL_PREFIX}/faults`, (c) => c.json(this.faults))
+
+    app.put(`${CONTROL_PREFIX}/faults`, async (c) => {
+      const faults = await c.req.json<MockFault[]>().catch(() => undefined)
+      if (!Array.isArray(faults)) return validationError(c, 'faults must be an array')
+      this.setFaults(faults)
+      return c.body(null, 204)
+    })
+
+    app.delete(`${CONTROL_PREFIX}/faults`, (c) => {
+      this.clearFaults()
+      return c.body(null, 204)
+    })
+
+    app.post(`${CONTROL_PREFIX}/reset`, (c) => {
+      this.reset()
+      return c.body(null, 204)
+    })
+  }
+}
@@ -0,0 +1,28 @@
+import type { MockFault } from './types.js'
+
+/**
+ * コマンドライン・環境変数で指定する障害の書式を解釈する
+ *
+ * 書式: `<kind>[@<path>]`
+ * - `500` 〜 `599`: その 5xx を返す
+ * - `429`: レート制限
+ * - `malformed`: 壊れた本文
+ * - `latency:<ms>`: 応答を遅らせる
+ *
+ * 例: `503@/synthesis`, `latency:5000@/audio_query`, `malformed`
+ */
+export function parseFaultSpec(spec: string, probability?: number): MockFault {
+  const [kind, path] = spec.trim().split('@', 2)
+  const base = { ...(path ? { path } : {}), ...(probability !== undefined ? { probability } : {}) }
+
+  if (kind === '429') return { type: 'rate-limit', ...base }
+  if (kind === 'malformed') return { type: 'malformed', ...base }
+  if (/^5\d\d$/.test(kind)) return { type: 'error', status: Number(kind), ...base }
+
+  const latency = kind.match(/^latency:(\d+)$/)
+  if (latency) return { type: 'latency', latencyMs: Number(latency[1]), ...base }
+
+  throw new Error(
+    `Invalid fault: ${spec} (expected 5xx, 429, malformed or latency:<ms>, optionally followed by @<path>)`
+  )
+}
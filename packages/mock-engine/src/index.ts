@@ -0,0 +1,6 @@
+export { MOCK_ENGINE_VERSION, MockEngine, type MockEngineServer } from './engine.js'
+export { parseFaultSpec } from './faults.js'
+export { applyMoraData, createAccentPhrases, createAudioQuery, KanaParseError, parseKana, toKana } from './query.js'
+export { MOCK_SPEAKERS } from './speakers.js'
+export * from './types.js'
+export { synthesizeWav } from './wav.js'
@@ -0,0 +1,216 @@
+import type { AccentPhrase, AudioQuery, Mora } from './types.js'
+
+/** ここで区切ってポーズを入れる文字 */
+const PAUSE_CHARS = new Set(['、', '。', '，', '．', ',', '.', '!', '?', '！', '？', '\n', ' ', '　'])
+const QUESTION_CHARS = new Set(['?', '？'])
+/** 1つのアクセント句に含めるモーラ数の上限 */
+const MAX_MORAS_PER_PHRASE = 8
+
+const VOWELS = ['a', 'i', 'u', 'e', 'o']
+const CONSONANTS = ['k', 's', 't', 'n', 'h', 'm', 'r', undefined]
+
+const CONSONANT_LENGTH = 0.05
+const VOWEL_LENGTH = 0.1
+const PAUSE_LENGTH = 0.3
+const HIGH_PITCH = 5.8
+const LOW_PITCH = 5.6
+const PITCH_STEP = 0.05
+const QUESTION_PITCH_RISE = 0.3
+
+export const DEFAULT_SAMPLING_RATE = 24000
+
+function toKatakana(char: string): string {
+  const code = char.charCodeAt(0)
+  // ひらがな（ぁ-ゖ）はカタカナに揃える
+  return code >= 0x3041 && code <= 0x3096 ? String.fromCharCode(code + 0x60) : char
+}
+
+/**
+ * 文字コードから決まる音素を割り当てる（同じ文字なら常に同じモーラになる）
+ */
+function createMora(char: string): Mora {
+  const text = toKatakana(char)
+  const code = text.codePointAt(0) ?? 0
+  const consonant = CONSONANTS[code % CONSONANTS.length]
+  return {
+    text,
+    ...(consonant ? { consonant, consonant_length: CONSONANT_LENGTH } : {}),
+    vowel: VOWELS[code % VOWELS.length],
+    vowel_length: VOWEL_LENGTH,
+    pitch: 0,
+  }
+}
+
+function createPauseMora(): Mora {
+  return { text: '、', vowel: 'pau', vowel_length: PAUSE_LENGTH, pitch: 0 }
+}
+
+/**
+ * アクセント位置から音高と音長を決める（/mora_data 相当）
+ * アクセント核までを高く、以降を少しずつ下げる。疑問形は末尾を上げる。
+ */
+export function applyMoraData(accentPhrases: AccentPhrase[]): AccentPhrase[] {
+  return accentPhrases.map((phrase) => {
+    const moras = phrase.moras.map((mora, i) => ({
+      ...mora,
+      ...(mora.consonant ? { consonant_length: CONSONANT_LENGTH } : {}),
+      vowel_length: VOWEL_LENGTH,
+      pitch: i < phrase.accent ? HIGH_PITCH : LOW_PITCH - PITCH_STEP * (i - phrase.accent),
+    }))
+    if (phrase.is_interrogative && moras.length > 0) {
+      moras[moras.length - 1].pitch += QUESTION_PITCH_RISE
+    }
+    return { ...phrase, moras }
+  })
+}
+
+/**
+ * テキストからアクセント句を作る（/accent_phrases 相当）
+ * 句読点と空白で区切り、長い区間は MAX_MORAS_PER_PHRASE モーラごとに分ける。
+ */
+export function createAccentPhrases(text: string): AccentPhrase[] {
+  const phrases: AccentPhrase[] = []
+  let moras: Mora[] = []
+
+  const flush = (pause: boolean, interrogative: boolean) => {
+    if (moras.length === 0) return
+    phrases.push({
+      moras,
+      accent: 1,
+      ...(pause ? { pause_mora: createPauseMora() } : {}),
+      is_interrogative: interrogative,
+    })
+    moras = []
+  }
+
+  for (const char of text) {
+    if (PAUSE_CHARS.has(char)) {
+      flush(true, QUESTION_CHARS.has(char))
+      continue
+    }
+    moras.push(createMora(char))
+    if (moras.length >= MAX_MORAS_PER_PHRASE) flush(false, false)
+  }
+  flush(false, false)
+
+  // 最後の句の後ろにはポーズを置かない
+  const last = phrases[phrases.length - 1]
+  if (last) last.pause_mora = undefined
+
+  return applyMoraData(phrases)
+}
+
+/**
+ * アクセント句を AquesTalk 風記法に変換
+ */
+export function toKana(accentPhrases: AccentPhrase[]): string {
+  return accentPhrases
+    .map((phrase, i) => {
+      const texts = phrase.moras.map((mora) => mora.text)
+      texts.splice(phrase.accent, 0, "'")
+      const question = phrase.is_interrogative ? '？' : ''
+      const separator = i === accentPhrases.length - 1 ? '' : phrase.pause_mora ? '、' : '/'
+      return `${texts.join('')}${question}${separator}`
+    })
+    .join('')
+}
+
+/** 直前の文字と合わせて 1 モーラになる小書きカナ */
+const SMALL_KANA = new Set(['ァ', 'ィ', 'ゥ', 'ェ', 'ォ', 'ャ', 'ュ', 'ョ', 'ヮ'])
+
+/**
+ * AquesTalk 風記法の解釈エラー（エンジンの ParseKanaError 相当）
+ */
+export class KanaParseError extends Error {
+  constructor(
+    message: string,
+    readonly errorName: string,
+    readonly text: string
+  ) {
+    super(message)
+    this.name = 'KanaParseError'
+  }
+}
+
+/**
+ * AquesTalk 風記法からアクセント句を作る（/accent_phrases?is_kana=true 相当）
+ * `/` は区切りのみ、`、` はポーズ付きの区切り。`'` がアクセント核、`_` は無声化、末尾の `？` は疑問形。
+ */
+export function parseKana(kana: string): AccentPhrase[] {
+  const phrases: AccentPhrase[] = []
+  const parts = kana.split(/([/、])/)
+
+  for (let i = 0; i < parts.length; i += 2) {
+    let text = parts[i]
+    const separator = parts[i + 1]
+    if (text === '') {
+      throw new KanaParseError(`アクセント句が空です: ${kana}`, 'EMPTY_PHRASE', kana)
+    }
+
+    const interrogative = text.endsWith('？')
+    if (interrogative) text = text.slice(0, -1)
+
+    const moras: Mora[] = []
+    let accent: number | undefined
+    let unvoiced = false
+    for (const char of text) {
+      if (char === "'") {
+        if (accent !== undefined || moras.length === 0) {
+          throw new KanaParseError(`アクセントの位置が不正です: ${text}`, 'ACCENT_TOP', text)
+        }
+        accent = moras.length
+        continue
+      }
+      if (char === '_') {
+        unvoiced = true
+        continue
+      }
+      const katakana = toKatakana(char)
+      if (!/^[\u30A1-\u30FC]$/.test(katakana)) {
+        throw new KanaParseError(`不明な文字です: ${char}`, 'UNKNOWN_TEXT', char)
+      }
+      const previous = moras[moras.length - 1]
+      if (SMALL_KANA.has(katakana) && previous) {
+        previous.text += katakana
+        continue
+      }
+      const mora = createMora(katakana)
+      if (unvoiced) mora.vowel = mora.vowel.toUpperCase()
+      unvoiced = false
+      moras.push(mora)
+    }
+    if (accent === undefined) {
+      throw new KanaParseError(`アクセントが指定されていません: ${text}`, 'ACCENT_NOTFOUND', text)
+    }
+
+    phrases.push({
+      moras,
+      accent,
+      ...(separator === '、' ? { pause_mora: createPauseMora() } : {}),
+      is_interrogative: interrogative,
+    })
+  }
+
+  return applyMoraData(phrases)
+}
+
+/**
+ * テキストから AudioQuery を作る（/audio_query 相当）
+ */
+export function createAudioQuery(text: string): AudioQuery {
+  const accentPhrases = createAccentPhrases(text)
+  return {
+    accent_phrases: accentPhrases,
+    speedScale: 1.0,
+    pitchScale: 0.0,
+    intonationScale: 1.0,
+    volumeScale: 1.0,
+    prePhonemeLength: 0.1,
+    postPhonemeLength: 0.1,
+    pauseLength: null,
+    pauseLengthScale: 1.0,
+    outputSamplingRate: DEFAULT_SAMPLING_RATE,
+    outputStereo: false,
+    kana: toKana(accentPhrases),
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * モックエンジンの話者一覧
+ * スタイルIDは VOICEVOX ENGINE と揃えている（デフォルト話者 1 がそのまま使える）
+ */
+export const MOCK_SPEAKERS = [
+  {
+    name: '四国めたん',
+    speaker_uuid: '7ffcb7ce-00ec-4bdc-82cd-45a8889e43ff',
+    styles: [
+      { name: 'ノーマル', id: 2, type: 'talk' },
+      { name: 'あまあま', id: 0, type: 'talk' },
+    ],
+    version: '0.0.0-mock',
+    supported_features: { permitted_synthesis_morphing: 'SELF_ONLY' },
+  },
+  {
+    name: 'ずんだもん',
+    speaker_uuid: '388f246b-8c41-4ac1-8e2d-5d79f3ff56d9',
+    styles: [
+      { name: 'ノーマル', id: 3, type: 'talk' },
+      { name: 'あまあま', id: 1, type: 'talk' },
+    ],
+    version: '0.0.0-mock',
+    supported_features: { permitted_synthesis_morphing: 'SELF_ONLY' },
+  },
+]
+
+/** 1x1 の透明 PNG（立ち絵・アイコンの代わり） */
+const BLANK_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='
+
+export function findSpeakerByStyle(styleId: number) {
+  return MOCK_SPEAKERS.find((speaker) => speaker.styles.some((style) => style.id === styleId))
+}
+
+export function createSpeakerInfo(speakerUuid: string) {
+  const speaker = MOCK_SPEAKERS.find((s) => s.speaker_uuid === speakerUuid)
+  if (!speaker) return undefined
+  return {
+    policy: `${speaker.name}（モック）の利用規約はありません。テスト用の音声です。`,
+    portrait: BLANK_PNG,
+    style_infos: speaker.styles.map((style) => ({ id: style.id, icon: BLANK_PNG, voice_samples: [] })),
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * モックエンジンが返すデータの型
+ * VOICEVOX ENGINE の OpenAPI 定義のうち、クライアントが参照する項目だけを持つ
+ */
+
+export interface Mora {
+  text: string
+  consonant?: string
+  consonant_length?: number
+  vowel: string
+  vowel_length: number
+  pitch: number
+}
+
+export interface AccentPhrase {
+  moras: Mora[]
+  accent: number
+  pause_mora?: Mora
+  is_interrogative?: boolean
+}
+
+export interface AudioQuery {
+  accent_phrases: AccentPhrase[]
+  speedScale: number
+  pitchScale: number
+  intonationScale: number
+  volumeScale: number
+  prePhonemeLength: number
+  postPhonemeLength: number
+  pauseLength?: number | null
+  pauseLengthScale?: number
+  outputSamplingRate: number
+  outputStereo: boolean
+  kana?: string
+}
+
+export interface UserDictionaryWord {
+  surface: string
+  pronunciation: string
+  accent_type: number
+  word_type: string
+  priority: number
+}
+
+/**
+ * 注入する障害
+ * - error: 5xx（status で指定、デフォルト 500）
+ * - rate-limit: 429
+ * - malformed: 200 で途中までしかない本文（JSON・WAV として解釈できない）
+ * - latency: latencyMs だけ応答を遅らせる
+ */
+export type MockFaultType = 'error' | 'rate-limit' | 'malformed' | 'latency'
+
+export interface MockFault {
+  type: MockFaultType
+  /** 対象のパス（先頭一致、例: '/synthesis'。省略時は全エンドポイント） */
+  path?: string
+  /** error のステータスコード（デフォルト: 500） */
+  status?: number
+  /** latency の遅延時間（ミリ秒） */
+  latencyMs?: number
+  /** 適用する回数（省略時は無制限） */
+  times?: number
+  /** 適用する確率（0.0 - 1.0、デフォルト: 1.0） */
+  probability?: number
+}
+
+export interface MockEngineOptions {
+  /** 全レスポンスに加える遅延（ミリ秒、デフォルト: 0） */
+  latencyMs?: number
+  /** 注入する障害（先に一致したものを1つだけ適用する） */
+  faults?: MockFault[]
+  /** probability の判定に使う乱数のシード（同じシードなら同じ順序で障害が起きる） */
+  seed?: number
+}
+
+/**
+ * 受け付けたリクエストの記録
+ */
+export interface MockRequest {
+  method: string
+  path: string
+  /** クエリ文字列（先頭の ? を含む。無ければ空文字） */
+  search: string
+}
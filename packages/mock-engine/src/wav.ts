@@ -0,0 +1,90 @@
+import { DEFAULT_SAMPLING_RATE } from './query.js'
+import type { AudioQuery } from './types.js'
+
+const AMPLITUDE = 0.3
+const BYTES_PER_SAMPLE = 2
+
+interface ToneSegment {
+  /** 秒 */
+  duration: number
+  /** Hz（0 なら無音） */
+  frequency: number
+}
+
+/**
+ * AudioQuery の音長・音高どおりの区間に分ける
+ * 音高はエンジンと同じく対数 F0 として扱う（pitch 0 のモーラは無声）
+ */
+function toSegments(query: AudioQuery): ToneSegment[] {
+  const speed = query.speedScale > 0 ? query.speedScale : 1
+  const segments: ToneSegment[] = [{ duration: query.prePhonemeLength, frequency: 0 }]
+
+  for (const phrase of query.accent_phrases) {
+    for (const mora of phrase.moras) {
+      const frequency = mora.pitch > 0 ? Math.exp(mora.pitch + query.pitchScale) : 0
+      segments.push({ duration: ((mora.consonant_length ?? 0) + mora.vowel_length) / speed, frequency })
+    }
+    if (phrase.pause_mora) {
+      const pause = query.pauseLength ?? phrase.pause_mora.vowel_length * (query.pauseLengthScale ?? 1)
+      segments.push({ duration: pause / speed, frequency: 0 })
+    }
+  }
+
+  segments.push({ duration: query.postPhonemeLength, frequency: 0 })
+  return segments
+}
+
+/**
+ * AudioQuery から正弦波の WAV（16bit PCM）を生成する
+ * 同じクエリからは常に同じバイト列になる
+ */
+export function synthesizeWav(query: AudioQuery): ArrayBuffer {
+  const sampleRate = query.outputSamplingRate || DEFAULT_SAMPLING_RATE
+  const channels = query.outputStereo ? 2 : 1
+  const amplitude = Math.min(1, AMPLITUDE * Math.max(0, query.volumeScale))
+
+  const samples: number[] = []
+  let phase = 0
+  for (const segment of toSegments(query)) {
+    const count = Math.round(Math.max(0, segment.duration) * sampleRate)
+    for (let i = 0; i < count; i++) {
+      if (segment.frequency > 0) {
+        phase += (2 * Math.PI * segment.frequency) / sampleRate
+        samples.push(Math.round(Math.sin(phase) * amplitude * 0x7fff))
+      } else {
+        samples.push(0)
+      }
+    }
+  }
+
+  const dataSize = samples.length * channels * BYTES_PER_SAMPLE
+  const buffer = new ArrayBuffer(44 + dataSize)
+  const view = new DataView(buffer)
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i))
+  }
+
+  writeString(0, 'RIFF')
+  view.setUint32(4, 36 + dataSize, true)
+  writeString(8, 'WAVE')
+  writeString(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true) // PCM
+  view.setUint16(22, channels, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * channels * BYTES_PER_SAMPLE, true)
+  view.setUint16(32, channels * BYTES_PER_SAMPLE, true)
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true)
+  writeString(36, 'data')
+  view.setUint32(40, dataSize, true)
+
+  let offset = 44
+  for (const sample of samples) {
+    for (let channel = 0; channel < channels; channel++) {
+      view.setInt16(offset, sample, true)
+      offset += BYTES_PER_SAMPLE
+    }
+  }
+
+  return buffer
+}
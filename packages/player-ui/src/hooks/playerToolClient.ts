@@ -18,6 +18,8 @@ export interface ExportTracksResult {
   outputDir?: string
   count?: number
   files?: string[]
+  subtitleFiles?: string[]
+  visemeFiles?: string[]
   openedDirectory?: boolean
   warning?: string
 }
@@ -230,7 +232,7 @@ export async function exportTracksOnServer(
   app: App,
   args: {
     outputDir?: string
-    segments: Array<Pick<AudioSegment, 'audioBase64' | 'text' | 'speaker' | 'speakerName'>>
+    segments: Array<Pick<AudioSegment, 'audioBase64' | 'text' | 'speaker' | 'speakerName' | 'audioQuery'>>
   }
 ): Promise<ExportTracksResult | null> {
   const result = await app.callServerTool({
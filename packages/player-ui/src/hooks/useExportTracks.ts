@@ -35,6 +35,7 @@ export function useExportTracks({
             text: segment.text,
             speaker: segment.speaker,
             speakerName: segment.speakerName,
+            audioQuery: segment.audioQuery,
           }))
 
         if (exportSegments.length === 0) {
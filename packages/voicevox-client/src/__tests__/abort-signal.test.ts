@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxApi } from '../api'
+
+const BASE_URL = 'http://localhost:50021'
+
+const mockQuery = {
+  accent_phrases: [],
+  speedScale: 1.0,
+  pitchScale: 0.0,
+  intonationScale: 1.0,
+  volumeScale: 1.0,
+  prePhonemeLength: 0.1,
+  postPhonemeLength: 0.1,
+  outputSamplingRate: 24000,
+  outputStereo: false,
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 10))
+
+// signal が中断されるまで解決しない fetch
+function pendingFetch(_input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  return new Promise((_, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')))
+  })
+}
+
+vi.mock('../queue/file-manager', () => ({
+  AudioFileManager: vi.fn(function () {
+    return {
+      saveTempAudioFile: vi.fn().mockResolvedValue('/tmp/mock.wav'),
+      deleteTempFile: vi.fn().mockResolvedValue(undefined),
+      releaseAllBlobUrls: vi.fn(),
+    }
+  }),
+}))
+
+vi.mock('../playback/index', () => ({
+  PlaybackService: vi.fn(function () {
+    return {
+      play: vi.fn().mockImplementation(() => new Promise(() => {})),
+      stop: vi.fn(),
+      stopAll: vi.fn(),
+      stopAllAndWait: vi.fn().mockResolvedValue(undefined),
+      isStreamingEnabled: vi.fn().mockReturnValue(false),
+    }
+  }),
+}))
+
+describe('VoicevoxApi - AbortSignal', () => {
+  let api: VoicevoxApi
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    api = new VoicevoxApi(BASE_URL, { retryCount: 3, retryDelayMs: 1 })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('中断済みのシグナルではリクエストを送らない', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(api.getSpeakers(controller.signal)).rejects.toMatchObject({ code: 'request_aborted' })
+    expect(fetchSpy).not.toHaveBeenCalled()
+  })
+
+  it('リクエスト中に中断されたらリトライせずに request_aborted で失敗する', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(pendingFetch)
+    const controller = new AbortController()
+
+    const promise = api.generateQuery('こんにちは', 1, controller.signal)
+    await flush()
+    controller.abort()
+
+    await expect(promise).rejects.toMatchObject({ code: 'request_aborted' })
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('リトライの待機を終えたらシグナルのリスナーを解除する', async () => {
+    vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response('error', { status: 500 }))
+      .mockResolvedValueOnce(new Response('error', { status: 500 }))
+      .mockResolvedValue(new Response(JSON.stringify(mockQuery)))
+    const signal = new AbortController().signal
+    const added = vi.spyOn(signal, 'addEventListener')
+    const removed = vi.spyOn(signal, 'removeEventListener')
+
+    await api.generateQuery('こんにちは', 1, signal)
+
+    const abortListeners = (spy: typeof added) => spy.mock.calls.filter(([type]) => type === 'abort').length
+    expect(abortListeners(added)).toBeGreaterThanOrEqual(2)
+    expect(abortListeners(removed)).toBe(abortListeners(added))
+  })
+
+  it('シグナル指定時は /cancellable_synthesis を使う', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(new ArrayBuffer(4)))
+
+    await api.synthesize(mockQuery, 1, new AbortController().signal)
+
+    expect(String(fetchSpy.mock.calls[0][0])).toBe(`${BASE_URL}/cancellable_synthesis?speaker=1`)
+  })
+
+  it('/cancellable_synthesis が 404 なら /synthesis にフォールバックし、以降は直接使う', async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response('Not Found', { status: 404 }))
+      .mockImplementation(async () => new Response(new ArrayBuffer(4)))
+    const signal = new AbortController().signal
+
+    await api.synthesize(mockQuery, 1, signal)
+    await api.synthesize(mockQuery, 1, signal)
+
+    expect(fetchSpy.mock.calls.map(([url]) => String(url))).toEqual([
+      `${BASE_URL}/cancellable_synthesis?speaker=1`,
+      `${BASE_URL}/synthesis?speaker=1`,
+      `${BASE_URL}/synthesis?speaker=1`,
+    ])
+  })
+})
+
+describe('QueueService - AbortSignal', () => {
+  function createApi() {
+    const signals: Array<AbortSignal | undefined> = []
+    const api = {
+      generateQuery: vi.fn().mockResolvedValue(mockQuery),
+      synthesize: vi.fn((_query: unknown, _speaker: number, signal?: AbortSignal) => {
+        signals.push(signal)
+        return new Promise<ArrayBuffer>((_, reject) => {
+          signal?.addEventListener('abort', () => reject(new Error('aborted')))
+        })
+      }),
+    }
+    return { api, signals }
+  }
+
+  async function createQueueService(api: unknown) {
+    const { QueueService } = await import('../queue/queue-service')
+    return new QueueService(api as VoicevoxApi, { prefetchSize: 2 })
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('clearQueue で生成中の合成リクエストを中断する', async () => {
+    const { api, signals } = createApi()
+    const queueService = await createQueueService(api)
+
+    await queueService.enqueueQuery(mockQuery, 1, { immediate: false }, 'a')
+    await flush()
+    expect(signals[0]?.aborted).toBe(false)
+
+    await queueService.clearQueue()
+
+    expect(signals[0]?.aborted).toBe(true)
+    expect(queueService.getQueue()).toHaveLength(0)
+  })
+
+  it('removeItem は対象アイテムのリクエストだけを中断する', async () => {
+    const { api, signals } = createApi()
+    const queueService = await createQueueService(api)
+
+    const { item } = await queueService.enqueueQuery(mockQuery, 1, { immediate: false }, 'a')
+    await queueService.enqueueQuery(mockQuery, 1, { immediate: false }, 'b')
+    await flush()
+
+    await queueService.removeItem(item.id)
+
+    expect(signals.map((s) => s?.aborted)).toEqual([true, false])
+  })
+
+  it('呼び出し元のシグナルを中断するとアイテムがキューから取り除かれる', async () => {
+    const { api, signals } = createApi()
+    const queueService = await createQueueService(api)
+    const controller = new AbortController()
+
+    const { promises } = await queueService.enqueueQuery(
+      mockQuery,
+      1,
+      { immediate: false, waitForEnd: true, signal: controller.signal },
+      'a'
+    )
+    await flush()
+    controller.abort()
+
+    await expect(promises.end).rejects.toThrow()
+    expect(signals[0]?.aborted).toBe(true)
+    expect(queueService.getQueue()).toHaveLength(0)
+  })
+
+  it('中断済みのシグナルではキューに追加せずに request_aborted で失敗する', async () => {
+    const { api } = createApi()
+    const queueService = await createQueueService(api)
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(
+      queueService.enqueueQuery(mockQuery, 1, { immediate: false, signal: controller.signal }, 'a')
+    ).rejects.toMatchObject({ code: 'request_aborted' })
+    expect(queueService.getQueue()).toHaveLength(0)
+    expect(api.synthesize).not.toHaveBeenCalled()
+  })
+
+  it('アイテムがキューから無くなったら呼び出し元のシグナルのリスナーを解除する', async () => {
+    const { api } = createApi()
+    const queueService = await createQueueService(api)
+    const removed = new AbortController()
+    const cleared = new AbortController()
+    const removeListener = vi.spyOn(removed.signal, 'removeEventListener')
+    const clearListener = vi.spyOn(cleared.signal, 'removeEventListener')
+
+    const { item } = await queueService.enqueueQuery(mockQuery, 1, { immediate: false, signal: removed.signal }, 'a')
+    await queueService.enqueueQuery(mockQuery, 1, { immediate: false, signal: cleared.signal }, 'b')
+    await queueService.removeItem(item.id)
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function))
+    expect(clearListener).not.toHaveBeenCalled()
+
+    await queueService.clearQueue()
+    expect(clearListener).toHaveBeenCalledWith('abort', expect.any(Function))
+  })
+})
@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxApi } from '../api'
+import { parseEngineErrorDetail, VoicevoxError, VoicevoxErrorCode } from '../error'
+
+const BASE_URL = 'http://localhost:50021'
+
+const createApi = (retryCount?: number) => new VoicevoxApi(BASE_URL, { retryCount, retryDelayMs: 1 })
+
+async function catchError(promise: Promise<unknown>): Promise<VoicevoxError> {
+  const error = await promise.then(
+    () => undefined,
+    (e: unknown) => e
+  )
+  expect(error).toBeInstanceOf(VoicevoxError)
+  return error as VoicevoxError
+}
+
+describe('VoicevoxApi - error details', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('422 のバリデーションエラーは detail を保持した VALIDATION_ERROR になる', async () => {
+    const body = {
+      detail: [{ loc: ['query', 'speaker'], msg: 'value is not a valid integer', type: 'type_error.integer' }],
+    }
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify(body), { status: 422 }))
+
+    const error = await catchError(createApi().generateQuery('テスト', 1))
+
+    expect(error.code).toBe(VoicevoxErrorCode.VALIDATION_ERROR)
+    expect(error.status).toBe(422)
+    expect(error.endpoint).toBe('/audio_query')
+    expect(error.detail).toBe('speaker: value is not a valid integer')
+    expect(error.retryCount).toBe(0)
+    expect(error.message).toBe(
+      '音声クエリ生成中にエラーが発生しました: APIリクエストに失敗しました: 422 (speaker: value is not a valid integer)'
+    )
+  })
+
+  it('404 は NOT_FOUND になる', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ detail: 'Not Found' }), { status: 404 })
+    )
+
+    const error = await catchError(createApi().getSpeakers())
+
+    expect(error.code).toBe(VoicevoxErrorCode.NOT_FOUND)
+    expect(error.detail).toBe('Not Found')
+  })
+
+  it('503 が続いたら ENGINE_OVERLOADED とリトライ回数を返す', async () => {
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('busy', { status: 503 }))
+
+    const error = await catchError(createApi(2).getSpeakers())
+
+    expect(error.code).toBe(VoicevoxErrorCode.ENGINE_OVERLOADED)
+    expect(error.detail).toBe('busy')
+    expect(error.retryCount).toBe(2)
+  })
+
+  it('タイムアウトは TIMEOUT になる', async () => {
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(new DOMException('The operation was aborted', 'TimeoutError'))
+
+    const error = await catchError(createApi(0).getSpeakers())
+
+    expect(error.code).toBe(VoicevoxErrorCode.TIMEOUT)
+    expect(error.endpoint).toBe('/speakers')
+  })
+
+  it('エンドポイントにはクエリ文字列を含めない', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('', { status: 400 }))
+
+    const error = await catchError(createApi().generateQuery('読み上げるテキスト', 1))
+
+    expect(error.endpoint).toBe('/audio_query')
+    expect(error.detail).toBeUndefined()
+    expect(error.message).not.toContain('読み上げるテキスト')
+  })
+})
+
+describe('parseEngineErrorDetail', () => {
+  it('文字列の detail をそのまま返す', () => {
+    expect(parseEngineErrorDetail('{"detail":"該当するスタイルが見つかりません"}')).toBe(
+      '該当するスタイルが見つかりません'
+    )
+  })
+
+  it('JSON でない本文はそのまま返す', () => {
+    expect(parseEngineErrorDetail('Internal Server Error')).toBe('Internal Server Error')
+    expect(parseEngineErrorDetail('  ')).toBeUndefined()
+  })
+
+  it('長い本文は切り詰める', () => {
+    expect(parseEngineErrorDetail('x'.repeat(1000))).toHaveLength(501)
+  })
+})
@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxApi, type VoicevoxResponseContext, type VoicevoxRetryContext } from '../api'
+import { VoicevoxClient } from '../client'
+
+const BASE_URL = 'http://localhost:50021'
+
+describe('VoicevoxApi - request hooks', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('指定した fetch の実装でリクエストする', async () => {
+    const customFetch = vi.fn<typeof fetch>(async () => new Response(JSON.stringify([]), { status: 200 }))
+    const globalFetch = vi.spyOn(globalThis, 'fetch')
+
+    await new VoicevoxApi(BASE_URL, { fetch: customFetch }).getSpeakers()
+
+    expect(customFetch).toHaveBeenCalledWith(`${BASE_URL}/speakers`, expect.objectContaining({ method: 'GET' }))
+    expect(globalFetch).not.toHaveBeenCalled()
+  })
+
+  it('onRequest で追加したヘッダーが送信される', async () => {
+    const customFetch = vi.fn<typeof fetch>(async () => new Response('"0.15.0"', { status: 200 }))
+    const api = new VoicevoxApi(BASE_URL, {
+      fetch: customFetch,
+      onRequest: (context) => {
+        context.headers['X-Api-Key'] = 'secret'
+      },
+    })
+
+    await api.getVersion()
+
+    const init = customFetch.mock.calls[0][1]
+    expect(init?.headers).toEqual({ 'X-Api-Key': 'secret' })
+  })
+
+  it('onResponse はエンドポイントごとのステータスと所要時間を受け取る', async () => {
+    const responses: VoicevoxResponseContext[] = []
+    const customFetch = vi.fn<typeof fetch>(async () => new Response(JSON.stringify([]), { status: 200 }))
+
+    await new VoicevoxApi(BASE_URL, {
+      fetch: customFetch,
+      onResponse: (context) => void responses.push(context),
+    }).getSpeakers()
+
+    expect(responses).toHaveLength(1)
+    expect(responses[0]).toMatchObject({
+      method: 'GET',
+      endpoint: '/speakers',
+      engine: BASE_URL,
+      status: 200,
+      ok: true,
+    })
+    expect(responses[0].durationMs).toBeGreaterThanOrEqual(0)
+  })
+
+  it('onRetry は失敗した試行の内容と次の待ち時間を受け取る', async () => {
+    const retries: VoicevoxRetryContext[] = []
+    const customFetch = vi
+      .fn<typeof fetch>()
+      .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify([]), { status: 200 }))
+
+    await new VoicevoxApi(BASE_URL, {
+      fetch: customFetch,
+      retryDelayMs: 1,
+      onRetry: (context) => void retries.push(context),
+    }).getSpeakers()
+
+    expect(retries).toHaveLength(1)
+    expect(retries[0]).toMatchObject({ attempt: 0, delayMs: 1, nextEngine: BASE_URL })
+    expect(retries[0].error.status).toBe(503)
+  })
+
+  it('別のエンジンに切り替える再試行は待ち時間 0 になる', async () => {
+    const retries: VoicevoxRetryContext[] = []
+    const customFetch = vi.fn<typeof fetch>(async (input) =>
+      String(input).startsWith('http://a:50021')
+        ? new Response('busy', { status: 503 })
+        : new Response(JSON.stringify([]), { status: 200 })
+    )
+
+    await new VoicevoxApi(['http://a:50021', 'http://b:50021'], {
+      fetch: customFetch,
+      onRetry: (context) => void retries.push(context),
+    }).getSpeakers()
+
+    expect(retries).toEqual([
+      expect.objectContaining({ engine: 'http://a:50021', nextEngine: 'http://b:50021', delayMs: 0 }),
+    ])
+  })
+
+  it('onResponse の例外はリクエストの結果に影響しない', async () => {
+    const customFetch = vi.fn<typeof fetch>(async () => new Response(JSON.stringify([]), { status: 200 }))
+    const api = new VoicevoxApi(BASE_URL, {
+      fetch: customFetch,
+      onResponse: () => {
+        throw new Error('hook failed')
+      },
+    })
+
+    await expect(api.getSpeakers()).resolves.toEqual([])
+  })
+
+  it('onRequest が例外を投げたらリクエストは送信されない', async () => {
+    const customFetch = vi.fn<typeof fetch>()
+    const api = new VoicevoxApi(BASE_URL, {
+      fetch: customFetch,
+      onRequest: () => {
+        throw new Error('blocked')
+      },
+    })
+
+    await expect(api.getSpeakers()).rejects.toThrow('blocked')
+    expect(customFetch).not.toHaveBeenCalled()
+  })
+
+  it('VoicevoxClient の設定からフックが渡される', async () => {
+    const onResponse = vi.fn()
+    const customFetch = vi.fn<typeof fetch>(async () => new Response('"0.15.0"', { status: 200 }))
+    const client = new VoicevoxClient({ url: BASE_URL, defaultSpeaker: 1, fetch: customFetch, onResponse })
+
+    await client.checkHealth()
+
+    expect(customFetch).toHaveBeenCalled()
+    expect(onResponse).toHaveBeenCalledWith(expect.objectContaining({ endpoint: '/version', status: 200 }))
+  })
+})
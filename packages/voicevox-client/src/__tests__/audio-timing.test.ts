@@ -0,0 +1,149 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { VoicevoxApi } from '../api'
+import { computeAudioTiming, concatAudioTimings, estimateDuration } from '../audio-timing'
+import { VoicevoxClient } from '../client'
+import { QueueService } from '../queue/queue-service'
+import type { AudioQuery } from '../types'
+
+/** 「コン、ニ？」（1 フレーム = 1 / 93.75 秒） */
+const createQuery = (overrides: Partial<AudioQuery> = {}): AudioQuery => ({
+  accent_phrases: [
+    {
+      moras: [
+        { text: 'コ', consonant: 'k', consonant_length: 0.05, vowel: 'o', vowel_length: 0.1, pitch: 5 },
+        { text: 'ン', vowel: 'N', vowel_length: 0.08, pitch: 5 },
+      ],
+      accent: 1,
+      pause_mora: { text: '、', vowel: 'pau', vowel_length: 0.3, pitch: 0 },
+    },
+    {
+      moras: [{ text: 'ニ', consonant: 'n', consonant_length: 0.04, vowel: 'i', vowel_length: 0.1, pitch: 5 }],
+      accent: 1,
+      is_interrogative: true,
+    },
+  ],
+  speedScale: 1.0,
+  pitchScale: 0.0,
+  intonationScale: 1.0,
+  volumeScale: 1.0,
+  prePhonemeLength: 0.1,
+  postPhonemeLength: 0.1,
+  outputSamplingRate: 24000,
+  outputStereo: false,
+  ...overrides,
+})
+
+describe('computeAudioTiming', () => {
+  it('前後の無音・子音・母音・間をフレーム単位で積み上げ、疑問文の語尾上げも含める', () => {
+    const timing = computeAudioTiming(createQuery())
+
+    // 9 + (5 + 9) + 8 + 28 + (4 + 9) + 14 + 9 = 95 フレーム
+    expect(timing.duration).toBe(1.013)
+    expect(timing.accentPhrases).toEqual([
+      {
+        text: 'コン',
+        start: 0.096,
+        end: 0.331,
+        moras: [
+          { text: 'コ', consonant: 'k', vowel: 'o', start: 0.096, vowelStart: 0.149, end: 0.245 },
+          { text: 'ン', vowel: 'N', start: 0.245, vowelStart: 0.245, end: 0.331 },
+        ],
+        pause: { start: 0.331, end: 0.629 },
+      },
+      {
+        text: 'ニ',
+        start: 0.629,
+        end: 0.917,
+        moras: [
+          { text: 'ニ', consonant: 'n', vowel: 'i', start: 0.629, vowelStart: 0.672, end: 0.768 },
+          { text: 'ー', vowel: 'i', start: 0.768, vowelStart: 0.768, end: 0.917 },
+        ],
+      },
+    ])
+  })
+
+  it('話速で前後の無音と間も含めて縮め、pauseLength・pauseLengthScale を間に反映する', () => {
+    expect(estimateDuration(createQuery({ speedScale: 2 }))).toBeCloseTo(1.013 / 2, 1)
+
+    const fixedPause = computeAudioTiming(createQuery({ pauseLength: 0.5, pauseLengthScale: 2 }))
+    expect(fixedPause.accentPhrases[0].pause).toEqual({ start: 0.331, end: 1.333 })
+  })
+})
+
+describe('concatAudioTimings', () => {
+  it('後ろの音声の時刻を前の音声の長さだけずらしてつなげる', () => {
+    const first = computeAudioTiming(createQuery())
+    const timing = concatAudioTimings([first, first])
+
+    expect(timing.duration).toBe(2.026)
+    expect(timing.accentPhrases).toHaveLength(4)
+    expect(timing.accentPhrases[2]).toMatchObject({ text: 'コン', start: 1.109, end: 1.344 })
+    expect(timing.accentPhrases[2].moras[0]).toMatchObject({ start: 1.109, vowelStart: 1.162, end: 1.258 })
+  })
+})
+
+describe('QueueService - timing', () => {
+  it('クエリから追加したキューアイテムに発話タイミングを持たせる', async () => {
+    const api = { synthesize: vi.fn().mockReturnValue(new Promise(() => {})) }
+    const queueService = new QueueService(api as unknown as VoicevoxApi)
+
+    const { item } = await queueService.enqueueQuery(createQuery(), 1, { immediate: false })
+
+    expect(item.timing?.duration).toBe(1.013)
+    expect(queueService.getQueue()[0].timing?.accentPhrases.map((phrase) => phrase.text)).toEqual(['コン', 'ニ'])
+    await queueService.clearQueue()
+  })
+})
+
+describe('VoicevoxClient - generateAudioFileWithTiming', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'voicevox-timing-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('行ごとに合成したファイルのタイミングを通しの時刻で返す', async () => {
+    const wav = new Uint8Array(44 + 4)
+    wav.set(new TextEncoder().encode('RIFF'), 0)
+    wav.set(new TextEncoder().encode('WAVEfmt '), 8)
+    const view = new DataView(wav.buffer)
+    view.setUint32(4, 40, true)
+    view.setUint32(16, 16, true)
+    view.setUint16(20, 1, true)
+    view.setUint16(22, 1, true)
+    view.setUint32(24, 24000, true)
+    view.setUint32(28, 48000, true)
+    view.setUint16(32, 2, true)
+    view.setUint16(34, 16, true)
+    wav.set(new TextEncoder().encode('data'), 36)
+    view.setUint32(40, 4, true)
+
+    const fetchMock = vi.fn<typeof fetch>(async (input) => {
+      const url = new URL(String(input))
+      if (url.pathname === '/audio_query') return new Response(JSON.stringify(createQuery()))
+      if (url.pathname === '/synthesis') return new Response(wav.slice().buffer)
+      return new Response('Not Found', { status: 404 })
+    })
+    const client = new VoicevoxClient({ url: 'http://localhost:50021', defaultSpeaker: 1, fetch: fetchMock })
+
+    const result = await client.generateAudioFileWithTiming(
+      [{ text: 'こん' }, { text: 'に', speaker: 3 }],
+      join(dir, 'timing.wav')
+    )
+
+    expect(result.filePath).toBe(join(dir, 'timing.wav'))
+    expect(result.timing.duration).toBe(2.026)
+    expect(result.timing.accentPhrases.map((phrase) => phrase.start)).toEqual([0.096, 0.629, 1.109, 1.642])
+    expect(result.segments.map(({ text, speaker, timing }) => [text, speaker, timing.accentPhrases[0].start])).toEqual([
+      ['こん', 1, 0.096],
+      ['に', 3, 1.109],
+    ])
+  })
+})
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_EMOTION_STYLES, hasEmotionTags, splitEmotionTags } from '../emotion-tags'
+import { createSpeakerResolver } from '../speaker-resolver'
+import type { Speaker } from '../types'
+import { parseStringInput } from '../utils'
+
+const speaker = (name: string, styles: Array<[string, number]>): Speaker => ({
+  name,
+  speaker_uuid: name,
+  styles: styles.map(([styleName, id]) => ({ name: styleName, id, type: 'talk' })),
+  version: '0.0.0',
+  supported_features: { permitted_synthesis_morphing: 'ALL' },
+})
+
+const resolver = createSpeakerResolver([
+  speaker('四国めたん', [
+    ['ノーマル', 2],
+    ['あまあま', 0],
+    ['ツンツン', 6],
+    ['ささやき', 36],
+  ]),
+  speaker('ずんだもん', [
+    ['ノーマル', 3],
+    ['あまあま', 1],
+    ['ツンツン', 7],
+  ]),
+])
+
+describe('splitEmotionTags', () => {
+  it('タグから次のタグまでを区切り、大文字・小文字を区別しない', () => {
+    expect(splitEmotionTags('おはよう[Happy]やったー！ [whisper]ひみつだよ', DEFAULT_EMOTION_STYLES)).toEqual([
+      { text: 'おはよう' },
+      { text: 'やったー！', emotion: 'happy' },
+      { text: 'ひみつだよ', emotion: 'whisper' },
+    ])
+  })
+
+  it('対応表に無いタグは本文として残す', () => {
+    expect(splitEmotionTags('配列[1]と[注]', DEFAULT_EMOTION_STYLES)).toEqual([{ text: '配列[1]と[注]' }])
+    expect(hasEmotionTags('配列[1]', DEFAULT_EMOTION_STYLES)).toBe(false)
+    expect(hasEmotionTags('[sad]はあ', DEFAULT_EMOTION_STYLES)).toBe(true)
+  })
+})
+
+describe('parseStringInput - 感情タグ', () => {
+  const emotionStyles = DEFAULT_EMOTION_STYLES
+
+  it('行の話者のキャラクターから対応するスタイルを選ぶ', () => {
+    expect(
+      parseStringInput('2:こんにちは[happy]会えてうれしい\n3{speed=1.2}:[angry]もう！', { resolver, emotionStyles })
+    ).toEqual([
+      { text: 'こんにちは', speaker: 2 },
+      { text: '会えてうれしい', speaker: 0 },
+      { text: 'もう！', speaker: 7, speedScale: 1.2 },
+    ])
+  })
+
+  it('話者の無い行は defaultSpeaker のキャラクターで探し、対応するスタイルが無ければ元の話者のまま読む', () => {
+    expect(
+      parseStringInput('[whisper]ないしょ\n3:[whisper]ないしょ', { resolver, defaultSpeaker: 2, emotionStyles })
+    ).toEqual([
+      { text: 'ないしょ', speaker: 36 },
+      { text: 'ないしょ', speaker: 3 },
+    ])
+    expect(parseStringInput('[happy]やった', { resolver, emotionStyles })).toEqual([{ text: 'やった' }])
+  })
+
+  it('resolver が無い場合はタグを取り除くだけ、emotionStyles を省略・false にするとタグをそのまま読む', () => {
+    expect(parseStringInput('1:[happy]やった', { emotionStyles })).toEqual([{ text: 'やった', speaker: 1 }])
+    expect(parseStringInput('1:[happy]やった')).toEqual([{ text: '[happy]やった', speaker: 1 }])
+    expect(parseStringInput('1:[happy]やった', { resolver, emotionStyles: false })).toEqual([
+      { text: '[happy]やった', speaker: 1 },
+    ])
+  })
+
+  it('emotionStyles で独自のタグを使える', () => {
+    expect(parseStringInput('3:[tsun]べつに', { resolver, emotionStyles: { tsun: ['ツンギレ', 'ツンツン'] } })).toEqual(
+      [{ text: 'べつに', speaker: 7 }]
+    )
+  })
+})
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxApi } from '../api'
+import { VoicevoxClient } from '../client'
+import { isEngineVersionAtLeast, resolveEngineCapabilities } from '../engine-capabilities'
+import type { EngineManifest } from '../types'
+
+const BASE_URL = 'http://localhost:50021'
+
+function createManifest(overrides: Partial<EngineManifest> = {}): EngineManifest {
+  return {
+    manifest_version: '0.13.1',
+    name: 'VOICEVOX Engine',
+    brand_name: 'VOICEVOX',
+    uuid: '074fc39e-678b-4c13-8916-ffca8d505d1d',
+    default_sampling_rate: 24000,
+    supported_features: {},
+    ...overrides,
+  }
+}
+
+describe('engine-capabilities', () => {
+  it('バージョンを数値で比較し、解釈できない形式は最新とみなす', () => {
+    expect(isEngineVersionAtLeast('0.14.0', '0.14.0')).toBe(true)
+    expect(isEngineVersionAtLeast('0.9.10', '0.14.0')).toBe(false)
+    expect(isEngineVersionAtLeast('0.20.0', '0.14.0')).toBe(true)
+    expect(isEngineVersionAtLeast('latest', '0.14.0')).toBe(true)
+    expect(isEngineVersionAtLeast(undefined, '0.14.0')).toBe(true)
+  })
+
+  it('マニフェストのフラグをバージョンより優先する', () => {
+    const capabilities = resolveEngineCapabilities(
+      createManifest({ supported_features: { adjust_pause_length: true, synthesis_morphing: false, sing: false } }),
+      '0.13.0'
+    )
+
+    expect(capabilities.features).toEqual({
+      pauseLength: true,
+      morphing: false,
+      singing: false,
+      userDictionary: true,
+    })
+  })
+
+  it('フラグが無い場合は VOICEVOX ENGINE のバージョンで判定する', () => {
+    const capabilities = resolveEngineCapabilities(createManifest(), '0.13.3')
+
+    expect(capabilities.features.pauseLength).toBe(false)
+    expect(capabilities.features.singing).toBe(false)
+    expect(capabilities.features.morphing).toBe(true)
+  })
+
+  it('互換エンジンはフラグが無ければバージョンに関係なく対応とみなす', () => {
+    const capabilities = resolveEngineCapabilities(createManifest({ brand_name: 'AivisSpeech' }), '1.0.0')
+
+    expect(capabilities.features.pauseLength).toBe(true)
+    expect(capabilities.features.singing).toBe(true)
+  })
+})
+
+describe('VoicevoxApi - getEngineCapabilities', () => {
+  let api: VoicevoxApi
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    api = new VoicevoxApi(BASE_URL, { retryCount: 0 })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('バージョンとマニフェストを取得して結果をキャッシュする', async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response('"0.16.0"'))
+      .mockResolvedValueOnce(new Response(JSON.stringify(createManifest({ supported_features: { sing: true } }))))
+
+    expect(api.getCachedEngineCapabilities()).toBeUndefined()
+    const capabilities = await api.getEngineCapabilities()
+    await api.getEngineCapabilities()
+
+    expect(fetchSpy.mock.calls.map(([url]) => String(url))).toEqual([
+      `${BASE_URL}/version`,
+      `${BASE_URL}/engine_manifest`,
+    ])
+    expect(capabilities).toMatchObject({ name: 'VOICEVOX Engine', version: '0.16.0' })
+    expect(capabilities.features.singing).toBe(true)
+    expect(api.getCachedEngineCapabilities()).toBe(capabilities)
+  })
+
+  it('/engine_manifest が無いエンジンはバージョンだけで判定する', async () => {
+    vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response('"0.11.4"'))
+      .mockResolvedValueOnce(new Response('Not Found', { status: 404 }))
+
+    const capabilities = await api.getEngineCapabilities()
+
+    expect(capabilities.manifest).toBeUndefined()
+    expect(capabilities.features.userDictionary).toBe(false)
+  })
+
+  it('接続できない場合はキャッシュせずにエラーにする', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('fetch failed'))
+
+    await expect(api.getEngineCapabilities()).rejects.toThrow('エンジン機能情報取得中にエラーが発生しました')
+    expect(api.getCachedEngineCapabilities()).toBeUndefined()
+  })
+})
+
+describe('VoicevoxClient - engine capabilities', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('歌唱非対応のエンジンでは /singers を呼ばずにエラーにする', async () => {
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response('"0.14.0"'))
+      .mockResolvedValueOnce(new Response(JSON.stringify(createManifest())))
+    const client = new VoicevoxClient({ url: BASE_URL, defaultSpeaker: 1 })
+
+    await expect(client.getSingers()).rejects.toMatchObject({
+      code: 'feature_not_supported',
+      message: '接続中のエンジン（VOICEVOX Engine 0.14.0）は歌唱合成に対応していません',
+    })
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+  })
+})
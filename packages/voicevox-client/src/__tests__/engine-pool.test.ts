@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxApi } from '../api'
+import { VoicevoxClient } from '../client'
+import { EnginePool } from '../engine-pool'
+
+const ENGINE_A = 'http://engine-a:50021'
+const ENGINE_B = 'http://engine-b:50021'
+
+describe('EnginePool', () => {
+  it('round-robin は順番にエンジンを選ぶ', () => {
+    const pool = new EnginePool([ENGINE_A, ENGINE_B])
+
+    expect([pool.select(), pool.select(), pool.select()]).toEqual([ENGINE_A, ENGINE_B, ENGINE_A])
+  })
+
+  it('least-latency は応答時間の短いエンジンを選ぶ', () => {
+    const pool = new EnginePool([ENGINE_A, ENGINE_B], { selection: 'least-latency' })
+    pool.reportSuccess(ENGINE_A, 300)
+    pool.reportSuccess(ENGINE_B, 50)
+
+    expect(pool.select()).toBe(ENGINE_B)
+    expect(pool.select()).toBe(ENGINE_B)
+  })
+
+  it('連続失敗が閾値に達したエンジンは冷却期間が過ぎるまで選ばない', () => {
+    let now = 0
+    const pool = new EnginePool([ENGINE_A, ENGINE_B], { unhealthyThreshold: 2, unhealthyCooldownMs: 1000 }, () => now)
+    pool.reportFailure(ENGINE_A)
+    pool.reportFailure(ENGINE_A)
+
+    expect(pool.getStatus(ENGINE_A)).toMatchObject({ healthy: false, consecutiveFailures: 2 })
+    expect([pool.select(), pool.select()]).toEqual([ENGINE_B, ENGINE_B])
+
+    now = 1000
+    expect([pool.select(), pool.select()]).toContain(ENGINE_A)
+  })
+
+  it('成功を報告すると正常に戻る', () => {
+    const pool = new EnginePool([ENGINE_A], { unhealthyThreshold: 1 })
+    pool.reportFailure(ENGINE_A)
+    pool.reportSuccess(ENGINE_A)
+
+    expect(pool.getStatus(ENGINE_A)).toMatchObject({ healthy: true, consecutiveFailures: 0 })
+  })
+
+  it('全エンジンが異常でもリクエスト先を返す', () => {
+    const pool = new EnginePool([ENGINE_A, ENGINE_B], { unhealthyThreshold: 1 })
+    pool.reportFailure(ENGINE_A)
+    pool.reportFailure(ENGINE_B)
+
+    expect(pool.select()).toBe(ENGINE_A)
+  })
+
+  it('除外指定されたエンジンは選ばない', () => {
+    const pool = new EnginePool([ENGINE_A, ENGINE_B])
+
+    expect(pool.select(new Set([ENGINE_A]))).toBe(ENGINE_B)
+    expect(pool.select(new Set([ENGINE_A]))).toBe(ENGINE_B)
+  })
+
+  it('不正な指定はエラーにする', () => {
+    expect(() => new EnginePool([])).toThrow('VOICEVOXのURLが指定されていません')
+    expect(() => new EnginePool([ENGINE_A], { selection: 'random' as never })).toThrow(
+      '不明なエンジンの振り分け方法です: random'
+    )
+  })
+})
+
+describe('VoicevoxApi - multiple engines', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('ネットワークエラー時は別のエンジンにフェイルオーバーする', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+      if (String(input).startsWith(ENGINE_A)) throw new TypeError('fetch failed')
+      return new Response(JSON.stringify([]))
+    })
+    const api = new VoicevoxApi([ENGINE_A, ENGINE_B], { retryCount: 0, retryDelayMs: 10_000 })
+
+    await expect(api.getSpeakers()).resolves.toEqual([])
+    expect(fetchSpy.mock.calls.map(([url]) => String(url))).toEqual([`${ENGINE_A}/speakers`, `${ENGINE_B}/speakers`])
+  })
+
+  it('5xx を返したエンジンを避けて再試行する', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+      if (String(input).startsWith(ENGINE_A)) return new Response('error', { status: 503 })
+      return new Response(JSON.stringify([]))
+    })
+    const api = new VoicevoxApi([ENGINE_A, ENGINE_B], { retryDelayMs: 10_000 })
+
+    await expect(api.getSpeakers()).resolves.toEqual([])
+    expect(fetchSpy).toHaveBeenCalledTimes(2)
+  })
+
+  it('4xx は別のエンジンで再試行しない', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('bad', { status: 422 }))
+    const api = new VoicevoxApi([ENGINE_A, ENGINE_B], { retryDelayMs: 1 })
+
+    await expect(api.getSpeakers()).rejects.toThrow('422')
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+  })
+
+  it('リクエストごとにエンジンを振り分ける', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(JSON.stringify([])))
+    const api = new VoicevoxApi([ENGINE_A, `${ENGINE_B}/`])
+
+    await api.getSpeakers()
+    await api.getSpeakers()
+
+    expect(fetchSpy.mock.calls.map(([url]) => String(url))).toEqual([`${ENGINE_A}/speakers`, `${ENGINE_B}/speakers`])
+  })
+
+  it('checkEngines は各エンジンの接続状態を返す', async () => {
+    vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+      if (String(input).startsWith(ENGINE_B)) throw new TypeError('fetch failed')
+      return new Response('"0.22.0"')
+    })
+    const api = new VoicevoxApi([ENGINE_A, ENGINE_B])
+
+    const engines = await api.checkEngines()
+
+    expect(engines).toEqual([
+      expect.objectContaining({ url: ENGINE_A, connected: true, version: '0.22.0', healthy: true }),
+      expect.objectContaining({ url: ENGINE_B, connected: false, consecutiveFailures: 1 }),
+    ])
+  })
+
+  it('VoicevoxClient は URL の配列を受け付け、不正な URL はエラーにする', () => {
+    expect(() => new VoicevoxClient({ url: [ENGINE_A, ENGINE_B], defaultSpeaker: 1 })).not.toThrow()
+    expect(() => new VoicevoxClient({ url: [], defaultSpeaker: 1 })).toThrow('VOICEVOXのURLが指定されていません')
+    expect(() => new VoicevoxClient({ url: [ENGINE_A, 'not a url'], defaultSpeaker: 1 })).toThrow(
+      '無効なVOICEVOXのURLです'
+    )
+  })
+})
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxApi } from '../api'
+import { VoicevoxClient } from '../client'
+import { ENGINE_PROFILES, resolveEngineProfile } from '../engine-profile'
+import type { AudioQuery } from '../types'
+
+const query: AudioQuery = {
+  accent_phrases: [],
+  speedScale: 1.0,
+  pitchScale: 0.0,
+  intonationScale: 1.0,
+  volumeScale: 1.0,
+  prePhonemeLength: 0.1,
+  postPhonemeLength: 0.1,
+  pauseLength: null,
+  pauseLengthScale: 1.0,
+  outputSamplingRate: 24000,
+  outputStereo: false,
+}
+
+/**
+ * エンドポイントごとに応答を返す fetch（/speakers はスタイルの type が無い古い形式）
+ */
+function createEngineFetch() {
+  return vi.fn<typeof fetch>(async (input) => {
+    const url = new URL(String(input))
+    switch (url.pathname) {
+      case '/speakers':
+        return new Response(
+          JSON.stringify([{ name: '小春音アミ', speaker_uuid: 'uuid', styles: [{ name: 'ノーマル', id: 0 }] }])
+        )
+      case '/audio_query':
+        return new Response(JSON.stringify(query))
+      case '/synthesis':
+        return new Response(new Uint8Array(8).buffer)
+      default:
+        return new Response('Not Found', { status: 404 })
+    }
+  })
+}
+
+const synthesisBody = (fetchMock: ReturnType<typeof createEngineFetch>) => {
+  const call = fetchMock.mock.calls.find(([input]) => new URL(String(input)).pathname === '/synthesis')
+  return JSON.parse(String(call?.[1]?.body))
+}
+
+describe('resolveEngineProfile', () => {
+  it('名前は大文字小文字を区別せず、未指定なら VOICEVOX になる', () => {
+    expect(resolveEngineProfile()).toBe(ENGINE_PROFILES.voicevox)
+    expect(resolveEngineProfile('AivisSpeech')).toBe(ENGINE_PROFILES.aivisspeech)
+  })
+
+  it('プロファイルを直接渡せる', () => {
+    const custom = { ...ENGINE_PROFILES.voicevox, name: 'custom', unsupportedQueryFields: ['kana' as const] }
+
+    expect(resolveEngineProfile(custom)).toBe(custom)
+  })
+
+  it('不明な名前はエラーになる', () => {
+    expect(() => resolveEngineProfile('coeiroink')).toThrow('不明なエンジンプロファイルです: coeiroink')
+  })
+})
+
+describe('VoicevoxApi - engineProfile', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('エンジンが受け付けないフィールドを /synthesis に送らない', async () => {
+    const fetchMock = createEngineFetch()
+
+    await new VoicevoxApi('http://localhost:10101', { fetch: fetchMock, engineProfile: 'aivisspeech' }).synthesize(
+      query,
+      888753760
+    )
+
+    const body = synthesisBody(fetchMock)
+    expect(body).not.toHaveProperty('pauseLength')
+    expect(body).not.toHaveProperty('pauseLengthScale')
+    expect(body.speedScale).toBe(1.0)
+    expect(query.pauseLengthScale).toBe(1.0)
+  })
+
+  it('VOICEVOX ではフィールドをそのまま送る', async () => {
+    const fetchMock = createEngineFetch()
+
+    await new VoicevoxApi('http://localhost:50021', { fetch: fetchMock }).synthesize(query, 1)
+
+    expect(synthesisBody(fetchMock)).toMatchObject({ pauseLengthScale: 1.0 })
+  })
+
+  it('話者一覧のスタイルに type が無ければ talk で補う', async () => {
+    const api = new VoicevoxApi('http://localhost:50025', { fetch: createEngineFetch(), engineProfile: 'sharevox' })
+
+    const [speaker] = await api.getSpeakers()
+
+    expect(speaker.styles[0].type).toBe('talk')
+    expect(speaker.supported_features.permitted_synthesis_morphing).toBe('NOTHING')
+  })
+})
+
+describe('VoicevoxClient - engineProfile', () => {
+  it('URL と話者を省略するとプロファイルの既定値を使う', async () => {
+    const fetchMock = createEngineFetch()
+    const client = new VoicevoxClient({ engineProfile: 'aivisspeech', fetch: fetchMock })
+
+    await client.generateQuery('こんにちは')
+
+    const url = new URL(String(fetchMock.mock.calls[0][0]))
+    expect(url.origin).toBe('http://localhost:10101')
+    expect(url.searchParams.get('speaker')).toBe('888753760')
+  })
+})
@@ -116,6 +116,19 @@ describe('Immediate Playback', () => {
     expect(mockClearQueue).toHaveBeenCalledTimes(1)
   })
 
+  it('should enqueue by priority instead of clearing the queue when priority is set', async () => {
+    await client.speak('割り込み', { immediate: true, priority: 'urgent' })
+
+    // priority を指定した場合は clearQueue を呼ばず、優先度付きでエンキューする
+    expect(mockClearQueue).not.toHaveBeenCalled()
+    expect(mockEnqueueQuery).toHaveBeenCalledWith(
+      expect.anything(),
+      1,
+      expect.objectContaining({ priority: 'urgent' }),
+      '割り込み'
+    )
+  })
+
   it('should work with waitForStart option', async () => {
     let startResolved = false
 
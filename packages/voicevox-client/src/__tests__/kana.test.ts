@@ -0,0 +1,106 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxApi } from '../api'
+import { VoicevoxClient } from '../client'
+import { VoicevoxError } from '../error'
+import type { AccentPhrase } from '../types'
+
+const BASE_URL = 'http://localhost:50021'
+const KANA = "コンニチワ'/セ'カイ"
+
+const accentPhrases: AccentPhrase[] = [
+  { moras: [{ text: 'コ', vowel: 'o', vowel_length: 0.1, pitch: 5.8 }], accent: 1 },
+  { moras: [{ text: 'セ', vowel: 'e', vowel_length: 0.1, pitch: 5.8 }], accent: 1 },
+]
+
+/**
+ * /accent_phrases と /synthesis だけに応答する fetch
+ */
+function createKanaFetch() {
+  return vi.fn<typeof fetch>(async (input) => {
+    const url = new URL(String(input))
+    switch (url.pathname) {
+      case '/accent_phrases':
+        if (url.searchParams.get('text') === 'コンニチワ') {
+          return new Response(
+            JSON.stringify({ detail: { text: 'アクセントが見つかりません', error_name: 'ACCENT_NOTFOUND' } }),
+            { status: 400 }
+          )
+        }
+        return new Response(JSON.stringify(accentPhrases))
+      case '/synthesis':
+        return new Response(new Uint8Array(8).buffer)
+      default:
+        return new Response('Not Found', { status: 404 })
+    }
+  })
+}
+
+const requestedUrls = (fetchMock: ReturnType<typeof createKanaFetch>) =>
+  fetchMock.mock.calls.map(([input]) => new URL(String(input)))
+
+describe('VoicevoxApi - kana', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('is_kana=true でアクセント句を取得し、既定のパラメータで AudioQuery を組み立てる', async () => {
+    const fetchMock = createKanaFetch()
+
+    const query = await new VoicevoxApi(BASE_URL, { fetch: fetchMock }).generateQueryFromKana(KANA, 3)
+
+    const [url] = requestedUrls(fetchMock)
+    expect(url.pathname).toBe('/accent_phrases')
+    expect(url.searchParams.get('text')).toBe(KANA)
+    expect(url.searchParams.get('speaker')).toBe('3')
+    expect(url.searchParams.get('is_kana')).toBe('true')
+    expect(query).toMatchObject({
+      accent_phrases: accentPhrases,
+      speedScale: 1,
+      pitchScale: 0,
+      outputSamplingRate: 24000,
+      kana: KANA,
+    })
+  })
+
+  it('記法の誤りはエンジンの説明付きの VoicevoxError になる', async () => {
+    const api = new VoicevoxApi(BASE_URL, { fetch: createKanaFetch(), retryCount: 0 })
+
+    const error = await api.getAccentPhrasesFromKana('コンニチワ').catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(VoicevoxError)
+    expect((error as VoicevoxError).getHttpDetails()).toMatchObject({
+      status: 400,
+      detail: 'アクセントが見つかりません',
+    })
+  })
+})
+
+describe('VoicevoxClient - kana', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'voicevox-kana-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('generateAudioFile は kana 指定で /audio_query を使わずに合成する', async () => {
+    const fetchMock = createKanaFetch()
+    const client = new VoicevoxClient({ url: BASE_URL, defaultSpeaker: 1, defaultSpeedScale: 1.2, fetch: fetchMock })
+
+    await client.generateAudioFile(KANA, join(dir, 'kana.wav'), { speaker: 3, kana: true })
+
+    const synthesis = fetchMock.mock.calls.find(([input]) => new URL(String(input)).pathname === '/synthesis')
+    expect(requestedUrls(fetchMock).map((url) => url.pathname)).not.toContain('/audio_query')
+    expect(JSON.parse(String(synthesis?.[1]?.body))).toMatchObject({ speedScale: 1.2, kana: KANA })
+  })
+})
@@ -0,0 +1,185 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxApi } from '../api'
+import { VoicevoxClient } from '../client'
+import { AudioGenerator } from '../queue/audio-generator'
+import type { AudioFileManager } from '../queue/file-manager'
+import type { ItemStateMachine } from '../state/item-state-machine'
+import { QueueItemStatus } from '../state/types'
+
+const BASE_URL = 'http://localhost:50021'
+
+const mockQuery = {
+  accent_phrases: [],
+  speedScale: 1.0,
+  pitchScale: 0.0,
+  intonationScale: 1.0,
+  volumeScale: 1.0,
+  prePhonemeLength: 0.1,
+  postPhonemeLength: 0.1,
+  outputSamplingRate: 24000,
+  outputStereo: false,
+}
+
+describe('VoicevoxApi - morphing methods', () => {
+  let api: VoicevoxApi
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    api = new VoicevoxApi(BASE_URL)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('POST /morphable_targets にスタイルIDの配列を送る', async () => {
+    const targets = [{ '2': { is_morphable: true }, '3': { is_morphable: false } }]
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify(targets)))
+
+    const result = await api.getMorphableTargets([1])
+
+    const [url, init] = fetchSpy.mock.calls[0]
+    expect(String(url)).toBe(`${BASE_URL}/morphable_targets`)
+    expect(init).toMatchObject({ method: 'POST', body: '[1]' })
+    expect(result).toEqual(targets)
+  })
+
+  it('POST /synthesis_morphing に話者とモーフィング率を渡す', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(new ArrayBuffer(8)))
+
+    const result = await api.synthesizeMorphing(mockQuery, 1, 2, 0.3)
+
+    const [url] = fetchSpy.mock.calls[0]
+    expect(String(url)).toBe(`${BASE_URL}/synthesis_morphing?base_speaker=1&target_speaker=2&morph_rate=0.3`)
+    expect(result.byteLength).toBe(8)
+  })
+})
+
+// パスごとにレスポンスを返す fetch モック（エンジン情報はモーフィング対応の VOICEVOX として返す）
+function mockEngine(routes: Record<string, unknown>) {
+  const responses: Record<string, unknown> = {
+    '/version': '0.14.0',
+    '/engine_manifest': {
+      name: 'VOICEVOX Engine',
+      brand_name: 'VOICEVOX',
+      supported_features: { synthesis_morphing: true },
+    },
+    ...routes,
+  }
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async (input) => {
+    const { pathname } = new URL(String(input))
+    const body = responses[pathname]
+    if (body === undefined) return new Response('Not Found', { status: 404 })
+    return new Response(body instanceof Uint8Array ? body : JSON.stringify(body))
+  })
+}
+
+describe('VoicevoxClient - morphing', () => {
+  let client: VoicevoxClient
+  let tempDir: string
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    client = new VoicevoxClient({ url: BASE_URL, defaultSpeaker: 1 })
+    tempDir = mkdtempSync(join(tmpdir(), 'voicevox-morph-'))
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    rmSync(tempDir, { recursive: true, force: true })
+  })
+
+  it('getMorphableTargets はモーフィング可能なスタイルIDだけを返す', async () => {
+    mockEngine({ '/morphable_targets': [{ '2': { is_morphable: true }, '3': { is_morphable: false } }] })
+
+    expect(await client.getMorphableTargets(1)).toEqual([2])
+  })
+
+  it('許可された組み合わせならモーフィング合成したファイルを書き出す', async () => {
+    const fetchSpy = mockEngine({
+      '/morphable_targets': [{ '2': { is_morphable: true } }],
+      '/audio_query': mockQuery,
+      '/synthesis_morphing': new Uint8Array([1, 2, 3]),
+    })
+    const output = join(tempDir, 'morph.wav')
+
+    const filePath = await client.generateMorphingAudioFile('こんにちは', output, { targetSpeaker: 2, morphRate: 0.7 })
+
+    expect(filePath).toBe(output)
+    expect([...readFileSync(output)]).toEqual([1, 2, 3])
+    expect(fetchSpy.mock.calls.map(([url]) => String(url))).toContain(
+      `${BASE_URL}/synthesis_morphing?base_speaker=1&target_speaker=2&morph_rate=0.7`
+    )
+  })
+
+  it('利用規約で許可されない組み合わせはエラーにする', async () => {
+    const fetchSpy = mockEngine({ '/morphable_targets': [{ '2': { is_morphable: false } }] })
+
+    await expect(
+      client.generateMorphingAudioFile('こんにちは', join(tempDir, 'x.wav'), { targetSpeaker: 2 })
+    ).rejects.toMatchObject({ code: 'morphing_not_permitted' })
+    expect(fetchSpy.mock.calls.some(([url]) => String(url).includes('/audio_query'))).toBe(false)
+  })
+
+  it('speak でも許可されない組み合わせはエラー結果を返す', async () => {
+    mockEngine({ '/morphable_targets': [{}] })
+
+    const result = await client.speak('こんにちは', { morphTargetSpeaker: 99 })
+
+    expect(result.status).toBe('error')
+    expect(result.errorMessage).toContain('モーフィングは話者の利用規約で許可されていません')
+  })
+
+  it('モーフィング非対応のエンジンでは合成前にエラーにする', async () => {
+    const fetchSpy = mockEngine({
+      '/engine_manifest': {
+        name: 'Other Engine',
+        brand_name: 'Other',
+        supported_features: { synthesis_morphing: false },
+      },
+    })
+
+    await expect(client.getMorphableTargets(1)).rejects.toMatchObject({ code: 'feature_not_supported' })
+    expect(fetchSpy.mock.calls.some(([url]) => String(url).includes('/morphable_targets'))).toBe(false)
+  })
+
+  it('morphRate が範囲外ならエラーにする', async () => {
+    await expect(
+      client.generateMorphingAudioFile('こんにちは', undefined, { targetSpeaker: 2, morphRate: 1.5 })
+    ).rejects.toThrow('morphRate must be between 0.0 and 1.0')
+  })
+})
+
+describe('AudioGenerator - morphing', () => {
+  it('morph 指定のあるアイテムは synthesizeMorphing で生成する', async () => {
+    const api = {
+      synthesize: vi.fn(),
+      synthesizeMorphing: vi.fn().mockResolvedValue(new ArrayBuffer(4)),
+    }
+    const fileManager = { saveTempAudioFile: vi.fn().mockResolvedValue('/tmp/a.wav') }
+    const generator = new AudioGenerator(api as unknown as VoicevoxApi, fileManager as unknown as AudioFileManager)
+    const onComplete = vi.fn()
+
+    await generator.generateFromQueryForItem(
+      {
+        id: 'a',
+        text: 'こんにちは',
+        speaker: 1,
+        status: QueueItemStatus.PENDING,
+        createdAt: new Date(),
+        query: mockQuery,
+        morph: { targetSpeaker: 2, morphRate: 0.5 },
+      },
+      { transition: vi.fn() } as unknown as ItemStateMachine,
+      onComplete,
+      vi.fn()
+    )
+
+    expect(api.synthesizeMorphing).toHaveBeenCalledWith(mockQuery, 1, 2, 0.5, undefined)
+    expect(api.synthesize).not.toHaveBeenCalled()
+    expect(onComplete).toHaveBeenCalled()
+  })
+})
@@ -49,6 +49,26 @@ describe('parseStringInput', () => {
     expect(parseStringInput('1:Hello\n10:30に集合')).toEqual([{ text: 'Hello', speaker: 1 }, { text: '10:30に集合' }])
   })
 
+  it('行頭の {key=値} でその行の話速・音高などを指定できる', () => {
+    expect(
+      parseStringInput('{speed=0.9,pause=1.5}:昔々あるところに\n3{speed=1.3, pitch=0.05 volume=1.2}:やったー！')
+    ).toEqual([
+      { text: '昔々あるところに', speedScale: 0.9, pauseLengthScale: 1.5 },
+      { text: 'やったー！', speaker: 3, speedScale: 1.3, pitchScale: 0.05, volumeScale: 1.2 },
+    ])
+    expect(parseStringInput('1{intonationScale=0,pre=0.2,post=0.5}:はい')).toEqual([
+      { text: 'はい', speaker: 1, intonationScale: 0, prePhonemeLength: 0.2, postPhonemeLength: 0.5 },
+    ])
+  })
+
+  it('読み上げ設定のキーや値が不正な場合はエラーにする', () => {
+    expect(() => parseStringInput('{speed=fast}:こんにちは')).toThrowError(
+      /行の読み上げ設定を解釈できません: \{speed=fast\}/
+    )
+    expect(() => parseStringInput('1{tempo=1.2}:こんにちは')).toThrowError(/speed, pitch, intonation/)
+    expect(() => parseStringInput('{constructor=1}:こんにちは')).toThrowError(/解釈できません/)
+  })
+
   it('リテラルの \\n も改行として扱う', () => {
     expect(parseStringInput('1:Hello\\n2:World')).toEqual([
       { text: 'Hello', speaker: 1 },
@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxApi } from '../api'
+import { VoicevoxClient } from '../client'
+import type { QueueService } from '../queue/queue-service'
+import { SpeechService } from '../services/speech-service'
+import type { Preset } from '../types'
+
+const BASE_URL = 'http://localhost:50021'
+
+const narration: Preset = {
+  id: 1,
+  name: 'narration',
+  speaker_uuid: 'uuid-zundamon',
+  style_id: 3,
+  speedScale: 1.2,
+  pitchScale: 0.0,
+  intonationScale: 1.0,
+  volumeScale: 1.0,
+  prePhonemeLength: 0.1,
+  postPhonemeLength: 0.1,
+  pauseLength: null,
+  pauseLengthScale: 1.0,
+}
+
+const speakers = [{ name: 'ずんだもん', speaker_uuid: 'uuid-zundamon', styles: [{ name: 'ノーマル', id: 3 }] }]
+
+function mockFetchSequence(...bodies: unknown[]) {
+  const spy = vi.spyOn(globalThis, 'fetch')
+  for (const body of bodies) {
+    spy.mockResolvedValueOnce(new Response(typeof body === 'string' ? body : JSON.stringify(body)))
+  }
+  return spy
+}
+
+describe('VoicevoxApi - preset methods', () => {
+  let api: VoicevoxApi
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    api = new VoicevoxApi(BASE_URL)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('GET /presets を呼び出す', async () => {
+    const fetchSpy = mockFetchSequence([narration])
+
+    expect(await api.getPresets()).toEqual([narration])
+    expect(fetchSpy).toHaveBeenCalledWith(`${BASE_URL}/presets`, expect.objectContaining({ method: 'GET' }))
+  })
+
+  it('POST /add_preset はリトライしない', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('error', { status: 500 }))
+
+    await expect(api.addPreset(narration)).rejects.toThrow('プリセット追加中にエラーが発生しました')
+    expect(fetchSpy).toHaveBeenCalledTimes(1)
+    expect(String(fetchSpy.mock.calls[0][0])).toBe(`${BASE_URL}/add_preset`)
+  })
+
+  it('POST /delete_preset に id を渡す', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('', { status: 200 }))
+
+    await api.deletePreset(5)
+
+    expect(String(fetchSpy.mock.calls[0][0])).toBe(`${BASE_URL}/delete_preset?id=5`)
+    expect(fetchSpy.mock.calls[0][1]).toMatchObject({ method: 'POST' })
+  })
+})
+
+describe('VoicevoxClient - presets', () => {
+  let client: VoicevoxClient
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    client = new VoicevoxClient({ url: BASE_URL, defaultSpeaker: 1 })
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('addPreset はスタイルIDから speaker_uuid を解決し、次のIDで追加する', async () => {
+    const fetchSpy = mockFetchSequence([narration], speakers, '2')
+
+    const preset = await client.addPreset({ name: ' alert ', speaker: 3, volumeScale: 1.5 })
+
+    const body = JSON.parse(String(fetchSpy.mock.calls[2][1]?.body))
+    expect(body).toMatchObject({ id: 2, name: 'alert', speaker_uuid: 'uuid-zundamon', style_id: 3, volumeScale: 1.5 })
+    expect(preset.id).toBe(2)
+  })
+
+  it('updatePreset は省略したフィールドを維持する', async () => {
+    const fetchSpy = mockFetchSequence([narration], '1')
+
+    const preset = await client.updatePreset({ id: 1, speedScale: 0.9 })
+
+    expect(preset).toEqual({ ...narration, speedScale: 0.9 })
+    expect(String(fetchSpy.mock.calls[1][0])).toBe(`${BASE_URL}/update_preset`)
+  })
+
+  it('存在しないプリセットの更新はエラーにする', async () => {
+    mockFetchSequence([narration])
+
+    await expect(client.updatePreset({ id: 9, name: 'x' })).rejects.toThrow('Preset not found: 9')
+  })
+})
+
+describe('SpeechService - preset option', () => {
+  function createService() {
+    const api = {
+      getPresets: vi.fn().mockResolvedValue([narration]),
+      generateQueryFromPreset: vi.fn().mockResolvedValue({ accent_phrases: [], speedScale: 1.2 }),
+      generateQuery: vi.fn().mockResolvedValue({ accent_phrases: [], speedScale: 1.0, volumeScale: 1.0 }),
+      synthesize: vi.fn().mockResolvedValue(new ArrayBuffer(4)),
+    }
+    const queueService = {
+      clearQueue: vi.fn(),
+      enqueueQuery: vi.fn().mockResolvedValue({ promises: {} }),
+      isStreamingEnabled: vi.fn().mockReturnValue(false),
+      getFileManager: () => ({ saveAudioFile: vi.fn(async (_data: ArrayBuffer, path: string) => path) }),
+    }
+    const service = new SpeechService(api as unknown as VoicevoxApi, queueService as unknown as QueueService, {
+      defaultSpeaker: 1,
+      defaultSpeedScale: 1.0,
+      defaultPlaybackOptions: { immediate: false },
+      maxSegmentLength: 150,
+    })
+    return { api, queueService, service }
+  }
+
+  it('プリセットのスタイルと話速で合成する', async () => {
+    const { api, queueService, service } = createService()
+
+    const result = await service.speak('こんにちは', { preset: 1 })
+
+    expect(result.status).toBe('queued')
+    expect(api.generateQueryFromPreset).toHaveBeenCalledWith('こんにちは', 1, undefined, undefined)
+    expect(api.generateQuery).not.toHaveBeenCalled()
+    const [query, speaker] = queueService.enqueueQuery.mock.calls[0]
+    expect(speaker).toBe(3)
+    expect(query.speedScale).toBe(1.2)
+  })
+
+  it('speaker の明示指定はプリセットのスタイルより優先し、各パラメータはプリセットのものを使う', async () => {
+    const { api, queueService, service } = createService()
+
+    await service.speak('こんにちは', { speaker: 8, preset: 1 })
+
+    expect(api.generateQuery).toHaveBeenCalledWith('こんにちは', 8, undefined)
+    expect(api.generateQueryFromPreset).not.toHaveBeenCalled()
+    const [query, speaker] = queueService.enqueueQuery.mock.calls[0]
+    expect(speaker).toBe(8)
+    expect(query).toMatchObject({ speedScale: 1.2, prePhonemeLength: 0.1 })
+  })
+
+  it('音声ファイル用のクエリでも speaker の明示指定をプリセットより優先する', async () => {
+    const { api, service } = createService()
+
+    const query = await service.generateFileQuery('こんにちは', { speaker: 8, preset: 1 })
+
+    expect(api.generateQuery).toHaveBeenCalledWith('こんにちは', 8, undefined)
+    expect(query.speedScale).toBe(1.2)
+  })
+
+  it('行ごとのセグメントから音声ファイルを作るときもプリセットを使う', async () => {
+    const { api, service } = createService()
+
+    await service.createAudioFile([{ text: 'こんにちは' }], '/tmp/a.wav', { preset: 1 })
+    await service.createAudioFile([{ text: 'やあ', speaker: 8, volumeScale: 1.5 }], '/tmp/b.wav', { preset: 1 })
+
+    expect(api.generateQueryFromPreset).toHaveBeenCalledWith('こんにちは', 1, undefined, undefined)
+    expect(api.generateQuery).toHaveBeenCalledWith('やあ', 8, undefined)
+    expect(api.synthesize.mock.calls.map(([query, speaker]) => [speaker, query.speedScale])).toEqual([
+      [3, 1.2],
+      [8, 1.2],
+    ])
+    expect(api.synthesize.mock.calls[1][0]).toMatchObject({ prePhonemeLength: 0.1, volumeScale: 1.5 })
+  })
+
+  it('SSML から音声ファイルを作るときも <voice> の外側はプリセットを使う', async () => {
+    const { api, service } = createService()
+
+    await service.createSsmlAudioFile('<speak><prosody rate="slow">こんにちは</prosody></speak>', '/tmp/a.wav', {
+      preset: 1,
+    })
+
+    expect(api.generateQueryFromPreset).toHaveBeenCalledWith('こんにちは', 1, undefined, undefined)
+    const [query, speaker] = api.synthesize.mock.calls[0]
+    expect(speaker).toBe(3)
+    expect(query.speedScale).toBeCloseTo(0.9, 6)
+  })
+
+  it('speedScale の明示指定はプリセットより優先する', async () => {
+    const { queueService, service } = createService()
+
+    await service.speak('こんにちは', { preset: 1, speedScale: 0.8 })
+
+    expect(queueService.enqueueQuery.mock.calls[0][0].speedScale).toBe(0.8)
+  })
+
+  it('存在しないプリセットはエラー結果を返す', async () => {
+    const { service } = createService()
+
+    const result = await service.speak('こんにちは', { preset: 42 })
+
+    expect(result.status).toBe('error')
+    expect(result.errorMessage).toBe('Preset not found: 42')
+  })
+})
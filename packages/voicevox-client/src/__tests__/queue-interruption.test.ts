@@ -0,0 +1,121 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { QueueItemStatus } from '../queue/types'
+
+// --- Helpers ---
+
+function createDeferred<T = void>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>((res) => {
+    resolve = res
+  })
+  return { promise, resolve }
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 10))
+
+// --- Mocks ---
+
+const mockSynthesize = vi.fn()
+let tempFileCount = 0
+
+vi.mock('../api', () => ({
+  VoicevoxApi: vi.fn(function () {
+    return {
+      generateQuery: vi.fn().mockResolvedValue({
+        accent_phrases: [],
+        speedScale: 1.0,
+        prePhonemeLength: 0,
+        postPhonemeLength: 0,
+      }),
+      synthesize: mockSynthesize,
+    }
+  }),
+}))
+
+vi.mock('../queue/file-manager', () => ({
+  AudioFileManager: vi.fn(function () {
+    return {
+      saveTempAudioFile: vi.fn().mockImplementation(async () => `/tmp/mock-${++tempFileCount}.wav`),
+      deleteTempFile: vi.fn().mockResolvedValue(undefined),
+      releaseAllBlobUrls: vi.fn(),
+    }
+  }),
+}))
+
+/** 再生したファイルと、再生を最後まで終わらせる関数 */
+let playbacks: Array<{ path: string; finish: () => void }> = []
+
+// 実際の再生方式と同じく、中断されると再生の Promise を解決する
+vi.mock('../playback/playback-strategy', () => ({
+  createPlaybackStrategy: vi.fn().mockResolvedValue({
+    supportsStreaming: () => false,
+    playFromBuffer: vi.fn(),
+    playFromFile: vi.fn(
+      (path: string, signal?: AbortSignal) =>
+        new Promise<void>((resolve) => {
+          signal?.addEventListener('abort', () => resolve(), { once: true })
+          playbacks.push({ path, finish: resolve })
+        })
+    ),
+    stop: vi.fn(),
+  }),
+}))
+
+// --- Tests ---
+
+describe('QueueService の割り込み（実際の PlaybackService）', () => {
+  let synthDeferreds: Array<ReturnType<typeof createDeferred<ArrayBuffer>>>
+
+  const completeSynthesis = async (index: number) => {
+    await flush()
+    synthDeferreds[index].resolve(new ArrayBuffer(100))
+    await flush()
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    synthDeferreds = []
+    playbacks = []
+    mockSynthesize.mockImplementation(() => {
+      const d = createDeferred<ArrayBuffer>()
+      synthDeferreds.push(d)
+      return d.promise
+    })
+  })
+
+  it('停止で中断された再生を完了として扱わず、割り込まれたアイテムを最初から再生し直す', async () => {
+    const { VoicevoxApi } = await import('../api')
+    const { QueueService } = await import('../queue/queue-service')
+    const queueService = new QueueService(new VoicevoxApi('http://localhost:50021'))
+
+    const { item: normal, promises } = await queueService.enqueueText('normal', 1, {
+      immediate: false,
+      waitForEnd: true,
+    })
+    let ended = false
+    promises.end?.then(() => {
+      ended = true
+    })
+    await completeSynthesis(0)
+    expect(normal.status).toBe(QueueItemStatus.PLAYING)
+
+    const { item: urgent } = await queueService.enqueueText('urgent', 1, { immediate: false, priority: 'urgent' })
+    await completeSynthesis(1)
+
+    expect(normal.status).toBe(QueueItemStatus.READY)
+    expect(urgent.status).toBe(QueueItemStatus.PLAYING)
+    expect(ended).toBe(false)
+
+    playbacks[1].finish()
+    await flush()
+
+    expect(normal.status).toBe(QueueItemStatus.PLAYING)
+    expect(playbacks.map((playback) => playback.path)).toEqual([normal.tempFile, urgent.tempFile, normal.tempFile])
+
+    playbacks[2].finish()
+    await flush()
+
+    expect(ended).toBe(true)
+    expect(queueService.getQueue()).toHaveLength(0)
+  })
+})
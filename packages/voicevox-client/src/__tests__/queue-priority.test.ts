@@ -0,0 +1,226 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { QueueServiceOptions } from '../queue/queue-service'
+import { QueueEventType, QueueItemStatus } from '../queue/types'
+
+// --- Helpers ---
+
+function createDeferred<T = void>() {
+  let resolve!: (value: T) => void
+  let reject!: (reason?: unknown) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+const flush = () => new Promise((r) => setTimeout(r, 10))
+
+// --- Mocks ---
+
+const mockGenerateQuery = vi.fn()
+const mockSynthesize = vi.fn()
+const mockPlay = vi.fn()
+const mockStop = vi.fn()
+
+vi.mock('../api', () => ({
+  VoicevoxApi: vi.fn(function () {
+    return {
+      generateQuery: mockGenerateQuery,
+      synthesize: mockSynthesize,
+    }
+  }),
+}))
+
+vi.mock('../queue/file-manager', () => ({
+  AudioFileManager: vi.fn(function () {
+    return {
+      saveTempAudioFile: vi.fn().mockResolvedValue('/tmp/mock.wav'),
+      deleteTempFile: vi.fn().mockResolvedValue(undefined),
+      releaseAllBlobUrls: vi.fn(),
+    }
+  }),
+}))
+
+let playbackCallbacks: {
+  onComplete?: (id: string) => void
+  onError?: (id: string, err: Error) => void
+} = {}
+
+vi.mock('../playback/index', () => ({
+  PlaybackService: vi.fn(function (options: any) {
+    playbackCallbacks = options?.callbacks || {}
+    return {
+      play: mockPlay,
+      stop: mockStop,
+      stopAll: vi.fn(),
+      stopAllAndWait: vi.fn().mockResolvedValue(undefined),
+      isPlaying: vi.fn().mockReturnValue(false),
+      isStreamingEnabled: vi.fn().mockReturnValue(false),
+    }
+  }),
+}))
+
+// --- Tests ---
+
+describe('QueueService の優先度', () => {
+  let synthDeferreds: Array<ReturnType<typeof createDeferred<ArrayBuffer>>>
+
+  const createQueueService = async (options: QueueServiceOptions = {}): Promise<any> => {
+    const { VoicevoxApi } = await import('../api')
+    const { QueueService } = await import('../queue/queue-service')
+    return new QueueService(new VoicevoxApi('http://localhost:50021'), { prefetchSize: 2, ...options })
+  }
+
+  /** n 番目の合成を完了させる */
+  const completeSynthesis = async (index: number) => {
+    await flush()
+    synthDeferreds[index].resolve(new ArrayBuffer(100))
+    await flush()
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    synthDeferreds = []
+    playbackCallbacks = {}
+
+    mockGenerateQuery.mockResolvedValue({
+      accent_phrases: [],
+      speedScale: 1.0,
+      prePhonemeLength: 0,
+      postPhonemeLength: 0,
+    })
+    mockSynthesize.mockImplementation(() => {
+      const d = createDeferred<ArrayBuffer>()
+      synthDeferreds.push(d)
+      return d.promise
+    })
+    mockPlay.mockImplementation(() => new Promise(() => {})) // never resolves
+  })
+
+  it('優先度の高い順に並び、同じ優先度はエンキュー順になる', async () => {
+    const queueService = await createQueueService()
+
+    await queueService.enqueueText('low', 1, { immediate: false, priority: 'low' })
+    await queueService.enqueueText('normal-1', 1, { immediate: false })
+    await queueService.enqueueText('high', 1, { immediate: false, priority: 'high' })
+    await queueService.enqueueText('normal-2', 1, { immediate: false, priority: 'normal' })
+
+    expect(queueService.getQueue().map((item: any) => item.text)).toEqual(['high', 'normal-1', 'normal-2', 'low'])
+  })
+
+  it('urgent は再生中のアイテムに割り込み、割り込まれたアイテムは後で最初から再生し直す', async () => {
+    const queueService = await createQueueService()
+    const interrupted = vi.fn()
+    queueService.addEventListener(QueueEventType.ITEM_INTERRUPTED, interrupted)
+
+    const { item: normal, promises } = await queueService.enqueueText('normal', 1, {
+      immediate: false,
+      waitForEnd: true,
+    })
+    await completeSynthesis(0)
+    expect(normal.status).toBe(QueueItemStatus.PLAYING)
+
+    const { item: urgent } = await queueService.enqueueText('urgent', 1, { immediate: false, priority: 'urgent' })
+    await completeSynthesis(1)
+
+    expect(mockStop).toHaveBeenCalledWith(normal.id)
+    expect(interrupted).toHaveBeenCalledWith(QueueEventType.ITEM_INTERRUPTED, normal)
+    expect(normal.status).toBe(QueueItemStatus.READY)
+    expect(urgent.status).toBe(QueueItemStatus.PLAYING)
+
+    playbackCallbacks.onComplete?.(urgent.id)
+    await flush()
+
+    expect(normal.status).toBe(QueueItemStatus.PLAYING)
+    expect(mockPlay.mock.calls.map(([itemId]) => itemId)).toEqual([normal.id, urgent.id, normal.id])
+
+    playbackCallbacks.onComplete?.(normal.id)
+    await expect(promises.end).resolves.toBeUndefined()
+  })
+
+  it('high は既定では割り込まず、再生中のアイテムの次に再生する', async () => {
+    const queueService = await createQueueService()
+
+    const { item: first } = await queueService.enqueueText('normal-1', 1, { immediate: false })
+    await completeSynthesis(0)
+    await queueService.enqueueText('normal-2', 1, { immediate: false })
+    const { item: high } = await queueService.enqueueText('high', 1, { immediate: false, priority: 'high' })
+    await completeSynthesis(1)
+    await completeSynthesis(2)
+
+    expect(mockStop).not.toHaveBeenCalled()
+    playbackCallbacks.onComplete?.(first.id)
+    await flush()
+
+    expect(mockPlay.mock.calls.map(([itemId]) => itemId)).toEqual([first.id, high.id])
+  })
+
+  it('resumeInterrupted: false なら割り込まれたアイテムを破棄する', async () => {
+    const queueService = await createQueueService({ interruption: { resumeInterrupted: false } })
+
+    const { item: normal, promises } = await queueService.enqueueText('normal', 1, {
+      immediate: false,
+      waitForEnd: true,
+    })
+    const ended = expect(promises.end).rejects.toThrow('Item interrupted')
+    await completeSynthesis(0)
+    await queueService.enqueueText('urgent', 1, { immediate: false, priority: 'urgent' })
+    await completeSynthesis(1)
+
+    await ended
+    expect(queueService.getItemStatus(normal.id)).toBeNull()
+    expect(queueService.getQueue().map((item: any) => item.text)).toEqual(['urgent'])
+  })
+
+  it('割り込みの対象になる優先度のアイテムは先読みの空きが無くても生成を始める', async () => {
+    const queueService = await createQueueService({ prefetchSize: 1 })
+
+    await queueService.enqueueText('normal-1', 1, { immediate: false })
+    await queueService.enqueueText('normal-2', 1, { immediate: false })
+    await flush()
+    expect(synthDeferreds).toHaveLength(1)
+
+    await queueService.enqueueText('urgent', 1, { immediate: false, priority: 'urgent' })
+    await flush()
+    expect(synthDeferreds).toHaveLength(2)
+  })
+
+  it('期限を過ぎても再生が始まらない low のアイテムを破棄する', async () => {
+    const queueService = await createQueueService()
+    const errors = vi.fn()
+    queueService.addEventListener(QueueEventType.ERROR, errors)
+
+    await queueService.enqueueText('normal', 1, { immediate: false })
+    await completeSynthesis(0)
+    const { item: low, promises } = await queueService.enqueueText('low', 1, {
+      immediate: false,
+      priority: 'low',
+      waitForStart: true,
+    })
+    const started = expect(promises.start).rejects.toThrow('Item dropped as stale')
+    await completeSynthesis(1)
+    expect(low.status).toBe(QueueItemStatus.READY)
+
+    low.createdAt = new Date(Date.now() - 31_000)
+    playbackCallbacks.onComplete?.(mockPlay.mock.calls[0][0])
+    await flush()
+
+    await started
+    expect(errors).toHaveBeenCalledWith(QueueEventType.ERROR, low)
+    expect(mockPlay).toHaveBeenCalledTimes(1)
+    expect(queueService.getQueue()).toHaveLength(0)
+  })
+
+  it('staleAfterMs を指定すると既定の期限を置き換える', async () => {
+    const queueService = await createQueueService({ interruption: { staleAfterMs: { normal: 1000 } } })
+
+    const { item: low } = await queueService.enqueueText('low', 1, { immediate: false, priority: 'low' })
+    const { item: normal } = await queueService.enqueueText('normal', 1, { immediate: false })
+    low.createdAt = new Date(Date.now() - 60_000)
+    normal.createdAt = new Date(Date.now() - 2000)
+    await queueService.enqueueText('high', 1, { immediate: false, priority: 'high' })
+
+    expect(queueService.getQueue().map((item: any) => item.text)).toEqual(['high', 'low'])
+  })
+})
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxApi } from '../api'
+import { beatsToFrames, buildScore, noteNameToMidi, scoreToLyrics } from '../score-utils'
+
+const BASE_URL = 'http://localhost:50021'
+
+describe('score-utils', () => {
+  it('音名を MIDI ノート番号に変換する', () => {
+    expect(noteNameToMidi('C4')).toBe(60)
+    expect(noteNameToMidi('A4')).toBe(69)
+    expect(noteNameToMidi('F#3')).toBe(54)
+    expect(noteNameToMidi('Bb4')).toBe(70)
+    expect(() => noteNameToMidi('H2')).toThrow('Invalid note name')
+  })
+
+  it('拍数を bpm に応じたフレーム数に変換する', () => {
+    expect(beatsToFrames(1, 120)).toBe(47)
+    expect(beatsToFrames(2, 60)).toBe(188)
+    expect(beatsToFrames(0, 120)).toBe(1)
+    expect(() => beatsToFrames(1, 0)).toThrow('bpm')
+  })
+
+  it('先頭が休符でなければ休符を補って Score を組み立てる', () => {
+    const score = buildScore([
+      { lyric: 'ど', key: 'C4', beats: 1 },
+      { lyric: 'れ', key: 62, frameLength: 30 },
+      { beats: 1 },
+    ])
+
+    expect(score.notes).toEqual([
+      { lyric: '', frame_length: 47 },
+      { lyric: 'ど', key: 60, frame_length: 47 },
+      { lyric: 'れ', key: 62, frame_length: 30 },
+      { lyric: '', frame_length: 47 },
+    ])
+    expect(scoreToLyrics(score)).toBe('どれ')
+  })
+
+  it('先頭が休符ならそのまま使う', () => {
+    const score = buildScore([{ frameLength: 10 }, { lyric: 'ら', key: 'A4', beats: 1 }], { bpm: 60 })
+    expect(score.notes[0]).toEqual({ lyric: '', frame_length: 10 })
+    expect(score.notes).toHaveLength(2)
+  })
+
+  it('長さや音高が欠けたノートはエラーにする', () => {
+    expect(() => buildScore([])).toThrow('notes is empty')
+    expect(() => buildScore([{ lyric: 'ど', key: 60 }])).toThrow('beats or frameLength')
+    expect(() => buildScore([{ lyric: 'ど', beats: 1 }])).toThrow('needs a key')
+  })
+})
+
+describe('VoicevoxApi - singing methods', () => {
+  let api: VoicevoxApi
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    api = new VoicevoxApi(BASE_URL)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('GET /singers を呼び出して歌唱スタイル一覧を返す', async () => {
+    const singers = [
+      { name: '波音リツ', speaker_uuid: 'x', styles: [{ name: 'ノーマル', id: 3000, type: 'frame_decode' }] },
+    ]
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify(singers)))
+
+    const result = await api.getSingers()
+
+    expect(fetchSpy).toHaveBeenCalledWith(`${BASE_URL}/singers`, expect.objectContaining({ method: 'GET' }))
+    expect(result).toEqual(singers)
+  })
+
+  it('POST /sing_frame_audio_query に Score を送る', async () => {
+    const frameQuery = {
+      f0: [0],
+      volume: [0],
+      phonemes: [],
+      volumeScale: 1,
+      outputSamplingRate: 24000,
+      outputStereo: false,
+    }
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(JSON.stringify(frameQuery)))
+    const score = buildScore([{ lyric: 'ら', key: 69, beats: 1 }])
+
+    const result = await api.generateSingFrameAudioQuery(score, 6000)
+
+    const [url, init] = fetchSpy.mock.calls[0]
+    expect(String(url)).toBe(`${BASE_URL}/sing_frame_audio_query?speaker=6000`)
+    expect(init).toMatchObject({ method: 'POST' })
+    expect(JSON.parse(String(init?.body))).toEqual(score)
+    expect(result).toEqual(frameQuery)
+  })
+
+  it('POST /frame_synthesis で WAV を取得する', async () => {
+    const wav = new Uint8Array([82, 73, 70, 70]).buffer
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(wav))
+    const frameQuery = {
+      f0: [0],
+      volume: [0],
+      phonemes: [],
+      volumeScale: 1,
+      outputSamplingRate: 24000,
+      outputStereo: false,
+    }
+
+    const result = await api.frameSynthesize(frameQuery, 3000)
+
+    const [url, init] = fetchSpy.mock.calls[0]
+    expect(String(url)).toBe(`${BASE_URL}/frame_synthesis?speaker=3000`)
+    expect(init).toMatchObject({ method: 'POST' })
+    expect(result.byteLength).toBe(4)
+  })
+})
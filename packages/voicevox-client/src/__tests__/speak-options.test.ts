@@ -538,5 +538,26 @@ describe('VoicevoxClient - speak メソッドのオプションテスト', () =>
         '第2セグメント'
       )
     })
+
+    it('セグメントごとの指定はそのセグメントだけ speak のオプションより優先される', async () => {
+      // モックの generateQuery は同じオブジェクトを返すため、キューに追加した時点の値を記録する
+      const queries: any[] = []
+      mockEnqueueQuery.mockImplementation(async (query: any) => {
+        queries.push({ ...query })
+        return { item: { id: 'test' }, promises: {} }
+      })
+
+      await client.speak(
+        [
+          { text: '落ち着いたナレーション', speaker: 1, speedScale: 0.9, pauseLengthScale: 1.5 },
+          { text: 'やったー！', speaker: 3, speedScale: 1.3, pitchScale: 0.05, intonationScale: 1.6, volumeScale: 1.2 },
+        ],
+        { immediate: false, speedScale: 1.1, pitchScale: 0.02 }
+      )
+
+      const [narration, excited] = queries
+      expect(narration).toMatchObject({ speedScale: 0.9, pitchScale: 0.02, pauseLengthScale: 1.5 })
+      expect(excited).toMatchObject({ speedScale: 1.3, pitchScale: 0.05, intonationScale: 1.6, volumeScale: 1.2 })
+    })
   })
 })
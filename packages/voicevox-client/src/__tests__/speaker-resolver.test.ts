@@ -0,0 +1,215 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxClient } from '../client'
+import { createSpeakerResolver, resolveSpeaker } from '../speaker-resolver'
+import type { Speaker } from '../types'
+import { hasSpeakerNamePrefix, parseStringInput } from '../utils'
+
+const speaker = (name: string, styles: Array<[string, number, string?]>): Speaker => ({
+  name,
+  speaker_uuid: name,
+  styles: styles.map(([styleName, id, type = 'talk']) => ({ name: styleName, id, type })),
+  version: '0.0.0',
+  supported_features: { permitted_synthesis_morphing: 'ALL' },
+})
+
+const speakers: Speaker[] = [
+  speaker('四国めたん', [
+    ['ノーマル', 2],
+    ['あまあま', 0],
+  ]),
+  speaker('ずんだもん', [
+    ['ノーマル', 3],
+    ['あまあま', 1],
+    ['ささやき', 22],
+    ['ハミング', 3001, 'frame_decode'],
+  ]),
+  speaker('春日部つむぎ', [['ノーマル', 8]]),
+  speaker('波音リツ', [
+    ['ノーマル', 9],
+    ['クイーン', 65],
+  ]),
+]
+
+/**
+ * PCM 16bit モノラルの WAV（サンプル値はすべて fill）
+ */
+function createWav(samples: number, fill: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples * 2)
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  bytes.set(new TextEncoder().encode('RIFF'), 0)
+  view.setUint32(4, 36 + samples * 2, true)
+  bytes.set(new TextEncoder().encode('WAVEfmt '), 8)
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, 1, true)
+  view.setUint32(24, 24000, true)
+  view.setUint32(28, 48000, true)
+  view.setUint16(32, 2, true)
+  view.setUint16(34, 16, true)
+  bytes.set(new TextEncoder().encode('data'), 36)
+  view.setUint32(40, samples * 2, true)
+  for (let i = 0; i < samples; i++) view.setInt16(44 + i * 2, fill, true)
+  return buffer
+}
+
+describe('createSpeakerResolver', () => {
+  const resolver = createSpeakerResolver(speakers, { ナレーター: '四国めたん/ノーマル', zunda: 3, 姫: 'リツ/クイーン' })
+
+  it('キャラクター名は最初のスタイル、"キャラクター名/スタイル名" はそのスタイルに解決する', () => {
+    expect(resolver.resolve('ずんだもん')).toBe(3)
+    expect(resolver.resolve('ずんだもん/あまあま')).toBe(1)
+    expect(resolver.resolve('ずんだもん：ささやき')).toBe(22)
+    expect(resolver.resolve('22')).toBe(22)
+  })
+
+  it('表記の揺れ・部分一致・1 文字の誤りを許す', () => {
+    expect(resolver.resolve('ズンダモン / アマアマ')).toBe(1)
+    expect(resolver.resolve('めたん')).toBe(2)
+    expect(resolver.resolve('つむぎ')).toBe(8)
+    expect(resolver.resolve('ずんだもｍ')).toBe(3)
+    expect(resolver.resolve('クイーン')).toBe(65)
+  })
+
+  it('エイリアスを先に参照し、値の名前もさらに解決する', () => {
+    expect(resolver.resolve('ナレーター')).toBe(2)
+    expect(resolver.resolve('ZUNDA')).toBe(3)
+    expect(resolver.resolve('姫')).toBe(65)
+  })
+
+  it('一致しない・決められない場合は候補を挙げてエラーにする', () => {
+    expect(() => resolver.resolve('ずんだもん/ねむねむ')).toThrowError(
+      '話者「ずんだもん/ねむねむ」のスタイルが見つかりません。候補: ずんだもん/ノーマル (3), ずんだもん/あまあま (1), ずんだもん/ささやき (22)'
+    )
+    expect(() => resolver.resolve('あまあま')).toThrowError(
+      /見つかりません。候補: 四国めたん\/あまあま \(0\), ずんだもん\/あまあま \(1\)/
+    )
+    expect(() => resolver.resolve('ずんだもん/ハミング')).toThrowError(/スタイルが見つかりません/)
+    expect(() => resolveSpeaker('ナースロボ', speakers)).toThrowError(/話者「ナースロボ」が見つかりません。候補: /)
+  })
+
+  it('find は似た名前もなければ undefined、複数に一致すれば候補を挙げてエラーにする', () => {
+    const ambiguous = createSpeakerResolver([...speakers, speaker('ずんだもん2', [['ノーマル', 99]])])
+
+    expect(resolver.find('注意')).toBeUndefined()
+    expect(resolver.find('ノーマル')).toBeUndefined()
+    expect(() => ambiguous.find('ずんだ')).toThrowError(
+      '話者「ずんだ」に複数の話者が一致します。候補: ずんだもん (3), ずんだもん2 (99)'
+    )
+  })
+})
+
+describe('parseStringInput - 話者名', () => {
+  const resolver = createSpeakerResolver(speakers)
+
+  it('resolver を渡すと行頭の話者名をスタイルIDに解決する', () => {
+    expect(
+      parseStringInput('ずんだもん:こんにちは\nめたん/あまあま{speed=1.2}:よろしくね\n2:はい', { resolver })
+    ).toEqual([
+      { text: 'こんにちは', speaker: 3 },
+      { text: 'よろしくね', speaker: 0, speedScale: 1.2 },
+      { text: 'はい', speaker: 2 },
+    ])
+  })
+
+  it('話者名に似ていない行頭・resolver が無い場合は本文として読む', () => {
+    expect(parseStringInput('注意:ここは大事\nhttps://example.com', { resolver })).toEqual([
+      { text: '注意:ここは大事' },
+      { text: 'https://example.com' },
+    ])
+    expect(parseStringInput('ずんだもん:こんにちは')).toEqual([{ text: 'ずんだもん:こんにちは' }])
+  })
+
+  it('{...} 付きの話者名が見つからない場合は候補を挙げてエラーにする', () => {
+    expect(() => parseStringInput('ナースロボ{speed=1.2}:こんにちは', { resolver })).toThrowError(
+      /話者「ナースロボ」が見つかりません/
+    )
+  })
+
+  it('hasSpeakerNamePrefix は数字以外の話者指定がある行を見つける', () => {
+    expect(hasSpeakerNamePrefix('1:こんにちは\n10:30に集合')).toBe(false)
+    expect(hasSpeakerNamePrefix('1:こんにちは\\nずんだもん:なのだ')).toBe(true)
+  })
+})
+
+describe('VoicevoxClient - 話者名', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'voicevox-speaker-'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  function createFetch() {
+    return vi.fn<typeof fetch>(async (input) => {
+      const url = new URL(String(input))
+      if (url.pathname === '/speakers') {
+        return new Response(JSON.stringify(speakers))
+      }
+      if (url.pathname === '/audio_query') {
+        return new Response(
+          JSON.stringify({
+            accent_phrases: [],
+            speedScale: 1,
+            pitchScale: 0,
+            intonationScale: 1,
+            volumeScale: 1,
+            prePhonemeLength: 0.1,
+            postPhonemeLength: 0.1,
+            outputSamplingRate: 24000,
+            outputStereo: false,
+          })
+        )
+      }
+      return new Response(createWav(2, Number(url.searchParams.get('speaker'))))
+    })
+  }
+
+  it('resolveSpeaker は設定のエイリアスも使い、数字だけなら話者一覧を取得しない', async () => {
+    const fetchMock = createFetch()
+    const client = new VoicevoxClient({
+      url: 'http://localhost:50021',
+      fetch: fetchMock,
+      speakerAliases: { ナレーター: 'ずんだもん/ささやき' },
+    })
+
+    await expect(client.resolveSpeaker(' 8 ')).resolves.toBe(8)
+    expect(fetchMock).not.toHaveBeenCalled()
+    await expect(client.resolveSpeaker('ナレーター')).resolves.toBe(22)
+    await expect(client.resolveSpeaker('ナースロボ')).rejects.toThrowError(/候補: /)
+  })
+
+  it('generateAudioFile はセグメントごとの話者・読み上げ設定で合成する', async () => {
+    const fetchMock = createFetch()
+    const client = new VoicevoxClient({ url: 'http://localhost:50021', fetch: fetchMock })
+    const output = join(dir, 'segments.wav')
+
+    await client.generateAudioFile(
+      parseStringInput('ずんだもん{speed=1.3}:やったー\nおしまい', { resolver: await client.getSpeakerResolver() }),
+      output,
+      2
+    )
+
+    const syntheses = fetchMock.mock.calls
+      .filter(([input]) => new URL(String(input)).pathname === '/synthesis')
+      .map(([input, init]) => ({
+        speaker: new URL(String(input)).searchParams.get('speaker'),
+        speedScale: JSON.parse(String(init?.body)).speedScale,
+      }))
+    expect(syntheses).toEqual([
+      { speaker: '3', speedScale: 1.3 },
+      { speaker: '2', speedScale: 1 },
+    ])
+    const wav = readFileSync(output)
+    expect(wav.readInt16LE(44)).toBe(3)
+    expect(wav.readInt16LE(44 + 4)).toBe(2)
+  })
+})
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxApi } from '../api'
+import { QueueService } from '../queue/queue-service'
+import { SpeakerWarmupService } from '../services/speaker-warmup-service'
+
+const ENGINE_A = 'http://engine-a:50021'
+const ENGINE_B = 'http://engine-b:50021'
+
+describe('VoicevoxApi - speaker initialization', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('initializeSpeaker は全エンジンの /initialize_speaker を呼ぶ', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(null, { status: 204 }))
+    const api = new VoicevoxApi([ENGINE_A, ENGINE_B])
+
+    await api.initializeSpeaker(3)
+
+    expect(fetchSpy.mock.calls.map(([url]) => String(url))).toEqual([
+      `${ENGINE_A}/initialize_speaker?speaker=3&skip_reinit=true`,
+      `${ENGINE_B}/initialize_speaker?speaker=3&skip_reinit=true`,
+    ])
+    expect(fetchSpy.mock.calls[0][1]).toMatchObject({ method: 'POST' })
+  })
+
+  it('isInitializedSpeaker は全エンジンで読み込み済みの場合のみ true', async () => {
+    vi.spyOn(globalThis, 'fetch').mockImplementation(
+      async (input) => new Response(String(input).startsWith(ENGINE_A) ? 'true' : 'false')
+    )
+
+    expect(await new VoicevoxApi(ENGINE_A).isInitializedSpeaker(3)).toBe(true)
+    expect(await new VoicevoxApi([ENGINE_A, ENGINE_B]).isInitializedSpeaker(3)).toBe(false)
+  })
+})
+
+describe('SpeakerWarmupService', () => {
+  function createService() {
+    const api = {
+      initializeSpeaker: vi.fn().mockResolvedValue(undefined),
+      isInitializedSpeaker: vi.fn().mockResolvedValue(false),
+    }
+    return { api, service: new SpeakerWarmupService(api as unknown as VoicevoxApi) }
+  }
+
+  it('同じ話者の読み込みは一度だけ行う', async () => {
+    const { api, service } = createService()
+
+    await Promise.all([service.warmUp(3), service.warmUp(3)])
+    await service.warmUp(3)
+
+    expect(api.initializeSpeaker).toHaveBeenCalledTimes(1)
+    expect(await service.isInitialized(3)).toBe(true)
+    expect(api.isInitializedSpeaker).not.toHaveBeenCalled()
+  })
+
+  it('失敗した話者は次回再試行する', async () => {
+    const { api, service } = createService()
+    api.initializeSpeaker.mockRejectedValueOnce(new Error('engine down'))
+
+    await expect(service.warmUp(3)).rejects.toThrow('engine down')
+    await service.warmUp(3)
+
+    expect(api.initializeSpeaker).toHaveBeenCalledTimes(2)
+  })
+
+  it('warmUpAll は読み込めなかった話者IDを返す', async () => {
+    const { api, service } = createService()
+    api.initializeSpeaker.mockImplementation(async (speaker: number) => {
+      if (speaker === 8) throw new Error('not found')
+    })
+
+    expect(await service.warmUpAll([1, 8, 3])).toEqual([8])
+  })
+
+  it('未読み込みの話者はエンジンに問い合わせる', async () => {
+    const { api, service } = createService()
+    api.isInitializedSpeaker.mockResolvedValue(true)
+
+    expect(await service.isInitialized(5)).toBe(true)
+    expect(api.isInitializedSpeaker).toHaveBeenCalledWith(5, undefined)
+  })
+})
+
+describe('QueueService - speaker warm-up', () => {
+  it('新しい話者のエンキュー時にバックグラウンドで読み込みを開始する', async () => {
+    const api = {
+      initializeSpeaker: vi.fn().mockResolvedValue(undefined),
+      synthesize: vi.fn().mockReturnValue(new Promise(() => {})),
+    }
+    const speakerWarmup = new SpeakerWarmupService(api as unknown as VoicevoxApi)
+    const queueService = new QueueService(api as unknown as VoicevoxApi, { speakerWarmup })
+    const query = { accent_phrases: [] } as never
+
+    await queueService.enqueueQuery(query, 3, { immediate: false })
+    await queueService.enqueueQuery(query, 3, { immediate: false })
+    await queueService.enqueueQuery(query, 1, { immediate: false, morph: { targetSpeaker: 8, morphRate: 0.5 } })
+
+    expect(api.initializeSpeaker.mock.calls.map(([speaker]) => speaker)).toEqual([3, 1, 8])
+    await queueService.clearQueue()
+  })
+})
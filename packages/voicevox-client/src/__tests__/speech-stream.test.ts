@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxClient } from '../client'
+
+vi.mock('../api', () => ({
+  VoicevoxApi: vi.fn(function () {
+    return {
+      generateQuery: vi.fn(async () => ({
+        accent_phrases: [],
+        speedScale: 1.0,
+        pitchScale: 0.0,
+        intonationScale: 1.0,
+        volumeScale: 1.0,
+        prePhonemeLength: 0.1,
+        postPhonemeLength: 0.1,
+        outputSamplingRate: 24000,
+        outputStereo: false,
+      })),
+      synthesize: vi.fn().mockResolvedValue(new ArrayBuffer(1024)),
+    }
+  }),
+}))
+
+const mockEnqueueQuery = vi.fn()
+const mockClearQueue = vi.fn()
+
+vi.mock('../queue/queue-service', () => ({
+  QueueService: vi.fn(function () {
+    return {
+      enqueueQuery: mockEnqueueQuery,
+      startPlayback: vi.fn(),
+      clearQueue: mockClearQueue,
+      addEventListener: vi.fn(),
+      isStreamingEnabled: vi.fn().mockReturnValue(false),
+    }
+  }),
+}))
+
+describe('VoicevoxClient - createSpeechStream', () => {
+  let client: VoicevoxClient
+  /** キューに追加したアイテムの再生完了を解決する */
+  let finishers: Array<() => void>
+
+  const enqueuedTexts = () => mockEnqueueQuery.mock.calls.map((call) => call[3])
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    finishers = []
+    client = new VoicevoxClient({ url: 'http://localhost:50021', defaultSpeaker: 1, maxSegmentLength: 20 })
+    mockEnqueueQuery.mockImplementation(async (_query, _speaker, options: { waitForEnd?: boolean }) => ({
+      item: { id: 'test' },
+      promises: options.waitForEnd ? { end: new Promise<void>((resolve) => finishers.push(resolve)) } : {},
+    }))
+  })
+
+  it('区切りが確定した文から順にキューに追加し、最後の文は end() まで残す', async () => {
+    const stream = client.createSpeechStream({ speaker: 3 })
+
+    expect(await stream.write('こんにちは。今日')).toMatchObject({ segmentCount: 1, pendingText: '今日' })
+    expect(enqueuedTexts()).toEqual(['こんにちは。'])
+
+    await stream.write('はいい天気ですね！ Let')
+    await stream.write("'s go. Version 3.")
+    expect(enqueuedTexts()).toEqual(['こんにちは。', '今日はいい天気ですね！', "Let's go."])
+
+    const result = await stream.end('14 is out')
+    expect(enqueuedTexts().at(-1)).toBe('Version 3.14 is out')
+    expect(result).toMatchObject({ status: 'queued', mode: 'file', segmentCount: 4, pendingText: '' })
+    expect(mockEnqueueQuery.mock.calls.every((call) => call[1] === 3)).toBe(true)
+  })
+
+  it('immediate は最初の文にだけ効かせる', async () => {
+    const stream = client.createSpeechStream({ immediate: true })
+
+    await stream.write('一文目。二文目。')
+    await stream.end('三文目。')
+
+    expect(mockClearQueue).toHaveBeenCalledTimes(1)
+    expect(enqueuedTexts()).toEqual(['一文目。', '二文目。', '三文目。'])
+  })
+
+  it('区切りが来ないまま maxSegmentLength を超えたら節の区切りで先に読み上げる', async () => {
+    const stream = client.createSpeechStream()
+
+    const result = await stream.write('あいうえお、かきくけこ、さしすせそ、たちつてと、なにぬ')
+
+    expect(enqueuedTexts()).toEqual(['あいうえお、かきくけこ、さしすせそ、'])
+    expect(result.pendingText).toBe('たちつてと、なにぬ')
+  })
+
+  it('waitForEnd の end() は最後の文の再生完了まで待つ', async () => {
+    const stream = client.createSpeechStream({ waitForEnd: true })
+    await stream.write('一文目。')
+
+    let ended = false
+    const end = stream.end('二文目。').then((result) => {
+      ended = true
+      return result
+    })
+    await vi.waitFor(() => expect(finishers).toHaveLength(2))
+    expect(ended).toBe(false)
+
+    finishers[1]()
+    await expect(end).resolves.toMatchObject({ status: 'played', segmentCount: 2 })
+  })
+
+  it('cancel() はキューに追加済みの文も中断し、以降の書き込みはエラーにする', async () => {
+    const stream = client.createSpeechStream()
+    await stream.write('一文目。二文目。三')
+
+    await stream.cancel()
+
+    const signals = mockEnqueueQuery.mock.calls.map((call) => call[2].signal as AbortSignal)
+    expect(signals).toHaveLength(2)
+    expect(signals.every((signal) => signal.aborted)).toBe(true)
+    expect(stream.isClosed).toBe(true)
+    await expect(stream.write('四文目。')).rejects.toThrow('読み上げストリームは終了しています')
+  })
+
+  it('end()・cancel() の後は呼び出し元のシグナルのリスナーを解除する', async () => {
+    const ended = new AbortController()
+    const cancelled = new AbortController()
+    const endedRemove = vi.spyOn(ended.signal, 'removeEventListener')
+    const cancelledRemove = vi.spyOn(cancelled.signal, 'removeEventListener')
+
+    await client.createSpeechStream({ signal: ended.signal }).end('おしまい。')
+    await client.createSpeechStream({ signal: cancelled.signal }).cancel()
+
+    expect(endedRemove).toHaveBeenCalledWith('abort', expect.any(Function))
+    expect(cancelledRemove).toHaveBeenCalledWith('abort', expect.any(Function))
+  })
+
+  it('合成に失敗した文は結果のエラーとして返し、ストリームは続ける', async () => {
+    mockEnqueueQuery.mockRejectedValueOnce(new Error('engine down'))
+    const stream = client.createSpeechStream()
+
+    expect(await stream.write('一文目。二文目。')).toMatchObject({ status: 'error', errorMessage: 'engine down' })
+    expect(await stream.write('三文目。')).toMatchObject({ status: 'queued', segmentCount: 1 })
+    expect(await stream.end()).toMatchObject({ status: 'error', segmentCount: 2, errorMessage: 'engine down' })
+  })
+})
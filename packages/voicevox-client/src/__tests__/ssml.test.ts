@@ -0,0 +1,203 @@
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxClient } from '../client'
+import { applySsmlSegment, isSsml, parseSsml, resolveSsmlVoices } from '../ssml'
+import type { AudioQuery, Speaker } from '../types'
+import { concatWav } from '../wav'
+
+const BASE_URL = 'http://localhost:50021'
+
+const query: AudioQuery = {
+  accent_phrases: [],
+  speedScale: 1.0,
+  pitchScale: 0.0,
+  intonationScale: 1.0,
+  volumeScale: 1.0,
+  prePhonemeLength: 0.1,
+  postPhonemeLength: 0.1,
+  outputSamplingRate: 24000,
+  outputStereo: false,
+}
+
+const speakers: Speaker[] = [
+  {
+    name: 'ずんだもん',
+    speaker_uuid: 'zundamon',
+    styles: [
+      { name: 'ノーマル', id: 3, type: 'talk' },
+      { name: 'あまあま', id: 1, type: 'talk' },
+    ],
+    version: '0.0.0',
+  },
+]
+
+/**
+ * PCM 16bit モノラルの WAV（サンプル値はすべて fill）
+ */
+function createWav(samples: number, fill: number, sampleRate = 24000): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples * 2)
+  const view = new DataView(buffer)
+  const bytes = new Uint8Array(buffer)
+  bytes.set(new TextEncoder().encode('RIFF'), 0)
+  view.setUint32(4, 36 + samples * 2, true)
+  bytes.set(new TextEncoder().encode('WAVEfmt '), 8)
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, 1, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * 2, true)
+  view.setUint16(32, 2, true)
+  view.setUint16(34, 16, true)
+  bytes.set(new TextEncoder().encode('data'), 36)
+  view.setUint32(40, samples * 2, true)
+  for (let i = 0; i < samples; i++) view.setInt16(44 + i * 2, fill, true)
+  return buffer
+}
+
+describe('parseSsml', () => {
+  it('<speak> で始まる文字列だけを SSML とみなす', () => {
+    expect(isSsml('<speak>こんにちは</speak>')).toBe(true)
+    expect(isSsml('<?xml version="1.0"?>\n<speak version="1.1">こんにちは</speak>')).toBe(true)
+    expect(isSsml('こんにちは<speak>')).toBe(false)
+  })
+
+  it('<voice>・<prosody> ごとにセグメントを分け、入れ子の prosody は合成する', () => {
+    const segments = parseSsml(
+      '<speak>はじめに。<voice id="3"><prosody rate="150%" volume="+6dB">早口で<prosody rate="x-slow" pitch="+2st">ゆっくり</prosody></prosody></voice>おわり</speak>'
+    )
+
+    expect(segments.map((s) => s.text)).toEqual(['はじめに。', '早口で', 'ゆっくり', 'おわり'])
+    expect(segments[0]).toEqual({ text: 'はじめに。', prosody: { rate: 1, pitch: 0, volume: 1 } })
+    expect(segments[1].speaker).toBe(3)
+    expect(segments[1].prosody.rate).toBe(1.5)
+    expect(segments[1].prosody.volume).toBeCloseTo(1.995, 3)
+    expect(segments[2].prosody.rate).toBe(0.75)
+    expect(segments[2].prosody.pitch).toBeCloseTo((2 * Math.LN2) / 12, 6)
+    expect(segments[3].speaker).toBeUndefined()
+  })
+
+  it('<break> は前のセグメントの後ろ、先頭なら次のセグメントの前の無音になる', () => {
+    const segments = parseSsml(
+      '<speak><break time="300ms"/>一つ目<break time="1.5s"/><break strength="weak"/>二つ目<break/></speak>'
+    )
+
+    expect(segments).toMatchObject([
+      { text: '一つ目', pauseBefore: 0.3, pauseAfter: 1.75 },
+      { text: '二つ目', pauseAfter: 0.5 },
+    ])
+  })
+
+  it('<sub> は alias を読み、<say-as> は文字・数字を 1 文字ずつ読む', () => {
+    const [segment] = parseSsml(
+      '<speak><sub alias="ダブリューダブリューダブリュー">WWW</sub>と<say-as interpret-as="characters">API</say-as>、' +
+        '<say-as interpret-as="telephone">03-1234</say-as>&amp;<say-as interpret-as="cardinal">42</say-as></speak>'
+    )
+
+    expect(segment.text).toBe('ダブリューダブリューダブリューとエーピーアイ、ゼロサン、イチニーサンヨン&42')
+  })
+
+  it('未対応の要素は中身だけ読み、<p>・<s> は区切りにする', () => {
+    const segments = parseSsml('<speak><p><s>一文目。</s><s><emphasis>強調</emphasis>二文目。</s></p></speak>')
+
+    expect(segments.map((s) => s.text)).toEqual(['一文目。', '強調二文目。'])
+  })
+
+  it('タグの対応が崩れている・値が不正な場合はエラーにする', () => {
+    expect(() => parseSsml('<speak><prosody rate="fast">こんにちは</speak>')).toThrowError(
+      'SSML の解析に失敗しました: </speak> に対応する開始タグがありません'
+    )
+    expect(() => parseSsml('<speak><voice>こんにちは</voice></speak>')).toThrowError(/name か id/)
+    expect(() => parseSsml('<speak><prosody rate="速く">こんにちは</prosody></speak>')).toThrowError(/rate/)
+    expect(() => parseSsml('<speak><break time="1分"/></speak>')).toThrowError(/break/)
+  })
+
+  it('<voice name> はキャラクター名・スタイル名で解決する', () => {
+    const segments = parseSsml(
+      '<speak><voice name="ずんだもん">a</voice><voice name="ずんだもん/あまあま">b</voice></speak>'
+    )
+
+    expect(resolveSsmlVoices(segments, speakers).map((s) => s.speaker)).toEqual([3, 1])
+    expect(() => resolveSsmlVoices(parseSsml('<speak><voice name="めたん">a</voice></speak>'), speakers)).toThrowError(
+      /一致する話者がいません（ずんだもん）/
+    )
+  })
+
+  it('applySsmlSegment は話速・音量を掛け、音高は範囲内に収めて足す', () => {
+    const adjusted = { ...query, speedScale: 1.2 }
+
+    applySsmlSegment(adjusted, { prosody: { rate: 1.5, pitch: 0.3, volume: 0.5 }, pauseAfter: 1 })
+
+    expect(adjusted.speedScale).toBeCloseTo(1.8, 6)
+    expect(adjusted).toMatchObject({
+      pitchScale: 0.15,
+      volumeScale: 0.5,
+      prePhonemeLength: 0.1,
+      postPhonemeLength: 1,
+    })
+  })
+})
+
+describe('concatWav', () => {
+  it('同じフォーマットの WAV の PCM をつなげてヘッダを書き直す', () => {
+    const merged = new DataView(concatWav([createWav(2, 1), createWav(3, 2)]))
+
+    expect(merged.byteLength).toBe(44 + 10)
+    expect(merged.getUint32(4, true)).toBe(36 + 10)
+    expect(merged.getUint32(40, true)).toBe(10)
+    expect([0, 1, 2, 3, 4].map((i) => merged.getInt16(44 + i * 2, true))).toEqual([1, 1, 2, 2, 2])
+  })
+
+  it('フォーマットが異なる・WAV でないデータはエラーにする', () => {
+    expect(() => concatWav([createWav(1, 0), createWav(1, 0, 44100)])).toThrowError(/フォーマットが 1 番目と異なります/)
+    expect(() => concatWav([createWav(1, 0), new ArrayBuffer(8)])).toThrowError(/RIFF\/WAVE ではありません/)
+  })
+})
+
+describe('VoicevoxClient - SSML', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'voicevox-ssml-'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+    vi.restoreAllMocks()
+  })
+
+  it('generateSsmlAudioFile はセグメントごとに合成して 1 つの WAV に保存する', async () => {
+    const fetchMock = vi.fn<typeof fetch>(async (input) => {
+      const url = new URL(String(input))
+      switch (url.pathname) {
+        case '/speakers':
+          return new Response(JSON.stringify(speakers))
+        case '/audio_query':
+          return new Response(JSON.stringify(query))
+        case '/synthesis':
+          return new Response(createWav(4, Number(url.searchParams.get('speaker'))))
+        default:
+          return new Response('Not Found', { status: 404 })
+      }
+    })
+    const client = new VoicevoxClient({ url: BASE_URL, defaultSpeaker: 2, defaultSpeedScale: 1.2, fetch: fetchMock })
+    const output = join(dir, 'ssml.wav')
+
+    await client.generateSsmlAudioFile(
+      '<speak>こんにちは<break time="800ms"/><voice name="ずんだもん"><prosody rate="slow">なのだ</prosody></voice></speak>',
+      output
+    )
+
+    const synthesis = fetchMock.mock.calls.filter(([input]) => new URL(String(input)).pathname === '/synthesis')
+    expect(synthesis.map(([input]) => new URL(String(input)).searchParams.get('speaker'))).toEqual(['2', '3'])
+    expect(JSON.parse(String(synthesis[0][1]?.body))).toMatchObject({ speedScale: 1.2, postPhonemeLength: 0.8 })
+    expect(JSON.parse(String(synthesis[1][1]?.body)).speedScale).toBeCloseTo(0.9, 6)
+
+    const wav = readFileSync(output)
+    expect(wav.readUInt32LE(40)).toBe(16)
+    expect(wav.readInt16LE(44)).toBe(2)
+    expect(wav.readInt16LE(44 + 8)).toBe(3)
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import type { AccentPhraseTiming, AudioTiming } from '../audio-timing'
+import { createSubtitleCues, formatSubtitles } from '../subtitles'
+
+/** モーラ 1 つを 0.1 秒、句読点の間を 0.2 秒としたタイミング（[読み, 後ろに間があるか]） */
+const createTiming = (phrases: Array<[string, boolean?]>, offset = 0): AudioTiming => {
+  let cursor = offset + 0.1
+  const round = (seconds: number) => Math.round(seconds * 1000) / 1000
+  const accentPhrases = phrases.map(([text, pause]): AccentPhraseTiming => {
+    const start = cursor
+    const moras = (text.match(/.[ァィゥェォャュョ]?/g) ?? []).map((char) => {
+      const mora = { text: char, vowel: 'a', start: round(cursor), vowelStart: round(cursor), end: round(cursor + 0.1) }
+      cursor += 0.1
+      return mora
+    })
+    const phrase: AccentPhraseTiming = { text, start: round(start), end: round(cursor), moras }
+    if (pause) {
+      phrase.pause = { start: round(cursor), end: round(cursor + 0.2) }
+      cursor += 0.2
+    }
+    return phrase
+  })
+  return { duration: round(cursor + 0.1 - offset), accentPhrases }
+}
+
+describe('createSubtitleCues', () => {
+  const hello = { text: 'こんにちは、世界。', timing: createTiming([['コンニチワ', true], ['セカイ']]) }
+
+  it('句読点ごとに間のあるアクセント句と対応させ、末尾の読点・句点は表示しない', () => {
+    expect(createSubtitleCues([hello])).toEqual([
+      { start: 0.1, end: 0.6, lines: ['こんにちは'] },
+      { start: 0.8, end: 1.1, lines: ['世界'] },
+    ])
+  })
+
+  it('accent-phrase では文末までアクセント句を詰める', () => {
+    expect(createSubtitleCues([hello], { split: 'accent-phrase' })).toEqual([
+      { start: 0.1, end: 1.1, lines: ['こんにちは、世界'] },
+    ])
+  })
+
+  it('1 行に収まらない文はアクセント句の区切りで行と字幕を分ける', () => {
+    const source = {
+      text: '今日はとても良い天気ですね。',
+      timing: createTiming([['キョウワ'], ['トテモ'], ['ヨイ'], ['テンキデスネ']]),
+    }
+
+    const cues = createSubtitleCues([source], { maxLineLength: 6, maxLines: 2 })
+
+    expect(cues.map((cue) => cue.lines)).toEqual([['今日はとても', '良い'], ['天気ですね']])
+    expect(cues[0]).toMatchObject({ start: 0.1, end: 0.9 })
+    expect(cues[1]).toMatchObject({ start: 0.9, end: 1.5 })
+  })
+
+  it('句読点と間の数が合わない場合は文全体をアクセント句の割合で分ける', () => {
+    const source = { text: 'はい、はい', timing: createTiming([['ハイ'], ['ハイ']]) }
+
+    expect(createSubtitleCues([source]).map((cue) => cue.lines)).toEqual([['はい、はい']])
+  })
+})
+
+describe('formatSubtitles', () => {
+  const cues = createSubtitleCues([
+    { text: 'こんにちは。', timing: createTiming([['コンニチワ']]), speakerName: '四国めたん' },
+    { text: 'なのだ。', timing: createTiming([['ナノダ']], 0.8), speakerName: 'ずんだもん' },
+  ])
+
+  it('話者が複数なら SRT は行頭に話者名を付ける', () => {
+    expect(formatSubtitles(cues, 'srt')).toBe(
+      '1\n00:00:00,100 --> 00:00:00,600\n四国めたん: こんにちは\n\n2\n00:00:00,900 --> 00:00:01,200\nずんだもん: なのだ\n'
+    )
+  })
+
+  it('WebVTT はヘッダーと声のタグを付ける', () => {
+    expect(formatSubtitles(cues, 'vtt')).toBe(
+      'WEBVTT\n\n00:00:00.100 --> 00:00:00.600\n<v 四国めたん>こんにちは\n\n00:00:00.900 --> 00:00:01.200\n<v ずんだもん>なのだ\n'
+    )
+  })
+
+  it('話者が 1 人なら名前を付けない', () => {
+    const single = createSubtitleCues([
+      { text: 'こんにちは', timing: createTiming([['コンニチワ']]), speakerName: 'A' },
+    ])
+
+    expect(formatSubtitles(single, 'srt')).toBe('1\n00:00:00,100 --> 00:00:00,600\nこんにちは\n')
+  })
+})
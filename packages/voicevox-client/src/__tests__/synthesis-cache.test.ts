@@ -0,0 +1,190 @@
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxApi } from '../api'
+import { VoicevoxClient } from '../client'
+import { createSynthesisCacheKey, SynthesisCache } from '../synthesis-cache'
+import type { AudioQuery } from '../types'
+
+const BASE_URL = 'http://localhost:50021'
+
+const query: AudioQuery = {
+  accent_phrases: [],
+  speedScale: 1.0,
+  pitchScale: 0.0,
+  intonationScale: 1.0,
+  volumeScale: 1.0,
+  prePhonemeLength: 0.1,
+  postPhonemeLength: 0.1,
+  outputSamplingRate: 24000,
+  outputStereo: false,
+}
+
+const wav = (size: number) => new Uint8Array(size).fill(1).buffer
+
+/**
+ * エンドポイントごとに応答を返す fetch（合成の呼び出し回数を数える）
+ */
+function createEngineFetch(version = '0.25.0') {
+  return vi.fn<typeof fetch>(async (input) => {
+    const url = new URL(String(input))
+    switch (url.pathname) {
+      case '/version':
+        return new Response(JSON.stringify(version))
+      case '/engine_manifest':
+        return new Response(JSON.stringify({ name: 'VOICEVOX Engine', brand_name: 'VOICEVOX' }))
+      case '/audio_query':
+        return new Response(JSON.stringify(query))
+      case '/synthesis':
+      case '/synthesis_morphing':
+        return new Response(wav(16))
+      default:
+        return new Response('Not Found', { status: 404 })
+    }
+  })
+}
+
+const synthesisCalls = (fetchMock: ReturnType<typeof createEngineFetch>) =>
+  fetchMock.mock.calls.filter(([input]) => new URL(String(input)).pathname.startsWith('/synthesis')).length
+
+describe('createSynthesisCacheKey', () => {
+  it('キーの順序が違っても同じ内容なら同じキーになる', async () => {
+    const reordered = Object.fromEntries(Object.entries(query).reverse()) as unknown as AudioQuery
+
+    const a = await createSynthesisCacheKey({ speaker: 1, query, engine: 'VOICEVOX@0.25.0' })
+    const b = await createSynthesisCacheKey({ speaker: 1, query: reordered, engine: 'VOICEVOX@0.25.0' })
+
+    expect(a).toBe(b)
+    expect(a).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('話者・エンジンのバージョン・モーフィングが違えば別のキーになる', async () => {
+    const base = await createSynthesisCacheKey({ speaker: 1, query, engine: 'VOICEVOX@0.25.0' })
+
+    expect(await createSynthesisCacheKey({ speaker: 2, query, engine: 'VOICEVOX@0.25.0' })).not.toBe(base)
+    expect(await createSynthesisCacheKey({ speaker: 1, query, engine: 'VOICEVOX@0.25.1' })).not.toBe(base)
+    expect(
+      await createSynthesisCacheKey({
+        speaker: 1,
+        query,
+        engine: 'VOICEVOX@0.25.0',
+        morph: { targetSpeaker: 3, morphRate: 0.5 },
+      })
+    ).not.toBe(base)
+  })
+})
+
+describe('SynthesisCache', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'voicevox-synthesis-cache-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('件数の上限を超えたら最も使われていないものから追い出す', async () => {
+    const cache = new SynthesisCache({ maxMemoryEntries: 2 })
+    await cache.set('a', wav(1))
+    await cache.set('b', wav(1))
+    await cache.get('a')
+    await cache.set('c', wav(1))
+
+    expect(await cache.get('a')).toBeDefined()
+    expect(await cache.get('b')).toBeUndefined()
+    expect(await cache.get('c')).toBeDefined()
+    expect(cache.getStats()).toMatchObject({ hits: 3, misses: 1, memoryEntries: 2 })
+  })
+
+  it('バイト数の上限を超えたら古いものから追い出す', async () => {
+    const cache = new SynthesisCache({ maxMemoryBytes: 10 })
+    await cache.set('a', wav(6))
+    await cache.set('b', wav(6))
+
+    expect(await cache.get('a')).toBeUndefined()
+    expect(cache.getStats().memoryBytes).toBe(6)
+  })
+
+  it('返した WAV を書き換えてもキャッシュには影響しない', async () => {
+    const cache = new SynthesisCache()
+    await cache.set('a', wav(4))
+
+    new Uint8Array((await cache.get('a'))!).fill(0)
+
+    expect(new Uint8Array((await cache.get('a'))!)[0]).toBe(1)
+  })
+
+  it('ディスクに保存した WAV は別のインスタンスから読める', async () => {
+    const key = 'f'.repeat(64)
+    await new SynthesisCache({ diskDir: dir }).set(key, wav(8))
+
+    const restored = await new SynthesisCache({ diskDir: dir }).get(key)
+
+    expect(readdirSync(dir)).toEqual([`${key}.wav`])
+    expect(restored?.byteLength).toBe(8)
+  })
+})
+
+describe('VoicevoxApi - synthesisCache', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('同じ話者・クエリの合成はエンジンに送らずキャッシュから返す', async () => {
+    const fetchMock = createEngineFetch()
+    const api = new VoicevoxApi(BASE_URL, { fetch: fetchMock, synthesisCache: new SynthesisCache() })
+
+    await api.synthesize(query, 1)
+    const second = await api.synthesize(query, 1)
+    await api.synthesize(query, 2)
+
+    expect(second.byteLength).toBe(16)
+    expect(synthesisCalls(fetchMock)).toBe(2)
+  })
+
+  it('モーフィング合成もキャッシュする', async () => {
+    const fetchMock = createEngineFetch()
+    const api = new VoicevoxApi(BASE_URL, { fetch: fetchMock, synthesisCache: new SynthesisCache() })
+
+    await api.synthesizeMorphing(query, 1, 3, 0.5)
+    await api.synthesizeMorphing(query, 1, 3, 0.5)
+    await api.synthesize(query, 1)
+
+    expect(synthesisCalls(fetchMock)).toBe(2)
+  })
+
+  it('エンジンのバージョンが違えばキャッシュを共有しない', async () => {
+    const cache = new SynthesisCache()
+    const oldEngine = createEngineFetch('0.24.0')
+    const newEngine = createEngineFetch('0.25.0')
+
+    await new VoicevoxApi(BASE_URL, { fetch: oldEngine, synthesisCache: cache }).synthesize(query, 1)
+    await new VoicevoxApi(BASE_URL, { fetch: newEngine, synthesisCache: cache }).synthesize(query, 1)
+
+    expect(synthesisCalls(newEngine)).toBe(1)
+  })
+
+  it('VoicevoxClient の音声ファイル生成でもキャッシュを使う', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'voicevox-synthesis-cache-'))
+    const fetchMock = createEngineFetch()
+    const synthesisCache = new SynthesisCache()
+    const client = new VoicevoxClient({ url: BASE_URL, defaultSpeaker: 1, fetch: fetchMock, synthesisCache })
+
+    try {
+      await client.generateAudioFile('ビルドが完了しました', join(dir, 'a.wav'))
+      await client.generateAudioFile('ビルドが完了しました', join(dir, 'b.wav'))
+    } finally {
+      rmSync(dir, { recursive: true, force: true })
+    }
+
+    expect(client.getSynthesisCache()).toBe(synthesisCache)
+    expect(synthesisCalls(fetchMock)).toBe(1)
+  })
+})
@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxClient } from '../client'
+import { createTextNormalizer, normalizeText } from '../text-normalize'
+import { formatSpeakResponse } from '../utils'
+
+describe('normalizeText', () => {
+  it('日付・時刻・バージョン・単位・記号・略語を読みやすい日本語にする', () => {
+    expect(normalizeText('2026/10/18 10:30 に v0.8.1 をリリース')).toBe(
+      '2026年10月18日 10時30分 に バージョン0てん8てん1 をリリース'
+    )
+    expect(normalizeText('3.5GB のうち 40% を使用、応答は 120ms')).toBe(
+      '3.5ギガバイト のうち 40パーセント を使用、応答は 120ミリ秒'
+    )
+    expect(normalizeText('3~5 日後に API と JSON を Q&A で説明')).toBe(
+      '3から5 日後に エーピーアイ と ジェイソン を キューアンドエー で説明'
+    )
+  })
+
+  it('日付や時刻として不正な値・小数は書き換えない', () => {
+    expect(normalizeText('2026/13/40 と 25:99 と 3.14')).toBe('2026/13/40 と 25:99 と 3.14')
+    expect(normalizeText('9:00 に 192.168.0.1 へ')).toBe('9時 に 192てん168てん0てん1 へ')
+    expect(normalizeText('10:30~11:00')).toBe('10時30分から11時')
+  })
+
+  it('追加のルールは組み込みのルールより先に適用し、builtin: false で組み込みのルールを外せる', () => {
+    const rules = [
+      { pattern: '\\bk8s\\b', replacement: 'クバネティス', flags: 'i' },
+      { pattern: /MCP/, replacement: 'エムシーピー' },
+      { pattern: '(\\d+)件', replacement: (_: string, count: string) => `${count}けん` },
+    ]
+
+    expect(normalizeText('K8s と MCP を 3件', { rules })).toBe('クバネティス と エムシーピー を 3けん')
+    expect(normalizeText('MCP の API', { rules, builtin: false })).toBe('エムシーピー の API')
+  })
+
+  it('不正なルールは作成時にエラーにする', () => {
+    expect(() => createTextNormalizer({ rules: [{ pattern: '(', replacement: '' }] })).toThrowError(
+      /テキスト正規化のルール 1 が不正です/
+    )
+    expect(() => createTextNormalizer({ rules: [{ pattern: '', replacement: 'a' }] })).toThrowError(/pattern/)
+  })
+})
+
+describe('VoicevoxClient - textNormalize', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  function createFetch() {
+    return vi.fn<typeof fetch>(async (input) => {
+      const url = new URL(String(input))
+      if (url.pathname === '/audio_query') {
+        return new Response(
+          JSON.stringify({
+            accent_phrases: [],
+            speedScale: 1,
+            pitchScale: 0,
+            intonationScale: 1,
+            volumeScale: 1,
+            prePhonemeLength: 0.1,
+            postPhonemeLength: 0.1,
+            outputSamplingRate: 24000,
+            outputStereo: false,
+          })
+        )
+      }
+      return new Response(new Uint8Array(8).buffer)
+    })
+  }
+
+  const queriedText = (fetchMock: ReturnType<typeof createFetch>) =>
+    fetchMock.mock.calls
+      .map(([input]) => new URL(String(input)))
+      .filter((url) => url.pathname === '/audio_query')
+      .map((url) => url.searchParams.get('text'))
+
+  it('正規化したテキストでクエリを生成し、結果に読み上げたテキストを返す', async () => {
+    const fetchMock = createFetch()
+    const client = new VoicevoxClient({
+      url: 'http://localhost:50021',
+      fetch: fetchMock,
+      useStreaming: false,
+      textNormalize: { rules: [{ pattern: 'ずんだ', replacement: 'ずんだもち' }] },
+    })
+
+    const result = await client.enqueueAudioGeneration('ずんだの API', { immediate: false })
+
+    expect(queriedText(fetchMock)).toEqual(['ずんだもちの エーピーアイ'])
+    expect(result).toMatchObject({ textPreview: 'ずんだの API', normalizedText: 'ずんだもちの エーピーアイ' })
+    expect(formatSpeakResponse(result)).toBe('Queued (file): "ずんだの API"\nRead as: "ずんだもちの エーピーアイ"')
+  })
+
+  it('正規化を設定しない場合はテキストを変えない', async () => {
+    const fetchMock = createFetch()
+    const client = new VoicevoxClient({ url: 'http://localhost:50021', fetch: fetchMock, useStreaming: false })
+
+    const result = await client.enqueueAudioGeneration('API', { immediate: false })
+
+    expect(queriedText(fetchMock)).toEqual(['API'])
+    expect(result.normalizedText).toBeUndefined()
+  })
+})
@@ -0,0 +1,128 @@
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { VoicevoxClient } from '../client'
+import { preprocessText } from '../text-preprocess'
+
+const MARKDOWN = `## セットアップ手順
+
+まず **リポジトリ** を _クローン_ します。
+詳しくは [README](https://github.com/kajidog/mcp-tts-voicevox#readme) を見てください。
+
+1. \`pnpm install\` を実行
+2. ~~npm~~ pnpm でビルド
+- [x] 完了
+
+\`\`\`bash
+pnpm build
+\`\`\`
+
+| 項目 | 値 |
+|------|----|
+| 話者 | ずんだもん |
+
+> 参考: https://www.example.com/docs/page?id=1
+---
+[ref]: https://example.com`
+
+describe('preprocessText', () => {
+  it('Markdown の記号を外し、見出し・リスト項目・表の行を別のブロックにする', () => {
+    expect(preprocessText(MARKDOWN)).toEqual([
+      'セットアップ手順',
+      'まず リポジトリ を クローン します。\n詳しくは README を見てください。',
+      'pnpm install を実行',
+      'npm pnpm でビルド',
+      '完了',
+      'コードは省略します。',
+      '項目、値',
+      '話者、ずんだもん',
+      '参考: example.com',
+    ])
+  })
+
+  it('コードブロックは読まない・そのまま読むも選べる', () => {
+    const text = '前\n```ts\nconst a = 1\n```\n後'
+
+    expect(preprocessText(text, { codeBlocks: 'strip' })).toEqual(['前', '後'])
+    expect(preprocessText(text, { codeBlocks: 'keep' })).toEqual(['前', 'const a = 1', '後'])
+    // 閉じられていないフェンスは末尾までコードとみなす
+    expect(preprocessText('前\n~~~\nconst a = 1')).toEqual(['前', 'コードは省略します。'])
+  })
+
+  it('無効にしたルールは適用しない', () => {
+    const text = '# 見出し\n- **項目** は [こちら](https://example.com)\n| a | b |'
+
+    expect(
+      preprocessText(text, {
+        headings: false,
+        lists: false,
+        emphasis: false,
+        links: false,
+        tables: false,
+      })
+    ).toEqual([text])
+  })
+
+  it('識別子の中のアンダースコアやかけ算の記号は強調とみなさない', () => {
+    expect(preprocessText('snake_case_name と 2 * 3 * 4')).toEqual(['snake_case_name と 2 * 3 * 4'])
+  })
+})
+
+describe('VoicevoxClient - textPreprocess', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'voicevox-preprocess-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  function createFetch() {
+    return vi.fn<typeof fetch>(async (input) => {
+      const url = new URL(String(input))
+      if (url.pathname === '/audio_query') {
+        return new Response(
+          JSON.stringify({
+            accent_phrases: [],
+            speedScale: 1,
+            pitchScale: 0,
+            intonationScale: 1,
+            volumeScale: 1,
+            prePhonemeLength: 0.1,
+            postPhonemeLength: 0.1,
+            outputSamplingRate: 24000,
+            outputStereo: false,
+          })
+        )
+      }
+      return new Response(new Uint8Array(8).buffer)
+    })
+  }
+
+  const queriedText = (fetchMock: ReturnType<typeof createFetch>) =>
+    fetchMock.mock.calls
+      .map(([input]) => new URL(String(input)))
+      .filter((url) => url.pathname === '/audio_query')
+      .map((url) => url.searchParams.get('text'))
+
+  it('設定した場合だけ generateAudioFile のテキストを前処理する', async () => {
+    const withPreprocess = createFetch()
+    const withoutPreprocess = createFetch()
+
+    await new VoicevoxClient({
+      url: 'http://localhost:50021',
+      fetch: withPreprocess,
+      textPreprocess: {},
+    }).generateAudioFile('**重要**: [詳細](https://example.com)', join(dir, 'a.wav'))
+    await new VoicevoxClient({ url: 'http://localhost:50021', fetch: withoutPreprocess }).generateAudioFile(
+      '**重要**',
+      join(dir, 'b.wav')
+    )
+
+    expect(queriedText(withPreprocess)).toEqual(['重要: 詳細'])
+    expect(queriedText(withoutPreprocess)).toEqual(['**重要**'])
+  })
+})
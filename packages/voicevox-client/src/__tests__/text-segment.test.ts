@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest'
+import { segmentText, segmentTexts, splitSentences, takeCompleteSentences } from '../text-segment'
+import { splitText } from '../utils'
+
+const sentences = (text: string) => splitSentences(text).map((sentence) => sentence.text)
+
+describe('splitSentences', () => {
+  it('日本語の句点・感嘆符・疑問符で区切る', () => {
+    expect(sentences('おはよう。元気？はい！')).toEqual(['おはよう。', '元気？', 'はい！'])
+  })
+
+  it('助詞や接続詞の文字（し・で・て）では区切らない', () => {
+    expect(sentences('雨が降ったし、風も強いのでやめておこう')).toEqual(['雨が降ったし、風も強いのでやめておこう'])
+  })
+
+  it('英語の . ! ? は後ろに空白か文末があるときだけ区切る', () => {
+    expect(sentences('Hello world. How are you? Great!')).toEqual(['Hello world.', 'How are you?', 'Great!'])
+    expect(sentences('if (a!=b) return')).toEqual(['if (a!=b) return'])
+  })
+
+  it('小数・バージョン番号・ドメインの . では区切らない', () => {
+    expect(sentences('Pi is 3.14 and v0.8.1 is on example.com now. Done.')).toEqual([
+      'Pi is 3.14 and v0.8.1 is on example.com now.',
+      'Done.',
+    ])
+  })
+
+  it('略語・頭文字・小文字で続く . では区切らない', () => {
+    expect(sentences('Dr. Smith met J. K. Rowling, e.g. at the U.S. office. Then they left.')).toEqual([
+      'Dr. Smith met J. K. Rowling, e.g. at the U.S. office.',
+      'Then they left.',
+    ])
+    expect(sentences('It costs approx. 5 dollars.')).toEqual(['It costs approx. 5 dollars.'])
+  })
+
+  it('日本語と英語が混ざった文も区切る', () => {
+    expect(sentences('設定は完了です.Next step? はい、次へ進みます。')).toEqual([
+      '設定は完了です.',
+      'Next step?',
+      'はい、次へ進みます。',
+    ])
+  })
+
+  it('かぎ括弧・丸括弧・引用符の中では区切らない', () => {
+    expect(sentences('彼は「本当？嘘でしょ。」と言った。（注：未確認です。）次へ。')).toEqual([
+      '彼は「本当？嘘でしょ。」と言った。',
+      '（注：未確認です。）次へ。',
+    ])
+    expect(sentences('She said "Hi. Bye." and left. OK.')).toEqual(['She said "Hi. Bye." and left.', 'OK.'])
+  })
+
+  it('文末の記号に続く記号・閉じ括弧は前の文に含める', () => {
+    expect(sentences('えっ！？本当に…。Really?! Wait...')).toEqual(['えっ！？', '本当に…。', 'Really?!', 'Wait...'])
+  })
+
+  it('改行は常に区切りにし、閉じられていない括弧も改行で打ち切る', () => {
+    expect(splitSentences('一行目\n（閉じない括弧。\n三行目。')).toEqual([
+      { text: '一行目', newline: false },
+      { text: '（閉じない括弧。', newline: true },
+      { text: '三行目。', newline: true },
+    ])
+  })
+})
+
+describe('takeCompleteSentences', () => {
+  it('最後の文は続きが届くまで残し、改行で終わっていれば確定させる', () => {
+    expect(takeCompleteSentences('こんにちは。今日は ')).toEqual({ sentences: ['こんにちは。'], rest: '今日は ' })
+    expect(takeCompleteSentences('Pi is 3.')).toEqual({ sentences: [], rest: 'Pi is 3.' })
+    expect(takeCompleteSentences('「本当？嘘')).toEqual({ sentences: [], rest: '「本当？嘘' })
+    expect(takeCompleteSentences('一行目\n二行目\n')).toEqual({ sentences: ['一行目', '二行目'], rest: '' })
+  })
+})
+
+describe('segmentText', () => {
+  it('短い文は minLength に達するまで次の文とつなげる', () => {
+    const text = 'はい。わかりました。それでは始めましょう。準備はいいですか。'
+
+    expect(segmentText(text, { minLength: 10, firstMaxLength: 100 })).toEqual([
+      'はい。わかりました。',
+      'それでは始めましょう。',
+      '準備はいいですか。',
+    ])
+    expect(segmentText(text, { minLength: 100, firstMaxLength: 100 })).toEqual([text])
+  })
+
+  it('minLength・firstMaxLength を指定しなければ maxLength に収まるまで文をつなげる', () => {
+    const text = 'はい。わかりました。それでは始めましょう。準備はいいですか。'
+
+    expect(segmentText(text)).toEqual([text])
+    expect(segmentText(text, { maxLength: 20 })).toEqual([
+      'はい。わかりました。',
+      'それでは始めましょう。準備はいいですか。',
+    ])
+  })
+
+  it('英語の文をつなげるときは空白を入れる', () => {
+    expect(segmentText('Hi. I am here. そうですか。', { firstMaxLength: 100 })).toEqual(['Hi. I am here. そうですか。'])
+  })
+
+  it('改行をまたいではつなげない', () => {
+    expect(segmentText('一行目\n二行目')).toEqual(['一行目', '二行目'])
+  })
+
+  it('最初のセグメントは firstMaxLength 以内に収める', () => {
+    const text = '今日は良い天気ですね、散歩に行きましょう。公園には花がたくさん咲いています。'
+
+    expect(segmentText(text, { firstMaxLength: 12, minLength: 100 })).toEqual([
+      '今日は良い天気ですね、',
+      '散歩に行きましょう。公園には花がたくさん咲いています。',
+    ])
+  })
+
+  it('maxLength を超える文は読点・カンマ・空白で分け、見つからなければ文字数で切る', () => {
+    const options = { maxLength: 10, firstMaxLength: 10, minLength: 1 }
+
+    expect(segmentText('あいうえお、かきくけこさしすせそ', options)).toEqual(['あいうえお、', 'かきくけこさしすせそ'])
+    expect(segmentText('one two three four', options)).toEqual(['one two', 'three four'])
+    expect(segmentText('あいうえおかきくけこさしす', options)).toEqual(['あいうえおかきくけこ', 'さしす'])
+  })
+
+  it('桁区切りのカンマでは分けない', () => {
+    expect(segmentText('total 12,345,678 yen', { maxLength: 14, firstMaxLength: 14, minLength: 1 })).toEqual([
+      'total',
+      '12,345,678 yen',
+    ])
+  })
+
+  it('サロゲートペアを 1 文字として数え、途中で切らない', () => {
+    expect(segmentText('🎉🎉🎉🎉', { maxLength: 2, firstMaxLength: 2, minLength: 1 })).toEqual(['🎉🎉', '🎉🎉'])
+  })
+
+  it('segmentTexts は全体の最初のセグメントにだけ firstMaxLength を適用する', () => {
+    const options = { maxLength: 20, firstMaxLength: 6, minLength: 1 }
+
+    expect(segmentTexts(['', 'あいうえお、かきくけこ', 'さしすせそ、たちつてと'], options)).toEqual([
+      [],
+      ['あいうえお、', 'かきくけこ'],
+      ['さしすせそ、たちつてと'],
+    ])
+  })
+
+  it('splitText は maxLength を指定して segmentText を呼ぶ', () => {
+    expect(splitText('一文目です。二文目です。', 100)).toEqual(['一文目です。二文目です。'])
+    expect(splitText('一文目です。二文目です。', 100, { minLength: 0 })).toEqual(['一文目です。', '二文目です。'])
+  })
+})
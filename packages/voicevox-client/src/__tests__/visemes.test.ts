@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { computeAudioTiming } from '../audio-timing'
+import type { AudioQuery } from '../types'
+import { createVisemeTimeline } from '../visemes'
+
+/** 「マン、ト」（1 フレーム = 1 / 93.75 秒） */
+const createQuery = (): AudioQuery => ({
+  accent_phrases: [
+    {
+      moras: [
+        { text: 'マ', consonant: 'm', consonant_length: 0.05, vowel: 'a', vowel_length: 0.1, pitch: 5 },
+        { text: 'ン', vowel: 'N', vowel_length: 0.08, pitch: 5 },
+      ],
+      accent: 1,
+      pause_mora: { text: '、', vowel: 'pau', vowel_length: 0.3, pitch: 0 },
+    },
+    {
+      moras: [{ text: 'ト', consonant: 't', consonant_length: 0.04, vowel: 'o', vowel_length: 0.1, pitch: 5 }],
+      accent: 1,
+    },
+  ],
+  speedScale: 1.0,
+  pitchScale: 0.0,
+  intonationScale: 1.0,
+  volumeScale: 1.0,
+  prePhonemeLength: 0.1,
+  postPhonemeLength: 0.1,
+  outputSamplingRate: 24000,
+  outputStereo: false,
+})
+
+describe('createVisemeTimeline', () => {
+  it('唇を閉じる子音は closed、それ以外の子音は後ろの母音の形にし、無音と間を closed で埋める', () => {
+    const timing = computeAudioTiming(createQuery())
+
+    expect(createVisemeTimeline(timing)).toEqual({
+      duration: timing.duration,
+      visemes: [
+        { viseme: 'closed', start: 0, end: 0.149 },
+        { viseme: 'A', start: 0.149, end: 0.245 },
+        { viseme: 'N', start: 0.245, end: 0.331 },
+        { viseme: 'closed', start: 0.331, end: 0.629 },
+        { viseme: 'O', start: 0.629, end: 0.768 },
+        { viseme: 'closed', start: 0.768, end: timing.duration },
+      ],
+    })
+  })
+
+  it('音素の対応と口の形の名前を変えられる', () => {
+    const timing = computeAudioTiming(createQuery())
+
+    const { visemes } = createVisemeTimeline(timing, {
+      phonemes: { m: null, t: 'closed' },
+      names: { A: 'aa', O: 'oh', closed: 'sil' },
+    })
+
+    expect(visemes.map((cue) => cue.viseme)).toEqual(['sil', 'aa', 'N', 'sil', 'oh', 'sil'])
+    expect(visemes[1].start).toBe(0.096)
+    expect(visemes[4].start).toBe(0.672)
+  })
+})
@@ -1,44 +1,182 @@
-import { handleError, VoicevoxError, VoicevoxErrorCode } from './error.js'
-import type { AccentPhrase, AudioQuery, Speaker, SpeakerInfo, UserDictionaryWord } from './types.js'
+import { resolveEngineCapabilities } from './engine-capabilities.js'
+import { type EngineHealth, EnginePool, type EngineSelectionStrategy } from './engine-pool.js'
+import {
+  type EngineProfile,
+  type EngineProfileName,
+  resolveEngineProfile,
+  stripUnsupportedQueryFields,
+} from './engine-profile.js'
+import { errorCodeFromStatus, handleError, parseEngineErrorDetail, VoicevoxError, VoicevoxErrorCode } from './error.js'
+import { createSynthesisCacheKey, type SynthesisCache, type SynthesisCacheKeyInput } from './synthesis-cache.js'
+import type {
+  AccentPhrase,
+  AudioQuery,
+  EngineCapabilities,
+  EngineManifest,
+  FrameAudioQuery,
+  MorphableTargetInfo,
+  Preset,
+  Score,
+  Speaker,
+  SpeakerInfo,
+  UserDictionaryWord,
+} from './types.js'
 
 /**
- * APIリクエストのリトライ・タイムアウト設定
+ * エンジンへの 1 回の HTTP リクエスト（リトライ・フェイルオーバーでは試行ごとに作られる）
  */
-export interface VoicevoxApiRetryOptions {
+export interface VoicevoxRequestContext {
+  /** HTTP メソッド（大文字） */
+  method: string
+  /** リクエスト先エンジンのURL */
+  engine: string
+  /** エンドポイント（クエリ文字列を含む） */
+  endpoint: string
+  /** リクエストURL */
+  url: string
+  /** リクエストヘッダー。onRequest で書き換えるとリクエストに反映される */
+  headers: Record<string, string>
+  /** 何回目の試行か（0 始まり） */
+  attempt: number
+  /** リクエストを開始した時刻（Date.now()） */
+  startedAt: number
+}
+
+/**
+ * エンジンからレスポンスを受け取ったときの情報
+ */
+export interface VoicevoxResponseContext extends VoicevoxRequestContext {
+  /** HTTPステータスコード */
+  status: number
+  /** ステータスが 2xx か */
+  ok: boolean
+  /** リクエスト開始からレスポンスヘッダー受信までの時間（ミリ秒） */
+  durationMs: number
+}
+
+/**
+ * 失敗したリクエストを再試行するときの情報（context は失敗した試行のもの）
+ */
+export interface VoicevoxRetryContext extends VoicevoxRequestContext {
+  /** 失敗の内容 */
+  error: VoicevoxError
+  /** 失敗した試行にかかった時間（ミリ秒） */
+  durationMs: number
+  /** 次の試行までの待ち時間（ミリ秒。別のエンジンに切り替える場合は 0） */
+  delayMs: number
+  /** 次の試行のリクエスト先エンジン */
+  nextEngine: string
+}
+
+/**
+ * VoicevoxApi の設定
+ */
+export interface VoicevoxApiOptions {
   /** リトライ回数（初回リクエストを除く。0でリトライ無効、デフォルト: 2） */
   retryCount?: number
   /** リトライの初期ディレイ（ミリ秒）。指数バックオフで増加する（デフォルト: 250） */
   retryDelayMs?: number
   /** 1リクエストあたりのタイムアウト（ミリ秒、デフォルト: 30000） */
   timeoutMs?: number
+  /** 複数エンジン指定時の選び方（デフォルト: round-robin） */
+  engineSelection?: EngineSelectionStrategy
+  /** 連続で何回失敗したエンジンを異常とみなすか（デフォルト: 3） */
+  unhealthyThreshold?: number
+  /** 異常とみなしたエンジンを再び試すまでの時間（ミリ秒、デフォルト: 30000） */
+  unhealthyCooldownMs?: number
+  /** HTTP リクエストに使う fetch の実装（デフォルト: グローバルの fetch） */
+  fetch?: typeof fetch
+  /**
+   * リクエスト送信前に呼ばれる。context.headers を書き換えてヘッダーを追加できる
+   * 例外を投げるとリクエストは送信されず、リトライもされない
+   */
+  onRequest?: (context: VoicevoxRequestContext) => void | Promise<void>
+  /** レスポンスを受け取るたびに呼ばれる（エラーステータスを含む）。例外は無視される */
+  onResponse?: (context: VoicevoxResponseContext) => void | Promise<void>
+  /** 失敗したリクエストを再試行する直前に呼ばれる。例外は無視される */
+  onRetry?: (context: VoicevoxRetryContext) => void | Promise<void>
+  /** 合成結果のキャッシュ。指定すると同じ話者・クエリ・エンジンの合成を再利用する */
+  synthesisCache?: SynthesisCache
+  /** 接続先エンジンのプロファイル（デフォルト: voicevox）。受け付けないフィールドの除去と話者一覧の補正に使う */
+  engineProfile?: EngineProfileName | EngineProfile
 }
 
+/**
+ * @deprecated VoicevoxApiOptions を使用してください
+ */
+export type VoicevoxApiRetryOptions = VoicevoxApiOptions
+
 const DEFAULT_RETRY_COUNT = 2
 const DEFAULT_RETRY_DELAY_MS = 250
 const DEFAULT_TIMEOUT_MS = 30000
 
+/** AquesTalk 風記法から AudioQuery を組み立てるときの各パラメータ（/audio_query の既定値と同じ） */
+const DEFAULT_QUERY_PARAMETERS: Omit<AudioQuery, 'accent_phrases' | 'kana' | 'outputSamplingRate'> = {
+  speedScale: 1.0,
+  pitchScale: 0.0,
+  intonationScale: 1.0,
+  volumeScale: 1.0,
+  prePhonemeLength: 0.1,
+  postPhonemeLength: 0.1,
+  outputStereo: false,
+}
+
 export class VoicevoxApi {
   private readonly baseUrl: string
+  private readonly pool: EnginePool
   private readonly retryCount: number
   private readonly retryDelayMs: number
   private readonly timeoutMs: number
+  private readonly fetchImpl: typeof fetch
+  private readonly hooks: Pick<VoicevoxApiOptions, 'onRequest' | 'onResponse' | 'onRetry'>
+  private readonly synthesisCache: SynthesisCache | undefined
+  private readonly engineProfile: EngineProfile
+  /** /cancellable_synthesis が使えるか（未確認の間は undefined） */
+  private cancellableSynthesisSupported: boolean | undefined
+  /**
+   * 取得済みのエンジン機能情報（インスタンス内でキャッシュ）
+   * 複数エンジン構成では同じ種類のエンジンを並べる前提で、最初に応答したエンジンの情報を使う
+   */
+  private engineCapabilities: EngineCapabilities | undefined
 
-  constructor(baseUrl: string, retryOptions: VoicevoxApiRetryOptions = {}) {
-    this.baseUrl = this.normalizeUrl(baseUrl)
-    this.retryCount = Math.max(0, retryOptions.retryCount ?? DEFAULT_RETRY_COUNT)
-    this.retryDelayMs = Math.max(0, retryOptions.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS)
-    this.timeoutMs = Math.max(1, retryOptions.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+  /**
+   * @param baseUrl エンジンのURL。複数指定するとリクエストごとに振り分け、失敗時は別のエンジンで再試行する
+   */
+  constructor(baseUrl: string | string[], options: VoicevoxApiOptions = {}) {
+    const urls = (Array.isArray(baseUrl) ? baseUrl : [baseUrl]).map((url) => this.normalizeUrl(url))
+    this.pool = new EnginePool(urls, {
+      selection: options.engineSelection,
+      unhealthyThreshold: options.unhealthyThreshold,
+      unhealthyCooldownMs: options.unhealthyCooldownMs,
+    })
+    this.baseUrl = this.pool.primaryUrl
+    this.retryCount = Math.max(0, options.retryCount ?? DEFAULT_RETRY_COUNT)
+    this.retryDelayMs = Math.max(0, options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS)
+    this.timeoutMs = Math.max(1, options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+    // 未指定時は呼び出しのたびにグローバルの fetch を参照する（後から差し替えられても追従する）
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init))
+    this.hooks = { onRequest: options.onRequest, onResponse: options.onResponse, onRetry: options.onRetry }
+    this.synthesisCache = options.synthesisCache
+    this.engineProfile = resolveEngineProfile(options.engineProfile)
   }
 
   /**
    * テキストから音声合成用クエリを生成
    */
-  public async generateQuery(text: string, speaker = 1): Promise<AudioQuery> {
+  public async generateQuery(text: string, speaker = 1, signal?: AbortSignal): Promise<AudioQuery> {
     try {
       const endpoint = `/audio_query?text=${encodeURIComponent(text)}&speaker=${encodeURIComponent(speaker.toString())}`
-      const query = await this.makeRequest<AudioQuery>('post', endpoint, null, {
-        'Content-Type': 'application/json',
-      })
+      const query = await this.makeRequest<AudioQuery>(
+        'post',
+        endpoint,
+        null,
+        {
+          'Content-Type': 'application/json',
+        },
+        'json',
+        true,
+        signal
+      )
 
       return query
     } catch (error) {
@@ -49,17 +187,53 @@ export class VoicevoxApi {
   /**
    * 音声合成用クエリから音声ファイルを生成
    */
-  public async synthesize(query: AudioQuery, speaker = 1): Promise<ArrayBuffer> {
+  public async synthesize(query: AudioQuery, speaker = 1, signal?: AbortSignal): Promise<ArrayBuffer> {
+    const supported = stripUnsupportedQueryFields(query, this.engineProfile)
+    return this.withSynthesisCache({ speaker, query: supported }, signal, () =>
+      this.synthesizeUncached(supported, speaker, signal)
+    )
+  }
+
+  private async synthesizeUncached(query: AudioQuery, speaker: number, signal?: AbortSignal): Promise<ArrayBuffer> {
     try {
+      const params = `speaker=${encodeURIComponent(speaker.toString())}`
+      const headers = {
+        'Content-Type': 'application/json',
+        Accept: 'audio/wav',
+      }
+
+      // 中断可能な場合は /cancellable_synthesis を優先する。
+      // 通常の /synthesis は接続を切ってもエンジン側の合成が止まらないため。
+      // エンジンが --enable_cancellable_synthesis なしで起動されていると 404 になるので、以後は使わない
+      if (signal && this.cancellableSynthesisSupported !== false) {
+        try {
+          const audio = await this.makeRequest<ArrayBuffer>(
+            'post',
+            `/cancellable_synthesis?${params}`,
+            query,
+            headers,
+            'arraybuffer',
+            true,
+            signal
+          )
+          this.cancellableSynthesisSupported = true
+          return audio
+        } catch (error) {
+          if (!(error instanceof VoicevoxError && error.status === 404)) {
+            throw error
+          }
+          this.cancellableSynthesisSupported = false
+        }
+      }
+
       return await this.makeRequest<ArrayBuffer>(
         'post',
-        `/synthesis?speaker=${encodeURIComponent(speaker.toString())}`,
+        `/synthesis?${params}`,
         query,
-        {
-          'Content-Type': 'application/json',
-          Accept: 'audio/wav',
-        },
-        'arraybuffer'
+        headers,
+        'arraybuffer',
+        true,
+        signal
       )
     } catch (error) {
       throw handleError('音声合成中にエラーが発生しました', error)
@@ -69,7 +243,12 @@ export class VoicevoxApi {
   /**
    * プリセットを使用してテキストから音声合成用クエリを生成
    */
-  public async generateQueryFromPreset(text: string, presetId: number, coreVersion?: string): Promise<AudioQuery> {
+  public async generateQueryFromPreset(
+    text: string,
+    presetId: number,
+    coreVersion?: string,
+    signal?: AbortSignal
+  ): Promise<AudioQuery> {
     try {
       let endpoint = `/audio_query_from_preset?text=${encodeURIComponent(
         text
@@ -79,9 +258,17 @@ export class VoicevoxApi {
         endpoint += `&core_version=${encodeURIComponent(coreVersion)}`
       }
 
-      const query = await this.makeRequest<AudioQuery>('post', endpoint, null, {
-        'Content-Type': 'application/json',
-      })
+      const query = await this.makeRequest<AudioQuery>(
+        'post',
+        endpoint,
+        null,
+        {
+          'Content-Type': 'application/json',
+        },
+        'json',
+        true,
+        signal
+      )
 
       return query
     } catch (error) {
@@ -89,17 +276,108 @@ export class VoicevoxApi {
     }
   }
 
+  /**
+   * プリセットの一覧を取得
+   */
+  public async getPresets(signal?: AbortSignal): Promise<Preset[]> {
+    try {
+      return await this.makeRequest<Preset[]>(
+        'get',
+        '/presets',
+        null,
+        {
+          'Content-Type': 'application/json',
+        },
+        'json',
+        true,
+        signal
+      )
+    } catch (error) {
+      throw handleError('プリセット一覧取得中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * プリセットを追加
+   * @returns 追加されたプリセットのID（IDが重複していた場合はエンジンが採番し直す）
+   */
+  public async addPreset(preset: Preset, signal?: AbortSignal): Promise<number> {
+    try {
+      // プリセット追加は非冪等（再送で重複登録される恐れ）のためリトライしない
+      return await this.makeRequest<number>(
+        'post',
+        '/add_preset',
+        preset,
+        { 'Content-Type': 'application/json' },
+        'json',
+        false,
+        signal
+      )
+    } catch (error) {
+      throw handleError('プリセット追加中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * プリセットを更新（id で対象を指定）
+   * @returns 更新されたプリセットのID
+   */
+  public async updatePreset(preset: Preset, signal?: AbortSignal): Promise<number> {
+    try {
+      return await this.makeRequest<number>(
+        'post',
+        '/update_preset',
+        preset,
+        {
+          'Content-Type': 'application/json',
+        },
+        'json',
+        true,
+        signal
+      )
+    } catch (error) {
+      throw handleError('プリセット更新中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * プリセットを削除
+   */
+  public async deletePreset(id: number, signal?: AbortSignal): Promise<void> {
+    try {
+      await this.makeRequest<string>(
+        'post',
+        `/delete_preset?id=${encodeURIComponent(id.toString())}`,
+        null,
+        {},
+        'text',
+        true,
+        signal
+      )
+    } catch (error) {
+      throw handleError('プリセット削除中にエラーが発生しました', error)
+    }
+  }
+
   /**
    * スピーカーの一覧を取得
    */
-  public async getSpeakers(): Promise<Speaker[]> {
+  public async getSpeakers(signal?: AbortSignal): Promise<Speaker[]> {
     try {
       const endpoint = '/speakers'
-      const response = await this.makeRequest<Speaker[]>('get', endpoint, null, {
-        'Content-Type': 'application/json',
-      })
+      const response = await this.makeRequest<Speaker[]>(
+        'get',
+        endpoint,
+        null,
+        {
+          'Content-Type': 'application/json',
+        },
+        'json',
+        true,
+        signal
+      )
 
-      return response
+      return this.engineProfile.normalizeSpeakers?.(response) ?? response
     } catch (error) {
       throw handleError('スピーカー一覧取得中にエラーが発生しました', error)
     }
@@ -108,12 +386,20 @@ export class VoicevoxApi {
   /**
    * スピーカーの情報を取得
    */
-  public async getSpeakerInfo(uuid: string): Promise<SpeakerInfo> {
+  public async getSpeakerInfo(uuid: string, signal?: AbortSignal): Promise<SpeakerInfo> {
     try {
       const endpoint = `/speaker_info?speaker_uuid=${encodeURIComponent(uuid)}`
-      const response = await this.makeRequest<SpeakerInfo>('get', endpoint, null, {
-        'Content-Type': 'application/json',
-      })
+      const response = await this.makeRequest<SpeakerInfo>(
+        'get',
+        endpoint,
+        null,
+        {
+          'Content-Type': 'application/json',
+        },
+        'json',
+        true,
+        signal
+      )
 
       return response
     } catch (error) {
@@ -125,10 +411,10 @@ export class VoicevoxApi {
    * VOICEVOX Engine の接続状態をチェック
    * @returns 接続情報（connected, version, url）
    */
-  public async checkHealth(): Promise<{ connected: boolean; version?: string; url: string }> {
+  public async checkHealth(signal?: AbortSignal): Promise<{ connected: boolean; version?: string; url: string }> {
     try {
       // /version エンドポイントを使用（軽量）
-      const version = await this.makeRequest<string>('get', '/version')
+      const version = await this.makeRequest<string>('get', '/version', null, {}, 'json', true, signal)
       return {
         connected: true,
         version,
@@ -142,31 +428,201 @@ export class VoicevoxApi {
     }
   }
 
+  /**
+   * 指定された全エンジンの接続状態をチェック（結果はエンジンの振り分けにも反映される）
+   */
+  public async checkEngines(signal?: AbortSignal): Promise<EngineHealth[]> {
+    return Promise.all(
+      this.pool.getStatuses().map(async (initialStatus): Promise<EngineHealth> => {
+        const { url } = initialStatus
+        // 報告後の状態を返す（プールから見つからなければチェック前の状態のまま）
+        const currentStatus = () => this.pool.getStatus(url) ?? initialStatus
+        const context = await this.createRequestContext('get', url, '/version', {}, 0)
+        try {
+          const response = await this.send(context, {
+            signal: anySignal([AbortSignal.timeout(this.timeoutMs), signal]),
+          })
+          if (!response.ok) {
+            throw new Error(`APIリクエストに失敗しました: ${response.status}`)
+          }
+          const version = (await response.json()) as string
+          this.pool.reportSuccess(url, Date.now() - context.startedAt)
+          return { ...currentStatus(), connected: true, version }
+        } catch {
+          throwIfAborted(signal)
+          this.pool.reportFailure(url)
+          return { ...currentStatus(), connected: false }
+        }
+      })
+    )
+  }
+
+  /**
+   * エンジンのバージョンを取得
+   */
+  public async getVersion(signal?: AbortSignal): Promise<string> {
+    try {
+      return await this.makeRequest<string>('get', '/version', null, {}, 'json', true, signal)
+    } catch (error) {
+      throw handleError('バージョン取得中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * エンジンのマニフェストを取得
+   */
+  public async getEngineManifest(signal?: AbortSignal): Promise<EngineManifest> {
+    try {
+      return await this.makeRequest<EngineManifest>('get', '/engine_manifest', null, {}, 'json', true, signal)
+    } catch (error) {
+      throw handleError('エンジンマニフェスト取得中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * 接続中のエンジンが対応する機能を取得（初回取得後はキャッシュを返す）
+   * /engine_manifest が無い古いエンジンではバージョンから判定する
+   */
+  public async getEngineCapabilities(signal?: AbortSignal): Promise<EngineCapabilities> {
+    if (this.engineCapabilities) return this.engineCapabilities
+
+    try {
+      const version = await this.makeRequest<string>('get', '/version', null, {}, 'json', true, signal)
+      let manifest: EngineManifest | undefined
+      try {
+        manifest = await this.makeRequest<EngineManifest>('get', '/engine_manifest', null, {}, 'json', true, signal)
+      } catch (error) {
+        if (!(error instanceof VoicevoxError && error.status === 404)) throw error
+      }
+
+      this.engineCapabilities = resolveEngineCapabilities(manifest, version)
+      return this.engineCapabilities
+    } catch (error) {
+      throw handleError('エンジン機能情報取得中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * キャッシュ済みのエンジン機能情報を返す（未取得なら undefined）
+   */
+  public getCachedEngineCapabilities(): EngineCapabilities | undefined {
+    return this.engineCapabilities
+  }
+
+  /**
+   * 話者（スタイル）のモデルを読み込む
+   * 複数エンジン構成では全エンジンで読み込む
+   * @param skipReinit 読み込み済みなら何もしない（デフォルト: true）
+   */
+  public async initializeSpeaker(speaker: number, skipReinit = true, signal?: AbortSignal): Promise<void> {
+    try {
+      const endpoint = `/initialize_speaker?speaker=${encodeURIComponent(speaker.toString())}&skip_reinit=${skipReinit}`
+      await Promise.all(
+        this.pool
+          .getStatuses()
+          .map(({ url }) => this.makeRequest<void>('post', endpoint, null, {}, 'text', true, signal, url))
+      )
+    } catch (error) {
+      throw handleError('話者の初期化中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * 話者（スタイル）のモデルが読み込み済みか確認
+   * 複数エンジン構成では全エンジンで読み込み済みの場合のみ true
+   */
+  public async isInitializedSpeaker(speaker: number, signal?: AbortSignal): Promise<boolean> {
+    try {
+      const endpoint = `/is_initialized_speaker?speaker=${encodeURIComponent(speaker.toString())}`
+      const results = await Promise.all(
+        this.pool
+          .getStatuses()
+          .map(({ url }) => this.makeRequest<boolean>('get', endpoint, null, {}, 'json', true, signal, url))
+      )
+      return results.every(Boolean)
+    } catch (error) {
+      throw handleError('話者の初期化状態の確認中にエラーが発生しました', error)
+    }
+  }
+
   /**
    * テキストからアクセント句を取得（audio_queryより軽量）
    */
-  public async getAccentPhrases(text: string, speaker = 1): Promise<AccentPhrase[]> {
+  public async getAccentPhrases(text: string, speaker = 1, signal?: AbortSignal): Promise<AccentPhrase[]> {
     try {
       const endpoint = `/accent_phrases?text=${encodeURIComponent(text)}&speaker=${encodeURIComponent(speaker.toString())}`
-      return await this.makeRequest<AccentPhrase[]>('post', endpoint, null, {
-        'Content-Type': 'application/json',
-      })
+      return await this.makeRequest<AccentPhrase[]>(
+        'post',
+        endpoint,
+        null,
+        {
+          'Content-Type': 'application/json',
+        },
+        'json',
+        true,
+        signal
+      )
     } catch (error) {
       throw handleError('アクセント句取得中にエラーが発生しました', error)
     }
   }
 
+  /**
+   * AquesTalk 風記法からアクセント句を取得（例: `コンニチワ'/セ'カイ`）
+   */
+  public async getAccentPhrasesFromKana(kana: string, speaker = 1, signal?: AbortSignal): Promise<AccentPhrase[]> {
+    try {
+      const endpoint = `/accent_phrases?text=${encodeURIComponent(kana)}&speaker=${encodeURIComponent(
+        speaker.toString()
+      )}&is_kana=true`
+      return await this.makeRequest<AccentPhrase[]>(
+        'post',
+        endpoint,
+        null,
+        {
+          'Content-Type': 'application/json',
+        },
+        'json',
+        true,
+        signal
+      )
+    } catch (error) {
+      throw handleError('読み仮名からのアクセント句取得中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * AquesTalk 風記法から AudioQuery を生成
+   * /audio_query は記法を受け付けないため、アクセント句を取得して既定のパラメータで組み立てる
+   */
+  public async generateQueryFromKana(kana: string, speaker = 1, signal?: AbortSignal): Promise<AudioQuery> {
+    const accentPhrases = await this.getAccentPhrasesFromKana(kana, speaker, signal)
+    return {
+      accent_phrases: accentPhrases,
+      ...DEFAULT_QUERY_PARAMETERS,
+      outputSamplingRate: this.engineProfile.outputSamplingRate,
+      kana,
+    }
+  }
+
   /**
    * アクセント句のモーラデータ（音素長・ピッチ）を再計算
    * UIでアクセント位置（accent整数）を変更した後、mora.pitch値を更新するために使用
    */
-  public async updateMoraData(accentPhrases: AccentPhrase[], speaker: number): Promise<AccentPhrase[]> {
+  public async updateMoraData(
+    accentPhrases: AccentPhrase[],
+    speaker: number,
+    signal?: AbortSignal
+  ): Promise<AccentPhrase[]> {
     try {
       return await this.makeRequest<AccentPhrase[]>(
         'post',
         `/mora_data?speaker=${encodeURIComponent(speaker.toString())}`,
         accentPhrases,
-        { 'Content-Type': 'application/json' }
+        { 'Content-Type': 'application/json' },
+        'json',
+        true,
+        signal
       )
     } catch (error) {
       throw handleError('モーラデータ更新中にエラーが発生しました', error)
@@ -176,9 +632,17 @@ export class VoicevoxApi {
   /**
    * ユーザー辞書一覧を取得
    */
-  public async getUserDictionary(): Promise<Record<string, UserDictionaryWord>> {
+  public async getUserDictionary(signal?: AbortSignal): Promise<Record<string, UserDictionaryWord>> {
     try {
-      return await this.makeRequest<Record<string, UserDictionaryWord>>('get', '/user_dict')
+      return await this.makeRequest<Record<string, UserDictionaryWord>>(
+        'get',
+        '/user_dict',
+        null,
+        {},
+        'json',
+        true,
+        signal
+      )
     } catch (error) {
       throw handleError('ユーザー辞書取得中にエラーが発生しました', error)
     }
@@ -187,13 +651,16 @@ export class VoicevoxApi {
   /**
    * ユーザー辞書単語を追加
    */
-  public async addUserDictionaryWord(input: {
-    surface: string
-    pronunciation: string
-    accentType: number
-    priority: number
-    wordType?: string
-  }): Promise<void> {
+  public async addUserDictionaryWord(
+    input: {
+      surface: string
+      pronunciation: string
+      accentType: number
+      priority: number
+      wordType?: string
+    },
+    signal?: AbortSignal
+  ): Promise<void> {
     try {
       const params = new URLSearchParams({
         surface: input.surface,
@@ -203,7 +670,7 @@ export class VoicevoxApi {
         priority: input.priority.toString(),
       })
       // 単語追加は非冪等（再送で重複登録される恐れ）のためリトライしない
-      await this.makeRequest<string>('post', `/user_dict_word?${params.toString()}`, null, {}, 'text', false)
+      await this.makeRequest<string>('post', `/user_dict_word?${params.toString()}`, null, {}, 'text', false, signal)
     } catch (error) {
       throw handleError('ユーザー辞書追加中にエラーが発生しました', error)
     }
@@ -212,14 +679,17 @@ export class VoicevoxApi {
   /**
    * ユーザー辞書単語を更新
    */
-  public async updateUserDictionaryWord(input: {
-    wordUuid: string
-    surface: string
-    pronunciation: string
-    accentType: number
-    priority: number
-    wordType?: string
-  }): Promise<void> {
+  public async updateUserDictionaryWord(
+    input: {
+      wordUuid: string
+      surface: string
+      pronunciation: string
+      accentType: number
+      priority: number
+      wordType?: string
+    },
+    signal?: AbortSignal
+  ): Promise<void> {
     try {
       const params = new URLSearchParams({
         surface: input.surface,
@@ -233,7 +703,9 @@ export class VoicevoxApi {
         `/user_dict_word/${encodeURIComponent(input.wordUuid)}?${params.toString()}`,
         null,
         {},
-        'text'
+        'text',
+        true,
+        signal
       )
     } catch (error) {
       throw handleError('ユーザー辞書更新中にエラーが発生しました', error)
@@ -243,20 +715,203 @@ export class VoicevoxApi {
   /**
    * ユーザー辞書単語を削除
    */
-  public async deleteUserDictionaryWord(wordUuid: string): Promise<void> {
+  public async deleteUserDictionaryWord(wordUuid: string, signal?: AbortSignal): Promise<void> {
     try {
-      await this.makeRequest<string>('delete', `/user_dict_word/${encodeURIComponent(wordUuid)}`, null, {}, 'text')
+      await this.makeRequest<string>(
+        'delete',
+        `/user_dict_word/${encodeURIComponent(wordUuid)}`,
+        null,
+        {},
+        'text',
+        true,
+        signal
+      )
     } catch (error) {
       throw handleError('ユーザー辞書削除中にエラーが発生しました', error)
     }
   }
 
+  /**
+   * 歌唱スタイル（ソング）の一覧を取得
+   */
+  public async getSingers(signal?: AbortSignal): Promise<Speaker[]> {
+    try {
+      return await this.makeRequest<Speaker[]>(
+        'get',
+        '/singers',
+        null,
+        {
+          'Content-Type': 'application/json',
+        },
+        'json',
+        true,
+        signal
+      )
+    } catch (error) {
+      throw handleError('歌唱スタイル一覧取得中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * 楽譜から歌唱合成用のフレームクエリを生成
+   * @param speaker 歌唱のお手本となるスタイルID（singing_teacher）
+   */
+  public async generateSingFrameAudioQuery(
+    score: Score,
+    speaker: number,
+    signal?: AbortSignal
+  ): Promise<FrameAudioQuery> {
+    try {
+      return await this.makeRequest<FrameAudioQuery>(
+        'post',
+        `/sing_frame_audio_query?speaker=${encodeURIComponent(speaker.toString())}`,
+        score,
+        { 'Content-Type': 'application/json' },
+        'json',
+        true,
+        signal
+      )
+    } catch (error) {
+      throw handleError('歌唱クエリ生成中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * フレームクエリから歌唱音声を生成
+   * @param speaker 歌唱に使うスタイルID（sing / frame_decode）
+   */
+  public async frameSynthesize(query: FrameAudioQuery, speaker: number, signal?: AbortSignal): Promise<ArrayBuffer> {
+    try {
+      return await this.makeRequest<ArrayBuffer>(
+        'post',
+        `/frame_synthesis?speaker=${encodeURIComponent(speaker.toString())}`,
+        query,
+        {
+          'Content-Type': 'application/json',
+          Accept: 'audio/wav',
+        },
+        'arraybuffer',
+        true,
+        signal
+      )
+    } catch (error) {
+      throw handleError('歌唱音声合成中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * 指定スタイルごとにモーフィング可能なスタイルの一覧を取得
+   * @param baseSpeakers モーフィング元のスタイルIDのリスト
+   * @returns baseSpeakers と同じ順で、スタイルID(文字列)をキーとしたモーフィング可否
+   */
+  public async getMorphableTargets(
+    baseSpeakers: number[],
+    signal?: AbortSignal
+  ): Promise<Record<string, MorphableTargetInfo>[]> {
+    try {
+      return await this.makeRequest<Record<string, MorphableTargetInfo>[]>(
+        'post',
+        '/morphable_targets',
+        baseSpeakers,
+        {
+          'Content-Type': 'application/json',
+        },
+        'json',
+        true,
+        signal
+      )
+    } catch (error) {
+      throw handleError('モーフィング可能スタイル取得中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * 2つのスタイルをモーフィングして音声合成
+   * @param morphRate モーフィングの割合（0.0 - 1.0）
+   */
+  public async synthesizeMorphing(
+    query: AudioQuery,
+    baseSpeaker: number,
+    targetSpeaker: number,
+    morphRate: number,
+    signal?: AbortSignal
+  ): Promise<ArrayBuffer> {
+    const supported = stripUnsupportedQueryFields(query, this.engineProfile)
+    return this.withSynthesisCache(
+      { speaker: baseSpeaker, query: supported, morph: { targetSpeaker, morphRate } },
+      signal,
+      () => this.synthesizeMorphingUncached(supported, baseSpeaker, targetSpeaker, morphRate, signal)
+    )
+  }
+
+  private async synthesizeMorphingUncached(
+    query: AudioQuery,
+    baseSpeaker: number,
+    targetSpeaker: number,
+    morphRate: number,
+    signal?: AbortSignal
+  ): Promise<ArrayBuffer> {
+    try {
+      const params = new URLSearchParams({
+        base_speaker: baseSpeaker.toString(),
+        target_speaker: targetSpeaker.toString(),
+        morph_rate: morphRate.toString(),
+      })
+      return await this.makeRequest<ArrayBuffer>(
+        'post',
+        `/synthesis_morphing?${params.toString()}`,
+        query,
+        {
+          'Content-Type': 'application/json',
+          Accept: 'audio/wav',
+        },
+        'arraybuffer',
+        true,
+        signal
+      )
+    } catch (error) {
+      throw handleError('モーフィング合成中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * 合成結果キャッシュを使って合成する
+   * キーにはエンジンの名前とバージョンを含める（取得できない場合はキャッシュを使わない）
+   * @private
+   */
+  private async withSynthesisCache(
+    input: Omit<SynthesisCacheKeyInput, 'engine'>,
+    signal: AbortSignal | undefined,
+    synthesize: () => Promise<ArrayBuffer>
+  ): Promise<ArrayBuffer> {
+    const cache = this.synthesisCache
+    if (!cache) return synthesize()
+
+    let engine: string
+    try {
+      const capabilities = await this.getEngineCapabilities(signal)
+      engine = `${capabilities.name}@${capabilities.version}`
+    } catch {
+      throwIfAborted(signal)
+      return synthesize()
+    }
+
+    const key = await createSynthesisCacheKey({ ...input, engine })
+    const cached = await cache.get(key)
+    if (cached) return cached
+
+    const audio = await synthesize()
+    await cache.set(key, audio)
+    return audio
+  }
+
   /**
    * APIリクエストを実行
    *
    * ネットワークエラー・タイムアウト・HTTP 5xx/429 は一時的な失敗とみなし、
    * 指数バックオフでリトライする。その他の 4xx は即時失敗。
    * 非冪等な操作（辞書追加など）は retryable: false で呼び出すこと。
+   * targetEngine を指定した場合は、そのエンジンだけにリクエストする。
    * @private
    */
   private async makeRequest<T>(
@@ -265,42 +920,73 @@ export class VoicevoxApi {
     data: unknown = null,
     headers: Record<string, string> = {},
     responseType: 'json' | 'arraybuffer' | 'text' = 'json',
-    retryable = true
+    retryable = true,
+    signal?: AbortSignal,
+    targetEngine?: string
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`
-    const maxAttempts = (retryable ? this.retryCount : 0) + 1
+    // 複数エンジン構成では、リトライ回数に関わらず各エンジンを一度は試す
+    const failoverAttempts = targetEngine ? 0 : this.pool.size - 1
+    const maxAttempts = (retryable ? Math.max(this.retryCount, failoverAttempts) : 0) + 1
+    const failedEngines = new Set<string>()
+    // エラーに残すエンドポイント（読み上げテキストなどを含むクエリ文字列は除く）
+    const path = endpoint.split('?')[0]
+    let previous: VoicevoxRequestContext | undefined
     let lastError: VoicevoxError | undefined
+    let attempt = 0
 
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      if (attempt > 0) {
-        await this.sleep(this.retryDelayMs * 2 ** (attempt - 1))
+    for (; attempt < maxAttempts; attempt++) {
+      const engine = targetEngine ?? this.pool.select(failedEngines)
+      if (previous && lastError) {
+        // 別のエンジンに切り替える場合は待たずに再試行する
+        const delayMs = engine === previous.engine ? this.retryDelayMs * 2 ** (attempt - 1) : 0
+        await this.notify(this.hooks.onRetry, {
+          ...previous,
+          error: lastError,
+          durationMs: Date.now() - previous.startedAt,
+          delayMs,
+          nextEngine: engine,
+        })
+        if (delayMs > 0) {
+          await this.sleep(delayMs, signal)
+        }
       }
+      throwIfAborted(signal)
+
+      const context = await this.createRequestContext(method, engine, endpoint, headers, attempt)
+      previous = context
 
       try {
         const init: RequestInit = {
-          method: method.toUpperCase(),
-          headers,
-          signal: AbortSignal.timeout(this.timeoutMs),
+          signal: anySignal([AbortSignal.timeout(this.timeoutMs), signal]),
         }
 
         if (data !== null) {
           init.body = JSON.stringify(data)
         }
 
-        const response = await fetch(url, init)
+        const response = await this.send(context, init)
 
         if (!response.ok) {
+          const detail = parseEngineErrorDetail(await response.text().catch(() => ''))
           const responseError = new VoicevoxError(
-            `APIリクエストに失敗しました: ${response.status}`,
-            VoicevoxErrorCode.API_CONNECTION_ERROR
+            `APIリクエストに失敗しました: ${response.status}${detail ? ` (${detail})` : ''}`,
+            errorCodeFromStatus(response.status),
+            undefined,
+            { status: response.status, endpoint: path, detail, retryCount: attempt }
           )
           if (response.status >= 500 || response.status === 429) {
+            this.pool.reportFailure(engine)
+            failedEngines.add(engine)
             lastError = responseError
             continue
           }
+          // 4xx はリクエスト側の問題なので、エンジンは正常に応答したものとして扱う
+          this.pool.reportSuccess(engine)
           throw responseError
         }
 
+        this.pool.reportSuccess(engine, Date.now() - context.startedAt)
+
         if (responseType === 'arraybuffer') {
           return (await response.arrayBuffer()) as T
         }
@@ -315,22 +1001,106 @@ export class VoicevoxApi {
         if (error instanceof VoicevoxError) {
           throw error
         }
-        lastError = new VoicevoxError(
-          `APIリクエストに失敗しました: ${error instanceof Error ? error.message : String(error)}`,
-          VoicevoxErrorCode.API_CONNECTION_ERROR
-        )
+        // 呼び出し元による中断はリトライしない
+        throwIfAborted(signal)
+        this.pool.reportFailure(engine)
+        failedEngines.add(engine)
+        const timedOut = error instanceof Error && error.name === 'TimeoutError'
+        lastError = timedOut
+          ? new VoicevoxError(
+              `APIリクエストがタイムアウトしました: ${this.timeoutMs}ms`,
+              VoicevoxErrorCode.TIMEOUT,
+              error,
+              { endpoint: path, retryCount: attempt }
+            )
+          : new VoicevoxError(
+              `APIリクエストに失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+              VoicevoxErrorCode.API_CONNECTION_ERROR,
+              error,
+              { endpoint: path, retryCount: attempt }
+            )
       }
     }
 
-    throw lastError ?? new VoicevoxError(`APIリクエストに失敗しました: ${url}`, VoicevoxErrorCode.API_CONNECTION_ERROR)
+    throw (
+      lastError ??
+      new VoicevoxError(
+        `APIリクエストに失敗しました: ${this.baseUrl}${endpoint}`,
+        VoicevoxErrorCode.API_CONNECTION_ERROR,
+        undefined,
+        { endpoint: path, retryCount: Math.max(0, attempt - 1) }
+      )
+    )
+  }
+
+  /**
+   * リクエストの context を作り、onRequest フックを呼ぶ
+   * @private
+   */
+  private async createRequestContext(
+    method: string,
+    engine: string,
+    endpoint: string,
+    headers: Record<string, string>,
+    attempt: number
+  ): Promise<VoicevoxRequestContext> {
+    const context: VoicevoxRequestContext = {
+      method: method.toUpperCase(),
+      engine,
+      endpoint,
+      url: `${engine}${endpoint}`,
+      headers: { ...headers },
+      attempt,
+      startedAt: Date.now(),
+    }
+    await this.hooks.onRequest?.(context)
+    return context
   }
 
   /**
-   * 指定ミリ秒待機
+   * context どおりにリクエストを送信し、onResponse フックを呼ぶ
    * @private
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms))
+  private async send(context: VoicevoxRequestContext, init: RequestInit): Promise<Response> {
+    const response = await this.fetchImpl(context.url, { ...init, method: context.method, headers: context.headers })
+    await this.notify(this.hooks.onResponse, {
+      ...context,
+      status: response.status,
+      ok: response.ok,
+      durationMs: Date.now() - context.startedAt,
+    })
+    return response
+  }
+
+  /**
+   * 計測用のフックを呼ぶ。フックの例外でリクエストが失敗しないよう、例外はログに出して無視する
+   * @private
+   */
+  private async notify<C>(hook: ((context: C) => void | Promise<void>) | undefined, context: C): Promise<void> {
+    if (!hook) return
+    try {
+      await hook(context)
+    } catch (error) {
+      console.error('VOICEVOX APIフックでエラーが発生しました:', error)
+    }
+  }
+
+  /**
+   * 指定ミリ秒待機（中断されたらすぐに戻る。待ち終えたら signal のリスナーを解除する）
+   * @private
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timer)
+        resolve()
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort)
+        resolve()
+      }, ms)
+      signal?.addEventListener('abort', onAbort, { once: true })
+    })
   }
 
   /**
@@ -341,3 +1111,32 @@ export class VoicevoxApi {
     return url.endsWith('/') ? url.slice(0, -1) : url
   }
 }
+
+/**
+ * シグナルが中断済みなら REQUEST_ABORTED の VoicevoxError をスロー
+ */
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new VoicevoxError('リクエストが中断されました', VoicevoxErrorCode.REQUEST_ABORTED, signal.reason)
+  }
+}
+
+/**
+ * いずれかのシグナルが中断されたら中断されるシグナルを作成
+ * AbortSignal.any が無い環境（Node.js 20.3 未満）向けのフォールバック付き
+ */
+function anySignal(signals: Array<AbortSignal | undefined>): AbortSignal {
+  const defined = signals.filter((s): s is AbortSignal => s !== undefined)
+  if (defined.length === 1) return defined[0]
+  if (typeof AbortSignal.any === 'function') return AbortSignal.any(defined)
+
+  const controller = new AbortController()
+  for (const s of defined) {
+    if (s.aborted) {
+      controller.abort(s.reason)
+      break
+    }
+    s.addEventListener('abort', () => controller.abort(s.reason), { once: true })
+  }
+  return controller.signal
+}
@@ -0,0 +1,160 @@
+/**
+ * AudioQuery から音声の長さと、モーラ・アクセント句ごとの発話タイミングを計算する
+ *
+ * エンジンの合成と同じ順に音長を調整する:
+ * 前後の無音を足す → 句読点の間（pauseLength・pauseLengthScale）→ 疑問文の語尾上げ → 話速（前後の無音・間も含めて割る）
+ * 音素ごとにフレーム（24000Hz / 256 サンプル）単位へ丸めるため、VOICEVOX の合成結果の長さと一致する
+ */
+import type { AccentPhrase, AudioQuery, Mora } from './types.js'
+
+/** 1 秒あたりのフレーム数（エンジンは音素の長さをこの単位で丸める） */
+const FRAME_RATE = 24000 / 256
+
+/** 疑問文の語尾上げでエンジンが足すモーラの長さ（秒） */
+const UPSPEAK_LENGTH = 0.15
+
+/**
+ * モーラの発話タイミング（秒、音声の先頭から）
+ */
+export interface MoraTiming {
+  /** 文字 */
+  text: string
+  /** 子音の音素 */
+  consonant?: string
+  /** 母音の音素（句読点の間は "pau"） */
+  vowel: string
+  /** 開始時刻（子音があれば子音の開始） */
+  start: number
+  /** 母音の開始時刻 */
+  vowelStart: number
+  /** 終了時刻 */
+  end: number
+}
+
+/**
+ * アクセント句の発話タイミング（秒、音声の先頭から）
+ */
+export interface AccentPhraseTiming {
+  /** モーラの文字をつなげた読み */
+  text: string
+  /** 最初のモーラの開始時刻 */
+  start: number
+  /** 最後のモーラの終了時刻（後ろの間は含まない） */
+  end: number
+  moras: MoraTiming[]
+  /** 句読点の後の間 */
+  pause?: { start: number; end: number }
+}
+
+/**
+ * 音声全体のタイミング
+ */
+export interface AudioTiming {
+  /** 音声の長さ（秒、前後の無音を含む） */
+  duration: number
+  accentPhrases: AccentPhraseTiming[]
+}
+
+const toFrames = (seconds: number | undefined) => Math.max(0, Math.round((seconds ?? 0) * FRAME_RATE))
+
+/** フレーム数を秒にする（JSON で扱いやすいようにミリ秒で丸める） */
+const toSeconds = (frames: number) => Math.round((frames / FRAME_RATE) * 1000) / 1000
+
+/**
+ * 疑問文のアクセント句の語尾に、エンジンが合成時に足すモーラを加える（無声化したモーラの後には足さない）
+ */
+function withUpspeak(phrase: AccentPhrase): Mora[] {
+  const last = phrase.moras.at(-1)
+  if (!phrase.is_interrogative || !last || last.pitch <= 0) return phrase.moras
+  return [...phrase.moras, { text: 'ー', vowel: last.vowel, vowel_length: UPSPEAK_LENGTH, pitch: last.pitch }]
+}
+
+/**
+ * AudioQuery から音声の長さと発話タイミングを計算する
+ *
+ * @example
+ * const query = await client.generateQuery('こんにちは、世界')
+ * const { duration, accentPhrases } = computeAudioTiming(query)
+ * accentPhrases.map((phrase) => [phrase.text, phrase.start, phrase.end])
+ */
+export function computeAudioTiming(query: AudioQuery): AudioTiming {
+  const speed = query.speedScale > 0 ? query.speedScale : 1
+  const frames = (seconds: number | undefined) => toFrames((seconds ?? 0) / speed)
+  const pauseLength = (mora: Mora) => (query.pauseLength ?? mora.vowel_length) * (query.pauseLengthScale ?? 1)
+
+  let cursor = frames(query.prePhonemeLength)
+  const accentPhrases = query.accent_phrases.map((phrase): AccentPhraseTiming => {
+    const start = cursor
+    const moras = withUpspeak(phrase).map((mora): MoraTiming => {
+      const moraStart = cursor
+      cursor += frames(mora.consonant_length)
+      const vowelStart = cursor
+      cursor += frames(mora.vowel_length)
+      return {
+        text: mora.text,
+        ...(mora.consonant ? { consonant: mora.consonant } : {}),
+        vowel: mora.vowel,
+        start: toSeconds(moraStart),
+        vowelStart: toSeconds(vowelStart),
+        end: toSeconds(cursor),
+      }
+    })
+    const end = cursor
+    const timing: AccentPhraseTiming = {
+      text: phrase.moras.map((mora) => mora.text).join(''),
+      start: toSeconds(start),
+      end: toSeconds(end),
+      moras,
+    }
+    if (phrase.pause_mora) {
+      cursor += frames(pauseLength(phrase.pause_mora))
+      timing.pause = { start: toSeconds(end), end: toSeconds(cursor) }
+    }
+    return timing
+  })
+  cursor += frames(query.postPhonemeLength)
+
+  return { duration: toSeconds(cursor), accentPhrases }
+}
+
+/**
+ * AudioQuery から音声の長さ（秒）を計算する
+ */
+export function estimateDuration(query: AudioQuery): number {
+  return computeAudioTiming(query).duration
+}
+
+/**
+ * タイミングの時刻をずらす（連結した音声の後ろの部分に使う）
+ */
+export function shiftAudioTiming(timing: AudioTiming, offset: number): AudioTiming {
+  const shift = (seconds: number) => Math.round((seconds + offset) * 1000) / 1000
+  return {
+    duration: timing.duration,
+    accentPhrases: timing.accentPhrases.map((phrase) => ({
+      ...phrase,
+      start: shift(phrase.start),
+      end: shift(phrase.end),
+      moras: phrase.moras.map((mora) => ({
+        ...mora,
+        start: shift(mora.start),
+        vowelStart: shift(mora.vowelStart),
+        end: shift(mora.end),
+      })),
+      ...(phrase.pause ? { pause: { start: shift(phrase.pause.start), end: shift(phrase.pause.end) } } : {}),
+    })),
+  }
+}
+
+/**
+ * 順に連結した音声のタイミングを 1 つにまとめる
+ */
+export function concatAudioTimings(timings: AudioTiming[]): AudioTiming {
+  let offset = 0
+  const accentPhrases: AccentPhraseTiming[] = []
+  for (const timing of timings) {
+    accentPhrases.push(...shiftAudioTiming(timing, offset).accentPhrases)
+    offset += timing.duration
+  }
+  return { duration: Math.round(offset * 1000) / 1000, accentPhrases }
+}
@@ -1,22 +1,98 @@
 import type { NormalizedDictionaryWord } from './accent-utils.js'
 import { VoicevoxApi } from './api.js'
+import { computeAudioTiming } from './audio-timing.js'
+import { assertEngineFeature } from './engine-capabilities.js'
+import type { EngineHealth } from './engine-pool.js'
+import { resolveEngineProfile } from './engine-profile.js'
 import { handleError } from './error.js'
 import { QueueService } from './queue/queue-service.js'
 import { QueueEventType, QueueItemStatus } from './queue/types.js'
+import { QUEUE_PRIORITIES, type QueuePriority } from './queue-priority.js'
+import { DEFAULT_SINGING_TEACHER } from './score-utils.js'
 import type {
   DictionaryWordInput as DictionaryWordInputBase,
   DictionaryWordUpdateInput as DictionaryWordUpdateInputBase,
 } from './services/dictionary-service.js'
 import { DictionaryService } from './services/dictionary-service.js'
-import type { SpeechServiceSpeakOptions } from './services/speech-service.js'
+import type {
+  PresetInput as PresetInputBase,
+  PresetUpdateInput as PresetUpdateInputBase,
+} from './services/preset-service.js'
+import { PresetService } from './services/preset-service.js'
+import type { SingOptions as SingingServiceSingOptions } from './services/singing-service.js'
+import { SingingService } from './services/singing-service.js'
+import { SpeakerWarmupService } from './services/speaker-warmup-service.js'
+import type {
+  MorphingAudioFileOptions,
+  SpeechAudioFileOptions,
+  SpeechServiceSpeakOptions,
+  SsmlAudioFileOptions,
+} from './services/speech-service.js'
 import { SpeechService } from './services/speech-service.js'
-import type { AccentPhrase, AudioQuery, PlaybackOptions, SpeakResult, SpeechSegment, VoicevoxConfig } from './types.js'
+import type { SpeechStream, SpeechStreamOptions as SpeechStreamOptionsBase } from './services/speech-stream.js'
+import { createSpeakerResolver, type SpeakerAliases, type SpeakerResolver } from './speaker-resolver.js'
+import type { SsmlSegment } from './ssml.js'
+import type { SynthesisCache } from './synthesis-cache.js'
+import type {
+  AccentPhrase,
+  AudioFileResult,
+  AudioQuery,
+  EngineCapabilities,
+  PlaybackOptions,
+  Preset,
+  Score,
+  Speaker,
+  SpeakResult,
+  SpeechSegment,
+  VoicevoxConfig,
+} from './types.js'
+import { createVisemeTimeline, type VisemeOptions, type VisemeTimeline } from './visemes.js'
 
 /**
  * 話者オプション（統一API用）
  */
 export interface SpeakOptions extends SpeechServiceSpeakOptions {}
 
+/**
+ * 読み上げストリームのオプション（immediate・waitForStart は最初の文、waitForEnd は end() に効く）
+ */
+export interface SpeechStreamOptions extends SpeechStreamOptionsBase {}
+
+/**
+ * プリセット追加入力
+ */
+export interface PresetInput extends PresetInputBase {}
+
+/**
+ * プリセット更新入力
+ */
+export interface PresetUpdateInput extends PresetUpdateInputBase {}
+
+/**
+ * 音声ファイル生成オプション
+ */
+export interface AudioFileOptions extends SpeechAudioFileOptions {}
+
+/**
+ * モーフィング音声ファイル生成オプション
+ */
+export interface MorphOptions extends MorphingAudioFileOptions {}
+
+/**
+ * SSML 音声ファイル生成オプション
+ */
+export interface SsmlFileOptions extends SsmlAudioFileOptions {}
+
+/**
+ * 口の形のタイムライン生成オプション
+ */
+export interface VisemeTimelineOptions extends VisemeOptions, AudioFileOptions {}
+
+/**
+ * 歌唱オプション
+ */
+export interface SingOptions extends SingingServiceSingOptions {}
+
 /**
  * 辞書単語追加入力
  */
@@ -56,12 +132,19 @@ export class VoicevoxClient {
   private readonly api: VoicevoxApi
   private readonly defaultPlaybackOptions: PlaybackOptions
   private readonly dictionaryService: DictionaryService
+  private readonly presetService: PresetService
   private readonly speechService: SpeechService
+  private readonly singingService: SingingService
+  private readonly speakerWarmupService: SpeakerWarmupService
+  private readonly synthesisCache: SynthesisCache | undefined
+  private readonly speakerAliases: SpeakerAliases | undefined
 
   constructor(config: VoicevoxConfig) {
-    this.validateConfig(config)
+    const engineProfile = resolveEngineProfile(config.engineProfile)
+    const url = config.url ?? engineProfile.defaultUrl
+    this.validateConfig(url, config)
 
-    const defaultSpeaker = config.defaultSpeaker ?? 1
+    const defaultSpeaker = config.defaultSpeaker ?? engineProfile.defaultSpeaker
     const defaultSpeedScale = config.defaultSpeedScale ?? 1.0
 
     const envOptions = getPlaybackOptionsFromEnv()
@@ -84,17 +167,30 @@ export class VoicevoxClient {
       this.defaultPlaybackOptions.waitForEnd = envOptions.waitForEnd
     }
 
-    this.api = new VoicevoxApi(config.url, {
+    this.synthesisCache = config.synthesisCache
+    this.speakerAliases = config.speakerAliases
+    this.api = new VoicevoxApi(url, {
       retryCount: config.retryCount,
       retryDelayMs: config.retryDelayMs,
       timeoutMs: config.timeoutMs,
+      engineSelection: config.engineSelection,
+      fetch: config.fetch,
+      onRequest: config.onRequest,
+      onResponse: config.onResponse,
+      onRetry: config.onRetry,
+      synthesisCache: config.synthesisCache,
+      engineProfile,
     })
+    this.speakerWarmupService = new SpeakerWarmupService(this.api)
     this.queueService = new QueueService(this.api, {
       useStreaming: config.useStreaming,
       prefetchSize: config.prefetchSize,
+      speakerWarmup: config.warmUpOnEnqueue === false ? undefined : this.speakerWarmupService,
+      interruption: config.interruption,
     })
 
     this.dictionaryService = new DictionaryService(this.api, defaultSpeaker)
+    this.presetService = new PresetService(this.api)
     this.speechService = new SpeechService(this.api, this.queueService, {
       defaultSpeaker,
       defaultSpeedScale,
@@ -104,6 +200,16 @@ export class VoicevoxClient {
       defaultPostPhonemeLength: config.defaultPostPhonemeLength,
       defaultPlaybackOptions: this.defaultPlaybackOptions,
       maxSegmentLength: config.maxSegmentLength ?? 150,
+      minSegmentLength: config.minSegmentLength,
+      firstSegmentMaxLength: config.firstSegmentMaxLength,
+      textPreprocess: config.textPreprocess,
+      textNormalize: config.textNormalize,
+      speakerAliases: config.speakerAliases,
+    })
+    this.singingService = new SingingService(this.api, this.queueService, {
+      defaultSinger: config.defaultSinger,
+      defaultSingingTeacher: config.defaultSingingTeacher ?? DEFAULT_SINGING_TEACHER,
+      defaultPlaybackOptions: this.defaultPlaybackOptions,
     })
 
     this.queueService.startPlayback()
@@ -118,17 +224,103 @@ export class VoicevoxClient {
     return this.speechService.speak(input, options)
   }
 
-  public async generateQuery(text: string, speaker?: number, speedScale?: number): Promise<AudioQuery> {
-    return this.speechService.generateQuery(text, speaker, speedScale)
+  /**
+   * 少しずつ届くテキスト（LLM の応答のストリームなど）を、文の区切りが確定するたびに読み上げるストリームを作る
+   *
+   * @example
+   * const stream = client.createSpeechStream({ speaker: 3 })
+   * await stream.write('こんにちは。今日')
+   * await stream.write('はいい天気ですね')
+   * await stream.end()
+   */
+  public createSpeechStream(options: SpeechStreamOptions = {}): SpeechStream {
+    return this.speechService.createStream(options)
+  }
+
+  public async generateQuery(
+    text: string,
+    speaker?: number,
+    speedScale?: number,
+    signal?: AbortSignal
+  ): Promise<AudioQuery> {
+    return this.speechService.generateQuery(text, speaker, speedScale, signal)
   }
 
+  /**
+   * 音声ファイルを生成し、保存先を返す
+   * 3 番目の引数に数値を渡すと話者、4 番目を話速として扱う（従来の呼び出し方）
+   */
   public async generateAudioFile(
-    textOrQuery: string | AudioQuery,
+    textOrQuery: string | SpeechSegment[] | AudioQuery,
     outputPath?: string,
-    speaker?: number,
+    options?: AudioFileOptions | number,
     speedScale?: number
   ): Promise<string> {
-    return this.speechService.generateAudioFile(textOrQuery, outputPath, speaker, speedScale)
+    return this.speechService.generateAudioFile(
+      textOrQuery,
+      outputPath,
+      typeof options === 'number' ? { speaker: options, speedScale } : options
+    )
+  }
+
+  /**
+   * generateAudioFile() と同じく音声ファイルを生成し、保存先と音声の長さ・発話タイミングを返す
+   */
+  public async generateAudioFileWithTiming(
+    textOrQuery: string | SpeechSegment[] | AudioQuery,
+    outputPath?: string,
+    options: AudioFileOptions = {}
+  ): Promise<AudioFileResult> {
+    return this.speechService.createAudioFile(textOrQuery, outputPath, options)
+  }
+
+  /**
+   * generateAudioFile() と同じ AudioQuery から口の形のタイムラインを作る（音声は合成しない）
+   */
+  public async generateVisemeTimeline(
+    textOrQuery: string | AudioQuery,
+    options: VisemeTimelineOptions = {}
+  ): Promise<VisemeTimeline> {
+    const query = await this.speechService.generateFileQuery(textOrQuery, options)
+    return createVisemeTimeline(computeAudioTiming(query), options)
+  }
+
+  public async getMorphableTargets(speaker?: number, signal?: AbortSignal): Promise<number[]> {
+    return this.speechService.getMorphableTargets(speaker, signal)
+  }
+
+  public async generateMorphingAudioFile(
+    textOrQuery: string | AudioQuery,
+    outputPath: string | undefined,
+    options: MorphOptions
+  ): Promise<string> {
+    return this.speechService.generateMorphingAudioFile(textOrQuery, outputPath, options)
+  }
+
+  /**
+   * SSML をセグメントに変換（<voice name> はスタイルIDに解決済み）
+   */
+  public async compileSsml(ssml: string, signal?: AbortSignal): Promise<SsmlSegment[]> {
+    return this.speechService.compileSsml(ssml, signal)
+  }
+
+  public async generateSsmlAudioFile(
+    ssml: string,
+    outputPath?: string,
+    options: SsmlFileOptions = {}
+  ): Promise<string> {
+    return this.speechService.generateSsmlAudioFile(ssml, outputPath, options)
+  }
+
+  /**
+   * generateSsmlAudioFile() と同じく音声ファイルを生成し、保存先と音声の長さ・発話タイミングを返す
+   */
+  public async generateSsmlAudioFileWithTiming(
+    ssml: string,
+    outputPath?: string,
+    options: SsmlFileOptions = {}
+  ): Promise<AudioFileResult> {
+    return this.speechService.createSsmlAudioFile(ssml, outputPath, options)
   }
 
   public async enqueueAudioGeneration(
@@ -138,20 +330,43 @@ export class VoicevoxClient {
     return this.speechService.enqueueAudioGeneration(input, options)
   }
 
-  private validateConfig(config: VoicevoxConfig): void {
-    if (!config.url) {
+  public async sing(score: Score, options: SingOptions = {}): Promise<SpeakResult> {
+    return this.singingService.sing(score, options)
+  }
+
+  public async generateSingingAudioFile(score: Score, outputPath?: string, options: SingOptions = {}): Promise<string> {
+    return this.singingService.generateAudioFile(score, outputPath, options)
+  }
+
+  private validateConfig(url: string | string[], config: VoicevoxConfig): void {
+    const urls = Array.isArray(url) ? url : [url]
+    if (urls.length === 0 || urls.some((url) => !url)) {
       throw new Error('VOICEVOXのURLが指定されていません')
     }
-    try {
-      new URL(config.url)
-    } catch {
-      throw new Error('無効なVOICEVOXのURLです')
+    for (const url of urls) {
+      try {
+        new URL(url)
+      } catch {
+        throw new Error('無効なVOICEVOXのURLです')
+      }
     }
     if (config.prefetchSize !== undefined) {
       if (!Number.isInteger(config.prefetchSize) || config.prefetchSize <= 0) {
         throw new Error('prefetchSize は 1 以上の整数で指定してください')
       }
     }
+    const { interruptAt, staleAfterMs } = config.interruption ?? {}
+    if (interruptAt !== undefined && interruptAt !== false && !QUEUE_PRIORITIES.includes(interruptAt)) {
+      throw new Error(`不明な優先度です: ${interruptAt}（${QUEUE_PRIORITIES.join(', ')}）`)
+    }
+    for (const [priority, ms] of Object.entries(staleAfterMs ?? {})) {
+      if (!QUEUE_PRIORITIES.includes(priority as QueuePriority)) {
+        throw new Error(`不明な優先度です: ${priority}（${QUEUE_PRIORITIES.join(', ')}）`)
+      }
+      if (ms !== undefined && !(ms > 0)) {
+        throw new Error('staleAfterMs は 0 より大きいミリ秒で指定してください')
+      }
+    }
   }
 
   public async getDictionary(): Promise<NormalizedDictionaryWord[]> {
@@ -185,6 +400,22 @@ export class VoicevoxClient {
     return this.dictionaryService.getAccentNotation(text, speaker)
   }
 
+  public async getPresets(): Promise<Preset[]> {
+    return this.presetService.getPresets()
+  }
+
+  public async addPreset(input: PresetInput): Promise<Preset> {
+    return this.presetService.addPreset(input)
+  }
+
+  public async updatePreset(input: PresetUpdateInput): Promise<Preset> {
+    return this.presetService.updatePreset(input)
+  }
+
+  public async deletePreset(id: number): Promise<Preset[]> {
+    return this.presetService.deletePreset(id)
+  }
+
   public async clearQueue(): Promise<void> {
     return this.queueService.clearQueue()
   }
@@ -197,6 +428,56 @@ export class VoicevoxClient {
     }
   }
 
+  /**
+   * 現在の話者一覧と設定のエイリアスから話者名の解決器を作る（parseStringInput に渡す）
+   */
+  public async getSpeakerResolver(signal?: AbortSignal): Promise<SpeakerResolver> {
+    return createSpeakerResolver(await this.api.getSpeakers(signal), this.speakerAliases)
+  }
+
+  /**
+   * 話者名（"ずんだもん"・"ずんだもん/あまあま"・エイリアス）をスタイルIDに解決する
+   * 数値・数字だけの文字列はそのままスタイルIDとして扱い、話者一覧は取得しない
+   *
+   * @throws 一致する話者がいない・決められない場合（候補を挙げる）
+   */
+  public async resolveSpeaker(speaker: number | string, signal?: AbortSignal): Promise<number> {
+    if (typeof speaker === 'number') return speaker
+    if (/^\d+$/.test(speaker.trim())) return Number(speaker.trim())
+    return (await this.getSpeakerResolver(signal)).resolve(speaker)
+  }
+
+  /**
+   * 話者（スタイル）のモデルを事前に読み込み、最初の発話の待ち時間を短縮する
+   */
+  public async initializeSpeaker(speaker: number): Promise<void> {
+    return this.speakerWarmupService.warmUp(speaker)
+  }
+
+  /**
+   * 複数の話者のモデルをまとめて読み込む
+   * @returns 読み込めなかった話者ID
+   */
+  public async preloadSpeakers(speakers: number[]): Promise<number[]> {
+    return this.speakerWarmupService.warmUpAll(speakers)
+  }
+
+  /**
+   * 話者（スタイル）のモデルが読み込み済みか確認
+   */
+  public async isSpeakerInitialized(speaker: number, signal?: AbortSignal): Promise<boolean> {
+    return this.speakerWarmupService.isInitialized(speaker, signal)
+  }
+
+  public async getSingers(): Promise<Speaker[]> {
+    await assertEngineFeature(this.api, 'singing')
+    try {
+      return await this.api.getSingers()
+    } catch (error) {
+      throw handleError('歌唱スタイル一覧取得中にエラーが発生しました', error)
+    }
+  }
+
   public async getSpeakerInfo(uuid: string) {
     try {
       return await this.api.getSpeakerInfo(uuid)
@@ -209,6 +490,34 @@ export class VoicevoxClient {
     return this.api.checkHealth()
   }
 
+  /**
+   * 指定された全エンジンの接続状態をチェック
+   */
+  public async checkEngines(signal?: AbortSignal): Promise<EngineHealth[]> {
+    return this.api.checkEngines(signal)
+  }
+
+  /**
+   * 接続中のエンジンが対応する機能を取得（初回取得後はキャッシュを返す）
+   */
+  public async getEngineCapabilities(signal?: AbortSignal): Promise<EngineCapabilities> {
+    return this.api.getEngineCapabilities(signal)
+  }
+
+  /**
+   * キャッシュ済みのエンジン機能情報を返す（未取得なら undefined）
+   */
+  public getCachedEngineCapabilities(): EngineCapabilities | undefined {
+    return this.api.getCachedEngineCapabilities()
+  }
+
+  /**
+   * 合成結果のキャッシュ（設定で渡されたもの。未指定なら undefined）
+   */
+  public getSynthesisCache(): SynthesisCache | undefined {
+    return this.synthesisCache
+  }
+
   public getQueueService(): QueueService {
     return this.queueService
   }
@@ -0,0 +1,68 @@
+/**
+ * テキスト中の感情タグ（[happy]・[whisper] など）を、話者のスタイルに切り替える指定として扱う
+ *
+ * スタイルIDは話者ごとに違うため、タグはスタイル名の候補に対応づけ、
+ * 話している話者（キャラクター）のスタイルから候補に一致するものを選ぶ
+ */
+
+/**
+ * 感情タグ → スタイル名の候補（先に書いたものを優先）
+ */
+export type EmotionStyleMap = Record<string, string[]>
+
+/**
+ * 組み込みの感情タグ（VOICEVOX の主なキャラクターのスタイル名）
+ */
+export const DEFAULT_EMOTION_STYLES: EmotionStyleMap = {
+  normal: ['ノーマル', 'ふつう'],
+  happy: ['あまあま', '喜び', 'わーい', 'たのしい', '楽々', 'うきうき', '元気'],
+  angry: ['ツンツン', 'ツンギレ', 'おこ', '怒り', '不機嫌'],
+  sad: ['なみだめ', '悲しみ', 'かなしみ', 'かなしい', 'びえーん', '泣き'],
+  whisper: ['ささやき', '囁き', 'ヒソヒソ', '内緒話'],
+  scared: ['びくびく', '恐怖', 'こわがり'],
+  tired: ['ヘロヘロ', 'へろへろ'],
+  calm: ['しっとり', 'おちつき', 'のんびり'],
+  surprised: ['おどろき'],
+}
+
+/** [tag] の形（タグ名は空白・括弧を含まない 20 文字以内） */
+const TAG_PATTERN = /\[([^[\]\s]{1,20})\]/g
+
+/**
+ * テキストを感情タグで区切る
+ *
+ * タグはそこから次のタグ（または行末）までに効く。map に無いタグ（"[1]" など）は本文として残す
+ *
+ * @example
+ * splitEmotionTags('おはよう[happy]やったー！[whisper]ひみつだよ', DEFAULT_EMOTION_STYLES)
+ * // => [{ text: 'おはよう' }, { text: 'やったー！', emotion: 'happy' }, { text: 'ひみつだよ', emotion: 'whisper' }]
+ */
+export function splitEmotionTags(text: string, emotions: EmotionStyleMap): Array<{ text: string; emotion?: string }> {
+  const keys = new Map(Object.keys(emotions).map((key) => [key.toLowerCase(), key]))
+  const parts: Array<{ text: string; emotion?: string }> = []
+  let emotion: string | undefined
+  let start = 0
+
+  const push = (end: number) => {
+    const part = text.slice(start, end).trim()
+    if (part) parts.push(emotion === undefined ? { text: part } : { text: part, emotion })
+  }
+
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const key = keys.get(match[1].toLowerCase())
+    if (key === undefined) continue
+    push(match.index)
+    emotion = key
+    start = match.index + match[0].length
+  }
+  push(text.length)
+  return parts
+}
+
+/**
+ * テキストに感情タグが含まれるか（スタイルの解決に話者一覧が必要かどうかの判定に使う）
+ */
+export function hasEmotionTags(text: string, emotions: EmotionStyleMap): boolean {
+  const keys = new Set(Object.keys(emotions).map((key) => key.toLowerCase()))
+  return Array.from(text.matchAll(TAG_PATTERN)).some((match) => keys.has(match[1].toLowerCase()))
+}
@@ -0,0 +1,93 @@
+import type { VoicevoxApi } from './api.js'
+import { isAbortError, VoicevoxError, VoicevoxErrorCode } from './error.js'
+import type { EngineCapabilities, EngineFeature, EngineManifest } from './types.js'
+
+/**
+ * マニフェストに対応フラグが無い場合に、VOICEVOX ENGINE で機能が追加されたバージョン
+ */
+const FEATURE_SINCE_VERSION: Partial<Record<EngineFeature, string>> = {
+  pauseLength: '0.14.0',
+  singing: '0.16.0',
+  userDictionary: '0.12.0',
+}
+
+const FEATURE_LABELS: Record<EngineFeature, string> = {
+  pauseLength: '間の長さ（pauseLengthScale）の調整',
+  morphing: 'モーフィング合成',
+  singing: '歌唱合成',
+  userDictionary: 'ユーザー辞書',
+}
+
+/**
+ * バージョン文字列が指定バージョン以上か判定
+ * "latest" などの開発版や解釈できない形式は最新とみなす
+ */
+export function isEngineVersionAtLeast(version: string | undefined, minVersion: string): boolean {
+  const parse = (v: string) =>
+    v
+      .match(/^v?(\d+)\.(\d+)\.(\d+)/)
+      ?.slice(1, 4)
+      .map(Number)
+  const current = version ? parse(version) : undefined
+  const required = parse(minVersion)
+  if (!current || !required) return true
+
+  for (let i = 0; i < 3; i++) {
+    if (current[i] !== required[i]) return current[i] > required[i]
+  }
+  return true
+}
+
+/**
+ * マニフェストとバージョンから機能の対応可否を決定
+ * マニフェストのフラグを優先し、無い場合はバージョンで判定する。
+ * バージョンによる判定は VOICEVOX ENGINE のバージョン体系に基づくため、
+ * 互換エンジン（brand_name が VOICEVOX 以外）ではフラグが無ければ対応とみなす。
+ */
+export function resolveEngineCapabilities(manifest?: EngineManifest, version?: string): EngineCapabilities {
+  const flags = manifest?.supported_features ?? {}
+  const usesVoicevoxVersioning = !manifest || manifest.brand_name === 'VOICEVOX'
+  const since = (feature: EngineFeature) => {
+    const minVersion = FEATURE_SINCE_VERSION[feature]
+    return !minVersion || !usesVoicevoxVersioning || isEngineVersionAtLeast(version, minVersion)
+  }
+
+  return {
+    name: manifest?.name,
+    brandName: manifest?.brand_name,
+    version,
+    manifest,
+    features: {
+      pauseLength: flags.adjust_pause_length ?? since('pauseLength'),
+      morphing: flags.synthesis_morphing ?? since('morphing'),
+      singing: flags.sing ?? since('singing'),
+      userDictionary: since('userDictionary'),
+    },
+  }
+}
+
+/**
+ * 接続中のエンジンが機能に対応していなければ FEATURE_NOT_SUPPORTED をスロー
+ * エンジン情報を取得できない場合は判定せず、本来のリクエストに任せる
+ */
+export async function assertEngineFeature(
+  api: VoicevoxApi,
+  feature: EngineFeature,
+  signal?: AbortSignal
+): Promise<void> {
+  let capabilities: EngineCapabilities
+  try {
+    capabilities = await api.getEngineCapabilities(signal)
+  } catch (error) {
+    if (isAbortError(error)) throw error
+    return
+  }
+
+  if (!capabilities.features[feature]) {
+    const engine = [capabilities.name, capabilities.version].filter(Boolean).join(' ') || 'VOICEVOX'
+    throw new VoicevoxError(
+      `接続中のエンジン（${engine}）は${FEATURE_LABELS[feature]}に対応していません`,
+      VoicevoxErrorCode.FEATURE_NOT_SUPPORTED
+    )
+  }
+}
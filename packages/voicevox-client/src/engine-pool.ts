@@ -0,0 +1,170 @@
+/**
+ * 複数エンジンの選び方
+ * - round-robin: 正常なエンジンを順番に使う
+ * - least-latency: 直近の応答時間が最も短いエンジンを使う
+ */
+export type EngineSelectionStrategy = 'round-robin' | 'least-latency'
+
+export interface EnginePoolOptions {
+  /** エンジンの選び方（デフォルト: round-robin） */
+  selection?: EngineSelectionStrategy
+  /** 連続で何回失敗したら異常とみなすか（デフォルト: 3） */
+  unhealthyThreshold?: number
+  /** 異常とみなしたエンジンを再び試すまでの時間（ミリ秒、デフォルト: 30000） */
+  unhealthyCooldownMs?: number
+}
+
+/**
+ * エンジンごとの状態
+ */
+export interface EngineStatus {
+  url: string
+  /** 異常とみなされていないか */
+  healthy: boolean
+  /** 連続失敗回数 */
+  consecutiveFailures: number
+  /** 応答時間の移動平均（ミリ秒、未計測なら undefined） */
+  latencyMs?: number
+}
+
+/**
+ * エンジンごとの接続確認結果
+ */
+export interface EngineHealth extends EngineStatus {
+  connected: boolean
+  version?: string
+}
+
+const DEFAULT_UNHEALTHY_THRESHOLD = 3
+const DEFAULT_UNHEALTHY_COOLDOWN_MS = 30000
+// 応答時間の移動平均で直近の値に掛ける重み
+const LATENCY_SMOOTHING = 0.3
+
+interface EngineEntry extends EngineStatus {
+  /** この時刻まで選択対象から外す */
+  unhealthyUntil: number
+}
+
+/**
+ * 複数の VOICEVOX エンジンの中からリクエスト先を選ぶ
+ *
+ * 連続で失敗したエンジンは一定時間選択対象から外し、時間が経ったら再び試す。
+ * 全エンジンが異常な場合も、最も早く復帰予定のエンジンを返す（リクエスト自体は止めない）。
+ */
+export class EnginePool {
+  private readonly engines: EngineEntry[]
+  private readonly selection: EngineSelectionStrategy
+  private readonly unhealthyThreshold: number
+  private readonly unhealthyCooldownMs: number
+  private nextIndex = 0
+
+  constructor(
+    urls: string[],
+    options: EnginePoolOptions = {},
+    private readonly now: () => number = Date.now
+  ) {
+    if (urls.length === 0) {
+      throw new Error('VOICEVOXのURLが指定されていません')
+    }
+    const selection = options.selection ?? 'round-robin'
+    if (selection !== 'round-robin' && selection !== 'least-latency') {
+      throw new Error(`不明なエンジンの振り分け方法です: ${selection}（round-robin, least-latency）`)
+    }
+
+    this.engines = [...new Set(urls)].map((url) => ({
+      url,
+      healthy: true,
+      consecutiveFailures: 0,
+      unhealthyUntil: 0,
+    }))
+    this.selection = selection
+    this.unhealthyThreshold = Math.max(1, options.unhealthyThreshold ?? DEFAULT_UNHEALTHY_THRESHOLD)
+    this.unhealthyCooldownMs = Math.max(0, options.unhealthyCooldownMs ?? DEFAULT_UNHEALTHY_COOLDOWN_MS)
+  }
+
+  get size(): number {
+    return this.engines.length
+  }
+
+  /** 先頭に指定されたエンジンのURL */
+  get primaryUrl(): string {
+    return this.engines[0].url
+  }
+
+  /**
+   * リクエスト先のエンジンを選ぶ
+   * @param exclude 同じリクエストで既に失敗したエンジン（全エンジンが含まれる場合は無視する）
+   */
+  public select(exclude: ReadonlySet<string> = new Set()): string {
+    let candidates = this.engines.filter((engine) => !exclude.has(engine.url))
+    if (candidates.length === 0) candidates = this.engines
+
+    const now = this.now()
+    const available = candidates.filter((engine) => engine.healthy || engine.unhealthyUntil <= now)
+    if (available.length === 0) {
+      return candidates.reduce((a, b) => (b.unhealthyUntil < a.unhealthyUntil ? b : a)).url
+    }
+
+    if (this.selection === 'least-latency') {
+      // 未計測のエンジンは一度使って計測する
+      return available.reduce((a, b) => ((b.latencyMs ?? 0) < (a.latencyMs ?? 0) ? b : a)).url
+    }
+
+    for (let i = 0; i < this.engines.length; i++) {
+      const index = (this.nextIndex + i) % this.engines.length
+      if (available.includes(this.engines[index])) {
+        this.nextIndex = index + 1
+        return this.engines[index].url
+      }
+    }
+    return available[0].url
+  }
+
+  /**
+   * エンジンが応答したことを記録
+   * @param latencyMs 応答時間（エラー応答など計測しない場合は省略）
+   */
+  public reportSuccess(url: string, latencyMs?: number): void {
+    const engine = this.find(url)
+    if (!engine) return
+    engine.healthy = true
+    engine.consecutiveFailures = 0
+    engine.unhealthyUntil = 0
+    if (latencyMs !== undefined) {
+      engine.latencyMs =
+        engine.latencyMs === undefined
+          ? latencyMs
+          : engine.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING
+    }
+  }
+
+  /**
+   * エンジンへのリクエスト失敗を記録し、連続失敗が閾値に達したら異常とみなす
+   */
+  public reportFailure(url: string): void {
+    const engine = this.find(url)
+    if (!engine) return
+    engine.consecutiveFailures++
+    if (engine.consecutiveFailures >= this.unhealthyThreshold) {
+      engine.healthy = false
+      engine.unhealthyUntil = this.now() + this.unhealthyCooldownMs
+    }
+  }
+
+  public getStatuses(): EngineStatus[] {
+    return this.engines.map(({ url, healthy, consecutiveFailures, latencyMs }) => ({
+      url,
+      healthy,
+      consecutiveFailures,
+      latencyMs,
+    }))
+  }
+
+  public getStatus(url: string): EngineStatus | undefined {
+    return this.getStatuses().find((status) => status.url === url)
+  }
+
+  private find(url: string): EngineEntry | undefined {
+    return this.engines.find((engine) => engine.url === url)
+  }
+}
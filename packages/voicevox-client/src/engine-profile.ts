@@ -0,0 +1,94 @@
+import type { AudioQuery, Speaker } from './types.js'
+
+/**
+ * 組み込みのエンジンプロファイル名
+ */
+export type EngineProfileName = 'voicevox' | 'aivisspeech' | 'sharevox'
+
+/**
+ * エンジンによって受け付けない AudioQuery のフィールド
+ */
+export type OptionalAudioQueryField = 'kana' | 'pauseLength' | 'pauseLengthScale'
+
+/**
+ * VOICEVOX 互換 API を持つエンジンごとの違い
+ */
+export interface EngineProfile {
+  /** プロファイル名 */
+  name: string
+  /** URL を指定しなかったときの接続先 */
+  defaultUrl: string
+  /** 話者を指定しなかったときのスタイルID（エンジンによって ID の範囲が異なる） */
+  defaultSpeaker: number
+  /** エンジンの出力サンプリングレート（AudioQuery を自前で組み立てるときに使う） */
+  outputSamplingRate: number
+  /** /synthesis に送る前に AudioQuery から取り除くフィールド（エンジンが受け付けないもの） */
+  unsupportedQueryFields: readonly OptionalAudioQueryField[]
+  /** /speakers の結果を VOICEVOX と同じ形に揃える */
+  normalizeSpeakers?: (speakers: Speaker[]) => Speaker[]
+}
+
+/**
+ * スタイルの type などが無いエンジン向けに、VOICEVOX の既定値で埋める
+ */
+function fillSpeakerDefaults(speakers: Speaker[]): Speaker[] {
+  return speakers.map((speaker) => ({
+    ...speaker,
+    version: speaker.version ?? '',
+    styles: speaker.styles.map((style) => ({ ...style, type: style.type ?? 'talk' })),
+    supported_features: speaker.supported_features ?? { permitted_synthesis_morphing: 'NOTHING' },
+  }))
+}
+
+export const ENGINE_PROFILES: Record<EngineProfileName, EngineProfile> = {
+  voicevox: {
+    name: 'voicevox',
+    defaultUrl: 'http://localhost:50021',
+    defaultSpeaker: 1,
+    outputSamplingRate: 24000,
+    unsupportedQueryFields: [],
+  },
+  aivisspeech: {
+    name: 'aivisspeech',
+    defaultUrl: 'http://localhost:10101',
+    // Anneli（ノーマル）
+    defaultSpeaker: 888753760,
+    outputSamplingRate: 44100,
+    unsupportedQueryFields: ['pauseLength', 'pauseLengthScale'],
+    normalizeSpeakers: fillSpeakerDefaults,
+  },
+  sharevox: {
+    name: 'sharevox',
+    defaultUrl: 'http://localhost:50025',
+    defaultSpeaker: 0,
+    outputSamplingRate: 24000,
+    unsupportedQueryFields: ['pauseLength', 'pauseLengthScale'],
+    normalizeSpeakers: fillSpeakerDefaults,
+  },
+}
+
+/**
+ * プロファイル名またはプロファイルから EngineProfile を取得（未指定なら VOICEVOX）
+ */
+export function resolveEngineProfile(profile?: EngineProfileName | EngineProfile | string): EngineProfile {
+  if (profile === undefined) return ENGINE_PROFILES.voicevox
+  if (typeof profile !== 'string') return profile
+
+  const found = ENGINE_PROFILES[profile.toLowerCase() as EngineProfileName]
+  if (!found) {
+    throw new Error(`不明なエンジンプロファイルです: ${profile}（${Object.keys(ENGINE_PROFILES).join(', ')}）`)
+  }
+  return found
+}
+
+/**
+ * エンジンが受け付けないフィールドを取り除いた AudioQuery を返す（元のクエリは変更しない）
+ */
+export function stripUnsupportedQueryFields(query: AudioQuery, profile: EngineProfile): AudioQuery {
+  if (profile.unsupportedQueryFields.length === 0) return query
+  const stripped = { ...query }
+  for (const field of profile.unsupportedQueryFields) {
+    delete stripped[field]
+  }
+  return stripped
+}
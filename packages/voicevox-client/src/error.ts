@@ -5,8 +5,16 @@
  * @returns never（常に例外をスロー）
  */
 export function handleError(message: string, error: unknown): never {
+  // 中断は呼び出し元で判別できるよう、そのまま伝播させる
+  if (isAbortError(error)) {
+    throw error
+  }
   const errorMsg = error instanceof Error ? error.message : String(error)
   console.error(`${message}: ${errorMsg}`, error)
+  // エラーコードや HTTP の詳細を失わないよう、VoicevoxError は VoicevoxError のまま包む
+  if (error instanceof VoicevoxError) {
+    throw new VoicevoxError(`${message}: ${errorMsg}`, error.code, error, error.getHttpDetails())
+  }
   throw new Error(`${message}: ${errorMsg}`)
 }
 
@@ -32,21 +40,70 @@ export enum VoicevoxErrorCode {
   FILE_OPERATION_ERROR = 'file_operation_error',
   PLAYBACK_ERROR = 'playback_error',
   QUEUE_OPERATION_ERROR = 'queue_operation_error',
+  MORPHING_NOT_PERMITTED = 'morphing_not_permitted',
+  REQUEST_ABORTED = 'request_aborted',
+  FEATURE_NOT_SUPPORTED = 'feature_not_supported',
+  /** リクエストの内容がエンジンに拒否された（HTTP 400/422） */
+  VALIDATION_ERROR = 'validation_error',
+  /** エンドポイントやリソースが存在しない（HTTP 404） */
+  NOT_FOUND = 'not_found',
+  /** エンジンが時間内に応答しなかった */
+  TIMEOUT = 'timeout',
+  /** エンジンが混雑している（HTTP 429/503） */
+  ENGINE_OVERLOADED = 'engine_overloaded',
   UNKNOWN_ERROR = 'unknown_error',
 }
 
+/**
+ * エンジンへのリクエストが失敗したときの詳細
+ */
+export interface VoicevoxHttpErrorDetails {
+  /** HTTPステータスコード（エンジンがエラーレスポンスを返した場合） */
+  status?: number
+  /** リクエスト先のエンドポイント（クエリ文字列は含まない） */
+  endpoint?: string
+  /** エンジンが返したエラー内容（FastAPI の detail を整形したもの） */
+  detail?: string
+  /** 失敗するまでに行ったリトライ回数 */
+  retryCount?: number
+}
+
 /**
  * VOICEVOXエラークラス
  */
 export class VoicevoxError extends Error {
   code: VoicevoxErrorCode
   originalError?: unknown
+  /** HTTPステータスコード（エンジンがエラーレスポンスを返した場合） */
+  status?: number
+  /** リクエスト先のエンドポイント（クエリ文字列は含まない） */
+  endpoint?: string
+  /** エンジンが返したエラー内容 */
+  detail?: string
+  /** 失敗するまでに行ったリトライ回数 */
+  retryCount?: number
 
-  constructor(message: string, code: VoicevoxErrorCode = VoicevoxErrorCode.UNKNOWN_ERROR, originalError?: unknown) {
+  constructor(
+    message: string,
+    code: VoicevoxErrorCode = VoicevoxErrorCode.UNKNOWN_ERROR,
+    originalError?: unknown,
+    details: VoicevoxHttpErrorDetails = {}
+  ) {
     super(message)
     this.name = 'VoicevoxError'
     this.code = code
     this.originalError = originalError
+    this.status = details.status
+    this.endpoint = details.endpoint
+    this.detail = details.detail
+    this.retryCount = details.retryCount
+  }
+
+  /**
+   * HTTP リクエストの詳細だけを取り出す（エラーを包み直すときに引き継ぐ）
+   */
+  getHttpDetails(): VoicevoxHttpErrorDetails {
+    return { status: this.status, endpoint: this.endpoint, detail: this.detail, retryCount: this.retryCount }
   }
 
   /**
@@ -54,6 +111,10 @@ export class VoicevoxError extends Error {
    */
   getDetailedMessage(): string {
     let details = `${this.message} [${this.code}]`
+    if (this.status !== undefined) details += `\nStatus: ${this.status}`
+    if (this.endpoint) details += `\nEndpoint: ${this.endpoint}`
+    if (this.detail) details += `\nDetail: ${this.detail}`
+    if (this.retryCount !== undefined) details += `\nRetries: ${this.retryCount}`
 
     if (this.originalError instanceof Error) {
       details += `\nOriginal Error: ${this.originalError.message}`
@@ -124,3 +185,65 @@ export function handlePlaybackError(message: string, error: unknown): never {
 export function handleQueueError(message: string, error: unknown): never {
   return throwVoicevoxError(message, VoicevoxErrorCode.QUEUE_OPERATION_ERROR, error)
 }
+
+/**
+ * AbortSignal による中断で発生したエラーかどうか
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    (error instanceof VoicevoxError && error.code === VoicevoxErrorCode.REQUEST_ABORTED) ||
+    (error instanceof Error && error.name === 'AbortError')
+  )
+}
+
+/**
+ * HTTPステータスコードに対応するエラーコード
+ */
+export function errorCodeFromStatus(status: number): VoicevoxErrorCode {
+  if (status === 400 || status === 422) return VoicevoxErrorCode.VALIDATION_ERROR
+  if (status === 404) return VoicevoxErrorCode.NOT_FOUND
+  if (status === 429 || status === 503) return VoicevoxErrorCode.ENGINE_OVERLOADED
+  return VoicevoxErrorCode.API_CONNECTION_ERROR
+}
+
+/** エンジンのエラー本文を表示するときの最大文字数 */
+const MAX_DETAIL_LENGTH = 500
+
+/**
+ * エンジンのエラーレスポンス本文から、人が読めるエラー内容を取り出す
+ *
+ * VOICEVOX ENGINE（FastAPI）は `{"detail": "..."}` か、バリデーションエラーの場合
+ * `{"detail": [{"loc": ["query", "speaker"], "msg": "...", "type": "..."}]}` を返す。
+ * JSON でなければ本文をそのまま使う。
+ */
+export function parseEngineErrorDetail(body: string): string | undefined {
+  const text = body.trim()
+  if (!text) return undefined
+
+  try {
+    const parsed = JSON.parse(text) as { detail?: unknown }
+    const detail = parsed?.detail
+    if (typeof detail === 'string') return truncate(detail)
+    if (Array.isArray(detail)) {
+      const messages = detail.map((item) => {
+        if (typeof item !== 'object' || item === null) return String(item)
+        const { loc, msg } = item as { loc?: unknown; msg?: unknown }
+        // 先頭の "query" / "body" は入力の場所を示すだけなので省く
+        const path = Array.isArray(loc) ? loc.filter((part, i) => i > 0 || (part !== 'query' && part !== 'body')) : []
+        return path.length > 0 ? `${path.join('.')}: ${String(msg)}` : String(msg)
+      })
+      return truncate(messages.join('; '))
+    }
+    // 読み仮名の解釈エラーは { text, error_name, error_args } で返る
+    if (typeof detail === 'object' && detail !== null && typeof (detail as { text?: unknown }).text === 'string') {
+      return truncate((detail as { text: string }).text)
+    }
+  } catch {
+    // JSON でない本文はそのまま使う
+  }
+  return truncate(text)
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_DETAIL_LENGTH ? `${text.slice(0, MAX_DETAIL_LENGTH)}…` : text
+}
@@ -1,12 +1,25 @@
 export * from './accent-utils.js'
 export * from './api.js'
+export * from './audio-timing.js'
 export * from './cache-policy.js'
 export {
+  type AudioFileOptions,
   type DictionaryWordInput,
   type DictionaryWordUpdateInput,
+  type MorphOptions,
+  type PresetInput,
+  type PresetUpdateInput,
+  type SingOptions,
   type SpeakOptions,
+  type SpeechStreamOptions,
+  type SsmlFileOptions,
+  type VisemeTimelineOptions,
   VoicevoxClient,
 } from './client.js'
+export * from './emotion-tags.js'
+export * from './engine-capabilities.js'
+export * from './engine-pool.js'
+export * from './engine-profile.js'
 export * from './error.js'
 // playbackモジュールから再エクスポート
 export {
@@ -31,6 +44,11 @@ export {
   type QueueManager,
   QueueService,
 } from './queue/index.js'
+export * from './queue-priority.js'
+export * from './score-utils.js'
+export { SpeechStream, type SpeechStreamResult } from './services/speech-stream.js'
+export * from './speaker-resolver.js'
+export * from './ssml.js'
 // stateモジュールから再エクスポート
 export {
   type ItemAction,
@@ -45,5 +63,12 @@ export {
   type StateChangeCallback,
   type StateTransition,
 } from './state/index.js'
+export * from './subtitles.js'
+export * from './synthesis-cache.js'
+export * from './text-normalize.js'
+export * from './text-preprocess.js'
+export * from './text-segment.js'
 export * from './types.js'
 export * from './utils.js'
+export * from './visemes.js'
+export * from './wav.js'
@@ -82,7 +82,10 @@ export class PlaybackService {
           throw new Error('ストリーミング再生が利用できません。一時ファイルを使用してください。')
         }
 
-        this.callbacks.onComplete?.(itemId)
+        // 停止・割り込みで中断した場合は完了として扱わない
+        if (!controller.signal.aborted) {
+          this.callbacks.onComplete?.(itemId)
+        }
       } catch (error) {
         // 中断による終了はエラーとして扱わない
         if (!controller.signal.aborted) {
@@ -90,7 +93,10 @@ export class PlaybackService {
           throw error
         }
       } finally {
-        this.activePlaybacks.delete(itemId)
+        // 割り込み後に同じアイテムを再生し直している場合は、新しい再生を残す
+        if (this.activePlaybacks.get(itemId) === activePlayback) {
+          this.activePlaybacks.delete(itemId)
+        }
       }
     })()
 
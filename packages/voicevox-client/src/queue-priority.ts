@@ -0,0 +1,47 @@
+/**
+ * キューアイテムの優先度と割り込みの方針
+ *
+ * 優先度の高いアイテムは低いアイテムより先に再生する。interruptAt 以上のアイテムは再生中の低い優先度のアイテムに割り込み、
+ * 割り込まれたアイテムは割り込んだアイテムの後で最初から再生し直す
+ */
+
+/**
+ * キューアイテムの優先度
+ */
+export type QueuePriority = 'low' | 'normal' | 'high' | 'urgent'
+
+/** 優先度（低い順） */
+export const QUEUE_PRIORITIES: readonly QueuePriority[] = ['low', 'normal', 'high', 'urgent']
+
+/**
+ * 割り込みと古くなったアイテムの破棄の方針
+ */
+export interface InterruptionPolicy {
+  /** この優先度以上のアイテムは、再生中のより低い優先度のアイテムに割り込む（false で割り込まない、デフォルト: urgent） */
+  interruptAt?: QueuePriority | false
+  /** 割り込まれたアイテムを割り込んだアイテムの後で最初から再生し直すか（false なら破棄する、デフォルト: true） */
+  resumeInterrupted?: boolean
+  /**
+   * 優先度ごとに、エンキューからこの時間（ミリ秒）を過ぎても再生が始まらないアイテムを破棄する
+   * 指定すると既定値を置き換える（デフォルト: { low: 30000 }）
+   */
+  staleAfterMs?: Partial<Record<QueuePriority, number>>
+}
+
+/**
+ * 方針の未指定の項目を既定値で埋める
+ */
+export function resolveInterruptionPolicy(policy: InterruptionPolicy = {}): Required<InterruptionPolicy> {
+  return {
+    interruptAt: policy.interruptAt ?? 'urgent',
+    resumeInterrupted: policy.resumeInterrupted ?? true,
+    staleAfterMs: policy.staleAfterMs ?? { low: 30_000 },
+  }
+}
+
+/**
+ * 優先度を比べる（a の方が高ければ正、低ければ負、未指定は normal として扱う）
+ */
+export function comparePriority(a: QueuePriority = 'normal', b: QueuePriority = 'normal'): number {
+  return QUEUE_PRIORITIES.indexOf(a) - QUEUE_PRIORITIES.indexOf(b)
+}
@@ -1,4 +1,5 @@
 import type { VoicevoxApi } from '../api.js'
+import { computeAudioTiming } from '../audio-timing.js'
 import type { ItemStateMachine } from '../state/item-state-machine.js'
 import type { QueueItemData } from '../state/types.js'
 import type { AudioQuery } from '../types.js'
@@ -33,11 +34,12 @@ export class AudioGenerator {
    * テキストから音声クエリを生成
    * @param text テキスト
    * @param speaker 話者ID
+   * @param signal 中断用シグナル
    * @returns 音声合成クエリ
    */
-  public async generateQuery(text: string, speaker: number): Promise<AudioQuery> {
+  public async generateQuery(text: string, speaker: number, signal?: AbortSignal): Promise<AudioQuery> {
     try {
-      const query = await this.api.generateQuery(text, speaker)
+      const query = await this.api.generateQuery(text, speaker, signal)
       query.prePhonemeLength = 0
       query.postPhonemeLength = 0
       return query
@@ -68,6 +70,7 @@ export class AudioGenerator {
       query.postPhonemeLength = 0
 
       item.query = query
+      item.timing = computeAudioTiming(query)
 
       const audioData = await this.api.synthesize(query, item.speaker)
       item.audioData = audioData
@@ -143,13 +146,26 @@ export class AudioGenerator {
     try {
       stateMachine.transition('startGeneration')
 
-      const query = await this.generateQuery(item.text, item.speaker)
-      const audioData = await this.api.synthesize(query, item.speaker)
+      const query = await this.generateQuery(item.text, item.speaker, item.signal)
+      item.query = query
+      item.timing = computeAudioTiming(query)
+      const audioData = item.morph
+        ? await this.api.synthesizeMorphing(
+            query,
+            item.speaker,
+            item.morph.targetSpeaker,
+            item.morph.morphRate,
+            item.signal
+          )
+        : await this.api.synthesize(query, item.speaker, item.signal)
       const tempFile = await this.fileManager.saveTempAudioFile(audioData)
 
       onComplete(item, audioData, tempFile)
     } catch (error) {
-      stateMachine.transition('generationFailed')
+      // 中断時はキューからの削除側で状態遷移済み
+      if (!item.signal?.aborted) {
+        stateMachine.transition('generationFailed')
+      }
       const err = error instanceof Error ? error : new Error(String(error))
       onError(item, err)
     }
@@ -178,12 +194,59 @@ export class AudioGenerator {
     try {
       stateMachine.transition('startGeneration')
 
-      const audioData = await this.api.synthesize(item.query, item.speaker)
+      const audioData = item.morph
+        ? await this.api.synthesizeMorphing(
+            item.query,
+            item.speaker,
+            item.morph.targetSpeaker,
+            item.morph.morphRate,
+            item.signal
+          )
+        : await this.api.synthesize(item.query, item.speaker, item.signal)
+      const tempFile = await this.fileManager.saveTempAudioFile(audioData)
+
+      onComplete(item, audioData, tempFile)
+    } catch (error) {
+      // 中断時はキューからの削除側で状態遷移済み
+      if (!item.signal?.aborted) {
+        stateMachine.transition('generationFailed')
+      }
+      const err = error instanceof Error ? error : new Error(String(error))
+      onError(item, err)
+    }
+  }
+
+  /**
+   * 歌唱用フレームクエリから音声データを生成（状態マシン連携版）
+   * @param item 処理対象のキューアイテム（frameQueryが必須）
+   * @param stateMachine アイテムの状態マシン
+   * @param onComplete 生成完了コールバック
+   * @param onError 生成エラーコールバック
+   */
+  public async generateFromFrameQueryForItem(
+    item: QueueItemData,
+    stateMachine: ItemStateMachine,
+    onComplete: GenerationCompleteCallback,
+    onError: GenerationErrorCallback
+  ): Promise<void> {
+    if (!item.frameQuery) {
+      const err = new Error('Frame query is required for generateFromFrameQueryForItem')
+      onError(item, err)
+      return
+    }
+
+    try {
+      stateMachine.transition('startGeneration')
+
+      const audioData = await this.api.frameSynthesize(item.frameQuery, item.speaker, item.signal)
       const tempFile = await this.fileManager.saveTempAudioFile(audioData)
 
       onComplete(item, audioData, tempFile)
     } catch (error) {
-      stateMachine.transition('generationFailed')
+      // 中断時はキューからの削除側で状態遷移済み
+      if (!item.signal?.aborted) {
+        stateMachine.transition('generationFailed')
+      }
       const err = error instanceof Error ? error : new Error(String(error))
       onError(item, err)
     }
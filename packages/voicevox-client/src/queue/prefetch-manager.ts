@@ -1,3 +1,5 @@
+import { comparePriority, type QueuePriority } from '../queue-priority.js'
+
 /**
  * プリフェッチマネージャー
  * 音声生成のタイミングを制御し、効率的なプリフェッチを実現
@@ -6,6 +8,7 @@ export class PrefetchManager {
   private readonly prefetchSize: number
   private generatingCount = 0
   private pendingQueue: string[] = []
+  private readonly priorities = new Map<string, QueuePriority>()
 
   constructor(prefetchSize = 2) {
     this.prefetchSize = prefetchSize
@@ -13,10 +16,18 @@ export class PrefetchManager {
 
   /**
    * 新しいアイテムを生成待ちキューに追加
+   * 優先度の低いアイテムの前に入れる（同じ優先度なら追加順）
    */
-  addPendingItem(itemId: string): void {
-    if (!this.pendingQueue.includes(itemId)) {
+  addPendingItem(itemId: string, priority: QueuePriority = 'normal'): void {
+    if (this.pendingQueue.includes(itemId)) {
+      return
+    }
+    this.priorities.set(itemId, priority)
+    const index = this.pendingQueue.findIndex((id) => comparePriority(priority, this.priorities.get(id)) > 0)
+    if (index === -1) {
       this.pendingQueue.push(itemId)
+    } else {
+      this.pendingQueue.splice(index, 0, itemId)
     }
   }
 
@@ -48,6 +59,13 @@ export class PrefetchManager {
     return this.pendingQueue.slice(0, availableSlots)
   }
 
+  /**
+   * 指定の優先度以上の生成待ちアイテムIDを取得（prefetchSize に関係なく返す）
+   */
+  getPendingItemsAtOrAbove(priority: QueuePriority): string[] {
+    return this.pendingQueue.filter((id) => comparePriority(this.priorities.get(id), priority) >= 0)
+  }
+
   /**
    * アイテムを生成待ちキューから削除
    */
@@ -56,6 +74,7 @@ export class PrefetchManager {
     if (index !== -1) {
       this.pendingQueue.splice(index, 1)
     }
+    this.priorities.delete(itemId)
   }
 
   /**
@@ -63,6 +82,7 @@ export class PrefetchManager {
    */
   clear(): void {
     this.pendingQueue = []
+    this.priorities.clear()
     this.generatingCount = 0
   }
 
@@ -1,8 +1,12 @@
 import type { VoicevoxApi } from '../api.js'
+import { computeAudioTiming } from '../audio-timing.js'
+import { VoicevoxError, VoicevoxErrorCode } from '../error.js'
 import { PlaybackService } from '../playback/index.js'
 import type { AudioSource } from '../playback/types.js'
+import { comparePriority, type InterruptionPolicy, resolveInterruptionPolicy } from '../queue-priority.js'
+import type { SpeakerWarmupService } from '../services/speaker-warmup-service.js'
 import { type QueueEventCallbacks, type QueueItemData, QueueItemStatus, QueueStateMachine } from '../state/index.js'
-import type { AudioQuery, PlaybackOptions } from '../types.js'
+import type { AudioQuery, FrameAudioQuery, MorphingParameters, PlaybackOptions } from '../types.js'
 import { isBrowser } from '../utils.js'
 import { AudioGenerator } from './audio-generator.js'
 import { EventManager } from './event-manager.js'
@@ -24,7 +28,12 @@ export interface EnqueueResult {
 /**
  * エンキューオプション
  */
-export interface EnqueueOptions extends PlaybackOptions {}
+export interface EnqueueOptions extends PlaybackOptions {
+  /** 指定時はモーフィング合成で音声を生成する */
+  morph?: MorphingParameters
+  /** 中断されるとアイテムをキューから取り除き、進行中の合成リクエストも中断する */
+  signal?: AbortSignal
+}
 
 /**
  * QueueServiceの設定オプション
@@ -34,6 +43,10 @@ export interface QueueServiceOptions {
   prefetchSize?: number
   /** ストリーミング再生を使用するかどうか */
   useStreaming?: boolean
+  /** 指定時は、未読み込みの話者がエンキューされた時点でバックグラウンドでモデルを読み込む */
+  speakerWarmup?: SpeakerWarmupService
+  /** 優先度の高いアイテムの割り込みと、古くなったアイテムの破棄の方針 */
+  interruption?: InterruptionPolicy
 }
 
 /**
@@ -48,14 +61,22 @@ export class QueueService {
   private readonly playbackService: PlaybackService
   private readonly stateMachine: QueueStateMachine
   private readonly prefetchManager: PrefetchManager
+  private readonly speakerWarmup?: SpeakerWarmupService
+  private readonly interruption: Required<InterruptionPolicy>
 
   private isPlaying = false
   private isPaused = false
+  /** アイテムごとの合成リクエスト中断用コントローラー */
+  private readonly abortControllers = new Map<string, AbortController>()
+  /** アイテムごとの、呼び出し元のシグナルに登録した abort リスナーの解除関数 */
+  private readonly signalCleanups = new Map<string, () => void>()
 
   constructor(apiInstance: VoicevoxApi, options: QueueServiceOptions = {}) {
     this.api = apiInstance
 
     const prefetchSize = options.prefetchSize ?? 2
+    this.speakerWarmup = options.speakerWarmup
+    this.interruption = resolveInterruptionPolicy(options.interruption)
 
     // 依存コンポーネントを初期化
     this.fileManager = new AudioFileManager()
@@ -77,17 +98,24 @@ export class QueueService {
       onItemAdded: (item) => this.emitEvent(QueueEventType.ITEM_ADDED, item as QueueItem),
       onItemReady: (item) => this.handleItemReady(item),
       onItemRemoved: (item) => {
+        this.releaseSignal(item.id)
         this.emitEvent(QueueEventType.ITEM_REMOVED, item as QueueItem)
         // アイテム削除によりプリフェッチスロットが空くため、次の生成をトリガー
         this.triggerPrefetch()
       },
       onPlaybackStart: (item) => this.handlePlaybackStart(item),
       onPlaybackComplete: (item) => this.emitEvent(QueueEventType.ITEM_COMPLETED, item as QueueItem),
+      onItemInterrupted: (item) => this.emitEvent(QueueEventType.ITEM_INTERRUPTED, item as QueueItem),
       onError: (item, error) => {
         ;(item as QueueItem).error = error
         this.emitEvent(QueueEventType.ERROR, item as QueueItem)
       },
-      onQueueCleared: () => this.emitEvent(QueueEventType.QUEUE_CLEARED),
+      onQueueCleared: () => {
+        for (const itemId of [...this.signalCleanups.keys()]) {
+          this.releaseSignal(itemId)
+        }
+        this.emitEvent(QueueEventType.QUEUE_CLEARED)
+      },
     }
     this.stateMachine = new QueueStateMachine(callbacks)
   }
@@ -102,7 +130,7 @@ export class QueueService {
     this.stateMachine.dispatch({ type: 'ENQUEUE', item })
 
     // PrefetchManagerに追加（生成はまだ開始しない）
-    this.prefetchManager.addPendingItem(item.id)
+    this.prefetchManager.addPendingItem(item.id, item.priority)
 
     // プリフェッチをトリガー（生成タイミングの制御はPrefetchManagerが行う）
     this.triggerPrefetch()
@@ -133,7 +161,7 @@ export class QueueService {
     this.stateMachine.dispatch({ type: 'ENQUEUE', item })
 
     // PrefetchManagerに追加（生成はまだ開始しない）
-    this.prefetchManager.addPendingItem(item.id)
+    this.prefetchManager.addPendingItem(item.id, item.priority)
 
     // プリフェッチをトリガー（生成タイミングの制御はPrefetchManagerが行う）
     this.triggerPrefetch()
@@ -149,6 +177,28 @@ export class QueueService {
     return { item: item as QueueItem, promises }
   }
 
+  /**
+   * キューに歌唱用フレームクエリを追加
+   */
+  async enqueueFrameQuery(
+    frameQuery: FrameAudioQuery,
+    speaker: number,
+    options: EnqueueOptions = {},
+    text?: string
+  ): Promise<EnqueueResult> {
+    const { item, promises } = this.createQueueItem(text || '（歌唱）', speaker, options, undefined, frameQuery)
+
+    this.stateMachine.dispatch({ type: 'ENQUEUE', item })
+    this.prefetchManager.addPendingItem(item.id, item.priority)
+    this.triggerPrefetch()
+
+    if (options.immediate !== true && options.immediate !== false) {
+      this.processQueue()
+    }
+
+    return { item: item as QueueItem, promises }
+  }
+
   /**
    * キューからアイテムを削除
    */
@@ -158,6 +208,9 @@ export class QueueService {
       return false
     }
 
+    // 進行中の合成リクエストを中断
+    this.abortItem(itemId)
+
     // PrefetchManagerからも削除
     this.prefetchManager.removeItem(itemId)
 
@@ -196,6 +249,11 @@ export class QueueService {
     // アイテムのコピーを保存（ファイル削除用）
     const itemsToClean = [...this.stateMachine.getAllItems()]
 
+    // 進行中の合成リクエストを中断
+    for (const itemId of [...this.abortControllers.keys()]) {
+      this.abortItem(itemId)
+    }
+
     // 先に状態マシンをクリア（新しい再生を防ぐ）
     // これにより、stopAllAndWait()中にtryStartNextPlayback()が呼ばれても
     // getNextReadyItem()がundefinedを返すので再生が開始されない
@@ -327,6 +385,11 @@ export class QueueService {
     // PrefetchManagerをクリア
     this.prefetchManager.clear()
 
+    // 進行中の合成リクエストを中断
+    for (const itemId of [...this.abortControllers.keys()]) {
+      this.abortItem(itemId)
+    }
+
     // blobURLをリリース
     if (isBrowser()) {
       this.fileManager.releaseAllBlobUrls()
@@ -351,8 +414,14 @@ export class QueueService {
     text: string,
     speaker: number,
     options: EnqueueOptions,
-    query?: AudioQuery
+    query?: AudioQuery,
+    frameQuery?: FrameAudioQuery
   ): { item: QueueItemData; promises: { start?: Promise<void>; end?: Promise<void> } } {
+    // 中断済みのシグナルならキューに追加しない
+    if (options.signal?.aborted) {
+      throw new VoicevoxError('リクエストが中断されました', VoicevoxErrorCode.REQUEST_ABORTED, options.signal.reason)
+    }
+
     const playbackPromiseResolvers: NonNullable<QueueItemData['playbackPromiseResolvers']> = {}
     const promises: { start?: Promise<void>; end?: Promise<void> } = {}
 
@@ -369,13 +438,34 @@ export class QueueService {
       })
     }
 
+    // 歌唱はフレームクエリ生成時にモデルが読み込まれるため対象外
+    if (!frameQuery) {
+      this.speakerWarmup?.warmUpInBackground(speaker)
+      if (options.morph) this.speakerWarmup?.warmUpInBackground(options.morph.targetSpeaker)
+    }
+
+    const id = crypto.randomUUID()
+    const controller = new AbortController()
+    this.abortControllers.set(id, controller)
+    if (options.signal) {
+      const signal = options.signal
+      const onAbort = () => void this.removeItem(id)
+      signal.addEventListener('abort', onAbort, { once: true })
+      this.signalCleanups.set(id, () => signal.removeEventListener('abort', onAbort))
+    }
+
     const item: QueueItemData = {
-      id: crypto.randomUUID(),
+      id,
       text,
       speaker,
       status: QueueItemStatus.PENDING,
       createdAt: new Date(),
+      priority: options.priority ?? 'normal',
       query,
+      timing: query ? computeAudioTiming(query) : undefined,
+      frameQuery,
+      morph: options.morph,
+      signal: controller.signal,
       options,
       playbackPromiseResolvers,
     }
@@ -383,28 +473,100 @@ export class QueueService {
     return { item, promises }
   }
 
-  private handleItemReady(_item: QueueItemData): void {
+  /**
+   * 呼び出し元のシグナルに登録した abort リスナーを解除する（アイテムがキューから無くなったとき）
+   */
+  private releaseSignal(itemId: string): void {
+    const cleanup = this.signalCleanups.get(itemId)
+    if (cleanup) {
+      this.signalCleanups.delete(itemId)
+      cleanup()
+    }
+  }
+
+  /**
+   * アイテムの合成リクエストを中断してコントローラーを破棄
+   */
+  private abortItem(itemId: string): void {
+    const controller = this.abortControllers.get(itemId)
+    if (controller) {
+      this.abortControllers.delete(itemId)
+      controller.abort()
+    }
+  }
+
+  private handleItemReady(item: QueueItemData): void {
+    this.interruptFor(item)
+
     // キュー処理を開始（アイドル状態の場合）
     if (this.isPlaying && !this.isPaused) {
       this.processQueue()
     }
   }
 
+  /**
+   * 準備できたアイテムが割り込みの対象なら、再生中のより低い優先度のアイテムを止めて先に再生する
+   * 止めたアイテムは方針に応じて再生準備完了に戻すか破棄する
+   */
+  private interruptFor(item: QueueItemData): void {
+    const { interruptAt, resumeInterrupted } = this.interruption
+    if (interruptAt === false || comparePriority(item.priority, interruptAt) < 0) return
+
+    const currentId = this.stateMachine.getCurrentPlayingItemId()
+    const current = currentId ? this.stateMachine.getItem(currentId) : undefined
+    if (!current || current.status !== QueueItemStatus.PLAYING) return
+    if (comparePriority(item.priority, current.priority) <= 0) return
+
+    this.playbackService.stop(current.id)
+    if (!resumeInterrupted && current.tempFile) {
+      this.fileManager.deleteTempFile(current.tempFile)
+    }
+    this.stateMachine.dispatch({ type: 'INTERRUPT', itemId: current.id, resume: resumeInterrupted })
+  }
+
+  /**
+   * 優先度ごとの期限を過ぎても再生が始まっていないアイテムを破棄する
+   */
+  private dropStaleItems(): void {
+    const now = Date.now()
+    const staleItems = this.stateMachine.getAllItems().filter((item) => {
+      if (item.status === QueueItemStatus.PLAYING || item.status === QueueItemStatus.PAUSED) return false
+      const staleAfterMs = this.interruption.staleAfterMs[item.priority ?? 'normal']
+      return staleAfterMs !== undefined && now - item.createdAt.getTime() > staleAfterMs
+    })
+    if (staleItems.length === 0) return
+
+    for (const item of staleItems) {
+      this.abortItem(item.id)
+      this.prefetchManager.removeItem(item.id)
+      if (item.tempFile) {
+        this.fileManager.deleteTempFile(item.tempFile)
+      }
+    }
+    this.stateMachine.dispatch({
+      type: 'DROP',
+      itemIds: staleItems.map((item) => item.id),
+      error: new Error('Item dropped as stale'),
+    })
+  }
+
   /**
    * プリフェッチをトリガー
    * PrefetchManagerから生成すべきアイテムを取得し、生成を開始する
+   * 割り込みの対象になる優先度のアイテムは、空きスロットが無くてもすぐに生成する
    */
   private triggerPrefetch(): void {
+    this.dropStaleItems()
+
     const prefetchSize = this.prefetchManager.getPrefetchSize()
     const readyCount = this.stateMachine.getAllItems().filter((item) => item.status === QueueItemStatus.READY).length
     const generatingCount = this.prefetchManager.getGeneratingCount()
     const availableSlots = prefetchSize - readyCount - generatingCount
 
-    if (availableSlots <= 0) {
-      return
-    }
-
-    const itemsToGenerate = this.prefetchManager.getItemsToGenerate().slice(0, availableSlots)
+    const { interruptAt } = this.interruption
+    const urgentItems = interruptAt === false ? [] : this.prefetchManager.getPendingItemsAtOrAbove(interruptAt)
+    const regularItems = availableSlots > 0 ? this.prefetchManager.getItemsToGenerate().slice(0, availableSlots) : []
+    const itemsToGenerate = [...new Set([...urgentItems, ...regularItems])]
 
     for (const itemId of itemsToGenerate) {
       const item = this.stateMachine.getItem(itemId)
@@ -420,8 +582,19 @@ export class QueueService {
       // 生成完了/エラー時のコールバック
       const onComplete = (completedItem: QueueItemData, audioData: ArrayBuffer, tempFile: string) => {
         this.prefetchManager.decrementGenerating()
+        this.abortControllers.delete(completedItem.id)
+
+        // 生成中にキューから削除されていた場合は破棄
+        if (!this.stateMachine.getItem(completedItem.id)) {
+          this.fileManager.deleteTempFile(tempFile)
+          return
+        }
         this.stateMachine.updateItem(completedItem.id, { audioData, tempFile })
         sm.transition('generationComplete')
+
+        // 生成中に期限を過ぎていた場合は再生せずに破棄
+        this.dropStaleItems()
+        if (!this.stateMachine.getItem(completedItem.id)) return
         this.stateMachine.dispatch({ type: 'ITEM_READY', itemId: completedItem.id })
 
         // 次のプリフェッチをトリガー
@@ -430,12 +603,21 @@ export class QueueService {
 
       const onError = (errorItem: QueueItemData, error: Error) => {
         this.prefetchManager.decrementGenerating()
+        this.abortControllers.delete(errorItem.id)
+
+        // 中断などで既にキューから削除されている場合は通知済み
+        if (!this.stateMachine.getItem(errorItem.id)) {
+          this.triggerPrefetch()
+          return
+        }
         // ERROR dispatch → removeFromQueue → onItemRemoved で triggerPrefetch される
         this.stateMachine.dispatch({ type: 'ERROR', itemId: errorItem.id, error })
       }
 
       // AudioGeneratorを使用して生成
-      if (item.query) {
+      if (item.frameQuery) {
+        this.audioGenerator.generateFromFrameQueryForItem(item, sm, onComplete, onError)
+      } else if (item.query) {
         this.audioGenerator.generateFromQueryForItem(item, sm, onComplete, onError)
       } else {
         this.audioGenerator.generateForItem(item, sm, onComplete, onError)
@@ -461,13 +643,19 @@ export class QueueService {
 
   private handlePlaybackComplete(itemId: string): void {
     const item = this.stateMachine.getItem(itemId)
-    if (item) {
-      // 一時ファイルを削除
-      if (item.tempFile) {
-        this.fileManager.deleteTempFile(item.tempFile)
-      }
+    // 割り込みで再生準備完了に戻ったアイテムなど、再生中でないアイテムの完了は無視する
+    if (!item || (item.status !== QueueItemStatus.PLAYING && item.status !== QueueItemStatus.PAUSED)) {
+      return
     }
 
+    // 一時ファイルを削除
+    if (item.tempFile) {
+      this.fileManager.deleteTempFile(item.tempFile)
+    }
+
+    // 次のアイテムを選ぶ前に、期限を過ぎたアイテムを破棄
+    this.dropStaleItems()
+
     this.stateMachine.dispatch({ type: 'PLAYBACK_COMPLETE', itemId })
   }
 
@@ -1,4 +1,6 @@
-import type { AudioQuery, PlaybackOptions } from '../types.js'
+import type { AudioTiming } from '../audio-timing.js'
+import type { QueuePriority } from '../queue-priority.js'
+import type { AudioQuery, FrameAudioQuery, MorphingParameters, PlaybackOptions } from '../types.js'
 
 /**
  * キューアイテムの状態
@@ -22,9 +24,14 @@ export interface QueueItem {
   speaker: number // 話者ID
   status: QueueItemStatus // 状態
   createdAt: Date // 作成日時
+  priority?: QueuePriority // 優先度（未指定は normal）
   audioData?: ArrayBuffer // 生成された音声データ
   tempFile?: string // 一時ファイルパス
   query?: AudioQuery // 音声合成用クエリ
+  timing?: AudioTiming // クエリから計算した音声の長さと発話タイミング
+  frameQuery?: FrameAudioQuery // 歌唱合成用フレームクエリ
+  morph?: MorphingParameters // モーフィング合成パラメータ
+  signal?: AbortSignal // 生成リクエストの中断用シグナル
   error?: Error // エラー情報
   options?: PlaybackOptions // 再生オプション
   playbackPromiseResolvers?: {
@@ -43,6 +50,7 @@ export enum QueueEventType {
   ITEM_REMOVED = 'item_removed', // アイテム削除
   ITEM_STATUS_CHANGED = 'item_status_changed', // 状態変更
   ITEM_COMPLETED = 'item_completed', // アイテム再生完了
+  ITEM_INTERRUPTED = 'item_interrupted', // 優先度の高いアイテムによる割り込み（割り込みの後で再生し直す）
   QUEUE_CLEARED = 'queue_cleared', // キュークリア
   PLAYBACK_STARTED = 'playback_started', // 再生開始
   PLAYBACK_PAUSED = 'playback_paused', // 再生一時停止
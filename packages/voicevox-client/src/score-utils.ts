@@ -0,0 +1,96 @@
+import type { Note, Score } from './types.js'
+
+/** 歌唱合成のフレームレート（24000Hz / 256サンプル = 93.75fps） */
+export const SING_FRAME_RATE = 93.75
+
+/** 歌唱クエリ生成に使う既定のお手本スタイルID（singing_teacher） */
+export const DEFAULT_SINGING_TEACHER = 6000
+
+const DEFAULT_BPM = 120
+
+const NOTE_NAME_OFFSETS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 }
+
+/**
+ * 楽譜を手書きするための簡易ノート
+ * beats は bpm と組み合わせてフレーム長に変換される
+ */
+export interface SimpleNote {
+  /** 歌詞（1モーラのひらがな/カタカナ）。省略または空文字で休符 */
+  lyric?: string
+  /** 音高。MIDIノート番号（60 = C4）または音名（"C4", "F#3", "Bb4"）。休符では省略 */
+  key?: number | string
+  /** 長さ（拍数） */
+  beats?: number
+  /** 長さ（フレーム数）。指定時は beats より優先 */
+  frameLength?: number
+}
+
+export interface BuildScoreOptions {
+  /** テンポ（デフォルト: 120） */
+  bpm?: number
+  /** 先頭が休符でない場合に補う休符の拍数（デフォルト: 1） */
+  leadingRestBeats?: number
+}
+
+/**
+ * 音名（"C4", "F#3", "Bb4"）を MIDI ノート番号に変換
+ */
+export function noteNameToMidi(name: string): number {
+  const match = name.trim().match(/^([A-Ga-g])([#♯b♭]?)(-?\d)$/)
+  if (!match) {
+    throw new Error(`Invalid note name: "${name}" (expected e.g. "C4", "F#3", "Bb4")`)
+  }
+  const [, letter, accidental, octave] = match
+  let midi = NOTE_NAME_OFFSETS[letter.toUpperCase()] + (Number.parseInt(octave, 10) + 1) * 12
+  if (accidental === '#' || accidental === '♯') midi += 1
+  if (accidental === 'b' || accidental === '♭') midi -= 1
+  return midi
+}
+
+/**
+ * 拍数をフレーム数に変換（最低1フレーム）
+ */
+export function beatsToFrames(beats: number, bpm: number): number {
+  if (!(bpm > 0)) throw new Error('bpm must be greater than 0')
+  return Math.max(1, Math.round(((beats * 60) / bpm) * SING_FRAME_RATE))
+}
+
+/**
+ * 簡易ノート列から VOICEVOX の Score を組み立てる
+ *
+ * VOICEVOX は先頭ノートが休符であることを要求するため、
+ * 先頭が歌詞付きのノートなら休符を補う。
+ */
+export function buildScore(notes: SimpleNote[], options: BuildScoreOptions = {}): Score {
+  if (notes.length === 0) throw new Error('notes is empty')
+  const bpm = options.bpm ?? DEFAULT_BPM
+
+  const converted = notes.map((note, i): Note => {
+    const lyric = note.lyric?.trim() ?? ''
+    const frameLength = note.frameLength ?? (note.beats !== undefined ? beatsToFrames(note.beats, bpm) : undefined)
+    if (frameLength === undefined || !(frameLength > 0)) {
+      throw new Error(`Note ${i + 1} needs a positive beats or frameLength`)
+    }
+    if (!lyric) {
+      return { lyric: '', frame_length: Math.round(frameLength) }
+    }
+    if (note.key === undefined) {
+      throw new Error(`Note ${i + 1} ("${lyric}") needs a key`)
+    }
+    const key = typeof note.key === 'number' ? note.key : noteNameToMidi(note.key)
+    return { key, lyric, frame_length: Math.round(frameLength) }
+  })
+
+  if (converted[0].lyric !== '') {
+    converted.unshift({ lyric: '', frame_length: beatsToFrames(options.leadingRestBeats ?? 1, bpm) })
+  }
+
+  return { notes: converted }
+}
+
+/**
+ * Score の歌詞を連結したプレビュー文字列を返す
+ */
+export function scoreToLyrics(score: Score): string {
+  return score.notes.map((note) => note.lyric).join('')
+}
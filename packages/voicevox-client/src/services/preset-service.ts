@@ -0,0 +1,119 @@
+import type { VoicevoxApi } from '../api.js'
+import { handleError } from '../error.js'
+import type { Preset } from '../types.js'
+
+export interface PresetInput {
+  name: string
+  /** スタイルID（speaker_uuid は /speakers から解決する） */
+  speaker: number
+  speedScale?: number
+  pitchScale?: number
+  intonationScale?: number
+  volumeScale?: number
+  prePhonemeLength?: number
+  postPhonemeLength?: number
+  pauseLengthScale?: number
+}
+
+export interface PresetUpdateInput extends Partial<PresetInput> {
+  id: number
+}
+
+export class PresetService {
+  constructor(private readonly api: VoicevoxApi) {}
+
+  public async getPresets(): Promise<Preset[]> {
+    try {
+      return await this.api.getPresets()
+    } catch (error) {
+      throw handleError('プリセット取得中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * IDでプリセットを取得（存在しない場合はエラー）
+   */
+  public async getPreset(id: number): Promise<Preset> {
+    const presets = await this.getPresets()
+    const preset = presets.find((p) => p.id === id)
+    if (!preset) {
+      throw new Error(`Preset not found: ${id}`)
+    }
+    return preset
+  }
+
+  public async addPreset(input: PresetInput): Promise<Preset> {
+    try {
+      const name = input.name.trim()
+      if (!name) throw new Error('name is required')
+
+      const presets = await this.api.getPresets()
+      const preset: Preset = {
+        id: presets.reduce((max, p) => Math.max(max, p.id), 0) + 1,
+        name,
+        speaker_uuid: await this.resolveSpeakerUuid(input.speaker),
+        style_id: input.speaker,
+        speedScale: input.speedScale ?? 1.0,
+        pitchScale: input.pitchScale ?? 0.0,
+        intonationScale: input.intonationScale ?? 1.0,
+        volumeScale: input.volumeScale ?? 1.0,
+        prePhonemeLength: input.prePhonemeLength ?? 0.1,
+        postPhonemeLength: input.postPhonemeLength ?? 0.1,
+        pauseLength: null,
+        pauseLengthScale: input.pauseLengthScale ?? 1.0,
+      }
+
+      preset.id = await this.api.addPreset(preset)
+      return preset
+    } catch (error) {
+      throw handleError('プリセット追加中にエラーが発生しました', error)
+    }
+  }
+
+  public async updatePreset(input: PresetUpdateInput): Promise<Preset> {
+    try {
+      const current = await this.getPreset(input.id)
+      const name = input.name !== undefined ? input.name.trim() : current.name
+      if (!name) throw new Error('name is required')
+
+      const preset: Preset = {
+        ...current,
+        name,
+        speedScale: input.speedScale ?? current.speedScale,
+        pitchScale: input.pitchScale ?? current.pitchScale,
+        intonationScale: input.intonationScale ?? current.intonationScale,
+        volumeScale: input.volumeScale ?? current.volumeScale,
+        prePhonemeLength: input.prePhonemeLength ?? current.prePhonemeLength,
+        postPhonemeLength: input.postPhonemeLength ?? current.postPhonemeLength,
+        pauseLengthScale: input.pauseLengthScale ?? current.pauseLengthScale,
+      }
+      if (input.speaker !== undefined && input.speaker !== current.style_id) {
+        preset.style_id = input.speaker
+        preset.speaker_uuid = await this.resolveSpeakerUuid(input.speaker)
+      }
+
+      await this.api.updatePreset(preset)
+      return preset
+    } catch (error) {
+      throw handleError('プリセット更新中にエラーが発生しました', error)
+    }
+  }
+
+  public async deletePreset(id: number): Promise<Preset[]> {
+    try {
+      await this.api.deletePreset(id)
+      return await this.api.getPresets()
+    } catch (error) {
+      throw handleError('プリセット削除中にエラーが発生しました', error)
+    }
+  }
+
+  private async resolveSpeakerUuid(styleId: number): Promise<string> {
+    const speakers = await this.api.getSpeakers()
+    const speaker = speakers.find((s) => s.styles.some((style) => style.id === styleId))
+    if (!speaker) {
+      throw new Error(`Unknown speaker style ID: ${styleId}`)
+    }
+    return speaker.speaker_uuid
+  }
+}
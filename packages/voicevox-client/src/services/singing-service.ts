@@ -0,0 +1,135 @@
+import type { VoicevoxApi } from '../api.js'
+import { assertEngineFeature } from '../engine-capabilities.js'
+import { handleError } from '../error.js'
+import type { QueueService } from '../queue/queue-service.js'
+import { scoreToLyrics } from '../score-utils.js'
+import type { FrameAudioQuery, PlaybackOptions, Score, SpeakResult } from '../types.js'
+import { downloadBlob, isBrowser } from '../utils.js'
+
+export interface SingingServiceConfig {
+  defaultSinger?: number
+  defaultSingingTeacher: number
+  defaultPlaybackOptions: PlaybackOptions
+}
+
+export interface SingOptions extends PlaybackOptions {
+  /** 歌唱に使うスタイルID（frame_synthesis の speaker） */
+  singer?: number
+  /** 歌い方のお手本になるスタイルID（sing_frame_audio_query の speaker） */
+  teacher?: number
+  /** 全体の音量 */
+  volumeScale?: number
+  /** 中断用シグナル */
+  signal?: AbortSignal
+}
+
+export class SingingService {
+  private resolvedDefaultSinger?: number
+
+  constructor(
+    private readonly api: VoicevoxApi,
+    private readonly queueService: QueueService,
+    private readonly config: SingingServiceConfig
+  ) {}
+
+  public async generateFrameQuery(score: Score, options: SingOptions = {}): Promise<FrameAudioQuery> {
+    await assertEngineFeature(this.api, 'singing', options.signal)
+    try {
+      const teacher = options.teacher ?? this.config.defaultSingingTeacher
+      const query = await this.api.generateSingFrameAudioQuery(score, teacher, options.signal)
+      if (options.volumeScale !== undefined) {
+        query.volumeScale = options.volumeScale
+      }
+      return query
+    } catch (error) {
+      throw handleError('歌唱クエリ生成中にエラーが発生しました', error)
+    }
+  }
+
+  public async sing(score: Score, options: SingOptions = {}): Promise<SpeakResult> {
+    const lyrics = scoreToLyrics(score)
+    try {
+      await assertEngineFeature(this.api, 'singing', options.signal)
+      const singer = await this.getSingerId(options.singer)
+      const query = await this.generateFrameQuery(score, options)
+
+      const playbackOptions: PlaybackOptions = {
+        immediate: options.immediate ?? this.config.defaultPlaybackOptions.immediate,
+        waitForStart: options.waitForStart ?? this.config.defaultPlaybackOptions.waitForStart,
+        waitForEnd: options.waitForEnd ?? this.config.defaultPlaybackOptions.waitForEnd,
+      }
+      if (playbackOptions.immediate === true) {
+        await this.queueService.clearQueue()
+      }
+
+      const { promises } = await this.queueService.enqueueFrameQuery(
+        query,
+        singer,
+        { ...playbackOptions, immediate: false, signal: options.signal },
+        lyrics
+      )
+
+      const waitPromises: Array<Promise<void>> = []
+      if (playbackOptions.waitForStart && promises.start) waitPromises.push(promises.start)
+      if (playbackOptions.waitForEnd && promises.end) waitPromises.push(promises.end)
+      if (waitPromises.length > 0) {
+        await Promise.all(waitPromises)
+      }
+
+      return this.createSingResult(playbackOptions.waitForEnd ? 'played' : 'queued', lyrics)
+    } catch (error) {
+      return this.createSingResult('error', lyrics, error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  public async generateAudioFile(score: Score, outputPath?: string, options: SingOptions = {}): Promise<string> {
+    await assertEngineFeature(this.api, 'singing', options.signal)
+    try {
+      const singer = await this.getSingerId(options.singer)
+      const query = await this.generateFrameQuery(score, options)
+      const audioData = await this.api.frameSynthesize(query, singer, options.signal)
+
+      if (isBrowser()) {
+        return await downloadBlob(audioData, outputPath || `sing-${Date.now()}.wav`)
+      }
+
+      const fileManager = this.queueService.getFileManager()
+      if (!outputPath) {
+        return await fileManager.saveTempAudioFile(audioData)
+      }
+      return await fileManager.saveAudioFile(audioData, outputPath)
+    } catch (error) {
+      throw handleError('歌唱音声ファイル生成中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * 歌唱スタイルIDを決定
+   * 指定 → 設定の既定値 → /singers の先頭の歌唱スタイル の順に解決する
+   */
+  private async getSingerId(singer?: number): Promise<number> {
+    if (singer !== undefined) return singer
+    if (this.config.defaultSinger !== undefined) return this.config.defaultSinger
+    if (this.resolvedDefaultSinger !== undefined) return this.resolvedDefaultSinger
+
+    const singers = await this.api.getSingers()
+    const styles = singers.flatMap((s) => s.styles)
+    const style = styles.find((s) => s.type === 'frame_decode') ?? styles.find((s) => s.type === 'sing')
+    if (!style) {
+      throw new Error('利用可能な歌唱スタイルが見つかりません')
+    }
+    this.resolvedDefaultSinger = style.id
+    return style.id
+  }
+
+  private createSingResult(status: SpeakResult['status'], lyrics: string, errorMessage?: string): SpeakResult {
+    const isStreaming = this.queueService.isStreamingEnabled()
+    return {
+      status,
+      mode: isStreaming ? 'streaming' : 'file',
+      textPreview: lyrics.length <= 30 ? lyrics : `${lyrics.substring(0, 27)}...`,
+      segmentCount: 1,
+      errorMessage,
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import type { VoicevoxApi } from '../api.js'
+
+/**
+ * 話者（スタイル）のモデルの事前読み込みを管理する
+ *
+ * エンジンは初回の合成時にモデルを読み込むため、最初の発話だけ遅くなる。
+ * 事前に initialize_speaker を呼んでおくことで待ち時間を短縮する。
+ * 同じ話者の読み込みは一度だけ行う（失敗した場合は次回再試行する）。
+ */
+export class SpeakerWarmupService {
+  private readonly initialized = new Set<number>()
+  private readonly pending = new Map<number, Promise<void>>()
+
+  constructor(private readonly api: VoicevoxApi) {}
+
+  /**
+   * 話者のモデルを読み込む（読み込み中・読み込み済みなら完了を待つだけ）
+   */
+  public warmUp(speaker: number): Promise<void> {
+    if (this.initialized.has(speaker)) return Promise.resolve()
+
+    const existing = this.pending.get(speaker)
+    if (existing) return existing
+
+    const promise = this.api
+      .initializeSpeaker(speaker)
+      .then(() => {
+        this.initialized.add(speaker)
+      })
+      .finally(() => this.pending.delete(speaker))
+    this.pending.set(speaker, promise)
+    return promise
+  }
+
+  /**
+   * 未読み込みの話者をバックグラウンドで読み込む
+   * 失敗しても合成時にエンジンが読み込むため、エラーは無視する
+   */
+  public warmUpInBackground(speaker: number): void {
+    if (this.initialized.has(speaker) || this.pending.has(speaker)) return
+    this.warmUp(speaker).catch(() => {})
+  }
+
+  /**
+   * 複数の話者をまとめて読み込み、読み込めなかった話者IDを返す
+   */
+  public async warmUpAll(speakers: number[]): Promise<number[]> {
+    const results = await Promise.allSettled(speakers.map((speaker) => this.warmUp(speaker)))
+    return speakers.filter((_, i) => results[i].status === 'rejected')
+  }
+
+  /**
+   * 話者のモデルが読み込み済みか確認（このクライアントで読み込んだ話者はエンジンに問い合わせない）
+   */
+  public async isInitialized(speaker: number, signal?: AbortSignal): Promise<boolean> {
+    if (this.initialized.has(speaker)) return true
+    const initialized = await this.api.isInitializedSpeaker(speaker, signal)
+    if (initialized) this.initialized.add(speaker)
+    return initialized
+  }
+}
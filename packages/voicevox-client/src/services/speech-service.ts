@@ -1,8 +1,26 @@
 import type { VoicevoxApi } from '../api.js'
-import { handleError } from '../error.js'
+import { type AudioTiming, computeAudioTiming, concatAudioTimings, shiftAudioTiming } from '../audio-timing.js'
+import { assertEngineFeature } from '../engine-capabilities.js'
+import { handleError, VoicevoxError, VoicevoxErrorCode } from '../error.js'
 import type { EnqueueResult, QueueService } from '../queue/queue-service.js'
-import type { AudioQuery, PlaybackOptions, SpeakResult, SpeechSegment } from '../types.js'
-import { downloadBlob, isBrowser, splitText } from '../utils.js'
+import type { SpeakerAliases } from '../speaker-resolver.js'
+import { applySsmlSegment, parseSsml, resolveSsmlVoices, type SsmlSegment } from '../ssml.js'
+import { createTextNormalizer, type TextNormalizeOptions } from '../text-normalize.js'
+import { preprocessText, type TextPreprocessOptions } from '../text-preprocess.js'
+import { segmentTexts } from '../text-segment.js'
+import type {
+  AudioFileResult,
+  AudioFileSegment,
+  AudioQuery,
+  MorphingParameters,
+  PlaybackOptions,
+  Preset,
+  SpeakResult,
+  SpeechSegment,
+} from '../types.js'
+import { downloadBlob, isBrowser } from '../utils.js'
+import { concatWav } from '../wav.js'
+import { SpeechStream, type SpeechStreamOptions } from './speech-stream.js'
 
 export interface SpeechServiceConfig {
   defaultSpeaker: number
@@ -13,6 +31,14 @@ export interface SpeechServiceConfig {
   defaultPostPhonemeLength?: number
   defaultPlaybackOptions: PlaybackOptions
   maxSegmentLength: number
+  minSegmentLength?: number
+  firstSegmentMaxLength?: number
+  /** 文字列入力を分割する前の前処理（未指定なら前処理しない） */
+  textPreprocess?: TextPreprocessOptions
+  /** 音声クエリを生成する前のテキスト正規化（未指定なら正規化しない） */
+  textNormalize?: TextNormalizeOptions
+  /** SSML の <voice name> で使う話者名のエイリアス */
+  speakerAliases?: SpeakerAliases
 }
 
 export interface SpeechServiceSpeakOptions extends PlaybackOptions {
@@ -23,58 +49,159 @@ export interface SpeechServiceSpeakOptions extends PlaybackOptions {
   volumeScale?: number
   prePhonemeLength?: number
   postPhonemeLength?: number
+  /** エンジンのプリセットID（指定時は話者と各パラメータをプリセットから取得。個別指定があればそちらを優先） */
+  preset?: number
+  /** モーフィング先のスタイルID（指定時は speaker とこのスタイルをブレンドして合成） */
+  morphTargetSpeaker?: number
+  /** モーフィングの割合（0.0 - 1.0、デフォルト: 0.5） */
+  morphRate?: number
+  /** 中断用シグナル（中断すると進行中のリクエストを止め、キューに追加済みのセグメントも取り除く） */
+  signal?: AbortSignal
+  /** テキストを AquesTalk 風記法（例: `コンニチワ'/セ'カイ`）として扱う。記法が壊れないよう文の分割は行わない */
+  kana?: boolean
+  /** テキストを SSML（`<speak>...</speak>`）として扱う。<voice>・<prosody>・<break> はセグメントごとに反映する */
+  ssml?: boolean
 }
 
+export interface SpeechAudioFileOptions {
+  speaker?: number
+  speedScale?: number
+  /** エンジンのプリセットID（指定時は話者と各パラメータをプリセットから取得。個別指定があればそちらを優先） */
+  preset?: number
+  signal?: AbortSignal
+  /** テキストを AquesTalk 風記法として扱う */
+  kana?: boolean
+}
+
+export interface MorphingAudioFileOptions {
+  speaker?: number
+  targetSpeaker: number
+  morphRate?: number
+  speedScale?: number
+  signal?: AbortSignal
+}
+
+export interface SsmlAudioFileOptions {
+  /** <voice> の外側で使うスタイルID */
+  speaker?: number
+  /** 基準の話速（<prosody rate> はこれに掛ける） */
+  speedScale?: number
+  /** エンジンのプリセットID（<voice> の外側の話者と各パラメータをプリセットから取得。<prosody> はその上に掛ける） */
+  preset?: number
+  signal?: AbortSignal
+}
+
+/**
+ * キューに積むセグメント（SSML の場合は <prosody>・<break> の調整量を持つ）
+ */
+type QueuedSegment = SpeechSegment & { ssml?: Pick<SsmlSegment, 'prosody' | 'pauseBefore' | 'pauseAfter'> }
+
+/**
+ * 前に連結した音声の長さだけタイミングをずらす
+ */
+const shiftTo = (timing: AudioTiming, previous: AudioTiming[]) =>
+  shiftAudioTiming(
+    timing,
+    previous.reduce((sum, { duration }) => sum + duration, 0)
+  )
+
+/**
+ * 読み仮名や AudioQuery から合成した場合の表示用テキスト（モーラの読みを句読点の間でつなぐ）
+ */
+const timingText = (timing: AudioTiming) =>
+  timing.accentPhrases.map((phrase) => `${phrase.text}${phrase.pause ? '、' : ''}`).join('')
+
 export class SpeechService {
+  private readonly normalizer?: (text: string) => string
+
   constructor(
     private readonly api: VoicevoxApi,
     private readonly queueService: QueueService,
     private readonly config: SpeechServiceConfig
-  ) {}
+  ) {
+    this.normalizer = config.textNormalize ? createTextNormalizer(config.textNormalize) : undefined
+  }
 
   public async speak(
     input: string | string[] | SpeechSegment[],
     options: SpeechServiceSpeakOptions = {}
   ): Promise<SpeakResult> {
+    return (await this.enqueueSpeech(input, options)).result
+  }
+
+  /**
+   * 少しずつ届くテキストを、文の区切りが確定するたびにキューに追加するストリームを作る
+   */
+  public createStream(options: SpeechStreamOptions = {}): SpeechStream {
+    return new SpeechStream(
+      {
+        enqueue: (text, speakOptions) => this.enqueueSpeech(text, speakOptions, true),
+        maxSegmentLength: this.config.maxSegmentLength,
+        mode: this.queueService.isStreamingEnabled() ? 'streaming' : 'file',
+      },
+      options
+    )
+  }
+
+  /**
+   * 読み上げをキューに追加する（trackEnd なら waitForEnd を指定しなくても最後のセグメントの再生完了の Promise を返す）
+   */
+  private async enqueueSpeech(
+    input: string | string[] | SpeechSegment[],
+    options: SpeechServiceSpeakOptions,
+    trackEnd = false
+  ): Promise<{ result: SpeakResult; end?: Promise<void> }> {
     try {
-      const speaker = options.speaker ?? this.config.defaultSpeaker
-      const speed = options.speedScale ?? this.config.defaultSpeedScale
+      const preset = await this.resolvePreset(options.preset, options.signal)
+      const speaker = options.speaker ?? preset?.style_id ?? this.config.defaultSpeaker
+      const speed = options.speedScale ?? preset?.speedScale ?? this.config.defaultSpeedScale
 
-      const segments = this.normalizeInput(input, speaker)
+      const segments = await this.prepareSegments(input, speaker, options)
       if (segments.length === 0) {
-        return this.createSpeakResult('error', segments, 'Text is empty')
+        return { result: this.createSpeakResult('error', segments, 'Text is empty') }
       }
 
+      const morph = await this.resolveMorphing(
+        options,
+        segments.map((segment) => this.getSpeakerId(segment.speaker))
+      )
+
       const playbackOptions = this.buildPlaybackOptions(options)
-      if (playbackOptions.immediate === true) {
+      // 優先度の指定があればキューをクリアせず、優先度に応じて割り込む
+      if (playbackOptions.immediate === true && playbackOptions.priority === undefined) {
         await this.queueService.clearQueue()
       }
 
-      await this.enqueueSegmentsWithPriority(segments, options, speed, playbackOptions)
-      return this.createSpeakResult(this.getResultStatus(playbackOptions), segments)
+      const readSegments = options.kana ? segments : this.normalizeSegments(segments)
+      const { end } = await this.enqueueSegmentsWithPriority(
+        readSegments,
+        options,
+        speed,
+        playbackOptions,
+        morph,
+        preset,
+        trackEnd
+      )
+      return {
+        result: this.createSpeakResult(this.getResultStatus(playbackOptions), segments, undefined, readSegments),
+        end,
+      }
     } catch (error) {
-      return this.createSpeakResult('error', [], error instanceof Error ? error.message : String(error))
+      return { result: this.createSpeakResult('error', [], error instanceof Error ? error.message : String(error)) }
     }
   }
 
-  public async generateQuery(text: string, speaker?: number, speedScale?: number): Promise<AudioQuery> {
+  public async generateQuery(
+    text: string,
+    speaker?: number,
+    speedScale?: number,
+    signal?: AbortSignal
+  ): Promise<AudioQuery> {
     try {
       const speakerId = this.getSpeakerId(speaker)
-      const query = await this.api.generateQuery(text, speakerId)
+      const query = await this.api.generateQuery(text, speakerId, signal)
       query.speedScale = this.getSpeedScale(speedScale)
-
-      if (this.config.defaultVolumeScale !== undefined) {
-        query.volumeScale = this.config.defaultVolumeScale
-      }
-      if (this.config.defaultPitchScale !== undefined) {
-        query.pitchScale = this.config.defaultPitchScale
-      }
-      if (this.config.defaultPrePhonemeLength !== undefined) {
-        query.prePhonemeLength = this.config.defaultPrePhonemeLength
-      }
-      if (this.config.defaultPostPhonemeLength !== undefined) {
-        query.postPhonemeLength = this.config.defaultPostPhonemeLength
-      }
+      this.applyConfigDefaults(query)
 
       return query
     } catch (error) {
@@ -82,52 +209,247 @@ export class SpeechService {
     }
   }
 
+  /**
+   * AquesTalk 風記法から AudioQuery を生成（プリセット指定時はその各パラメータを反映）
+   */
+  private async generateQueryFromKana(
+    kana: string,
+    speaker: number,
+    preset?: Preset,
+    signal?: AbortSignal
+  ): Promise<AudioQuery> {
+    const query = await this.api.generateQueryFromKana(kana, speaker, signal)
+    if (preset) {
+      this.applyPresetParameters(query, preset)
+      return query
+    }
+
+    query.speedScale = this.getSpeedScale()
+    this.applyConfigDefaults(query)
+    return query
+  }
+
+  /**
+   * プリセットの話速・音高・抑揚・音量・前後の無音時間をクエリに反映
+   */
+  private applyPresetParameters(query: AudioQuery, preset: Preset): void {
+    query.speedScale = preset.speedScale
+    query.pitchScale = preset.pitchScale
+    query.intonationScale = preset.intonationScale
+    query.volumeScale = preset.volumeScale
+    query.prePhonemeLength = preset.prePhonemeLength
+    query.postPhonemeLength = preset.postPhonemeLength
+  }
+
+  /**
+   * 設定で指定された音量・音高・前後の無音時間をクエリに反映
+   */
+  private applyConfigDefaults(query: AudioQuery): void {
+    if (this.config.defaultVolumeScale !== undefined) {
+      query.volumeScale = this.config.defaultVolumeScale
+    }
+    if (this.config.defaultPitchScale !== undefined) {
+      query.pitchScale = this.config.defaultPitchScale
+    }
+    if (this.config.defaultPrePhonemeLength !== undefined) {
+      query.prePhonemeLength = this.config.defaultPrePhonemeLength
+    }
+    if (this.config.defaultPostPhonemeLength !== undefined) {
+      query.postPhonemeLength = this.config.defaultPostPhonemeLength
+    }
+  }
+
   public async generateAudioFile(
-    textOrQuery: string | AudioQuery,
+    input: string | SpeechSegment[] | AudioQuery,
     outputPath?: string,
-    speaker?: number,
-    speedScale?: number
+    options: SpeechAudioFileOptions = {}
   ): Promise<string> {
+    return (await this.createAudioFile(input, outputPath, options)).filePath
+  }
+
+  /**
+   * 音声ファイルを生成し、保存先と発話タイミングを返す
+   */
+  public async createAudioFile(
+    input: string | SpeechSegment[] | AudioQuery,
+    outputPath?: string,
+    options: SpeechAudioFileOptions = {}
+  ): Promise<AudioFileResult> {
+    if (Array.isArray(input)) {
+      return this.generateSegmentsAudioFile(input, outputPath, options)
+    }
     try {
-      const speakerId = this.getSpeakerId(speaker)
-      const speed = this.getSpeedScale(speedScale)
-      const fileManager = this.queueService.getFileManager()
+      const displayText = typeof input === 'string' && !options.kana ? this.preprocess(input).join('\n') : undefined
+      const textOrQuery = displayText !== undefined ? this.normalize(displayText) : input
+      const { query, speakerId } = await this.createFileQuery(textOrQuery, options)
+      const audioData = await this.api.synthesize(query, speakerId, options.signal)
+
+      const browserFilename =
+        typeof textOrQuery === 'string'
+          ? `voice-${textOrQuery.substring(0, 10).replace(/[^a-zA-Z0-9]/g, '_')}-${Date.now()}.wav`
+          : `voice-${Date.now()}.wav`
+      const timing = computeAudioTiming(query)
+      return {
+        filePath: await this.saveAudioFile(audioData, outputPath, browserFilename),
+        timing,
+        segments: [{ text: displayText ?? timingText(timing), speaker: speakerId, timing }],
+      }
+    } catch (error) {
+      throw handleError('音声ファイル生成中にエラーが発生しました', error)
+    }
+  }
 
-      if (isBrowser()) {
-        const filename =
-          outputPath ||
-          (typeof textOrQuery === 'string'
-            ? `voice-${textOrQuery.substring(0, 10).replace(/[^a-zA-Z0-9]/g, '_')}-${Date.now()}.wav`
-            : `voice-${Date.now()}.wav`)
-
-        const query =
-          typeof textOrQuery === 'string' ? await this.generateQuery(textOrQuery, speakerId) : { ...textOrQuery }
-        query.speedScale = speed
-
-        const audioData = await this.api.synthesize(query, speakerId)
-        return await downloadBlob(audioData, filename)
+  /**
+   * 音声ファイルの生成と同じ手順（前処理・正規化・プリセット・話速）で AudioQuery を作る
+   */
+  public async generateFileQuery(
+    input: string | AudioQuery,
+    options: SpeechAudioFileOptions = {}
+  ): Promise<AudioQuery> {
+    try {
+      const textOrQuery =
+        typeof input === 'string' && !options.kana ? this.normalize(this.preprocess(input).join('\n')) : input
+      return (await this.createFileQuery(textOrQuery, options)).query
+    } catch (error) {
+      throw handleError('クエリ生成中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * 音声ファイル用の AudioQuery と話者IDを決める（話者・話速の個別指定が無ければプリセットのものを使う）
+   */
+  private async createFileQuery(
+    textOrQuery: string | AudioQuery,
+    options: SpeechAudioFileOptions
+  ): Promise<{ query: AudioQuery; speakerId: number }> {
+    const presetData = await this.resolvePreset(options.preset, options.signal)
+    const speakerId = this.getSpeakerId(options.speaker ?? presetData?.style_id)
+    const query =
+      typeof textOrQuery === 'string'
+        ? await this.createSegmentQuery(textOrQuery, speakerId, presetData, options.signal, options.kana)
+        : { ...textOrQuery }
+    this.applyFileSpeedScale(query, options, presetData)
+    return { query, speakerId }
+  }
+
+  /**
+   * 音声ファイル用のクエリの話速を決める（個別指定 > プリセット > デフォルト）
+   */
+  private applyFileSpeedScale(query: AudioQuery, options: { speedScale?: number }, preset?: Preset): void {
+    query.speedScale = options.speedScale ?? preset?.speedScale ?? this.config.defaultSpeedScale
+  }
+
+  /**
+   * セグメント（話者・読み上げ設定つき）ごとに合成し、1 つの WAV にまとめて保存
+   * プリセット指定時は、話者の無いセグメントをプリセットのスタイルで読み、各セグメントにプリセットのパラメータを反映する
+   */
+  private async generateSegmentsAudioFile(
+    segments: SpeechSegment[],
+    outputPath: string | undefined,
+    options: SpeechAudioFileOptions
+  ): Promise<AudioFileResult> {
+    try {
+      const { signal } = options
+      const preset = await this.resolvePreset(options.preset, signal)
+      const speaker = options.speaker ?? preset?.style_id
+      const textSegments = segments.filter((segment) => segment.text.trim())
+      const readSegments = this.normalizeSegments(textSegments)
+      if (readSegments.length === 0) {
+        throw new Error('Text is empty')
+      }
+
+      const audio: ArrayBuffer[] = []
+      const timings: AudioTiming[] = []
+      const fileSegments: AudioFileSegment[] = []
+      for (const [index, segment] of readSegments.entries()) {
+        const speakerId = this.getSpeakerId(segment.speaker ?? speaker)
+        const query = await this.createSegmentQuery(segment.text, speakerId, preset, signal)
+        this.applyFileSpeedScale(query, options, preset)
+        this.applySegmentProsody(query, segment)
+        audio.push(await this.api.synthesize(query, speakerId, signal))
+        const timing = computeAudioTiming(query)
+        fileSegments.push({ text: textSegments[index].text, speaker: speakerId, timing: shiftTo(timing, timings) })
+        timings.push(timing)
+      }
+      return {
+        filePath: await this.saveAudioFile(concatWav(audio), outputPath, `voice-segments-${Date.now()}.wav`),
+        timing: concatAudioTimings(timings),
+        segments: fileSegments,
       }
+    } catch (error) {
+      throw handleError('音声ファイル生成中にエラーが発生しました', error)
+    }
+  }
 
-      if (typeof textOrQuery === 'string') {
-        const query = await this.generateQuery(textOrQuery, speakerId)
-        query.speedScale = speed
-        const audioData = await this.api.synthesize(query, speakerId)
+  /**
+   * 音声を保存（ブラウザではダウンロード、出力先が無ければ一時ファイル）
+   */
+  private async saveAudioFile(audioData: ArrayBuffer, outputPath: string | undefined, browserFilename: string) {
+    if (isBrowser()) {
+      return await downloadBlob(audioData, outputPath || browserFilename)
+    }
+    const fileManager = this.queueService.getFileManager()
+    if (!outputPath) {
+      return await fileManager.saveTempAudioFile(audioData)
+    }
+    return await fileManager.saveAudioFile(audioData, outputPath)
+  }
 
-        if (!outputPath) {
-          return await fileManager.saveTempAudioFile(audioData)
-        }
-        return await fileManager.saveAudioFile(audioData, outputPath)
+  /**
+   * 指定スタイルからモーフィング可能なスタイルIDの一覧を取得
+   */
+  public async getMorphableTargets(speaker?: number, signal?: AbortSignal): Promise<number[]> {
+    await assertEngineFeature(this.api, 'morphing', signal)
+    try {
+      const [targets] = await this.api.getMorphableTargets([this.getSpeakerId(speaker)], signal)
+      return Object.entries(targets ?? {})
+        .filter(([, info]) => info.is_morphable)
+        .map(([id]) => Number(id))
+    } catch (error) {
+      throw handleError('モーフィング可能スタイル取得中にエラーが発生しました', error)
+    }
+  }
+
+  public async generateMorphingAudioFile(
+    textOrQuery: string | AudioQuery,
+    outputPath: string | undefined,
+    options: MorphingAudioFileOptions
+  ): Promise<string> {
+    try {
+      const speakerId = this.getSpeakerId(options.speaker)
+      const morph = await this.resolveMorphing(
+        { morphTargetSpeaker: options.targetSpeaker, morphRate: options.morphRate, signal: options.signal },
+        [speakerId]
+      )
+      if (!morph) {
+        throw new Error('targetSpeaker is required')
       }
 
-      const query = { ...textOrQuery, speedScale: speed }
-      const audioData = await this.api.synthesize(query, speakerId)
+      const query =
+        typeof textOrQuery === 'string'
+          ? await this.generateQuery(this.normalize(textOrQuery), speakerId, undefined, options.signal)
+          : { ...textOrQuery }
+      query.speedScale = this.getSpeedScale(options.speedScale)
+      const audioData = await this.api.synthesizeMorphing(
+        query,
+        speakerId,
+        morph.targetSpeaker,
+        morph.morphRate,
+        options.signal
+      )
+
+      if (isBrowser()) {
+        return await downloadBlob(audioData, outputPath || `morph-${Date.now()}.wav`)
+      }
 
+      const fileManager = this.queueService.getFileManager()
       if (!outputPath) {
         return await fileManager.saveTempAudioFile(audioData)
       }
       return await fileManager.saveAudioFile(audioData, outputPath)
     } catch (error) {
-      throw handleError('音声ファイル生成中にエラーが発生しました', error)
+      if (error instanceof VoicevoxError) throw error
+      throw handleError('モーフィング音声ファイル生成中にエラーが発生しました', error)
     }
   }
 
@@ -136,15 +458,18 @@ export class SpeechService {
     options: SpeechServiceSpeakOptions = {}
   ): Promise<SpeakResult> {
     try {
-      const speed = options.speedScale ?? this.config.defaultSpeedScale
+      const preset = await this.resolvePreset(options.preset, options.signal)
+      const speed = options.speedScale ?? preset?.speedScale ?? this.config.defaultSpeedScale
       const playbackOptions = this.buildPlaybackOptions(options)
 
-      if (playbackOptions.immediate === true) {
+      // 優先度の指定があればキューをクリアせず、優先度に応じて割り込む
+      if (playbackOptions.immediate === true && playbackOptions.priority === undefined) {
         await this.queueService.clearQueue()
       }
 
       if (typeof input === 'object' && !Array.isArray(input) && 'accent_phrases' in input) {
-        const speakerId = this.getSpeakerId(options.speaker)
+        const speakerId = this.getSpeakerId(options.speaker ?? preset?.style_id)
+        const morph = await this.resolveMorphing(options, [speakerId])
         const query = { ...input }
         this.applyAudioOptions(query, options, speed)
         const { promises } = await this.queueService.enqueueQuery(
@@ -153,6 +478,8 @@ export class SpeechService {
           {
             ...playbackOptions,
             immediate: false,
+            morph,
+            signal: options.signal,
           },
           '(クエリ再生)'
         )
@@ -163,21 +490,120 @@ export class SpeechService {
         ])
       }
 
-      const segments = this.normalizeInput(input as string | string[] | SpeechSegment[], options.speaker)
+      const segments = await this.prepareSegments(
+        input as string | string[] | SpeechSegment[],
+        options.speaker ?? preset?.style_id,
+        options
+      )
       if (segments.length === 0) {
         return this.createSpeakResult('error', segments, 'Text is empty')
       }
 
-      await this.enqueueSegmentsWithPriority(segments, options, speed, playbackOptions)
-      return this.createSpeakResult(this.getResultStatus(playbackOptions), segments)
+      const morph = await this.resolveMorphing(
+        options,
+        segments.map((segment) => this.getSpeakerId(segment.speaker))
+      )
+      const readSegments = options.kana ? segments : this.normalizeSegments(segments)
+      await this.enqueueSegmentsWithPriority(readSegments, options, speed, playbackOptions, morph, preset)
+      return this.createSpeakResult(this.getResultStatus(playbackOptions), segments, undefined, readSegments)
     } catch (error) {
       return this.createSpeakResult('error', [], error instanceof Error ? error.message : String(error))
     }
   }
 
-  private normalizeInput(input: string | string[] | SpeechSegment[], defaultSpeaker?: number): SpeechSegment[] {
+  /**
+   * SSML をセグメントに変換し、<voice name> の話者名をスタイルIDに解決
+   */
+  public async compileSsml(ssml: string, signal?: AbortSignal): Promise<SsmlSegment[]> {
+    const segments = parseSsml(ssml)
+    if (!segments.some((segment) => segment.voice !== undefined)) return segments
+    return resolveSsmlVoices(segments, await this.api.getSpeakers(signal), this.config.speakerAliases)
+  }
+
+  /**
+   * SSML をセグメントごとに合成し、1 つの WAV にまとめて保存
+   */
+  public async generateSsmlAudioFile(
+    ssml: string,
+    outputPath?: string,
+    options: SsmlAudioFileOptions = {}
+  ): Promise<string> {
+    return (await this.createSsmlAudioFile(ssml, outputPath, options)).filePath
+  }
+
+  /**
+   * SSML の音声ファイルを生成し、保存先と発話タイミングを返す
+   */
+  public async createSsmlAudioFile(
+    ssml: string,
+    outputPath?: string,
+    options: SsmlAudioFileOptions = {}
+  ): Promise<AudioFileResult> {
+    try {
+      const segments = await this.compileSsml(ssml, options.signal)
+      if (segments.length === 0) {
+        throw new Error('Text is empty')
+      }
+      const preset = await this.resolvePreset(options.preset, options.signal)
+      const speaker = options.speaker ?? preset?.style_id
+
+      const audio: ArrayBuffer[] = []
+      const timings: AudioTiming[] = []
+      const fileSegments: AudioFileSegment[] = []
+      for (const segment of segments) {
+        const speakerId = this.getSpeakerId(segment.speaker ?? speaker)
+        const query = await this.createSegmentQuery(this.normalize(segment.text), speakerId, preset, options.signal)
+        this.applyFileSpeedScale(query, options, preset)
+        applySsmlSegment(query, segment)
+        audio.push(await this.api.synthesize(query, speakerId, options.signal))
+        const timing = computeAudioTiming(query)
+        if (segment.text.trim()) {
+          fileSegments.push({ text: segment.text, speaker: speakerId, timing: shiftTo(timing, timings) })
+        }
+        timings.push(timing)
+      }
+      return {
+        filePath: await this.saveAudioFile(concatWav(audio), outputPath, `voice-ssml-${Date.now()}.wav`),
+        timing: concatAudioTimings(timings),
+        segments: fileSegments,
+      }
+    } catch (error) {
+      throw handleError('SSML の音声ファイル生成中にエラーが発生しました', error)
+    }
+  }
+
+  /**
+   * 入力をキューに積むセグメントに変換（SSML 指定時は SSML として解釈）
+   */
+  private async prepareSegments(
+    input: string | string[] | SpeechSegment[],
+    defaultSpeaker: number | undefined,
+    options: SpeechServiceSpeakOptions
+  ): Promise<QueuedSegment[]> {
+    if (!options.ssml || typeof input !== 'string') {
+      return this.normalizeInput(input, defaultSpeaker, options.kana)
+    }
+    const segments = await this.compileSsml(input, options.signal)
+    return segments.map(({ text, speaker, prosody, pauseBefore, pauseAfter }) => ({
+      text,
+      speaker: speaker ?? defaultSpeaker,
+      ssml: { prosody, pauseBefore, pauseAfter },
+    }))
+  }
+
+  private normalizeInput(
+    input: string | string[] | SpeechSegment[],
+    defaultSpeaker?: number,
+    kana = false
+  ): SpeechSegment[] {
     if (typeof input === 'string') {
-      const segments = splitText(input, this.config.maxSegmentLength)
+      const segments = kana
+        ? [input.trim()].filter(Boolean)
+        : segmentTexts(this.preprocess(input), {
+            minLength: this.config.minSegmentLength,
+            maxLength: this.config.maxSegmentLength,
+            firstMaxLength: this.config.firstSegmentMaxLength,
+          }).flat()
       return segments.map((text) => ({ text, speaker: defaultSpeaker }))
     }
 
@@ -186,7 +612,7 @@ export class SpeechService {
 
       if (typeof input[0] === 'object' && 'text' in input[0]) {
         return (input as SpeechSegment[]).map((segment) => ({
-          text: segment.text,
+          ...segment,
           speaker: segment.speaker || defaultSpeaker,
         }))
       }
@@ -197,6 +623,28 @@ export class SpeechService {
     return []
   }
 
+  /**
+   * 設定された前処理でテキストをブロックに分ける（前処理なしならそのまま）
+   */
+  private preprocess(text: string): string[] {
+    return this.config.textPreprocess ? preprocessText(text, this.config.textPreprocess) : [text]
+  }
+
+  /**
+   * 設定された正規化ルールでテキストを書き換える（正規化なしならそのまま）
+   */
+  private normalize(text: string): string {
+    return this.normalizer ? this.normalizer(text) : text
+  }
+
+  /**
+   * 各セグメントのテキストを正規化（正規化で空になったセグメントは元のテキストを読む）
+   */
+  private normalizeSegments<T extends SpeechSegment>(segments: T[]): T[] {
+    if (!this.normalizer) return segments
+    return segments.map((segment) => ({ ...segment, text: this.normalize(segment.text).trim() || segment.text }))
+  }
+
   private getSpeakerId(speaker?: number): number {
     return speaker ?? this.config.defaultSpeaker
   }
@@ -214,11 +662,95 @@ export class SpeechService {
     if (options.postPhonemeLength !== undefined) query.postPhonemeLength = options.postPhonemeLength
   }
 
+  /**
+   * セグメントごとに指定された話速・音高などを反映（speak() のオプションより優先）
+   */
+  private applySegmentProsody(query: AudioQuery, segment: SpeechSegment): void {
+    if (segment.speedScale !== undefined) query.speedScale = segment.speedScale
+    if (segment.pitchScale !== undefined) query.pitchScale = segment.pitchScale
+    if (segment.intonationScale !== undefined) query.intonationScale = segment.intonationScale
+    if (segment.volumeScale !== undefined) query.volumeScale = segment.volumeScale
+    if (segment.prePhonemeLength !== undefined) query.prePhonemeLength = segment.prePhonemeLength
+    if (segment.postPhonemeLength !== undefined) query.postPhonemeLength = segment.postPhonemeLength
+    if (segment.pauseLengthScale !== undefined) query.pauseLengthScale = segment.pauseLengthScale
+  }
+
+  /**
+   * プリセットIDからエンジンのプリセットを取得（未指定なら undefined）
+   */
+  private async resolvePreset(presetId?: number, signal?: AbortSignal): Promise<Preset | undefined> {
+    if (presetId === undefined) return undefined
+    const presets = await this.api.getPresets(signal)
+    const preset = presets.find((p) => p.id === presetId)
+    if (!preset) {
+      throw new Error(`Preset not found: ${presetId}`)
+    }
+    return preset
+  }
+
+  /**
+   * セグメント用のクエリを生成
+   * プリセット指定時はプリセットのスタイルなら audio_query_from_preset を使い、別の話者ならその話者のクエリにプリセットの各パラメータを反映する
+   */
+  private async createSegmentQuery(
+    text: string,
+    speaker: number,
+    preset?: Preset,
+    signal?: AbortSignal,
+    kana = false
+  ): Promise<AudioQuery> {
+    if (kana) {
+      return this.generateQueryFromKana(text, speaker, preset, signal)
+    }
+    if (preset && speaker === preset.style_id) {
+      return this.api.generateQueryFromPreset(text, preset.id, undefined, signal)
+    }
+    if (preset) {
+      const query = await this.api.generateQuery(text, speaker, signal)
+      this.applyPresetParameters(query, preset)
+      return query
+    }
+    return this.generateQuery(text, speaker, undefined, signal)
+  }
+
+  /**
+   * モーフィング指定を検証してパラメータに変換
+   * 話者の利用規約（permitted_synthesis_morphing）で許可されない組み合わせはエラーにする
+   */
+  private async resolveMorphing(
+    options: Pick<SpeechServiceSpeakOptions, 'morphTargetSpeaker' | 'morphRate' | 'signal'>,
+    baseSpeakers: number[]
+  ): Promise<MorphingParameters | undefined> {
+    if (options.morphTargetSpeaker === undefined) return undefined
+
+    const morphRate = options.morphRate ?? 0.5
+    if (!(morphRate >= 0 && morphRate <= 1)) {
+      throw new Error('morphRate must be between 0.0 and 1.0')
+    }
+
+    await assertEngineFeature(this.api, 'morphing', options.signal)
+
+    const targetSpeaker = options.morphTargetSpeaker
+    const uniqueBases = [...new Set(baseSpeakers)]
+    const targetsList = await this.api.getMorphableTargets(uniqueBases, options.signal)
+    uniqueBases.forEach((base, i) => {
+      if (!targetsList[i]?.[String(targetSpeaker)]?.is_morphable) {
+        throw new VoicevoxError(
+          `スタイル ${base} からスタイル ${targetSpeaker} へのモーフィングは話者の利用規約で許可されていません`,
+          VoicevoxErrorCode.MORPHING_NOT_PERMITTED
+        )
+      }
+    })
+
+    return { targetSpeaker, morphRate }
+  }
+
   private buildPlaybackOptions(options: SpeechServiceSpeakOptions): PlaybackOptions {
     return {
       immediate: options.immediate ?? this.config.defaultPlaybackOptions.immediate,
       waitForStart: options.waitForStart ?? this.config.defaultPlaybackOptions.waitForStart,
       waitForEnd: options.waitForEnd ?? this.config.defaultPlaybackOptions.waitForEnd,
+      priority: options.priority ?? this.config.defaultPlaybackOptions.priority,
     }
   }
 
@@ -238,19 +770,34 @@ export class SpeechService {
     }
   }
 
+  /**
+   * セグメントを順にキューに追加し、指定された再生開始・完了を待つ
+   * @returns 最後のセグメントの再生完了の Promise（waitForEnd か trackEnd のとき）
+   */
   private async enqueueSegmentsWithPriority(
-    segments: SpeechSegment[],
+    segments: QueuedSegment[],
     options: SpeechServiceSpeakOptions,
     speed: number,
-    playbackOptions: PlaybackOptions
-  ): Promise<void> {
+    playbackOptions: PlaybackOptions,
+    morph?: MorphingParameters,
+    preset?: Preset,
+    trackEnd = false
+  ): Promise<{ end?: Promise<void> }> {
     let firstStartPromise: Promise<void> | undefined
     let lastEndPromise: Promise<void> | undefined
 
     const firstSegment = segments[0]
     const firstSpeakerId = this.getSpeakerId(firstSegment.speaker)
-    const firstQuery = await this.generateQuery(firstSegment.text, firstSpeakerId)
+    const firstQuery = await this.createSegmentQuery(
+      firstSegment.text,
+      firstSpeakerId,
+      preset,
+      options.signal,
+      options.kana
+    )
     this.applyAudioOptions(firstQuery, options, speed)
+    this.applySegmentProsody(firstQuery, firstSegment)
+    if (firstSegment.ssml) applySsmlSegment(firstQuery, firstSegment.ssml)
 
     const { promises: firstPromises } = await this.queueService.enqueueQuery(
       firstQuery,
@@ -259,7 +806,9 @@ export class SpeechService {
         ...playbackOptions,
         immediate: false,
         waitForStart: playbackOptions.waitForStart,
-        waitForEnd: playbackOptions.waitForEnd,
+        waitForEnd: playbackOptions.waitForEnd || (trackEnd && segments.length === 1),
+        morph,
+        signal: options.signal,
       },
       firstSegment.text
     )
@@ -274,8 +823,10 @@ export class SpeechService {
     for (let i = 1; i < segments.length; i++) {
       const segment = segments[i]
       const speakerId = this.getSpeakerId(segment.speaker)
-      const query = await this.generateQuery(segment.text, speakerId)
+      const query = await this.createSegmentQuery(segment.text, speakerId, preset, options.signal, options.kana)
       this.applyAudioOptions(query, options, speed)
+      this.applySegmentProsody(query, segment)
+      if (segment.ssml) applySsmlSegment(query, segment.ssml)
 
       const isLastSegment = i === segments.length - 1
       const { promises: segmentPromises } = await this.queueService.enqueueQuery(
@@ -285,7 +836,9 @@ export class SpeechService {
           ...playbackOptions,
           immediate: false,
           waitForStart: false,
-          waitForEnd: isLastSegment ? playbackOptions.waitForEnd : false,
+          waitForEnd: isLastSegment ? playbackOptions.waitForEnd || trackEnd : false,
+          morph,
+          signal: options.signal,
         },
         segment.text
       )
@@ -299,20 +852,24 @@ export class SpeechService {
       start: firstStartPromise,
       end: lastEndPromise,
     })
+    return { end: lastEndPromise }
   }
 
   private createSpeakResult(
     status: SpeakResult['status'],
     segments: SpeechSegment[],
-    errorMessage?: string
+    errorMessage?: string,
+    readSegments: SpeechSegment[] = segments
   ): SpeakResult {
     const isStreaming = this.queueService.isStreamingEnabled()
     const textPreview = this.createTextPreview(segments, 30)
+    const normalized = readSegments.some((segment, i) => segment.text !== segments[i]?.text)
     return {
       status,
       mode: isStreaming ? 'streaming' : 'file',
       textPreview,
       segmentCount: segments.length,
+      ...(normalized && { normalizedText: readSegments.map((segment) => segment.text).join(' ') }),
       errorMessage,
     }
   }
@@ -0,0 +1,214 @@
+import { segmentText, takeCompleteSentences } from '../text-segment.js'
+import type { SpeakResult } from '../types.js'
+import type { SpeechServiceSpeakOptions } from './speech-service.js'
+
+/**
+ * 読み上げストリームのオプション（SSML・AquesTalk 風記法は文の途中で区切れないため使えない）
+ *
+ * immediate・waitForStart は最初の文にだけ、waitForEnd は end() にだけ効く
+ */
+export type SpeechStreamOptions = Omit<SpeechServiceSpeakOptions, 'ssml' | 'kana'>
+
+/**
+ * write()・end() の結果
+ */
+export interface SpeechStreamResult extends SpeakResult {
+  /** 文の区切りがまだ来ていないため、キューに追加していないテキスト */
+  pendingText: string
+}
+
+/**
+ * SpeechService から受け取る、文をキューに追加する処理
+ */
+export interface SpeechStreamDeps {
+  /** テキストをキューに追加し、最後のセグメントの再生完了の Promise を返す */
+  enqueue: (text: string, options: SpeechServiceSpeakOptions) => Promise<{ result: SpeakResult; end?: Promise<void> }>
+  /** 文の区切りが来ないまま、この文字数を超えたら節の区切りで先に読み上げる */
+  maxSegmentLength: number
+  mode: SpeakResult['mode']
+}
+
+const PREVIEW_LENGTH = 30
+
+const preview = (text: string) => (text.length <= PREVIEW_LENGTH ? text : `${text.substring(0, PREVIEW_LENGTH - 3)}...`)
+
+/**
+ * 少しずつ届くテキスト（LLM のトークンのストリームなど）を、文の区切りが確定するたびにキューに追加する
+ *
+ * 全文を待たずに最初の文から再生が始まり、後続の文はキューのプリフェッチで先に合成される
+ *
+ * @example
+ * const stream = client.createSpeechStream({ speaker: 3 })
+ * for await (const token of tokens) await stream.write(token)
+ * await stream.end()
+ */
+export class SpeechStream {
+  private buffer = ''
+  private closed = false
+  private cancelled = false
+  private started = false
+  /** write()・end() を届いた順に処理するためのチェーン */
+  private chain: Promise<unknown> = Promise.resolve()
+  private lastEnd?: Promise<void>
+  /** 文ごとの中断用コントローラー（再生が終わるまで保持し、cancel() でまとめて中断する） */
+  private readonly controllers = new Set<AbortController>()
+  private readonly spokenTexts: string[] = []
+  private segmentCount = 0
+  private errorMessage?: string
+  /** 呼び出し元のシグナルに登録した abort リスナーを解除する（ストリームが終わったら呼ぶ） */
+  private readonly releaseSignal?: () => void
+
+  constructor(
+    private readonly deps: SpeechStreamDeps,
+    private readonly options: SpeechStreamOptions = {}
+  ) {
+    const { signal } = options
+    if (signal?.aborted) {
+      this.closed = true
+      this.cancelled = true
+    } else if (signal) {
+      const onAbort = () => void this.cancel()
+      signal.addEventListener('abort', onAbort, { once: true })
+      this.releaseSignal = () => signal.removeEventListener('abort', onAbort)
+    }
+  }
+
+  /**
+   * end()・cancel() の後か
+   */
+  get isClosed(): boolean {
+    return this.closed
+  }
+
+  /**
+   * テキストを追加し、区切りが確定した文をキューに追加する
+   * @throws 終了したストリームに書き込んだ場合
+   */
+  public write(chunk: string): Promise<SpeechStreamResult> {
+    if (this.closed) {
+      return Promise.reject(new Error('読み上げストリームは終了しています'))
+    }
+    this.buffer += chunk
+    return this.serialize(() => this.flush(false))
+  }
+
+  /**
+   * 残りのテキストを読み上げてストリームを終了する（waitForEnd なら最後の文の再生完了まで待つ）
+   * @returns ストリーム全体の結果
+   * @throws 終了したストリームに書き込んだ場合
+   */
+  public end(chunk = ''): Promise<SpeechStreamResult> {
+    if (this.closed) {
+      return Promise.reject(new Error('読み上げストリームは終了しています'))
+    }
+    this.buffer += chunk
+    this.closed = true
+    return this.serialize(async () => {
+      try {
+        await this.flush(true)
+        if (this.options.waitForEnd && this.lastEnd) {
+          try {
+            await this.lastEnd
+          } catch (error) {
+            this.errorMessage ??= error instanceof Error ? error.message : String(error)
+          }
+        }
+      } finally {
+        this.releaseSignal?.()
+      }
+      return {
+        status: this.errorMessage ? 'error' : this.options.waitForEnd ? 'played' : 'queued',
+        mode: this.deps.mode,
+        textPreview: preview(this.spokenTexts.join(' ')),
+        segmentCount: this.segmentCount,
+        errorMessage: this.errorMessage,
+        pendingText: '',
+      }
+    })
+  }
+
+  /**
+   * ストリームを終了し、キューに追加済みでまだ再生していない文も取り除く
+   */
+  public async cancel(): Promise<void> {
+    this.closed = true
+    this.cancelled = true
+    this.buffer = ''
+    this.releaseSignal?.()
+    for (const controller of this.controllers) {
+      controller.abort()
+    }
+    this.controllers.clear()
+    await this.chain.catch(() => {})
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.chain.then(task)
+    this.chain = result.catch(() => {})
+    return result
+  }
+
+  /**
+   * バッファから区切りの確定した文を取り出してキューに追加する（final なら残りもすべて）
+   */
+  private async flush(final: boolean): Promise<SpeechStreamResult> {
+    // 終了時は改行を足して最後の文も確定させる
+    let { sentences, rest } = takeCompleteSentences(final ? `${this.buffer}\n` : this.buffer)
+    if (Array.from(rest).length > this.deps.maxSegmentLength) {
+      const maxLength = this.deps.maxSegmentLength
+      const pieces = segmentText(rest, { maxLength, firstMaxLength: maxLength, minLength: 0 })
+      sentences = [...sentences, ...pieces.slice(0, -1)]
+      rest = `${pieces.at(-1) ?? ''}${rest.match(/\s*$/)?.[0] ?? ''}`
+    }
+    this.buffer = rest
+
+    let segmentCount = 0
+    let errorMessage: string | undefined
+    for (const text of sentences) {
+      if (this.cancelled) break
+      const result = await this.enqueueSentence(text)
+      if (result.status === 'error') {
+        errorMessage ??= result.errorMessage
+        continue
+      }
+      segmentCount += result.segmentCount
+      this.spokenTexts.push(text)
+    }
+    this.segmentCount += segmentCount
+    this.errorMessage ??= errorMessage
+
+    return {
+      status: errorMessage ? 'error' : 'queued',
+      mode: this.deps.mode,
+      textPreview: preview(sentences.join(' ')),
+      segmentCount,
+      errorMessage,
+      pendingText: this.buffer,
+    }
+  }
+
+  /**
+   * 文をキューに追加する（immediate・waitForStart は最初の文にだけ効かせる）
+   */
+  private async enqueueSentence(text: string): Promise<SpeakResult> {
+    const first = !this.started
+    this.started = true
+    const controller = new AbortController()
+    this.controllers.add(controller)
+
+    const { result, end } = await this.deps.enqueue(text, {
+      ...this.options,
+      immediate: first ? this.options.immediate : false,
+      waitForStart: first ? this.options.waitForStart : false,
+      waitForEnd: false,
+      signal: controller.signal,
+    })
+    if (end) {
+      this.lastEnd = end
+      end.catch(() => {}).finally(() => this.controllers.delete(controller))
+    } else {
+      this.controllers.delete(controller)
+    }
+    return result
+  }
+}
@@ -0,0 +1,223 @@
+/**
+ * 話者名（キャラクター名・スタイル名・エイリアス）をスタイルIDに解決する
+ *
+ * スタイルIDはエンジンやバージョンによって変わるため、/speakers の一覧から名前で引けるようにする
+ */
+import type { Speaker } from './types.js'
+
+/**
+ * 話者名のエイリアス（エイリアス → スタイルID、または "キャラクター名/スタイル名"）
+ */
+export type SpeakerAliases = Record<string, number | string>
+
+/**
+ * 話者名の解決結果の候補
+ */
+export interface SpeakerCandidate {
+  /** スタイルID */
+  id: number
+  /** "キャラクター名/スタイル名" */
+  name: string
+}
+
+/**
+ * 話者一覧とエイリアスから作る話者名の解決器
+ */
+export interface SpeakerResolver {
+  /**
+   * 話者名に一致するスタイルIDを探す（似た名前もなければ undefined）
+   * @throws 複数の話者に一致して決められない・キャラクターは一致したがスタイルが一致しない場合
+   */
+  find(name: string): number | undefined
+  /**
+   * 話者名をスタイルIDに解決する
+   * @throws 一致する話者がいない・決められない場合（候補を挙げる）
+   */
+  resolve(name: string): number
+  /**
+   * スタイルIDと同じキャラクターのスタイルから、名前が候補に一致するものを探す（候補の順に優先）
+   * 一致するスタイルが無い・スタイルIDが一覧に無い場合は undefined
+   */
+  findStyle(speaker: number, styleNames: string[]): number | undefined
+}
+
+/** 見つからないときに挙げる候補の数 */
+const MAX_CANDIDATES = 5
+
+/** キャラクター名とスタイル名の区切り（"ずんだもん/あまあま"） */
+const STYLE_SEPARATOR = /[/／:：]/
+
+/**
+ * 名前の検索結果（見つからない場合は理由と候補）
+ * - ambiguous: 複数の話者に一致した
+ * - style: キャラクターは一致したがスタイルが一致しない
+ * - none: 一致する話者がいない
+ */
+type Lookup =
+  | { id: number }
+  | { id?: undefined; reason: 'ambiguous' | 'style' | 'none'; candidates: SpeakerCandidate[] }
+
+/**
+ * 比較用に名前を揃える（全角・半角、大文字・小文字、カタカナ・ひらがな、空白・中黒の違いを無視）
+ */
+function toKey(name: string): string {
+  return name
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s・･]/g, '')
+    .replace(/[ァ-ヶ]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60))
+}
+
+/**
+ * 編集距離（文字の挿入・削除・置換の回数）
+ */
+function editDistance(a: string, b: string): number {
+  const left = Array.from(a)
+  const right = Array.from(b)
+  let previous = Array.from({ length: right.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= left.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= right.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (left[i - 1] === right[j - 1] ? 0 : 1)
+      )
+    }
+    previous = current
+  }
+  return previous[right.length]
+}
+
+/**
+ * 名前に一致する項目を絞り込む
+ * 完全一致 → 前方一致・部分一致（2 文字以上）→ 編集距離 1 以内（3 文字以上）の順に探し、最初に見つかった段階の項目を返す
+ */
+function matchByName<T>(items: T[], name: string, getName: (item: T) => string): T[] {
+  const key = toKey(name)
+  const length = Array.from(key).length
+  const exact = items.filter((item) => toKey(getName(item)) === key)
+  if (exact.length > 0 || !key) return exact
+  const partial = length >= 2 ? items.filter((item) => toKey(getName(item)).includes(key)) : []
+  if (partial.length > 0) return partial
+  return length >= 3 ? items.filter((item) => editDistance(toKey(getName(item)), key) <= 1) : []
+}
+
+/**
+ * 話者一覧とエイリアスから話者名の解決器を作る
+ *
+ * 受け付ける名前:
+ * - スタイルID（"3"）
+ * - キャラクター名（"ずんだもん"。最初のスタイル）
+ * - "キャラクター名/スタイル名"（"ずんだもん/あまあま"。"：" でも区切れる）
+ * - エイリアス（エイリアスの値がスタイルIDか上の形式の名前）
+ *
+ * 名前は表記の揺れ（カタカナ・ひらがな、全角・半角、空白）を無視し、前方一致・部分一致や 1 文字の誤りも許す。
+ * 歌唱専用のスタイルは読み上げに使えないため対象にしない
+ */
+export function createSpeakerResolver(speakers: Speaker[], aliases: SpeakerAliases = {}): SpeakerResolver {
+  const talkSpeakers = speakers
+    .map((speaker) => ({ ...speaker, styles: speaker.styles.filter((style) => !style.type || style.type === 'talk') }))
+    .filter((speaker) => speaker.styles.length > 0)
+  const allStyles = talkSpeakers.flatMap((speaker) =>
+    speaker.styles.map((style) => ({ id: style.id, name: `${speaker.name}/${style.name}` }))
+  )
+  const aliasNames = Object.keys(aliases)
+
+  const lookupName = (name: string): Lookup => {
+    const [characterName, ...rest] = name.split(STYLE_SEPARATOR).map((part) => part.trim())
+    const styleName = rest.join('/')
+
+    const characters = matchByName(talkSpeakers, characterName, (speaker) => speaker.name)
+    if (characters.length === 1) {
+      const [character] = characters
+      const styles = styleName ? matchByName(character.styles, styleName, (style) => style.name) : character.styles
+      if (styles.length === 1 || (!styleName && styles.length > 0)) return { id: styles[0].id }
+      const toCandidate = (style: { id: number; name: string }) => ({
+        id: style.id,
+        name: `${character.name}/${style.name}`,
+      })
+      return styles.length > 1
+        ? { reason: 'ambiguous', candidates: styles.map(toCandidate) }
+        : { reason: 'style', candidates: character.styles.map(toCandidate) }
+    }
+    if (characters.length > 1) {
+      return {
+        reason: 'ambiguous',
+        candidates: characters.map((speaker) => ({ id: speaker.styles[0].id, name: speaker.name })),
+      }
+    }
+
+    // キャラクター名が無ければスタイル名だけでも探す（"あまあま" が 1 つだけなら決められる）
+    // "ノーマル" のように多くのキャラクターにあるスタイル名は、話者の指定ではない文字列とみなして候補だけ挙げる
+    if (!styleName) {
+      const styles = matchByName(allStyles, characterName, (style) => style.name.split('/')[1])
+      if (styles.length === 1) return { id: styles[0].id }
+      if (styles.length > 1) return { reason: 'none', candidates: styles.slice(0, MAX_CANDIDATES) }
+    }
+
+    const key = toKey(name)
+    const candidates = [...allStyles]
+      .map((style) => ({ style, distance: editDistance(toKey(style.name), key) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, MAX_CANDIDATES)
+      .map(({ style }) => style)
+    return { reason: 'none', candidates }
+  }
+
+  const lookup = (name: string, visited: Set<string>): Lookup => {
+    const trimmed = name.trim()
+    if (/^\d+$/.test(trimmed)) return { id: Number(trimmed) }
+
+    const alias = aliasNames.find((alias) => toKey(alias) === toKey(trimmed))
+    if (alias !== undefined && !visited.has(alias)) {
+      const target = aliases[alias]
+      return typeof target === 'number' ? { id: target } : lookup(target, new Set([...visited, alias]))
+    }
+    return lookupName(trimmed)
+  }
+
+  const notFound = (name: string, result: Exclude<Lookup, { id: number }>) => {
+    const candidates = result.candidates.map((candidate) => `${candidate.name} (${candidate.id})`).join(', ')
+    const message = {
+      ambiguous: `話者「${name}」に複数の話者が一致します`,
+      style: `話者「${name}」のスタイルが見つかりません`,
+      none: `話者「${name}」が見つかりません`,
+    }[result.reason]
+    return new Error(`${message}。候補: ${candidates}`)
+  }
+
+  return {
+    find: (name) => {
+      const result = lookup(name, new Set())
+      if (result.id !== undefined) return result.id
+      if (result.reason !== 'none') throw notFound(name, result)
+      return undefined
+    },
+    resolve: (name) => {
+      const result = lookup(name, new Set())
+      if (result.id !== undefined) return result.id
+      throw notFound(name, result)
+    },
+    findStyle: (speaker, styleNames) => {
+      const character = talkSpeakers.find((s) => s.styles.some((style) => style.id === speaker))
+      if (!character) return undefined
+      for (const styleName of styleNames) {
+        const style = character.styles.find((style) => toKey(style.name) === toKey(styleName))
+        if (style) return style.id
+      }
+      return undefined
+    },
+  }
+}
+
+/**
+ * 話者名をスタイルIDに解決する
+ *
+ * @example
+ * resolveSpeaker('ずんだもん/あまあま', await client.getSpeakers()) // => 1
+ * @throws 一致する話者がいない・決められない場合（候補を挙げる）
+ */
+export function resolveSpeaker(name: string, speakers: Speaker[], aliases?: SpeakerAliases): number {
+  return createSpeakerResolver(speakers, aliases).resolve(name)
+}
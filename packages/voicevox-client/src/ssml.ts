@@ -0,0 +1,349 @@
+import { createSpeakerResolver, type SpeakerAliases } from './speaker-resolver.js'
+import { DIGIT_READINGS, LETTER_READINGS } from './text-normalize.js'
+import type { AudioQuery, Speaker } from './types.js'
+
+/**
+ * SSML の <prosody> から決まる、セグメントごとの AudioQuery の調整量
+ */
+export interface SsmlProsody {
+  /** 話速の倍率（speedScale に掛ける） */
+  rate: number
+  /** 音高の差分（pitchScale に足す） */
+  pitch: number
+  /** 音量の倍率（volumeScale に掛ける） */
+  volume: number
+}
+
+/**
+ * SSML から作った読み上げセグメント
+ */
+export interface SsmlSegment {
+  /** 読み上げるテキスト（<sub>・<say-as> は置き換え済み） */
+  text: string
+  /** <voice> のスタイルID（名前で指定された場合は resolveSsmlVoices で解決する） */
+  speaker?: number
+  /** <voice name> で指定された話者名（未解決の場合のみ） */
+  voice?: string
+  /** 入れ子の <prosody> を合成した調整量 */
+  prosody: SsmlProsody
+  /** 直前の <break> の長さ（秒、prePhonemeLength を置き換える） */
+  pauseBefore?: number
+  /** 直後の <break> の長さ（秒、postPhonemeLength を置き換える） */
+  pauseAfter?: number
+}
+
+type SsmlToken =
+  | { type: 'text'; text: string }
+  | { type: 'open'; name: string; attrs: Record<string, string>; selfClosing: boolean }
+  | { type: 'close'; name: string }
+
+interface SsmlContext {
+  name: string
+  speaker?: number
+  voice?: string
+  prosody: SsmlProsody
+  /** <sub alias> の中身は読まない */
+  skipText: boolean
+  interpretAs?: string
+}
+
+const PITCH_SCALE_LIMIT = 0.15
+const MAX_BREAK_SECONDS = 10
+
+const RATE_KEYWORDS: Record<string, number> = { 'x-slow': 0.5, slow: 0.75, medium: 1, fast: 1.25, 'x-fast': 1.5 }
+const PITCH_KEYWORDS: Record<string, number> = { 'x-low': -0.1, low: -0.05, medium: 0, high: 0.05, 'x-high': 0.1 }
+const VOLUME_KEYWORDS: Record<string, number> = {
+  silent: 0,
+  'x-soft': 0.25,
+  soft: 0.5,
+  medium: 1,
+  loud: 1.5,
+  'x-loud': 2,
+}
+const BREAK_STRENGTHS: Record<string, number> = {
+  none: 0,
+  'x-weak': 0.1,
+  weak: 0.25,
+  medium: 0.5,
+  strong: 0.75,
+  'x-strong': 1,
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }
+
+/**
+ * 文字列が SSML（<speak> で始まる）かどうか
+ */
+export function isSsml(input: string): boolean {
+  return /^\s*(<\?xml[^>]*\?>\s*)?<speak[\s>/]/.test(input)
+}
+
+function ssmlError(message: string): Error {
+  return new Error(`SSML の解析に失敗しました: ${message}`)
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(Number.parseInt(entity.slice(2), 16))
+    if (entity.startsWith('#')) return String.fromCodePoint(Number.parseInt(entity.slice(1), 10))
+    return ENTITIES[entity] ?? match
+  })
+}
+
+function tokenize(ssml: string): SsmlToken[] {
+  const tokens: SsmlToken[] = []
+  // コメント・XML 宣言は読み飛ばす
+  const source = ssml.replace(/<!--[\s\S]*?-->/g, '').replace(/<\?[\s\S]*?\?>/g, '')
+  const tagPattern = /<(\/?)([A-Za-z][\w:-]*)((?:\s+[\w:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g
+
+  let lastIndex = 0
+  for (const match of source.matchAll(tagPattern)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) tokens.push({ type: 'text', text: source.slice(lastIndex, index) })
+    lastIndex = index + match[0].length
+
+    const [, closing, rawName, rawAttrs, selfClosing] = match
+    const name = rawName.toLowerCase()
+    if (closing) {
+      tokens.push({ type: 'close', name })
+      continue
+    }
+    const attrs: Record<string, string> = {}
+    for (const attr of rawAttrs.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+      attrs[attr[1].toLowerCase()] = decodeEntities(attr[2] ?? attr[3] ?? '')
+    }
+    tokens.push({ type: 'open', name, attrs, selfClosing: selfClosing === '/' })
+  }
+  if (lastIndex < source.length) tokens.push({ type: 'text', text: source.slice(lastIndex) })
+
+  for (const token of tokens) {
+    if (token.type === 'text' && token.text.includes('<')) {
+      throw ssmlError(`タグを解釈できません: ${token.text.slice(token.text.indexOf('<'), 40)}`)
+    }
+  }
+  return tokens
+}
+
+/**
+ * "120%"・"+20%"・"1.2" のような倍率を解釈
+ */
+function parseScale(value: string, keywords: Record<string, number>, label: string): number {
+  const keyword = keywords[value.trim().toLowerCase()]
+  if (keyword !== undefined) return keyword
+
+  const match = value.trim().match(/^([+-]?)(\d+(?:\.\d+)?)(%?)$/)
+  if (!match) throw ssmlError(`${label} の値が不正です: ${value}`)
+  const [, sign, number, percent] = match
+  const amount = Number(number)
+  if (!percent) return sign === '-' ? -amount : amount
+  // 符号付きの % は相対値（+20% → 1.2）、符号なしは絶対値（120% → 1.2）
+  if (sign) return 1 + (sign === '-' ? -amount : amount) / 100
+  return amount / 100
+}
+
+function parseRate(value: string): number {
+  const rate = parseScale(value, RATE_KEYWORDS, 'rate')
+  if (rate <= 0) throw ssmlError(`rate は正の値で指定してください: ${value}`)
+  return rate
+}
+
+/**
+ * 音高を pitchScale の差分に変換（pitchScale は対数周波数のずれ）
+ * "+10%" → ln(1.1)、"+2st" → 2 半音
+ */
+function parsePitch(value: string): number {
+  const trimmed = value.trim().toLowerCase()
+  const keyword = PITCH_KEYWORDS[trimmed]
+  if (keyword !== undefined) return keyword
+
+  const semitones = trimmed.match(/^([+-]?\d+(?:\.\d+)?)st$/)
+  if (semitones) return (Number(semitones[1]) * Math.LN2) / 12
+
+  const percent = trimmed.match(/^([+-]?\d+(?:\.\d+)?)%$/)
+  if (percent && Number(percent[1]) > -100) return Math.log(1 + Number(percent[1]) / 100)
+
+  throw ssmlError(`pitch の値が不正です: ${value}`)
+}
+
+function parseVolume(value: string): number {
+  const decibels = value.trim().match(/^([+-]?\d+(?:\.\d+)?)dB$/i)
+  const volume = decibels ? 10 ** (Number(decibels[1]) / 20) : parseScale(value, VOLUME_KEYWORDS, 'volume')
+  if (volume < 0) throw ssmlError(`volume は 0 以上で指定してください: ${value}`)
+  return volume
+}
+
+function parseBreak(attrs: Record<string, string>): number {
+  if (attrs.time !== undefined) {
+    const match = attrs.time.trim().match(/^(\d+(?:\.\d+)?)(ms|s)$/i)
+    if (!match) throw ssmlError(`break の time が不正です: ${attrs.time}`)
+    const seconds = match[2].toLowerCase() === 'ms' ? Number(match[1]) / 1000 : Number(match[1])
+    return Math.min(seconds, MAX_BREAK_SECONDS)
+  }
+  const strength = BREAK_STRENGTHS[(attrs.strength ?? 'medium').toLowerCase()]
+  if (strength === undefined) throw ssmlError(`break の strength が不正です: ${attrs.strength}`)
+  return strength
+}
+
+/**
+ * <say-as interpret-as> に従って読みを変える
+ * 文字・数字を 1 文字ずつ読む指定のみ変換し、それ以外（cardinal・date など）はエンジンの読みに任せる
+ */
+function interpretSayAs(text: string, interpretAs: string | undefined): string {
+  const readChar = (char: string) => {
+    const upper = char.toUpperCase()
+    if (LETTER_READINGS[upper]) return LETTER_READINGS[upper]
+    if (/^[0-9]$/.test(char)) return DIGIT_READINGS[Number(char)]
+    return char
+  }
+
+  switch (interpretAs?.toLowerCase()) {
+    case 'characters':
+    case 'spell-out':
+    case 'verbatim':
+      return Array.from(text.replace(/\s+/g, ''), readChar).join('')
+    case 'digits':
+      return text.replace(/[0-9]/g, readChar)
+    case 'telephone':
+      return text.replace(/[-‐ー－\s]+/g, '、').replace(/[0-9]/g, readChar)
+    default:
+      return text
+  }
+}
+
+/**
+ * SSML を読み上げセグメントに変換
+ *
+ * 対応する要素: <speak>, <voice name|id>, <prosody rate pitch volume>, <break time|strength>,
+ * <sub alias>, <say-as interpret-as>。<p>・<s> はセグメントの区切りになり、
+ * それ以外の要素はタグを無視して中身を読む。
+ */
+export function parseSsml(ssml: string): SsmlSegment[] {
+  const root: SsmlContext = { name: '#root', prosody: { rate: 1, pitch: 0, volume: 1 }, skipText: false }
+  const stack: SsmlContext[] = [root]
+  const segments: SsmlSegment[] = []
+  let buffer = ''
+  let pendingPause = 0
+
+  const current = () => stack[stack.length - 1]
+
+  const flush = () => {
+    const text = buffer.replace(/\s+/g, ' ').trim()
+    buffer = ''
+    if (!text) return
+    const context = current()
+    segments.push({
+      text,
+      ...(context.speaker !== undefined ? { speaker: context.speaker } : {}),
+      ...(context.voice !== undefined ? { voice: context.voice } : {}),
+      prosody: { ...context.prosody },
+      ...(pendingPause > 0 ? { pauseBefore: pendingPause } : {}),
+    })
+    pendingPause = 0
+  }
+
+  for (const token of tokenize(ssml)) {
+    if (token.type === 'text') {
+      const context = current()
+      if (!context.skipText) buffer += interpretSayAs(decodeEntities(token.text), context.interpretAs)
+      continue
+    }
+
+    if (token.type === 'close') {
+      const context = current()
+      if (context.name !== token.name) {
+        throw ssmlError(`</${token.name}> に対応する開始タグがありません`)
+      }
+      if (['voice', 'prosody', 'p', 's', 'speak'].includes(token.name)) flush()
+      stack.pop()
+      continue
+    }
+
+    const parent = current()
+    const { name, attrs } = token
+
+    if (name === 'break') {
+      flush()
+      const seconds = parseBreak(attrs)
+      const last = segments[segments.length - 1]
+      if (last) last.pauseAfter = (last.pauseAfter ?? 0) + seconds
+      else pendingPause += seconds
+      continue
+    }
+
+    if (name === 'sub' && attrs.alias !== undefined && !parent.skipText) {
+      buffer += attrs.alias
+    }
+
+    const context: SsmlContext = { ...parent, name, skipText: parent.skipText || name === 'sub' }
+    if (name === 'voice') {
+      const voice = attrs.id ?? attrs.name
+      if (voice === undefined) throw ssmlError('<voice> には name か id を指定してください')
+      const id = /^\d+$/.test(voice.trim()) ? Number(voice.trim()) : undefined
+      context.speaker = id
+      context.voice = id === undefined ? voice.trim() : undefined
+    } else if (name === 'prosody') {
+      context.prosody = {
+        rate: parent.prosody.rate * (attrs.rate !== undefined ? parseRate(attrs.rate) : 1),
+        pitch: parent.prosody.pitch + (attrs.pitch !== undefined ? parsePitch(attrs.pitch) : 0),
+        volume: parent.prosody.volume * (attrs.volume !== undefined ? parseVolume(attrs.volume) : 1),
+      }
+    } else if (name === 'say-as') {
+      context.interpretAs = attrs['interpret-as']
+    }
+
+    if (['voice', 'prosody', 'p', 's'].includes(name)) flush()
+    if (!token.selfClosing) stack.push(context)
+  }
+
+  if (stack.length > 1) {
+    throw ssmlError(`<${current().name}> が閉じられていません`)
+  }
+  flush()
+
+  const last = segments[segments.length - 1]
+  if (last && pendingPause > 0) last.pauseAfter = (last.pauseAfter ?? 0) + pendingPause
+  return segments
+}
+
+/**
+ * <voice name> の話者名をスタイルIDに解決
+ * "キャラクター名"（最初のスタイル）、"キャラクター名/スタイル名"・"キャラクター名:スタイル名"、エイリアスを受け付ける
+ * （表記の揺れの扱いは createSpeakerResolver と同じ）
+ *
+ * @throws 一致する話者がいない場合
+ */
+export function resolveSsmlVoices(
+  segments: SsmlSegment[],
+  speakers: Speaker[],
+  aliases?: SpeakerAliases
+): SsmlSegment[] {
+  const resolver = createSpeakerResolver(speakers, aliases)
+  const find = (voice: string) => {
+    let id: number | undefined
+    try {
+      id = resolver.find(voice)
+    } catch (error) {
+      throw ssmlError(`<voice name="${voice}">: ${error instanceof Error ? error.message : String(error)}`)
+    }
+    if (id === undefined) {
+      throw ssmlError(`<voice name="${voice}"> に一致する話者がいません（${speakers.map((s) => s.name).join(', ')}）`)
+    }
+    return id
+  }
+
+  return segments.map(({ voice, ...segment }) => (voice === undefined ? segment : { ...segment, speaker: find(voice) }))
+}
+
+/**
+ * セグメントの <prosody>・<break> を AudioQuery に反映
+ */
+export function applySsmlSegment(
+  query: AudioQuery,
+  segment: Pick<SsmlSegment, 'prosody' | 'pauseBefore' | 'pauseAfter'>
+) {
+  query.speedScale *= segment.prosody.rate
+  query.pitchScale = Math.max(-PITCH_SCALE_LIMIT, Math.min(PITCH_SCALE_LIMIT, query.pitchScale + segment.prosody.pitch))
+  query.volumeScale *= segment.prosody.volume
+  if (segment.pauseBefore !== undefined) query.prePhonemeLength = segment.pauseBefore
+  if (segment.pauseAfter !== undefined) query.postPhonemeLength = segment.pauseAfter
+}
@@ -18,6 +18,9 @@ const VALID_TRANSITIONS: StateTransition[] = [
 
   // 一時停止からの完了（スキップ時など）
   { from: QueueItemStatus.PAUSED, to: QueueItemStatus.DONE, action: 'playbackComplete' },
+
+  // 優先度の高いアイテムによる割り込み（再生準備完了に戻して後で最初から再生し直す）
+  { from: QueueItemStatus.PLAYING, to: QueueItemStatus.READY, action: 'interrupt' },
 ]
 
 /**
@@ -1,3 +1,4 @@
+import { comparePriority } from '../queue-priority.js'
 import { ItemStateMachine } from './item-state-machine.js'
 import { type QueueAction, type QueueItemData, QueueState, type QueueStateChangeCallback } from './types.js'
 
@@ -10,6 +11,7 @@ export interface QueueEventCallbacks {
   onItemRemoved?: (item: QueueItemData) => void
   onPlaybackStart?: (item: QueueItemData) => void
   onPlaybackComplete?: (item: QueueItemData) => void
+  onItemInterrupted?: (item: QueueItemData) => void
   onError?: (item: QueueItemData, error: Error) => void
   onQueueCleared?: () => void
 }
@@ -101,6 +103,12 @@ export class QueueStateMachine {
       case 'ERROR':
         this.handleError(action.itemId, action.error)
         break
+      case 'INTERRUPT':
+        this.handleInterrupt(action.itemId, action.resume)
+        break
+      case 'DROP':
+        this.handleDrop(action.itemIds, action.error)
+        break
       case 'CLEAR':
         this.handleClear()
         break
@@ -129,9 +137,14 @@ export class QueueStateMachine {
   }
 
   private handleEnqueue(item: QueueItemData): void {
-    // アイテムを追加
+    // 優先度の低いアイテムの前に追加（同じ優先度ならエンキュー順）
+    const index = this.queue.findIndex((id) => comparePriority(item.priority, this.items.get(id)?.priority) > 0)
     this.items.set(item.id, item)
-    this.queue.push(item.id)
+    if (index === -1) {
+      this.queue.push(item.id)
+    } else {
+      this.queue.splice(index, 0, item.id)
+    }
 
     // 状態マシンを作成
     const sm = new ItemStateMachine(item.id, item.status, (itemId, _oldStatus, newStatus) => {
@@ -214,13 +227,54 @@ export class QueueStateMachine {
   }
 
   private handleError(itemId: string, error: Error): void {
+    this.failItem(itemId, error)
+
+    // 次のアイテムを再生
+    this.tryStartNextPlayback()
+  }
+
+  /**
+   * 再生中のアイテムを中断し、再生準備完了に戻す（resume が false ならエラーとしてキューから削除）
+   */
+  private handleInterrupt(itemId: string, resume: boolean): void {
     const item = this.items.get(itemId)
     const sm = this.itemStateMachines.get(itemId)
+    if (!item || !sm?.canTransition('interrupt')) return
 
-    if (item) {
-      item.error = error
+    if (resume) {
+      sm.transition('interrupt')
+      if (this.currentPlayingItemId === itemId) {
+        this.currentPlayingItemId = null
+      }
+      this.callbacks.onItemInterrupted?.(item)
+    } else {
+      this.failItem(itemId, new Error('Item interrupted'))
     }
 
+    // 割り込んだアイテムを再生
+    this.tryStartNextPlayback()
+  }
+
+  /**
+   * 複数のアイテムをエラーとしてまとめて削除してから、次のアイテムを再生する
+   */
+  private handleDrop(itemIds: string[], error: Error): void {
+    for (const itemId of itemIds) {
+      this.failItem(itemId, error)
+    }
+    this.tryStartNextPlayback()
+  }
+
+  /**
+   * アイテムをエラーにしてキューから削除する（既に削除済みなら何もしない）
+   */
+  private failItem(itemId: string, error: Error): void {
+    const item = this.items.get(itemId)
+    const sm = this.itemStateMachines.get(itemId)
+
+    if (!item) return
+    item.error = error
+
     if (sm) {
       // 生成中なら generationFailed、再生中なら playbackFailed
       if (sm.isGenerating()) {
@@ -230,13 +284,13 @@ export class QueueStateMachine {
       }
     }
 
-    this.callbacks.onError?.(item!, error)
+    this.callbacks.onError?.(item, error)
 
     // 待機中のPromiseをrejectする
-    if (item?.playbackPromiseResolvers?.startReject) {
+    if (item.playbackPromiseResolvers?.startReject) {
       item.playbackPromiseResolvers.startReject(error)
     }
-    if (item?.playbackPromiseResolvers?.endReject) {
+    if (item.playbackPromiseResolvers?.endReject) {
       item.playbackPromiseResolvers.endReject(error)
     }
 
@@ -247,9 +301,6 @@ export class QueueStateMachine {
     if (this.currentPlayingItemId === itemId) {
       this.currentPlayingItemId = null
     }
-
-    // 次のアイテムを再生
-    this.tryStartNextPlayback()
   }
 
   private handleClear(): void {
@@ -1,4 +1,6 @@
-import type { AudioQuery, PlaybackOptions } from '../types.js'
+import type { AudioTiming } from '../audio-timing.js'
+import type { QueuePriority } from '../queue-priority.js'
+import type { AudioQuery, FrameAudioQuery, MorphingParameters, PlaybackOptions } from '../types.js'
 
 /**
  * キューアイテムの状態
@@ -25,6 +27,7 @@ export type ItemAction =
   | 'resume'
   | 'playbackComplete'
   | 'playbackFailed'
+  | 'interrupt'
 
 /**
  * 状態遷移定義
@@ -56,6 +59,8 @@ export type QueueAction =
   | { type: 'RESUME' }
   | { type: 'PLAYBACK_COMPLETE'; itemId: string }
   | { type: 'ERROR'; itemId: string; error: Error }
+  | { type: 'INTERRUPT'; itemId: string; resume: boolean }
+  | { type: 'DROP'; itemIds: string[]; error: Error }
   | { type: 'CLEAR' }
 
 /**
@@ -67,9 +72,16 @@ export interface QueueItemData {
   speaker: number
   status: QueueItemStatus
   createdAt: Date
+  /** 優先度（未指定は normal） */
+  priority?: QueuePriority
   audioData?: ArrayBuffer
   tempFile?: string
   query?: AudioQuery
+  /** クエリから計算した音声の長さと発話タイミング */
+  timing?: AudioTiming
+  frameQuery?: FrameAudioQuery
+  morph?: MorphingParameters
+  signal?: AbortSignal
   error?: Error
   options?: PlaybackOptions
   playbackPromiseResolvers?: {
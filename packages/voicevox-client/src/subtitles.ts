@@ -0,0 +1,272 @@
+/**
+ * 発話タイミングから字幕（SRT・WebVTT）を作る
+ *
+ * 表示するテキストは句読点で区切り、エンジンが句読点で入れる間（pause_mora）ごとのアクセント句と対応させる。
+ * 1 行に収まらない部分は、アクセント句のモーラ数の割合でテキストを分けて時刻を割り当てる
+ */
+import type { AccentPhraseTiming, AudioTiming } from './audio-timing.js'
+
+/**
+ * 字幕の形式
+ */
+export type SubtitleFormat = 'srt' | 'vtt'
+
+/**
+ * 字幕の区切り方
+ * - punctuation: 句読点ごとに区切り、1 つの字幕に収まらない部分はアクセント句で区切る
+ * - accent-phrase: アクセント句の区切りで字幕がいっぱいになるまで詰める（文末では必ず区切る）
+ */
+export type SubtitleSplit = 'punctuation' | 'accent-phrase'
+
+/**
+ * 字幕にする音声の区間（連結した音声の 1 セグメント）
+ */
+export interface SubtitleSource {
+  /** 表示するテキスト */
+  text: string
+  /** 発話タイミング（音声全体の先頭からの時刻） */
+  timing: AudioTiming
+  /** 話者名 */
+  speakerName?: string
+}
+
+/**
+ * 字幕の 1 項目
+ */
+export interface SubtitleCue {
+  /** 開始時刻（秒） */
+  start: number
+  /** 終了時刻（秒） */
+  end: number
+  /** 表示する行 */
+  lines: string[]
+  /** 話者名（話者のラベルを付ける場合のみ） */
+  speakerName?: string
+}
+
+export interface SubtitleOptions {
+  /** 1 行の最大文字数（デフォルト: 20） */
+  maxLineLength?: number
+  /** 1 つの字幕の最大行数（デフォルト: 2） */
+  maxLines?: number
+  /** 区切り方（デフォルト: punctuation） */
+  split?: SubtitleSplit
+  /** 話者名のラベルを付けるか（デフォルト: 話者名が 2 種類以上あるとき） */
+  speakerLabels?: boolean
+}
+
+/** 間の入る句読点（小数点の "." は除く） */
+const PUNCTUATION = /[、。，．！？!?…;；]+|[,.](?!\d)/g
+
+/** 句読点の 1 文字 */
+const PUNCTUATION_CHAR = /[、。，．！？!?…;；,.]/
+
+/** 文末の句読点 */
+const SENTENCE_END = /[。．！？!?…]$|[.](?!\d)$/
+
+/** 字幕の末尾から取り除く句読点 */
+const TRAILING_COMMA = /[、。，,]+$/
+
+/** 字幕の部品（アクセント句 1 つ以上と、対応するテキスト） */
+interface Piece {
+  text: string
+  start: number
+  end: number
+  /** 句読点の区切りの最後か */
+  chunkEnd: boolean
+  /** 文末か */
+  sentenceEnd: boolean
+}
+
+const length = (text: string) => Array.from(text).length
+
+/**
+ * 行に部品をつなげる（英数字の単語の間には空白を入れる）
+ */
+const joinText = (line: string, text: string) =>
+  /[!-~]$/.test(line) && /^[A-Za-z0-9]/.test(text) ? `${line} ${text}` : `${line}${text}`
+
+/**
+ * テキストを句読点の後ろで区切る（句読点は前の部分に含める）
+ */
+function splitAtPunctuation(text: string): string[] {
+  const chunks: string[] = []
+  let last = 0
+  for (const match of text.matchAll(PUNCTUATION)) {
+    const end = (match.index ?? 0) + match[0].length
+    chunks.push(text.slice(last, end))
+    last = end
+  }
+  chunks.push(text.slice(last))
+  return chunks.map((chunk) => chunk.trim()).filter((chunk) => chunk.replace(PUNCTUATION, '').trim())
+}
+
+/**
+ * アクセント句を句読点の間ごとにまとめる
+ */
+function groupByPause(phrases: AccentPhraseTiming[]): AccentPhraseTiming[][] {
+  const groups: AccentPhraseTiming[][] = [[]]
+  for (const phrase of phrases) {
+    groups[groups.length - 1].push(phrase)
+    if (phrase.pause) groups.push([])
+  }
+  return groups.filter((group) => group.length > 0)
+}
+
+const isHiragana = (char: string) => /[ぁ-ゖー]/.test(char)
+
+/**
+ * テキストをアクセント句の数に分ける
+ * モーラ数の割合の位置から、近くの区切りやすい位置（ひらがなの後の漢字・カタカナ、空白）に寄せる
+ */
+function splitByPhrases(text: string, phrases: AccentPhraseTiming[]): string[] {
+  const chars = Array.from(text)
+  const moraCounts = phrases.map((phrase) => phrase.moras.length)
+  const total = moraCounts.reduce((sum, count) => sum + count, 0)
+  if (phrases.length <= 1 || total === 0) return [text]
+
+  const isBoundary = (index: number) =>
+    /\s/.test(chars[index - 1]) ||
+    /\s/.test(chars[index]) ||
+    (isHiragana(chars[index - 1]) && !isHiragana(chars[index]))
+
+  const pieces: string[] = []
+  let previous = 0
+  let cumulative = 0
+  for (let i = 0; i < phrases.length - 1; i++) {
+    cumulative += moraCounts[i]
+    const estimate = Math.round((chars.length * cumulative) / total)
+    const remaining = phrases.length - 1 - i
+    let index = Math.min(Math.max(estimate, previous + 1), chars.length - remaining)
+    const nearest = [0, -1, 1, -2, 2]
+      .map((delta) => index + delta)
+      .find((candidate) => candidate > previous && candidate < chars.length && isBoundary(candidate))
+    if (nearest !== undefined) index = nearest
+    // 句読点は前の部品に含める
+    while (index < chars.length && PUNCTUATION_CHAR.test(chars[index])) index++
+    if (index <= previous || index >= chars.length) continue
+    pieces.push(chars.slice(previous, index).join(''))
+    previous = index
+  }
+  pieces.push(chars.slice(previous).join(''))
+  return pieces
+}
+
+/**
+ * 1 つの区間を字幕の部品にする
+ */
+function toPieces(source: SubtitleSource, options: Required<Omit<SubtitleOptions, 'speakerLabels'>>): Piece[] {
+  const groups = groupByPause(source.timing.accentPhrases)
+  const text = source.text.replace(/\s+/g, ' ').trim()
+  if (groups.length === 0 || !text) return []
+
+  // 句読点と間の数が合わない場合は全体を 1 つの区切りとして扱う
+  const chunks = splitAtPunctuation(text)
+  const pairs: Array<[string, AccentPhraseTiming[]]> =
+    chunks.length === groups.length ? chunks.map((chunk, i) => [chunk, groups[i]]) : [[text, groups.flat()]]
+
+  return pairs.flatMap(([chunk, phrases]) => {
+    const whole = options.split === 'punctuation' && length(chunk) <= options.maxLineLength
+    const texts = whole ? [chunk] : splitByPhrases(chunk, phrases)
+    // テキストの部品数に合わせてアクセント句を割り当てる（部品が少ない場合は最後にまとめる）
+    const ranges = texts.map((_, i) => {
+      const from = whole ? 0 : i
+      const to = whole || i === texts.length - 1 ? phrases.length - 1 : i
+      return [phrases[from], phrases[to]] as const
+    })
+    return texts.map(
+      (pieceText, i): Piece => ({
+        text: pieceText.trim(),
+        start: ranges[i][0].start,
+        end: ranges[i][1].end,
+        chunkEnd: i === texts.length - 1,
+        sentenceEnd: i === texts.length - 1 && SENTENCE_END.test(chunk),
+      })
+    )
+  })
+}
+
+/**
+ * 発話タイミングから字幕の項目を作る
+ *
+ * @example
+ * const { segments } = await client.generateAudioFileWithTiming('こんにちは、世界。', 'hello.wav')
+ * const srt = formatSubtitles(createSubtitleCues(segments), 'srt')
+ */
+export function createSubtitleCues(sources: SubtitleSource[], options: SubtitleOptions = {}): SubtitleCue[] {
+  const resolved = {
+    maxLineLength: Math.max(1, options.maxLineLength ?? 20),
+    maxLines: Math.max(1, options.maxLines ?? 2),
+    split: options.split ?? 'punctuation',
+  }
+  const speakerNames = new Set(sources.map((source) => source.speakerName).filter(Boolean))
+  const speakerLabels = options.speakerLabels ?? speakerNames.size > 1
+
+  const cues: SubtitleCue[] = []
+  for (const source of sources) {
+    let cue: SubtitleCue | undefined
+    const close = () => {
+      if (!cue) return
+      const lastLine = cue.lines.length - 1
+      cue.lines[lastLine] = cue.lines[lastLine].replace(TRAILING_COMMA, '')
+      cue.lines = cue.lines.filter(Boolean)
+      if (cue.lines.length > 0) cues.push(cue)
+      cue = undefined
+    }
+
+    for (const piece of toPieces(source, resolved)) {
+      const lastLine = cue ? cue.lines[cue.lines.length - 1] : ''
+      if (cue && length(joinText(lastLine, piece.text)) <= resolved.maxLineLength) {
+        cue.lines[cue.lines.length - 1] = joinText(lastLine, piece.text)
+        cue.end = piece.end
+      } else if (cue && cue.lines.length < resolved.maxLines) {
+        cue.lines.push(piece.text)
+        cue.end = piece.end
+      } else {
+        close()
+        cue = {
+          start: piece.start,
+          end: piece.end,
+          lines: [piece.text],
+          ...(speakerLabels && source.speakerName ? { speakerName: source.speakerName } : {}),
+        }
+      }
+      if (piece.sentenceEnd || (resolved.split === 'punctuation' && piece.chunkEnd)) close()
+    }
+    close()
+  }
+  return cues
+}
+
+/**
+ * 秒を字幕の時刻の表記にする（SRT は "00:00:01,234"、WebVTT は "00:00:01.234"）
+ */
+function formatTime(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const pad = (value: number, width = 2) => String(value).padStart(width, '0')
+  const hours = Math.floor(totalMs / 3_600_000)
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000)
+  const secs = Math.floor((totalMs % 60_000) / 1000)
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMs % 1000, 3)}`
+}
+
+/**
+ * 字幕の項目を SRT・WebVTT の文字列にする
+ * 話者名は SRT では行頭の "名前: "、WebVTT では声のタグ（<v 名前>）で付ける
+ */
+export function formatSubtitles(cues: SubtitleCue[], format: SubtitleFormat): string {
+  if (format === 'srt') {
+    const blocks = cues.map((cue, i) => {
+      const [first, ...rest] = cue.lines
+      const lines = [cue.speakerName ? `${cue.speakerName}: ${first}` : first, ...rest]
+      return `${i + 1}\n${formatTime(cue.start, ',')} --> ${formatTime(cue.end, ',')}\n${lines.join('\n')}\n`
+    })
+    return blocks.join('\n')
+  }
+
+  const blocks = cues.map((cue) => {
+    const lines = cue.speakerName ? cue.lines.map((line) => `<v ${cue.speakerName}>${line}`) : cue.lines
+    return `${formatTime(cue.start, '.')} --> ${formatTime(cue.end, '.')}\n${lines.join('\n')}\n`
+  })
+  return ['WEBVTT\n', ...blocks].join('\n')
+}
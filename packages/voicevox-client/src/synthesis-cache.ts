@@ -0,0 +1,288 @@
+// ブラウザ環境でインポートエラーを避けるための条件付きインポート
+import { isBrowser } from './utils.js'
+
+// Node.js環境でのみ必要なモジュール（ディスクキャッシュ用）
+let fsPromises: typeof import('node:fs/promises') | undefined
+let path: typeof import('node:path') | undefined
+
+if (!isBrowser()) {
+  const [fs, p] = await Promise.all([import('node:fs/promises'), import('node:path')])
+  fsPromises = fs
+  path = p
+}
+
+import { planAudioCacheCleanup } from './cache-policy.js'
+import type { AudioQuery } from './types.js'
+
+const DEFAULT_MAX_MEMORY_ENTRIES = 100
+const DEFAULT_MAX_MEMORY_BYTES = 64 * 1024 * 1024
+const CACHE_FILE_PATTERN = /^[a-f0-9]{64}\.wav$/
+const CLEANUP_EVERY_WRITES = 20
+
+/**
+ * 合成結果キャッシュの設定
+ */
+export interface SynthesisCacheOptions {
+  /** メモリに保持する最大件数（デフォルト: 100、0 でメモリには保持しない） */
+  maxMemoryEntries?: number
+  /** メモリに保持する最大バイト数（デフォルト: 64MB） */
+  maxMemoryBytes?: number
+  /** ディスクキャッシュの保存先（未指定ならディスクには保存しない。ブラウザでは無視される） */
+  diskDir?: string
+  /** ディスクキャッシュの保持期間（ミリ秒、null で無期限。デフォルト: 無期限） */
+  diskTtlMs?: number | null
+  /** ディスクキャッシュの上限サイズ（バイト、null で無制限。デフォルト: 無制限） */
+  diskMaxBytes?: number | null
+}
+
+/**
+ * キャッシュキーの元になる合成条件
+ */
+export interface SynthesisCacheKeyInput {
+  /** 話者（スタイル）ID */
+  speaker: number
+  /** 合成に使う AudioQuery */
+  query: AudioQuery
+  /** エンジンの識別子（名前とバージョン）。エンジンを更新すると別のキーになる */
+  engine: string
+  /** モーフィング合成の場合のみ */
+  morph?: { targetSpeaker: number; morphRate: number }
+}
+
+/**
+ * キャッシュの利用状況
+ */
+export interface SynthesisCacheStats {
+  hits: number
+  misses: number
+  memoryEntries: number
+  memoryBytes: number
+}
+
+/**
+ * キーの順序に依存しない JSON 文字列（同じ内容のクエリが同じキーになるようにする）
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+/**
+ * 合成条件から内容アドレスのキャッシュキー（SHA-256 の hex）を作成
+ */
+export async function createSynthesisCacheKey(input: SynthesisCacheKeyInput): Promise<string> {
+  const data = new TextEncoder().encode(
+    stableStringify({ engine: input.engine, speaker: input.speaker, query: input.query, morph: input.morph })
+  )
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * 合成した WAV のキャッシュ
+ *
+ * 話者・AudioQuery・エンジンのバージョンから作ったキーで WAV を保持する。
+ * メモリ上の LRU と、任意でディスク（`<key>.wav`）の 2 段構成。
+ * ディスクは期限・上限サイズを超えた古いファイルから削除する（planAudioCacheCleanup）。
+ */
+export class SynthesisCache {
+  private readonly memory = new Map<string, ArrayBuffer>()
+  private memoryBytes = 0
+  private readonly maxMemoryEntries: number
+  private readonly maxMemoryBytes: number
+  private readonly diskDir: string | undefined
+  private readonly diskTtlMs: number | null
+  private readonly diskMaxBytes: number | null
+  private hits = 0
+  private misses = 0
+
+  private diskReady: Promise<boolean> | undefined
+  private cleanupRunning = false
+  private pendingCleanup = false
+  private writesSinceCleanup = 0
+
+  constructor(options: SynthesisCacheOptions = {}) {
+    this.maxMemoryEntries = Math.max(0, options.maxMemoryEntries ?? DEFAULT_MAX_MEMORY_ENTRIES)
+    this.maxMemoryBytes = Math.max(0, options.maxMemoryBytes ?? DEFAULT_MAX_MEMORY_BYTES)
+    this.diskDir = fsPromises && path ? options.diskDir : undefined
+    this.diskTtlMs = options.diskTtlMs ?? null
+    this.diskMaxBytes = options.diskMaxBytes ?? null
+  }
+
+  /**
+   * キャッシュされた WAV を取得（無ければ undefined）
+   * 返り値は呼び出し元が自由に扱えるようコピーを返す
+   */
+  public async get(key: string): Promise<ArrayBuffer | undefined> {
+    const inMemory = this.memory.get(key)
+    if (inMemory) {
+      // 最近使ったものとして末尾に移す
+      this.memory.delete(key)
+      this.memory.set(key, inMemory)
+      this.hits++
+      return inMemory.slice(0)
+    }
+
+    const fromDisk = await this.readFromDisk(key)
+    if (fromDisk) {
+      this.remember(key, fromDisk)
+      this.hits++
+      return fromDisk.slice(0)
+    }
+
+    this.misses++
+    return undefined
+  }
+
+  /**
+   * WAV をキャッシュに保存
+   */
+  public async set(key: string, audio: ArrayBuffer): Promise<void> {
+    const copy = audio.slice(0)
+    this.remember(key, copy)
+    await this.writeToDisk(key, copy)
+  }
+
+  /**
+   * メモリ上のキャッシュを破棄（ディスクのファイルは残す）
+   */
+  public clear(): void {
+    this.memory.clear()
+    this.memoryBytes = 0
+  }
+
+  public getStats(): SynthesisCacheStats {
+    return { hits: this.hits, misses: this.misses, memoryEntries: this.memory.size, memoryBytes: this.memoryBytes }
+  }
+
+  private remember(key: string, audio: ArrayBuffer): void {
+    if (this.maxMemoryEntries === 0 || audio.byteLength > this.maxMemoryBytes) return
+
+    const existing = this.memory.get(key)
+    if (existing) {
+      this.memory.delete(key)
+      this.memoryBytes -= existing.byteLength
+    }
+    this.memory.set(key, audio)
+    this.memoryBytes += audio.byteLength
+
+    // 古いものから追い出す
+    for (const [oldestKey, oldest] of this.memory) {
+      if (this.memory.size <= this.maxMemoryEntries && this.memoryBytes <= this.maxMemoryBytes) break
+      this.memory.delete(oldestKey)
+      this.memoryBytes -= oldest.byteLength
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Disk
+  // -------------------------------------------------------------------------
+
+  private ensureDiskDir(): Promise<boolean> {
+    if (!this.diskReady) {
+      const dir = this.diskDir
+      this.diskReady =
+        dir && fsPromises
+          ? fsPromises.mkdir(dir, { recursive: true }).then(
+              () => {
+                this.scheduleCleanup(true)
+                return true
+              },
+              (error) => {
+                console.warn('Warning: failed to create VOICEVOX synthesis cache directory:', error)
+                return false
+              }
+            )
+          : Promise.resolve(false)
+    }
+    return this.diskReady
+  }
+
+  private filePath(key: string): string | undefined {
+    return this.diskDir && path ? path.join(this.diskDir, `${key}.wav`) : undefined
+  }
+
+  private async readFromDisk(key: string): Promise<ArrayBuffer | undefined> {
+    const filePath = this.filePath(key)
+    if (!filePath || !fsPromises || !(await this.ensureDiskDir())) return undefined
+    try {
+      const data = await fsPromises.readFile(filePath)
+      if (data.byteLength === 0) return undefined
+      // 古いものから削除されるよう、使ったファイルの更新日時を進める
+      const now = new Date()
+      await fsPromises.utimes(filePath, now, now).catch(() => {})
+      return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer
+    } catch {
+      // cache miss
+      return undefined
+    }
+  }
+
+  private async writeToDisk(key: string, audio: ArrayBuffer): Promise<void> {
+    const filePath = this.filePath(key)
+    if (!filePath || !fsPromises || !(await this.ensureDiskDir())) return
+    try {
+      await fsPromises.writeFile(filePath, new Uint8Array(audio))
+      this.scheduleCleanup()
+    } catch (error) {
+      console.warn('Warning: failed to write VOICEVOX synthesis cache:', error)
+    }
+  }
+
+  private async cleanupFiles(): Promise<void> {
+    const dir = this.diskDir
+    if (!dir || !fsPromises || !path) return
+    if (this.diskTtlMs === null && this.diskMaxBytes === null) return
+
+    const entries = await fsPromises.readdir(dir, { withFileTypes: true })
+    const files: Array<{ path: string; size: number; mtimeMs: number }> = []
+    for (const entry of entries) {
+      if (!entry.isFile() || !CACHE_FILE_PATTERN.test(entry.name)) continue
+      const filePath = path.join(dir, entry.name)
+      try {
+        const fileStat = await fsPromises.stat(filePath)
+        files.push({ path: filePath, size: fileStat.size, mtimeMs: fileStat.mtimeMs })
+      } catch {
+        // ignore cleanup races
+      }
+    }
+
+    const toDelete = planAudioCacheCleanup({
+      entries: files,
+      now: Date.now(),
+      ttlMs: this.diskTtlMs,
+      maxBytes: this.diskMaxBytes,
+    })
+    for (const filePath of toDelete) {
+      await fsPromises.unlink(filePath).catch(() => {})
+    }
+  }
+
+  private scheduleCleanup(force = false): void {
+    if (!force) {
+      this.writesSinceCleanup += 1
+      if (this.writesSinceCleanup < CLEANUP_EVERY_WRITES) return
+    }
+    this.writesSinceCleanup = 0
+    if (this.cleanupRunning) {
+      this.pendingCleanup = true
+      return
+    }
+    this.cleanupRunning = true
+    void this.cleanupFiles()
+      .catch((error) => console.warn('Warning: failed to cleanup VOICEVOX synthesis cache:', error))
+      .finally(() => {
+        this.cleanupRunning = false
+        if (this.pendingCleanup) {
+          this.pendingCleanup = false
+          this.scheduleCleanup(true)
+        }
+      })
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * 読み上げ前のテキスト正規化（日付・単位・記号・略語などを読みやすい日本語にする）
+ *
+ * エンジンのユーザー辞書は単語単位でしか登録できないため、
+ * 「2026/10/18」「3.5GB」のようなパターンは正規表現のルールで書き換える
+ */
+
+/**
+ * 正規化のルール
+ */
+export interface TextNormalizeRule {
+  /** 一致させる正規表現（文字列の場合は flags と合わせて RegExp にする） */
+  pattern: string | RegExp
+  /** 置換後の文字列（$1 などの参照が使える）、または一致ごとに置換後の文字列を返す関数 */
+  replacement: string | ((match: string, ...groups: string[]) => string)
+  /** pattern が文字列のときの正規表現のフラグ（g は常に付ける） */
+  flags?: string
+}
+
+/**
+ * 正規化の設定
+ */
+export interface TextNormalizeOptions {
+  /** 組み込みのルールを使う（デフォルト: true） */
+  builtin?: boolean
+  /** 追加のルール（組み込みのルールより先に、定義順に適用する） */
+  rules?: TextNormalizeRule[]
+}
+
+/** アルファベットの読み */
+export const LETTER_READINGS: Record<string, string> = {
+  A: 'エー',
+  B: 'ビー',
+  C: 'シー',
+  D: 'ディー',
+  E: 'イー',
+  F: 'エフ',
+  G: 'ジー',
+  H: 'エイチ',
+  I: 'アイ',
+  J: 'ジェー',
+  K: 'ケー',
+  L: 'エル',
+  M: 'エム',
+  N: 'エヌ',
+  O: 'オー',
+  P: 'ピー',
+  Q: 'キュー',
+  R: 'アール',
+  S: 'エス',
+  T: 'ティー',
+  U: 'ユー',
+  V: 'ブイ',
+  W: 'ダブリュー',
+  X: 'エックス',
+  Y: 'ワイ',
+  Z: 'ゼット',
+}
+
+/** 数字を 1 桁ずつ読むときの読み */
+export const DIGIT_READINGS = ['ゼロ', 'イチ', 'ニー', 'サン', 'ヨン', 'ゴー', 'ロク', 'ナナ', 'ハチ', 'キュー']
+
+/** 数字の直後に付く単位の読み（長いものから一致させる） */
+const UNIT_READINGS: Record<string, string> = {
+  TB: 'テラバイト',
+  GB: 'ギガバイト',
+  MB: 'メガバイト',
+  KB: 'キロバイト',
+  kB: 'キロバイト',
+  Gbps: 'ギガビーピーエス',
+  Mbps: 'メガビーピーエス',
+  GHz: 'ギガヘルツ',
+  MHz: 'メガヘルツ',
+  kHz: 'キロヘルツ',
+  Hz: 'ヘルツ',
+  km: 'キロメートル',
+  cm: 'センチメートル',
+  mm: 'ミリメートル',
+  kg: 'キログラム',
+  mg: 'ミリグラム',
+  ms: 'ミリ秒',
+  fps: 'エフピーエス',
+  px: 'ピクセル',
+  '℃': '度',
+  '°C': '度',
+}
+
+/** 1 文字ずつではなく単語として読む略語 */
+const ACRONYM_READINGS: Record<string, string> = {
+  ASCII: 'アスキー',
+  JPEG: 'ジェイペグ',
+  JSON: 'ジェイソン',
+  LAN: 'ラン',
+  RAM: 'ラム',
+  ROM: 'ロム',
+  WAN: 'ワン',
+  YAML: 'ヤムル',
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const UNIT_PATTERN = Object.keys(UNIT_READINGS)
+  .sort((a, b) => b.length - a.length)
+  .map(escapeRegExp)
+  .join('|')
+
+/**
+ * 組み込みのルール（定義順に適用）
+ */
+const BUILTIN_RULES: TextNormalizeRule[] = [
+  {
+    // 2026/10/18, 2026-10-18 → 2026年10月18日
+    pattern: /(?<![\d/.-])(\d{4})([/-])(\d{1,2})\2(\d{1,2})(?![\d/.-])/g,
+    replacement: (match, year, _, month, day) =>
+      Number(month) >= 1 && Number(month) <= 12 && Number(day) >= 1 && Number(day) <= 31
+        ? `${year}年${Number(month)}月${Number(day)}日`
+        : match,
+  },
+  {
+    // 10:30 → 10時30分、9:00 → 9時
+    pattern: /(?<![\d:])(\d{1,2}):(\d{2})(?::(\d{2}))?(?![\d:])/g,
+    replacement: (match, hour, minute, second) => {
+      if (Number(hour) > 24 || Number(minute) > 59 || (second !== undefined && Number(second) > 59)) return match
+      const minutes = Number(minute) > 0 || second !== undefined ? `${Number(minute)}分` : ''
+      const seconds = second !== undefined ? `${Number(second)}秒` : ''
+      return `${Number(hour)}時${minutes}${seconds}`
+    },
+  },
+  {
+    // v0.8.1 → バージョン0てん8てん1、192.168.0.1 → 192てん168てん0てん1
+    pattern: /(?<![\w.])([vV])?(\d+(?:\.\d+)+)(?![\w.])/g,
+    replacement: (match, prefix, version: string) => {
+      const parts = version.split('.')
+      if (!prefix && parts.length < 3) return match
+      return `${prefix ? 'バージョン' : ''}${parts.join('てん')}`
+    },
+  },
+  {
+    // 3.5GB → 3.5ギガバイト
+    pattern: new RegExp(`(\\d)\\s?(${UNIT_PATTERN})(?![A-Za-z])`, 'g'),
+    replacement: (_, digit, unit: string) => `${digit}${UNIT_READINGS[unit]}`,
+  },
+  {
+    // 3~5 → 3から5（日付・時刻を書き換えたあとの 10時~11時 も対象）
+    pattern: /([\d年月日時分秒])\s*[~〜～]\s*(?=\d)/g,
+    replacement: '$1から',
+  },
+  {
+    pattern: /[%％]/g,
+    replacement: 'パーセント',
+  },
+  {
+    // Q&A → キューアンドエー
+    pattern: /(?<![A-Za-z])([A-Z])[&＆]([A-Z])(?![A-Za-z])/g,
+    replacement: (_, left: string, right: string) => `${LETTER_READINGS[left]}アンド${LETTER_READINGS[right]}`,
+  },
+  {
+    pattern: /\s*[&＆]\s*/g,
+    replacement: 'アンド',
+  },
+  {
+    pattern: /[@＠]/g,
+    replacement: 'アット',
+  },
+  {
+    // API → エーピーアイ、APIs → エーピーアイ、JSON → ジェイソン
+    pattern: /(?<![A-Za-z])([A-Z]{2,5})s?(?![A-Za-z])/g,
+    replacement: (_, word: string) =>
+      ACRONYM_READINGS[word] ?? Array.from(word, (letter) => LETTER_READINGS[letter]).join(''),
+  },
+]
+
+/**
+ * ルールを検証して RegExp に変換（不正なルールはエラー）
+ */
+function compileRule(rule: TextNormalizeRule, index: number): TextNormalizeRule & { pattern: RegExp } {
+  const invalid = (reason: string) => new Error(`テキスト正規化のルール ${index + 1} が不正です: ${reason}`)
+  if (typeof rule.replacement !== 'string' && typeof rule.replacement !== 'function') {
+    throw invalid('replacement は文字列か関数で指定してください')
+  }
+  if (rule.pattern instanceof RegExp) {
+    const flags = rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`
+    return { ...rule, pattern: new RegExp(rule.pattern.source, flags) }
+  }
+  if (typeof rule.pattern !== 'string' || !rule.pattern) {
+    throw invalid('pattern は空でない文字列で指定してください')
+  }
+  const flags = rule.flags ?? ''
+  try {
+    return { ...rule, pattern: new RegExp(rule.pattern, flags.includes('g') ? flags : `${flags}g`) }
+  } catch (error) {
+    throw invalid(error instanceof Error ? error.message : String(error))
+  }
+}
+
+/**
+ * 設定からテキストを正規化する関数を作る
+ *
+ * ルールはここで一度だけ検証・コンパイルするため、不正な正規表現は呼び出し時ではなく作成時にエラーになる
+ */
+export function createTextNormalizer(options: TextNormalizeOptions = {}): (text: string) => string {
+  const rules = [...(options.rules ?? []), ...(options.builtin === false ? [] : BUILTIN_RULES)].map(compileRule)
+  return (text) =>
+    rules.reduce(
+      (current, rule) =>
+        typeof rule.replacement === 'string'
+          ? current.replace(rule.pattern, rule.replacement)
+          : current.replace(rule.pattern, rule.replacement),
+      text
+    )
+}
+
+/**
+ * テキストを正規化する
+ *
+ * @example
+ * normalizeText('2026/10/18 に v0.8.1 をリリース（3.5GB、API の応答は 50% 高速化）')
+ * // => '2026年10月18日 に バージョン0てん8てん1 をリリース（3.5ギガバイト、エーピーアイ の応答は 50パーセント 高速化）'
+ */
+export function normalizeText(text: string, options: TextNormalizeOptions = {}): string {
+  return createTextNormalizer(options)(text)
+}
@@ -0,0 +1,214 @@
+/**
+ * 読み上げ前のテキスト前処理（LLM が出力する Markdown を読みやすいテキストにする）
+ */
+
+/**
+ * コードブロックの扱い
+ * - announce: 「コードは省略します」と読む
+ * - strip: 読まない
+ * - keep: フェンスを外して中身をそのまま読む
+ */
+export type CodeBlockMode = 'announce' | 'strip' | 'keep'
+
+/**
+ * 前処理のルール（未指定のルールは有効）
+ */
+export interface TextPreprocessOptions {
+  /** コードブロック（``` / ~~~）の扱い（デフォルト: announce） */
+  codeBlocks?: CodeBlockMode
+  /** インラインコードのバッククォートを外す */
+  inlineCode?: boolean
+  /** リンク・画像は URL ではなくリンクテキストを読み、裸の URL はホスト名だけ読む */
+  links?: boolean
+  /** 箇条書き・番号付きリストの記号を外し、項目ごとに別のセグメントにする */
+  lists?: boolean
+  /** 強調・打ち消し（** * __ _ ~~）の記号を外す */
+  emphasis?: boolean
+  /** 見出しの #・引用の >・水平線を外し、見出しは別のセグメントにする */
+  headings?: boolean
+  /** 表の罫線と区切り行を外し、セルを読点でつなげて行ごとに別のセグメントにする */
+  tables?: boolean
+}
+
+const CODE_BLOCK_ANNOUNCEMENT = 'コードは省略します。'
+
+type ResolvedOptions = Required<TextPreprocessOptions>
+
+interface LineRule {
+  name: Exclude<keyof TextPreprocessOptions, 'codeBlocks'>
+  /** 行を変換する。null は行を読まない、block: true はその行を単独のセグメントにする */
+  apply: (line: string) => { text: string | null; block: boolean } | undefined
+}
+
+/**
+ * 行単位のルール（先に一致したものを使う）
+ */
+const LINE_RULES: LineRule[] = [
+  {
+    name: 'tables',
+    apply: (line) => {
+      if (/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)+\|?\s*$/.test(line)) return { text: null, block: false }
+      if (!/^\s*\|.*\|\s*$/.test(line)) return undefined
+      const cells = line
+        .trim()
+        .replace(/^\||\|$/g, '')
+        .split('|')
+        .map((cell) => cell.trim())
+        .filter(Boolean)
+      return { text: cells.join('、'), block: true }
+    },
+  },
+  {
+    name: 'headings',
+    apply: (line) => {
+      if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) return { text: null, block: false }
+      const heading = line.match(/^\s{0,3}#{1,6}\s+(.*?)(\s+#+)?\s*$/)
+      if (heading) return { text: heading[1], block: true }
+      const quote = line.match(/^\s{0,3}(>\s?)+(.*)$/)
+      if (quote) return { text: quote[2], block: false }
+      return undefined
+    },
+  },
+  {
+    name: 'lists',
+    apply: (line) => {
+      const item = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.*)$/)
+      return item ? { text: item[1], block: true } : undefined
+    },
+  },
+  {
+    name: 'links',
+    apply: (line) => (/^\s{0,3}\[[^\]]+\]:\s*\S+/.test(line) ? { text: null, block: false } : undefined),
+  },
+]
+
+/**
+ * 行内のルール（定義順に適用）
+ */
+const INLINE_RULES: Array<{ name: LineRule['name']; apply: (text: string) => string }> = [
+  {
+    // リンクの中にコードや強調があっても崩れないよう、先に URL を取り除く
+    name: 'links',
+    apply: (text) =>
+      text
+        .replace(/!?\[([^\]]*)\]\([^)\s]+(?:\s+"[^"]*")?\)/g, '$1')
+        .replace(/!?\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+        .replace(/<(https?:\/\/[^>\s]+)>/g, '$1')
+        .replace(/https?:\/\/([^/\s)>\]]+)[^\s)>\]]*/g, (_, host: string) => host.replace(/^www\./, '')),
+  },
+  {
+    name: 'inlineCode',
+    apply: (text) => text.replace(/(`+)([^`]|[^`][\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => code.trim()),
+  },
+  {
+    name: 'emphasis',
+    apply: (text) =>
+      text
+        .replace(/~~(.+?)~~/g, '$1')
+        .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+        .replace(/\*(?=\S)([^*\n]+?)(?<=\S)\*/g, '$1')
+        .replace(/(^|[^\w])_(?=\S)([^_\n]+?)(?<=\S)_(?=[^\w]|$)/g, '$1$2'),
+  },
+]
+
+function resolveOptions(options: TextPreprocessOptions): ResolvedOptions {
+  return {
+    codeBlocks: options.codeBlocks ?? 'announce',
+    inlineCode: options.inlineCode ?? true,
+    links: options.links ?? true,
+    lists: options.lists ?? true,
+    emphasis: options.emphasis ?? true,
+    headings: options.headings ?? true,
+    tables: options.tables ?? true,
+  }
+}
+
+/**
+ * テキストをコードブロックとそれ以外に分ける（閉じられていないフェンスは末尾までコードとみなす）
+ */
+function splitCodeBlocks(text: string): Array<{ code: boolean; text: string }> {
+  const chunks: Array<{ code: boolean; text: string }> = []
+  let current: string[] = []
+  let fence: string | undefined
+
+  for (const line of text.split('\n')) {
+    const marker = line.match(/^\s{0,3}(`{3,}|~{3,})/)?.[1]
+    if (fence === undefined && marker) {
+      chunks.push({ code: false, text: current.join('\n') })
+      current = []
+      fence = marker
+    } else if (
+      fence !== undefined &&
+      marker?.[0] === fence[0] &&
+      marker.length >= fence.length &&
+      !line.trim().slice(marker.length)
+    ) {
+      chunks.push({ code: true, text: current.join('\n') })
+      current = []
+      fence = undefined
+    } else {
+      current.push(line)
+    }
+  }
+  chunks.push({ code: fence !== undefined, text: current.join('\n') })
+  return chunks
+}
+
+/**
+ * テキストを前処理し、読み上げ単位のブロックに分ける
+ *
+ * 空行・見出し・リスト項目・表の行・コードブロックがブロックの区切りになる。
+ * 段落内の改行はそのまま残すため、呼び出し側で splitText などにかけて分割する。
+ *
+ * @example
+ * preprocessText('## 手順\n1. **ビルド**する\n2. [ドキュメント](https://example.com)を読む')
+ * // => ['手順', 'ビルドする', 'ドキュメントを読む']
+ */
+export function preprocessText(text: string, options: TextPreprocessOptions = {}): string[] {
+  const resolved = resolveOptions(options)
+  const lineRules = LINE_RULES.filter((rule) => resolved[rule.name])
+  const inlineRules = INLINE_RULES.filter((rule) => resolved[rule.name])
+
+  const blocks: string[] = []
+  let paragraph: string[] = []
+  const flush = () => {
+    const joined = paragraph.join('\n').trim()
+    if (joined) blocks.push(joined)
+    paragraph = []
+  }
+  const applyInline = (line: string) => inlineRules.reduce((current, rule) => rule.apply(current), line)
+
+  for (const chunk of splitCodeBlocks(text.replace(/\r\n?/g, '\n'))) {
+    if (chunk.code) {
+      flush()
+      if (resolved.codeBlocks === 'announce') blocks.push(CODE_BLOCK_ANNOUNCEMENT)
+      if (resolved.codeBlocks === 'keep' && chunk.text.trim()) blocks.push(chunk.text.trim())
+      continue
+    }
+
+    for (const line of chunk.text.split('\n')) {
+      if (!line.trim()) {
+        flush()
+        continue
+      }
+
+      let result: { text: string | null; block: boolean } | undefined
+      for (const rule of lineRules) {
+        result = rule.apply(line)
+        if (result) break
+      }
+      if (result?.text === null) continue
+
+      const converted = applyInline(result?.text ?? line)
+      if (result?.block) {
+        flush()
+        if (converted.trim()) blocks.push(converted.trim())
+      } else {
+        paragraph.push(converted)
+      }
+    }
+    flush()
+  }
+
+  return blocks
+}
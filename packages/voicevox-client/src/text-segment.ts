@@ -0,0 +1,283 @@
+/**
+ * 読み上げ用のテキスト分割（日本語・英語の混在テキストを文・節の単位でセグメントにする）
+ */
+
+/**
+ * セグメントの長さの設定（文字数）
+ */
+export interface TextSegmentOptions {
+  /** これより短いセグメントには次の文をつなげる（デフォルト: maxLength。maxLength に収まるまで文をつなげる） */
+  minLength?: number
+  /** セグメントの最大文字数。超える文は読点などの節の区切りで分ける（デフォルト: 150） */
+  maxLength?: number
+  /** 最初のセグメントの最大文字数。短くすると再生を早く始められる（デフォルト: maxLength） */
+  firstMaxLength?: number
+}
+
+const DEFAULT_MAX_LENGTH = 150
+
+/** 開き括弧・引用符と対応する閉じ括弧 */
+const BRACKETS: Record<string, string> = {
+  '「': '」',
+  '『': '』',
+  '（': '）',
+  '(': ')',
+  '【': '】',
+  '［': '］',
+  '[': ']',
+  '〈': '〉',
+  '《': '》',
+  '“': '”',
+  '‘': '’',
+}
+const CLOSERS = new Set([...Object.values(BRACKETS), '"'])
+
+/** 常に文末とみなす記号 */
+const FULL_STOPS = new Set(['。', '．', '！', '？', '‼', '⁉'])
+
+/** 直後の「.」を文末とみなさない略語（小文字で比較） */
+const ABBREVIATIONS = new Set([
+  'mr',
+  'mrs',
+  'ms',
+  'dr',
+  'prof',
+  'sr',
+  'jr',
+  'st',
+  'mt',
+  'vs',
+  'no',
+  'fig',
+  'approx',
+  'dept',
+  'inc',
+  'ltd',
+  'co',
+  'corp',
+  'al',
+  'cf',
+  'e.g',
+  'i.e',
+  'u.s',
+])
+
+/** 長すぎる文を分けるときの節の区切り（この文字の直後で分ける） */
+const CLAUSE_BREAKS = new Set(['、', '，', '；', '：', ';', ':', ','])
+
+const isAsciiVisible = (char: string | undefined) => char !== undefined && /[\x21-\x7e]/.test(char)
+
+/** 文字数（サロゲートペアは 1 文字として数える） */
+const charLength = (text: string) => Array.from(text).length
+
+/**
+ * index の「.」「!」「?」が文末かどうか（英語の句読点の規則）
+ */
+function isAsciiSentenceEnd(text: string, index: number): boolean {
+  const next = text[index + 1]
+  const char = text[index]
+
+  if (char === '!' || char === '?') {
+    // "a!=b" のような式は区切らない
+    return next === undefined || /\s/.test(next) || !isAsciiVisible(next) || CLOSERS.has(next) || '!?.'.includes(next)
+  }
+
+  // 日本語の文末の「.」（"完了です.Next"）
+  const prev = text[index - 1]
+  if (prev !== undefined && !isAsciiVisible(prev) && !/\s/.test(prev) && !/\d/.test(next ?? '')) return true
+
+  // 小数・バージョン・URL（3.14, v0.8.1, example.com）は次が空白でないので区切らない
+  if (next !== undefined && /[\x21-\x7e]/.test(next) && !CLOSERS.has(next)) return false
+
+  // 次の語が小文字・数字で始まるなら文の途中（"e.g. this", "approx. 5"）
+  const following = text.slice(index + 1).match(/^\s+(\S)/)?.[1]
+  if (following && /[a-z0-9]/.test(following)) return false
+
+  // 略語と頭文字（"Dr. Smith", "J. K. Rowling"）
+  const word = text.slice(0, index).match(/([A-Za-z.]+)$/)?.[1] ?? ''
+  if (ABBREVIATIONS.has(word.toLowerCase())) return false
+  if (/^[A-Z]$/.test(word)) return false
+  return true
+}
+
+/**
+ * テキストを文に分ける（splitSentences の本体。文が始まる位置も返す）
+ */
+function scanSentences(text: string): Array<{ text: string; newline: boolean; start: number }> {
+  const sentences: Array<{ text: string; newline: boolean; start: number }> = []
+  let start = 0
+  let newline = false
+  let stack: string[] = []
+
+  const push = (end: number) => {
+    const sentence = text.slice(start, end).trim()
+    if (sentence) {
+      sentences.push({ text: sentence, newline, start })
+      newline = false
+    }
+    start = end
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (char === '\n') {
+      push(i)
+      newline = sentences.length > 0
+      stack = []
+      continue
+    }
+    if (char === '"') {
+      if (stack.at(-1) === '"') stack.pop()
+      else stack.push('"')
+      continue
+    }
+    if (BRACKETS[char]) {
+      stack.push(BRACKETS[char])
+      continue
+    }
+    if (char === stack.at(-1)) {
+      stack.pop()
+      continue
+    }
+    if (stack.length > 0) continue
+
+    const isEnd = FULL_STOPS.has(char) || ('.!?'.includes(char) && isAsciiSentenceEnd(text, i))
+    if (!isEnd) continue
+
+    let end = i + 1
+    while (end < text.length && (FULL_STOPS.has(text[end]) || '.!?'.includes(text[end]) || CLOSERS.has(text[end]))) {
+      end++
+    }
+    push(end)
+    i = end - 1
+  }
+  push(text.length)
+  return sentences
+}
+
+/**
+ * テキストを文に分ける
+ *
+ * - 「。！？」と英語の「. ! ?」で区切る（略語・頭文字・小数・バージョン番号の「.」では区切らない）
+ * - 括弧・引用符の中では区切らない（会話文 「…。…。」 や (…) は 1 文として扱う）
+ * - 改行は常に区切りにする（閉じられていない括弧も改行で打ち切る）
+ * - 文末の記号に続く閉じ括弧・記号（「！？」「。」」「."」）は前の文に含める
+ *
+ * @returns 文と、その文の前に改行があったかどうか
+ */
+export function splitSentences(text: string): Array<{ text: string; newline: boolean }> {
+  return scanSentences(text).map(({ text, newline }) => ({ text, newline }))
+}
+
+/**
+ * 書きかけのテキストから、区切りが確定した文を取り出す（ストリームで届くテキスト用）
+ *
+ * 最後の文は続きが届くと変わりうる（"3." の後に "14"、"。" の後に "」"）ため、
+ * テキストが改行で終わっていなければ rest に残す
+ *
+ * @example
+ * takeCompleteSentences('こんにちは。今日は')
+ * // => { sentences: ['こんにちは。'], rest: '今日は' }
+ */
+export function takeCompleteSentences(text: string): { sentences: string[]; rest: string } {
+  const sentences = scanSentences(text)
+  const last = sentences.at(-1)
+  if (!last || /\n\s*$/.test(text)) {
+    return { sentences: sentences.map((sentence) => sentence.text), rest: '' }
+  }
+  return { sentences: sentences.slice(0, -1).map((sentence) => sentence.text), rest: text.slice(last.start) }
+}
+
+/**
+ * 2 つの文をつなげる（どちらかが英数字・記号で接するときは空白を入れる）
+ */
+function joinSentences(left: string, right: string): string {
+  if (!left) return right
+  return isAsciiVisible(left.at(-1)) || isAsciiVisible(right[0]) ? `${left} ${right}` : `${left}${right}`
+}
+
+/**
+ * 長すぎる文を節の区切り（読点・カンマ・空白）で分ける
+ * 区切りが見つからなければ最大文字数で切る
+ */
+function splitClauses(sentence: string, firstLimit: number, limit: number): string[] {
+  const pieces: string[] = []
+  let rest = Array.from(sentence)
+
+  while (rest.length > (pieces.length === 0 ? firstLimit : limit)) {
+    const max = pieces.length === 0 ? firstLimit : limit
+    let cut = 0
+    for (let i = max; i > 0; i--) {
+      const before = rest[i - 1]
+      // 3,000 のような桁区切りのカンマでは分けない
+      const isDigitComma = before === ',' && /\d/.test(rest[i] ?? '')
+      if ((CLAUSE_BREAKS.has(before) && !isDigitComma) || /\s/.test(before)) {
+        cut = i
+        break
+      }
+    }
+    if (cut === 0) cut = max
+
+    const piece = rest.slice(0, cut).join('').trim()
+    if (piece) pieces.push(piece)
+    rest = rest.slice(cut)
+  }
+
+  const last = rest.join('').trim()
+  if (last) pieces.push(last)
+  return pieces
+}
+
+/**
+ * 複数のテキストをそれぞれセグメントに分ける（firstMaxLength は全体の最初のセグメントにだけ適用する）
+ *
+ * 短い文は minLength に達するまで次の文とつなげ、maxLength を超える文は節の区切りで分ける。
+ * 改行をまたいでつなげることはない。
+ */
+export function segmentTexts(texts: string[], options: TextSegmentOptions = {}): string[][] {
+  const maxLength = Math.max(1, options.maxLength ?? DEFAULT_MAX_LENGTH)
+  const minLength = Math.min(options.minLength ?? maxLength, maxLength)
+  const firstMaxLength = Math.max(1, Math.min(options.firstMaxLength ?? maxLength, maxLength))
+  let isFirst = true
+
+  return texts.map((text) => {
+    const segments: string[] = []
+    let current = ''
+    const flush = () => {
+      if (current) segments.push(current)
+      current = ''
+    }
+    const limit = () => (isFirst && segments.length === 0 ? firstMaxLength : maxLength)
+
+    for (const sentence of splitSentences(text)) {
+      if (sentence.newline) flush()
+
+      const joined = joinSentences(current, sentence.text)
+      if (current && charLength(current) < minLength && charLength(joined) <= limit()) {
+        current = joined
+        continue
+      }
+
+      flush()
+      const pieces = splitClauses(sentence.text, limit(), maxLength)
+      segments.push(...pieces.slice(0, -1))
+      current = pieces.at(-1) ?? ''
+    }
+    flush()
+
+    if (segments.length > 0) isFirst = false
+    return segments
+  })
+}
+
+/**
+ * テキストを読み上げ用のセグメントに分ける
+ *
+ * @example
+ * segmentText('こんにちは。今日は Dr. Smith が「3.5 倍速い。本当です。」と言っていました。')
+ * // => ['こんにちは。', '今日は Dr. Smith が「3.5 倍速い。本当です。」と言っていました。']
+ */
+export function segmentText(text: string, options: TextSegmentOptions = {}): string[] {
+  return segmentTexts([text], options)[0]
+}
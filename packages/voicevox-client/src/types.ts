@@ -1,13 +1,32 @@
+import type { VoicevoxApiOptions } from './api.js'
+import type { AudioTiming } from './audio-timing.js'
+import type { EngineSelectionStrategy } from './engine-pool.js'
+import type { EngineProfile, EngineProfileName } from './engine-profile.js'
+import type { InterruptionPolicy, QueuePriority } from './queue-priority.js'
+import type { SpeakerAliases } from './speaker-resolver.js'
+import type { SynthesisCache } from './synthesis-cache.js'
+import type { TextNormalizeOptions } from './text-normalize.js'
+import type { TextPreprocessOptions } from './text-preprocess.js'
+
 /**
  * VOICEVOXクライアントの設定オブジェクト
  */
 export interface VoicevoxConfig {
-  /** VOICEVOXエンジンのURL */
-  url: string
-  /** デフォルトの話者ID */
-  defaultSpeaker: number
+  /**
+   * VOICEVOXエンジンのURL（未指定なら engineProfile の既定の URL）
+   * 配列で複数指定すると、エンジン間で負荷分散し、失敗時は別のエンジンにフェイルオーバーする
+   */
+  url?: string | string[]
+  /** 複数エンジン指定時の振り分け方（デフォルト: round-robin） */
+  engineSelection?: EngineSelectionStrategy
+  /** デフォルトの話者ID（未指定なら engineProfile の既定の話者） */
+  defaultSpeaker?: number
   /** デフォルトの再生速度 */
   defaultSpeedScale?: number
+  /** 歌唱合成のデフォルトのスタイルID（未指定時は /singers から自動選択） */
+  defaultSinger?: number
+  /** 歌唱クエリ生成に使うお手本スタイルID（デフォルト: 6000） */
+  defaultSingingTeacher?: number
   /** デフォルトの音量 (0.0 - 2.0, デフォルト: 1.0) */
   defaultVolumeScale?: number
   /** デフォルトの音高 (-0.15 - 0.15, デフォルト: 0.0) */
@@ -18,14 +37,55 @@ export interface VoicevoxConfig {
   defaultPostPhonemeLength?: number
   /** テキスト分割時の最大文字数（デフォルト: 150） */
   maxSegmentLength?: number
+  /** テキスト分割時、これより短いセグメントには次の文をつなげる（デフォルト: maxSegmentLength） */
+  minSegmentLength?: number
+  /** 最初のセグメントの最大文字数。短くすると再生を早く始められる（デフォルト: maxSegmentLength） */
+  firstSegmentMaxLength?: number
+  /**
+   * 文字列で渡したテキストを分割する前に行う Markdown の前処理（未指定なら前処理しない）
+   * 各ルールは個別に無効にできる（TextPreprocessOptions）
+   */
+  textPreprocess?: TextPreprocessOptions
+  /**
+   * 音声クエリを生成する前に行う日付・単位・記号・略語などの正規化（未指定なら正規化しない）
+   * 正規表現のルールを追加できる（TextNormalizeOptions）
+   */
+  textNormalize?: TextNormalizeOptions
+  /**
+   * 話者名のエイリアス（例: { "ナレーター": "四国めたん/ノーマル", "zunda": 3 }）
+   * SSML の <voice name> や resolveSpeaker() で、キャラクター名・スタイル名より先に参照する
+   */
+  speakerAliases?: SpeakerAliases
   /** APIリクエスト失敗時のリトライ回数（初回を除く。0でリトライ無効、デフォルト: 2） */
   retryCount?: number
   /** リトライの初期ディレイ（ミリ秒、指数バックオフ、デフォルト: 250） */
   retryDelayMs?: number
   /** APIリクエスト1回あたりのタイムアウト（ミリ秒、デフォルト: 30000） */
   timeoutMs?: number
+  /**
+   * 接続先エンジンのプロファイル（デフォルト: voicevox）
+   * AivisSpeech など VOICEVOX 互換エンジンの既定の URL・話者、受け付けないフィールドの除去、話者一覧の補正を切り替える
+   */
+  engineProfile?: EngineProfileName | EngineProfile
+  /** HTTP リクエストに使う fetch の実装（デフォルト: グローバルの fetch） */
+  fetch?: VoicevoxApiOptions['fetch']
+  /** エンジンへのリクエスト送信前に呼ばれるフック（ヘッダーの追加など） */
+  onRequest?: VoicevoxApiOptions['onRequest']
+  /** エンジンからレスポンスを受け取るたびに呼ばれるフック（レイテンシの計測など） */
+  onResponse?: VoicevoxApiOptions['onResponse']
+  /** 失敗したリクエストを再試行する直前に呼ばれるフック */
+  onRetry?: VoicevoxApiOptions['onRetry']
+  /**
+   * 合成結果のキャッシュ（未指定ならキャッシュしない）
+   * 同じインスタンスを複数のクライアント・VoicevoxApi に渡すと、キャッシュを共有できる
+   */
+  synthesisCache?: SynthesisCache
   /** 先読みする音声の最大件数（READY + GENERATING の上限、デフォルト: 2） */
   prefetchSize?: number
+  /** 未読み込みの話者がエンキューされたら、バックグラウンドでモデルを読み込むか（デフォルト: true） */
+  warmUpOnEnqueue?: boolean
+  /** 優先度の高いアイテムの割り込みと、古くなった低い優先度のアイテムの破棄の方針 */
+  interruption?: InterruptionPolicy
   /** デフォルトの再生オプション */
   defaultPlaybackOptions?: PlaybackOptions
   /**
@@ -61,6 +121,8 @@ export interface AudioQuery {
   outputStereo: boolean
   /** AquesTalk風記法によるテキスト */
   kana?: string
+  /** 句読点などの間の長さ（秒、null の場合は pauseLengthScale を使用。VOICEVOX 0.14+） */
+  pauseLength?: number | null
   /** 句読点などの間の長さの倍率（VOICEVOX 0.14+） */
   pauseLengthScale?: number
 }
@@ -185,6 +247,23 @@ export interface Speaker {
   }
 }
 
+/**
+ * モーフィング可否情報 (/morphable_targets レスポンスの各要素)
+ */
+export interface MorphableTargetInfo {
+  is_morphable: boolean
+}
+
+/**
+ * モーフィング合成のパラメータ
+ */
+export interface MorphingParameters {
+  /** モーフィング先のスタイルID */
+  targetSpeaker: number
+  /** モーフィングの割合（0.0 = 元のスタイル, 1.0 = モーフィング先） */
+  morphRate: number
+}
+
 /**
  * スピーカー詳細情報 (/speaker_info レスポンス)
  */
@@ -201,6 +280,97 @@ export interface SpeakerInfo {
   style_infos: SpeakerStyleInfo[]
 }
 
+/**
+ * エンジンに保存された音声合成プリセット (/presets)
+ */
+export interface Preset {
+  /** プリセットID */
+  id: number
+  /** プリセット名 */
+  name: string
+  /** 話者のUUID */
+  speaker_uuid: string
+  /** スタイルID */
+  style_id: number
+  /** 話速 */
+  speedScale: number
+  /** 音高 */
+  pitchScale: number
+  /** 抑揚 */
+  intonationScale: number
+  /** 音量 */
+  volumeScale: number
+  /** 音声の前の無音時間 */
+  prePhonemeLength: number
+  /** 音声の後の無音時間 */
+  postPhonemeLength: number
+  /** 句読点などの無音時間（null の場合は pauseLengthScale を使用） */
+  pauseLength?: number | null
+  /** 句読点などの無音時間の倍率 */
+  pauseLengthScale?: number
+}
+
+/**
+ * エンジンが対応する機能 (/engine_manifest の supported_features)
+ * エンジンのバージョンによって存在しないキーがある
+ */
+export interface EngineSupportedFeatures {
+  adjust_mora_pitch?: boolean
+  adjust_phoneme_length?: boolean
+  adjust_speed_scale?: boolean
+  adjust_pitch_scale?: boolean
+  adjust_intonation_scale?: boolean
+  adjust_volume_scale?: boolean
+  adjust_pause_length?: boolean
+  interrogative_upspeak?: boolean
+  synthesis_morphing?: boolean
+  sing?: boolean
+  manage_library?: boolean
+  return_resource_url?: boolean
+  apply_katakana_english?: boolean
+}
+
+/**
+ * エンジンのマニフェスト (/engine_manifest)
+ */
+export interface EngineManifest {
+  manifest_version: string
+  /** エンジン名（例: VOICEVOX Engine） */
+  name: string
+  /** ブランド名（例: VOICEVOX） */
+  brand_name: string
+  uuid: string
+  url?: string
+  default_sampling_rate: number
+  frame_rate?: number
+  supported_features: EngineSupportedFeatures
+}
+
+/**
+ * エンジンによって有無が分かれる機能
+ * - pauseLength: AudioQuery の pauseLengthScale
+ * - morphing: モーフィング合成
+ * - singing: 歌唱合成
+ * - userDictionary: ユーザー辞書
+ */
+export type EngineFeature = 'pauseLength' | 'morphing' | 'singing' | 'userDictionary'
+
+/**
+ * 接続中のエンジンの機能情報
+ */
+export interface EngineCapabilities {
+  /** エンジン名（マニフェストが取得できない場合は undefined） */
+  name?: string
+  /** ブランド名 */
+  brandName?: string
+  /** エンジンのバージョン（/version） */
+  version?: string
+  /** 取得したマニフェスト（/engine_manifest が無いエンジンでは undefined） */
+  manifest?: EngineManifest
+  /** 機能ごとの対応可否 */
+  features: Record<EngineFeature, boolean>
+}
+
 /**
  * ユーザー辞書単語
  */
@@ -214,12 +384,29 @@ export interface UserDictionaryWord {
 
 // VoicevoxError は error.ts から再エクスポートされるため削除
 
-// 音声セグメント定義
+// 音声セグメント定義（話速などを指定すると、そのセグメントだけ speak() のオプションより優先する）
 export interface SpeechSegment {
   text: string
   speaker?: number
+  /** 話速 */
+  speedScale?: number
+  /** 音高 */
+  pitchScale?: number
+  /** 抑揚 */
+  intonationScale?: number
+  /** 音量 */
+  volumeScale?: number
+  /** 音声の前の無音時間（秒） */
+  prePhonemeLength?: number
+  /** 音声の後の無音時間（秒） */
+  postPhonemeLength?: number
+  /** 句読点などの間の長さの倍率（VOICEVOX 0.14+） */
+  pauseLengthScale?: number
 }
 
+/** セグメントごとに指定できる読み上げの調整量 */
+export type SegmentProsody = Omit<SpeechSegment, 'text' | 'speaker'>
+
 /**
  * 音声再生のオプション
  */
@@ -230,6 +417,35 @@ export interface PlaybackOptions {
   waitForStart?: boolean
   /** 再生終了まで待機するかどうか */
   waitForEnd?: boolean
+  /**
+   * キューの優先度（指定時は immediate でもキューをクリアせず、優先度の高い順に並べる）
+   * 未指定なら normal として扱う
+   */
+  priority?: QueuePriority
+}
+
+/**
+ * 音声ファイルを構成する 1 回分の合成（字幕の区間に使う）
+ */
+export interface AudioFileSegment {
+  /** 表示用のテキスト（読み方の変換前。読み仮名や AudioQuery から合成した場合はモーラの読み） */
+  text: string
+  /** 話者ID */
+  speaker: number
+  /** 発話タイミング（ファイルの先頭からの時刻） */
+  timing: AudioTiming
+}
+
+/**
+ * 音声ファイルの生成結果
+ */
+export interface AudioFileResult {
+  /** 保存したファイルのパス（ブラウザではダウンロードしたファイル名） */
+  filePath: string
+  /** 音声の長さと発話タイミング（複数のセグメントを連結した場合は通しの時刻） */
+  timing: AudioTiming
+  /** 合成したセグメントごとのテキスト・話者・タイミング */
+  segments: AudioFileSegment[]
 }
 
 /**
@@ -244,6 +460,8 @@ export interface SpeakResult {
   textPreview: string
   /** セグメント数 */
   segmentCount: number
+  /** 正規化後に実際に読み上げるテキスト（正規化でテキストが変わった場合のみ） */
+  normalizedText?: string
   /** エラーメッセージ（status='error'の場合） */
   errorMessage?: string
 }
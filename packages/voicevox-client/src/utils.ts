@@ -1,4 +1,7 @@
-import type { AudioQuery, SpeakResult } from './types.js'
+import { type EmotionStyleMap, splitEmotionTags } from './emotion-tags.js'
+import type { SpeakerResolver } from './speaker-resolver.js'
+import { segmentText, type TextSegmentOptions } from './text-segment.js'
+import type { AudioFileResult, AudioQuery, SegmentProsody, SpeakResult, SpeechSegment } from './types.js'
 
 /**
  * 行頭が時刻表記（例: "10:30", "1:23:45"）かどうかを判定する
@@ -8,30 +11,141 @@ import type { AudioQuery, SpeakResult } from './types.js'
  */
 const startsWithTimeNotation = (line: string): boolean => /^\d{1,2}:\d{2}(:\d{2})?(?!\d)/.test(line)
 
+/**
+ * 行頭の読み上げ設定 {speed=1.2,pitch=0.05} のキー（短縮名 → SpeechSegment のフィールド）
+ */
+const LINE_PROSODY_KEYS: Record<string, keyof SegmentProsody> = {
+  speed: 'speedScale',
+  pitch: 'pitchScale',
+  intonation: 'intonationScale',
+  volume: 'volumeScale',
+  pre: 'prePhonemeLength',
+  post: 'postPhonemeLength',
+  pause: 'pauseLengthScale',
+}
+
+/**
+ * 行頭の読み上げ設定 "speed=1.2,pitch=0.05" をパースする
+ */
+const parseLineProsody = (settings: string): SegmentProsody => {
+  const prosody: SegmentProsody = {}
+  for (const item of settings.split(/[,\s]+/).filter(Boolean)) {
+    const [name, value, ...rest] = item.split('=')
+    const key = Object.hasOwn(LINE_PROSODY_KEYS, name)
+      ? LINE_PROSODY_KEYS[name]
+      : Object.values(LINE_PROSODY_KEYS).find((field) => field === name)
+    const number = Number(value)
+    if (!key || rest.length > 0 || !value?.trim() || !Number.isFinite(number)) {
+      throw new Error(
+        `行の読み上げ設定を解釈できません: {${settings}}（${Object.keys(LINE_PROSODY_KEYS).join(', ')} を key=数値 で指定）`
+      )
+    }
+    prosody[key] = number
+  }
+  return prosody
+}
+
+/** 行頭の話者名として扱う最大文字数（これより長ければ本文のコロンとみなす） */
+const MAX_SPEAKER_NAME_LENGTH = 32
+
+/**
+ * 行頭の "話者{読み上げ設定}:" を取り出す（話者か読み上げ設定のどちらかがある場合のみ）
+ */
+const matchLinePrefix = (line: string): { speaker?: string; settings?: string; text: string } | undefined => {
+  if (startsWithTimeNotation(line)) return undefined
+  const match = line.match(/^([^\s:{}]+)?(?:\{([^{}]*)\})?:(.*)$/)
+  if (!match || (match[1] === undefined && match[2] === undefined)) return undefined
+  if (match[1] !== undefined && Array.from(match[1]).length > MAX_SPEAKER_NAME_LENGTH) return undefined
+  return { speaker: match[1], settings: match[2], text: match[3] }
+}
+
+/**
+ * 行頭に話者名（"ずんだもん:"）の指定がある行を含むか
+ * 話者名の解決に /speakers の取得が必要かどうかの判定に使う
+ */
+export const hasSpeakerNamePrefix = (input: string): boolean =>
+  input
+    .replace(/\\n/g, '\n')
+    .split('\n')
+    .some((line) => {
+      const speaker = matchLinePrefix(line)?.speaker
+      return speaker !== undefined && !/^\d+$/.test(speaker)
+    })
+
+/**
+ * parseStringInput のオプション
+ */
+export interface ParseStringInputOptions {
+  /** 行頭の話者名・感情タグのスタイルを解決する（無ければ数字の話者だけを受け付け、感情タグは取り除くだけ） */
+  resolver?: SpeakerResolver
+  /** 話者を指定していない行で、感情タグのスタイルを探す話者 */
+  defaultSpeaker?: number
+  /** 感情タグ → スタイル名の候補（DEFAULT_EMOTION_STYLES など。省略時・false なら感情タグを扱わず本文として読む） */
+  emotionStyles?: EmotionStyleMap | false
+}
+
+/**
+ * 行頭のプレフィックスから 1 行分のセグメントを作る
+ */
+const parseLine = (line: string, resolver?: SpeakerResolver): SpeechSegment => {
+  const prefix = matchLinePrefix(line)
+  if (!prefix) {
+    return { text: line }
+  }
+  let speaker: number | undefined
+  if (prefix.speaker !== undefined && /^\d+$/.test(prefix.speaker)) {
+    speaker = Number.parseInt(prefix.speaker, 10)
+  } else if (prefix.speaker !== undefined) {
+    // 話者名が解決できない行は本文のコロンとみなす（{...} があれば話者の指定なので候補を挙げてエラー）
+    speaker = resolver && (prefix.settings === undefined ? resolver.find : resolver.resolve)(prefix.speaker)
+    if (speaker === undefined) return { text: line }
+  }
+  return {
+    text: prefix.text.trim(),
+    ...(speaker !== undefined && { speaker }),
+    ...(prefix.settings !== undefined && parseLineProsody(prefix.settings)),
+  }
+}
+
 /**
  * マルチスピーカーテキスト "1:Hello\n2:World" をパースする
  *
+ * 行頭の "3{speed=1.3,pitch=0.05}:" や "{speed=0.9}:" で、その行だけ話速・音高・抑揚・音量・
+ * 前後の無音時間（pre・post）・間の長さ（pause）を指定できる。
+ * resolver を渡すと "ずんだもん:"・"ずんだもん/あまあま{speed=1.2}:" のように話者名でも指定できる。
+ * 話者名がどの話者にも似ていない行（"注意:ここは…"）は、話者の指定ではなく本文として読む。
  * 「10:30に集合」のような時刻表記で始まる行は話者プレフィックスとして
  * 扱わず、行全体をテキストにする
+ *
+ * emotionStyles を渡すと、本文中の感情タグ（"[happy]"・"[whisper]" など）は、そこから行末までをその行の話者（無ければ defaultSpeaker）の
+ * 対応するスタイルで読むセグメントに分ける。キャラクターに対応するスタイルが無ければ元の話者のまま読む
+ *
+ * @throws 読み上げ設定が不正な場合、話者名が複数の話者に一致する・{...} 付きの話者名が見つからない場合
  */
-export const parseStringInput = (input: string): Array<{ text: string; speaker?: number }> => {
+export const parseStringInput = (input: string, options: ParseStringInputOptions = {}): SpeechSegment[] => {
+  const { resolver, defaultSpeaker, emotionStyles = false } = options
   // \n と \\n の両方に対応するため、まず \\n を \n に変換してから分割
   const normalizedInput = input.replace(/\\n/g, '\n')
   const lines = normalizedInput.split('\n').filter((line) => line.trim())
-  return lines.map((line) => {
-    if (startsWithTimeNotation(line)) {
-      return { text: line }
-    }
-    const match = line.match(/^(\d+):(.*)$/)
-    if (match) {
-      return { text: match[2].trim(), speaker: Number.parseInt(match[1], 10) }
+  return lines.flatMap((line) => {
+    const segment = parseLine(line, resolver)
+    const parts = emotionStyles ? splitEmotionTags(segment.text, emotionStyles) : []
+    if (!emotionStyles || parts.every((part) => part.emotion === undefined)) {
+      return [segment]
     }
-    return { text: line }
+    const base = segment.speaker ?? defaultSpeaker
+    return parts.map(({ text, emotion }) => {
+      const style =
+        emotion !== undefined && base !== undefined ? resolver?.findStyle(base, emotionStyles[emotion]) : undefined
+      const speaker = style ?? segment.speaker
+      return { ...segment, text, ...(speaker !== undefined && { speaker }) }
+    })
   })
 }
 
 /**
  * SpeakResult を人間が読める文字列にフォーマットする
+ * テキストを正規化した場合は実際に読み上げたテキストも添える
  */
 export const formatSpeakResponse = (result: SpeakResult): string => {
   if (result.status === 'error') {
@@ -41,7 +155,18 @@ export const formatSpeakResponse = (result: SpeakResult): string => {
   const statusLabel = result.status === 'played' ? 'Played' : 'Queued'
   const moreSegments = result.segmentCount > 1 ? ` +${result.segmentCount - 1} more` : ''
 
-  return `${statusLabel} (${result.mode}): "${result.textPreview}"${moreSegments}`
+  const readAs = result.normalizedText ? `\nRead as: "${result.normalizedText}"` : ''
+
+  return `${statusLabel} (${result.mode}): "${result.textPreview}"${moreSegments}${readAs}`
+}
+
+/**
+ * AudioFileResult を文字列にフォーマットする（1 行目は保存先のパス）
+ * タイミングはアクセント句ごとの開始・終了時刻（秒）だけにする
+ */
+export const formatAudioFileResponse = (result: AudioFileResult): string => {
+  const phrases = result.timing.accentPhrases.map(({ text, start, end }) => ({ text, start, end }))
+  return `${result.filePath}\nDuration: ${result.timing.duration}s\nTiming: ${JSON.stringify(phrases)}`
 }
 
 /**
@@ -56,81 +181,18 @@ export const parseAudioQuery = (query: string, speedScale?: number): AudioQuery
 }
 
 /**
- * テキストを自然な区切りで分割します
+ * テキストを自然な区切りで分割します（segmentText の maxLength を指定する版）
  * @param text 分割するテキスト
  * @param maxLength セグメントの最大長
+ * @param options 最小長・最初のセグメントの最大長
  * @returns 分割されたテキストの配列
  */
-export function splitText(text: string, maxLength: number): string[] {
-  // 文の区切りとなるパターン
-  const sentenceEndings = /([。！？])/
-  // 自然な区切りとなる接続詞や助詞
-  const naturalBreaks =
-    /([、しかし、でも、けれど、そして、また、または、それで、だから、ですから、そのため、したがって、ゆえに])/
-
-  const segments: string[] = []
-  let currentSegment = ''
-
-  // 文を句読点で分割
-  const sentences = text.split(sentenceEndings).reduce((acc, part, i, _arr) => {
-    if (i % 2 === 0) {
-      // テキスト部分
-      acc.push(part)
-    } else {
-      // 句読点部分 - 前のテキストと結合
-      acc[acc.length - 1] += part
-    }
-    return acc
-  }, [] as string[])
-
-  // 文ごとに処理
-  for (const sentence of sentences) {
-    if (!sentence.trim()) continue
-
-    // 現在のセグメントに追加してみる
-    const potentialSegment = currentSegment + sentence
-
-    // 最大長を超えないならそのまま追加
-    if (potentialSegment.length <= maxLength) {
-      currentSegment = potentialSegment
-    } else {
-      // 最大長を超える場合、naturalBreaksで分割を試みる
-      const parts = sentence.split(naturalBreaks)
-
-      // 分割パーツを処理
-      for (let i = 0; i < parts.length; i++) {
-        const part = parts[i]
-        if (!part.trim()) continue
-
-        // 現在のセグメントに追加してみる
-        const newSegment = currentSegment + part
-
-        // 最大長を超えるかチェック
-        if (newSegment.length <= maxLength) {
-          currentSegment = newSegment
-        } else {
-          // 既存のセグメントがあれば保存
-          if (currentSegment.trim()) {
-            segments.push(currentSegment.trim())
-          }
-          currentSegment = part
-        }
-      }
-    }
-
-    // 一文が終わったら保存判定
-    if (currentSegment.length >= maxLength && currentSegment.trim()) {
-      segments.push(currentSegment.trim())
-      currentSegment = ''
-    }
-  }
-
-  // 残りのテキストがあれば追加
-  if (currentSegment.trim()) {
-    segments.push(currentSegment.trim())
-  }
-
-  return segments
+export function splitText(
+  text: string,
+  maxLength: number,
+  options: Omit<TextSegmentOptions, 'maxLength'> = {}
+): string[] {
+  return segmentText(text, { ...options, maxLength })
 }
 
 /**
@@ -0,0 +1,113 @@
+/**
+ * 発話タイミングから口の形（ビゼーム）のタイムラインを作る（Live2D・VRM などのリップシンク用）
+ *
+ * モーラの子音・母音の音素を A/I/U/E/O/N/closed のいずれかに対応させる。
+ * 唇を閉じる子音（m・b・p）などは子音の区間だけその形にし、それ以外の子音は後ろの母音の形で口を動かし始める。
+ * 音声の前後の無音と句読点の間は closed で埋め、時刻は computeAudioTiming() と同じ値を使う
+ */
+import type { AudioTiming } from './audio-timing.js'
+
+/**
+ * 口の形
+ */
+export type Viseme = 'A' | 'I' | 'U' | 'E' | 'O' | 'N' | 'closed'
+
+/**
+ * 音素と口の形の対応（null の子音は後ろの母音の形を使う）
+ */
+export type VisemePhonemeMap = Record<string, Viseme | null>
+
+/**
+ * 組み込みの音素と口の形の対応（無声化した母音は大文字）
+ */
+export const DEFAULT_VISEME_PHONEMES: Readonly<VisemePhonemeMap> = {
+  a: 'A',
+  i: 'I',
+  u: 'U',
+  e: 'E',
+  o: 'O',
+  A: 'A',
+  I: 'I',
+  U: 'U',
+  E: 'E',
+  O: 'O',
+  N: 'N',
+  cl: 'closed',
+  pau: 'closed',
+  m: 'closed',
+  my: 'closed',
+  b: 'closed',
+  by: 'closed',
+  p: 'closed',
+  py: 'closed',
+  f: 'U',
+  v: 'U',
+  w: 'U',
+}
+
+/**
+ * 口の形の 1 区間
+ */
+export interface VisemeCue {
+  /** 口の形（names で名前を変えた場合はその名前） */
+  viseme: string
+  /** 開始時刻（秒） */
+  start: number
+  /** 終了時刻（秒） */
+  end: number
+}
+
+/**
+ * 口の形のタイムライン（音声の先頭から終わりまで隙間なく並ぶ）
+ */
+export interface VisemeTimeline {
+  /** 音声の長さ（秒） */
+  duration: number
+  visemes: VisemeCue[]
+}
+
+export interface VisemeOptions {
+  /** 音素と口の形の対応（組み込みの対応に追加・上書きする） */
+  phonemes?: VisemePhonemeMap
+  /** 出力する口の形の名前（例: { A: 'aa', closed: 'sil' }） */
+  names?: Partial<Record<Viseme, string>>
+}
+
+/**
+ * 発話タイミングから口の形のタイムラインを作る
+ * 同じ口の形が続く区間は 1 つにまとめる
+ *
+ * @example
+ * const query = await client.generateQuery('こんにちは')
+ * const { visemes } = createVisemeTimeline(computeAudioTiming(query), { names: { A: 'aa' } })
+ * // => [{ viseme: 'closed', start: 0, end: 0.096 }, { viseme: 'O', start: 0.096, end: 0.245 }, ...]
+ */
+export function createVisemeTimeline(timing: AudioTiming, options: VisemeOptions = {}): VisemeTimeline {
+  const phonemes: VisemePhonemeMap = { ...DEFAULT_VISEME_PHONEMES, ...options.phonemes }
+  const visemes: VisemeCue[] = []
+  const push = (viseme: Viseme, start: number, end: number) => {
+    if (end <= start) return
+    const name = options.names?.[viseme] ?? viseme
+    const last = visemes.at(-1)
+    if (last && last.viseme === name && last.end === start) {
+      last.end = end
+    } else {
+      visemes.push({ viseme: name, start, end })
+    }
+  }
+
+  let cursor = 0
+  for (const phrase of timing.accentPhrases) {
+    for (const mora of phrase.moras) {
+      push('closed', cursor, mora.start)
+      const consonant = mora.consonant ? phonemes[mora.consonant] : null
+      const vowel = phonemes[mora.vowel] ?? 'closed'
+      if (consonant) push(consonant, mora.start, mora.vowelStart)
+      push(vowel, consonant ? mora.vowelStart : mora.start, mora.end)
+      cursor = Math.max(cursor, mora.end)
+    }
+  }
+  push('closed', cursor, timing.duration)
+
+  return { duration: timing.duration, visemes }
+}
@@ -0,0 +1,93 @@
+/**
+ * WAV（RIFF/WAVE, リニア PCM）の連結
+ */
+
+interface WavParts {
+  /** fmt チャンクの中身 */
+  format: Uint8Array
+  /** data チャンクの中身（PCM） */
+  data: Uint8Array
+}
+
+function readChunkId(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  )
+}
+
+function parseWav(buffer: ArrayBuffer, index: number): WavParts {
+  const view = new DataView(buffer)
+  if (buffer.byteLength < 12 || readChunkId(view, 0) !== 'RIFF' || readChunkId(view, 8) !== 'WAVE') {
+    throw new Error(`WAV の連結に失敗しました: ${index + 1} 番目のデータが RIFF/WAVE ではありません`)
+  }
+
+  let format: Uint8Array | undefined
+  let data: Uint8Array | undefined
+  let offset = 12
+  while (offset + 8 <= buffer.byteLength) {
+    const id = readChunkId(view, offset)
+    const size = view.getUint32(offset + 4, true)
+    const body = new Uint8Array(buffer, offset + 8, Math.min(size, buffer.byteLength - offset - 8))
+    if (id === 'fmt ') format = body
+    if (id === 'data') data = body
+    // チャンクは 2 バイト境界に揃えられる
+    offset += 8 + size + (size % 2)
+  }
+
+  if (!format || !data) {
+    throw new Error(`WAV の連結に失敗しました: ${index + 1} 番目のデータに fmt/data チャンクがありません`)
+  }
+  return { format, data }
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i])
+}
+
+/**
+ * 同じフォーマットの WAV を 1 つにつなげる
+ * SSML のようにセグメントごとに合成した音声を 1 ファイルにまとめるときに使う
+ *
+ * @throws RIFF/WAVE でないデータや、サンプリングレート・チャンネル数などが異なる WAV が含まれる場合
+ */
+export function concatWav(buffers: ArrayBuffer[]): ArrayBuffer {
+  if (buffers.length === 0) {
+    throw new Error('WAV の連結に失敗しました: 音声がありません')
+  }
+  if (buffers.length === 1) return buffers[0]
+
+  const parts = buffers.map(parseWav)
+  const { format } = parts[0]
+  parts.forEach((part, i) => {
+    if (!sameBytes(part.format, format)) {
+      throw new Error(`WAV の連結に失敗しました: ${i + 1} 番目の音声のフォーマットが 1 番目と異なります`)
+    }
+  })
+
+  const dataSize = parts.reduce((sum, part) => sum + part.data.length, 0)
+  const headerSize = 12 + 8 + format.length + 8
+  const result = new Uint8Array(headerSize + dataSize)
+  const view = new DataView(result.buffer)
+  const writeId = (offset: number, id: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, id.charCodeAt(i))
+  }
+
+  writeId(0, 'RIFF')
+  view.setUint32(4, result.length - 8, true)
+  writeId(8, 'WAVE')
+  writeId(12, 'fmt ')
+  view.setUint32(16, format.length, true)
+  result.set(format, 20)
+  writeId(20 + format.length, 'data')
+  view.setUint32(24 + format.length, dataSize, true)
+
+  let offset = headerSize
+  for (const part of parts) {
+    result.set(part.data, offset)
+    offset += part.data.length
+  }
+  return result.buffer
+}